@@ -0,0 +1,140 @@
+/**
+ * Payment Proof Migration Script
+ *
+ * Moves payment proofs uploaded before private storage existed out of the public
+ * bucket and into the private one, and records a PaymentSubmission for each so it
+ * can be viewed (through a signed URL) and reviewed like any new upload.
+ * Run with: npm run db:migrate-payment-proofs
+ */
+
+import dotenv from 'dotenv'
+import { v4 as uuidv4 } from 'uuid'
+import { getSession, closeDriver } from '../src/lib/db'
+import { getMinioClient, uploadPrivateFile } from '../src/lib/minio'
+
+// Load environment variables
+dotenv.config({ path: '.env.local' })
+
+const publicBucketName = process.env.MINIO_BUCKET_NAME || 'product-images'
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  webp: 'image/webp',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+}
+
+async function readObject(objectKey: string): Promise<Buffer> {
+  const stream = await getMinioClient().getObject(publicBucketName, objectKey)
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function migratePaymentProofs() {
+  console.log('🔒 Payment Proof Migration')
+  console.log('='.repeat(60))
+
+  const session = getSession()
+
+  try {
+    // Legacy proofs are stored as full public URLs
+    const result = await session.run(`
+      MATCH (o:Order)
+      WHERE o.paymentProof STARTS WITH 'http'
+      RETURN o.id as id, o.orderNumber as orderNumber, o.status as status, o.paymentProof as url
+    `)
+
+    console.log(`\nFound ${result.records.length} order(s) with public payment proofs\n`)
+
+    let migrated = 0
+    for (const record of result.records) {
+      const orderId: string = record.get('id')
+      const orderNumber: string = record.get('orderNumber')
+      const status: string = record.get('status')
+      const url: string = record.get('url')
+
+      const marker = `/${publicBucketName}/`
+      const publicKey = url.includes(marker) ? url.slice(url.indexOf(marker) + marker.length) : null
+      if (!publicKey) {
+        console.log(`⚠️  ${orderNumber}: unrecognised URL, skipped (${url})`)
+        continue
+      }
+
+      try {
+        const extension = publicKey.split('.').pop()?.toLowerCase() || ''
+        const fileType = CONTENT_TYPES[extension] || 'application/octet-stream'
+        const fileKey = `payment-proofs/${orderId}/${uuidv4()}.${extension}`
+
+        await uploadPrivateFile(await readObject(publicKey), fileKey, fileType)
+
+        // Orders still awaiting payment go to the review queue; later ones were already accepted
+        const awaitingReview = ['PENDING', 'CONFIRMED', 'PAYMENT_SUBMITTED'].includes(status)
+        const now = new Date().toISOString()
+
+        await session.executeWrite((tx) =>
+          tx.run(
+            `
+            MATCH (o:Order {id: $orderId})
+            SET o.paymentProof = $fileKey, o.updatedAt = $now
+            CREATE (ps:PaymentSubmission {
+              id: $submissionId,
+              orderId: $orderId,
+              fileKey: $fileKey,
+              fileType: $fileType,
+              status: $submissionStatus,
+              submittedAt: $now
+            })
+            CREATE (o)-[:HAS_PAYMENT_SUBMISSION]->(ps)
+            WITH o
+            WHERE $awaitingReview AND o.status <> 'PAYMENT_SUBMITTED'
+            CREATE (e:OrderEvent {
+              id: $eventId,
+              orderId: o.id,
+              fromStatus: o.status,
+              toStatus: 'PAYMENT_SUBMITTED',
+              note: 'Payment proof moved to private storage',
+              createdAt: $now
+            })
+            CREATE (o)-[:HAS_EVENT]->(e)
+            SET o.status = 'PAYMENT_SUBMITTED'
+            `,
+            {
+              orderId,
+              fileKey,
+              fileType,
+              submissionId: uuidv4(),
+              submissionStatus: awaitingReview ? 'PENDING_REVIEW' : 'APPROVED',
+              awaitingReview,
+              eventId: uuidv4(),
+              now,
+            }
+          )
+        )
+
+        // Only remove the public copy once the private one is recorded
+        await getMinioClient().removeObject(publicBucketName, publicKey)
+
+        migrated++
+        console.log(`✓ ${orderNumber}`)
+      } catch (error) {
+        console.error(`❌ ${orderNumber}: migration failed`, error)
+      }
+    }
+
+    console.log('\n' + '='.repeat(60))
+    console.log(`✅ Migrated ${migrated} of ${result.records.length} payment proof(s)`)
+  } catch (error) {
+    console.error('❌ Error migrating payment proofs:', error)
+    process.exitCode = 1
+  } finally {
+    await session.close()
+    await closeDriver()
+  }
+}
+
+// Run migration
+migratePaymentProofs()
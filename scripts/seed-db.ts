@@ -8,7 +8,7 @@
 import dotenv from 'dotenv'
 import { getSession, closeDriver } from '../src/lib/db'
 import { hashPassword } from '../src/lib/auth'
-import { createUser, findUserByEmail } from '../src/lib/repositories/user.repository'
+import { createUser, findUserByEmail, setUserRole } from '../src/lib/repositories/user.repository'
 import { seedHeroSlides } from './seed-hero-slides'
 
 // Load environment variables
@@ -61,16 +61,19 @@ async function seedUsers() {
       const passwordHash = await hashPassword(userData.password)
 
       // Create user
-      const user = await createUser({
+      const customer = await createUser({
         email: userData.email,
         password: '', // Dummy value, passwordHash is used instead
         passwordHash,
         firstName: userData.firstName,
         lastName: userData.lastName,
-        role: userData.role,
         phone: userData.phone,
       })
 
+      // New users are always customers; promote the seeded staff accounts afterwards
+      const user =
+        userData.role === 'CUSTOMER' ? customer : (await setUserRole(customer.id, userData.role)) || customer
+
       console.log(`   ✅ Created: ${user.email} (${user.role})`)
       created++
     } catch (error) {
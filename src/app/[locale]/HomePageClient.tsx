@@ -26,6 +26,8 @@ interface HomePageClientProps {
     products: ProductWithVariants[]
   }>
   heroSlides: HeroSlide[]
+  /** Set when an admin is previewing the home page as of another date */
+  previewDate?: string
 }
 
 export default function HomePageClient({
@@ -35,6 +37,7 @@ export default function HomePageClient({
   newArrivals,
   promotionalCategories,
   heroSlides,
+  previewDate,
 }: HomePageClientProps) {
   const locale = useLocale()
   const router = useRouter()
@@ -127,6 +130,15 @@ export default function HomePageClient({
 
   return (
     <main className="min-h-screen bg-gray-50">
+      {previewDate && (
+        <div className="bg-yellow-100 border-b border-yellow-300 px-4 py-2 text-center text-sm text-yellow-900">
+          {t('preview.banner', { date: previewDate })}{' '}
+          <Link href={`/${locale}`} className="font-medium underline">
+            {t('preview.exit')}
+          </Link>
+        </div>
+      )}
+
       {/* Hero Section - Animated Slider */}
       <HeroSlider slides={heroSlides} />
 
@@ -322,7 +334,7 @@ export default function HomePageClient({
           </div>
           <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
             {products.map((product) => (
-              <ProductCard key={product.id} product={product} />
+              <ProductCard key={product.id} product={product} promotionalCategoryId={category.id} />
             ))}
           </div>
         </section>
@@ -0,0 +1,262 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useLocale } from 'next-intl'
+import { getAuditEventsAction } from '@/app/actions/audit'
+import type { AuditChange, AuditEntityType, AuditEvent, AuditEventFilters } from '@/lib/types'
+import { ROLE_LABELS } from '@/lib/permissions'
+import Notification, { type NotificationType } from '@/components/ui/Notification'
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  PRODUCT: 'Product',
+  VARIANT: 'Variant',
+  CATEGORY: 'Category',
+  PROMOTIONAL_CATEGORY: 'Promotional category',
+  HERO_SLIDE: 'Hero slide',
+  COLOR: 'Color',
+  COUPON: 'Coupon',
+  IMAGE: 'Image',
+  ORDER: 'Order',
+  RETURN: 'Return',
+  USER: 'User',
+}
+
+interface AuditLogClientProps {
+  events: AuditEvent[]
+  actors: { id: string; email: string }[]
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function ChangeLine({ change }: { change: AuditChange }) {
+  return (
+    <li className="break-all">
+      <span className="font-medium text-black-700">{change.field}</span>:{' '}
+      {'before' in change && <span className="text-red-700 line-through">{formatValue(change.before)}</span>}
+      {'before' in change && 'after' in change && ' → '}
+      {'after' in change && <span className="text-green-700">{formatValue(change.after)}</span>}
+    </li>
+  )
+}
+
+export default function AuditLogClient({ events: initialEvents, actors }: AuditLogClientProps) {
+  const locale = useLocale()
+  const [events, setEvents] = useState(initialEvents)
+  const [filters, setFilters] = useState<AuditEventFilters>({})
+  const [loading, setLoading] = useState(false)
+  const isFirstSearch = useRef(true)
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    isOpen: boolean
+    type: NotificationType
+    title: string
+    message?: string
+  }>({
+    isOpen: false,
+    type: 'success',
+    title: '',
+  })
+
+  const showNotification = (type: NotificationType, title: string, message?: string) => {
+    setNotification({ isOpen: true, type, title, message })
+  }
+
+  // Reload whenever a filter changes, once the admin pauses typing an ID
+  useEffect(() => {
+    if (isFirstSearch.current) {
+      isFirstSearch.current = false
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      setLoading(true)
+      const result = await getAuditEventsAction(filters)
+      if (result.success && result.data) {
+        setEvents(result.data.events)
+      } else {
+        showNotification('error', 'Failed to load the audit log', result.message)
+      }
+      setLoading(false)
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [filters])
+
+  const updateFilter = (name: keyof AuditEventFilters, value: string) => {
+    setFilters((current) => ({ ...current, [name]: value || undefined }))
+  }
+
+  const exportParams = new URLSearchParams(
+    Object.entries(filters).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-black-700">Audit Log</h1>
+              <p className="mt-1 text-sm text-gray-600">Every change made in the admin area, newest first</p>
+            </div>
+            <Link href={`/${locale}/admin/dashboard`} className="text-sm text-black-700 hover:text-black-700 font-medium flex-shrink-0">
+              ← Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+        {/* Filters */}
+        <div className="flex flex-col lg:flex-row lg:items-end gap-3 mb-4">
+          <label className="text-xs text-gray-600">
+            Entity
+            <select
+              value={filters.entityType ?? ''}
+              onChange={(e) => updateFilter('entityType', e.target.value)}
+              className="mt-1 block w-full rounded border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+            >
+              <option value="">All entities</option>
+              {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            Entity ID
+            <input
+              type="search"
+              value={filters.entityId ?? ''}
+              onChange={(e) => updateFilter('entityId', e.target.value.trim())}
+              placeholder="Any"
+              className="mt-1 block w-full lg:w-72 rounded border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            User
+            <select
+              value={filters.actorId ?? ''}
+              onChange={(e) => updateFilter('actorId', e.target.value)}
+              className="mt-1 block w-full rounded border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+            >
+              <option value="">All users</option>
+              {actors.map((actor) => (
+                <option key={actor.id} value={actor.id}>
+                  {actor.email}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            From
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className="mt-1 block w-full rounded border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            To
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className="mt-1 block w-full rounded border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+            />
+          </label>
+          <a
+            href={`/${locale}/admin/audit/export?${exportParams}`}
+            className="rounded bg-black-700 px-4 py-2 text-center text-sm font-medium text-white hover:bg-black-800"
+          >
+            Export CSV
+          </a>
+          {loading && <span className="self-center text-xs text-gray-500">Loading...</span>}
+        </div>
+
+        {events.length > 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-medium uppercase text-gray-500">
+                <tr>
+                  <th className="px-4 py-3">Time</th>
+                  <th className="px-4 py-3">User</th>
+                  <th className="px-4 py-3">Action</th>
+                  <th className="px-4 py-3">Entity</th>
+                  <th className="px-4 py-3">Changes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 align-top">
+                {events.map((event) => (
+                  <tr key={event.id}>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-600">{formatDateTime(event.createdAt)}</td>
+                    <td className="px-4 py-3">
+                      <p className="text-black-700">{event.actorEmail}</p>
+                      <p className="text-xs text-gray-500">{ROLE_LABELS[event.actorRole] ?? event.actorRole}</p>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap font-mono text-xs text-black-700">{event.action}</td>
+                    <td className="px-4 py-3">
+                      <p className="text-black-700">{event.entityLabel || event.entityId}</p>
+                      <button
+                        onClick={() =>
+                          setFilters((current) => ({ ...current, entityType: event.entityType, entityId: event.entityId }))
+                        }
+                        className="text-xs text-gray-500 underline"
+                        title="Show only this entity's history"
+                      >
+                        {ENTITY_LABELS[event.entityType] ?? event.entityType}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600">
+                      {event.changes.length > 0 ? (
+                        <ul className="space-y-1">
+                          {event.changes.map((change) => (
+                            <ChangeLine key={change.field} change={change} />
+                          ))}
+                        </ul>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <h3 className="text-sm font-medium text-black-700">No changes found</h3>
+            <p className="mt-1 text-sm text-gray-500">Try widening the filters.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Notification */}
+      <Notification
+        type={notification.type}
+        title={notification.title}
+        message={notification.message}
+        isOpen={notification.isOpen}
+        onClose={() => setNotification(prev => ({ ...prev, isOpen: false }))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import { authorize } from '@/lib/auth'
+import { auditEventsToCsv } from '@/lib/audit'
+import { getAuditEvents } from '@/lib/repositories/audit.repository'
+import { getStoreDate, isStoreDate } from '@/lib/schedule'
+import type { AuditEntityType, AuditEventFilters } from '@/lib/types'
+
+// Far more than the viewer shows; the export is for looking further back
+const EXPORT_LIMIT = 10000
+
+/**
+ * Download the audit log as CSV, filtered the same way as the viewer
+ */
+export async function GET(request: Request) {
+  if (!(await authorize('VIEW_AUDIT_LOG'))) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  const params = new URL(request.url).searchParams
+  const date = (name: string) => {
+    const value = params.get(name)
+    return value && isStoreDate(value) ? value : undefined
+  }
+
+  const filters: AuditEventFilters = {
+    entityType: (params.get('entityType') as AuditEntityType | null) || undefined,
+    entityId: params.get('entityId') || undefined,
+    actorId: params.get('actorId') || undefined,
+    from: date('from'),
+    to: date('to'),
+  }
+
+  const events = await getAuditEvents(filters, EXPORT_LIMIT)
+
+  return new Response(auditEventsToCsv(events), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="audit-log-${getStoreDate()}.csv"`,
+      'Cache-Control': 'private, no-store',
+    },
+  })
+}
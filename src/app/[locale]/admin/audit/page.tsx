@@ -0,0 +1,27 @@
+import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/auth'
+import { getAuditActorsAction, getAuditEventsAction } from '@/app/actions/audit'
+import AuditLogClient from './AuditLogClient'
+
+export default async function AdminAuditLogPage() {
+  if (!(await authorize('VIEW_AUDIT_LOG'))) {
+    redirect('/login?redirect=/admin/audit')
+  }
+
+  const [eventsResult, actorsResult] = await Promise.all([getAuditEventsAction(), getAuditActorsAction()])
+
+  if (!eventsResult.success || !eventsResult.data) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+          <h1 className="text-3xl font-bold text-black-700">Audit Log</h1>
+          <div className="mt-8 text-center">
+            <p className="text-gray-600">{eventsResult.message || 'Failed to load the audit log'}</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return <AuditLogClient events={eventsResult.data.events} actors={actorsResult.data?.actors ?? []} />
+}
@@ -1,11 +1,11 @@
 import { redirect } from 'next/navigation'
-import { getCurrentUser } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import CategoriesClient from './CategoriesClient'
 
 export default async function AdminCategoriesPage() {
-  const user = await getCurrentUser()
+  const user = await authorize('MANAGE_CATEGORIES')
 
-  if (!user || user.role?.toUpperCase() !== 'ADMIN') {
+  if (!user) {
     redirect('/login')
   }
 
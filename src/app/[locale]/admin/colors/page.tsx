@@ -1,11 +1,11 @@
 import { redirect } from 'next/navigation'
-import { getCurrentUser } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import ColorsClient from './ColorsClient'
 
 export default async function AdminColorsPage() {
-  const user = await getCurrentUser()
+  const user = await authorize('MANAGE_PRODUCTS')
 
-  if (!user || user.role?.toUpperCase() !== 'ADMIN') {
+  if (!user) {
     redirect('/login')
   }
 
@@ -0,0 +1,706 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { toast } from 'sonner'
+import Link from 'next/link'
+import { useLocale } from 'next-intl'
+import {
+  getCouponsAction,
+  createCouponAction,
+  updateCouponAction,
+  setCouponActiveAction,
+  deleteCouponAction,
+} from '@/app/actions/coupons'
+import { getCategoryTreeAction } from '@/app/actions/categories'
+import { getAllBrandsAction } from '@/app/actions/admin-products'
+import type { Coupon, CouponDiscountType, CouponInput } from '@/lib/types'
+import type { Category } from '@/lib/repositories/category.repository'
+import CategoryPickerDialog from '@/components/category/CategoryPickerDialog'
+import ConfirmDialog from '@/components/ui/ConfirmDialog'
+
+interface CategoryTreeItem extends Category {
+  children?: CategoryTreeItem[]
+}
+
+interface CouponFormState {
+  code: string
+  description: string
+  discountType: CouponDiscountType
+  discountValue: string
+  minimumSpend: string
+  usageLimit: string
+  perUserLimit: string
+  startsAt: string
+  endsAt: string
+  categoryIds: string[]
+  brands: string[]
+}
+
+const EMPTY_FORM: CouponFormState = {
+  code: '',
+  description: '',
+  discountType: 'PERCENTAGE',
+  discountValue: '',
+  minimumSpend: '',
+  usageLimit: '',
+  perUserLimit: '',
+  startsAt: '',
+  endsAt: '',
+  categoryIds: [],
+  brands: [],
+}
+
+const DISCOUNT_TYPE_LABELS: Record<CouponDiscountType, string> = {
+  PERCENTAGE: 'Percentage off',
+  FIXED_AMOUNT: 'Fixed amount off',
+  FREE_SHIPPING: 'Free shipping',
+}
+
+/**
+ * Convert an ISO timestamp to the value a datetime-local input expects (local time)
+ */
+function toDateTimeLocal(iso?: string): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
+function optionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value)
+}
+
+function formatDiscount(coupon: Coupon): string {
+  switch (coupon.discountType) {
+    case 'PERCENTAGE':
+      return `${coupon.discountValue}% off`
+    case 'FIXED_AMOUNT':
+      return `Rs ${coupon.discountValue.toFixed(2)} off`
+    case 'FREE_SHIPPING':
+      return 'Free shipping'
+  }
+}
+
+function getSchedule(coupon: Coupon): { label: string; className: string } {
+  const now = Date.now()
+  if (coupon.endsAt && new Date(coupon.endsAt).getTime() < now) {
+    return { label: 'Expired', className: 'bg-gray-100 text-gray-500' }
+  }
+  if (coupon.startsAt && new Date(coupon.startsAt).getTime() > now) {
+    return { label: 'Scheduled', className: 'bg-blue-100 text-blue-700' }
+  }
+  return { label: 'Live', className: 'bg-green-100 text-green-700' }
+}
+
+export default function CouponsClient() {
+  const locale = useLocale()
+  const [coupons, setCoupons] = useState<Coupon[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [form, setForm] = useState<CouponFormState>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [togglingId, setTogglingId] = useState<string | null>(null)
+  const [categoryNames, setCategoryNames] = useState<Record<string, string>>({})
+  const [brandOptions, setBrandOptions] = useState<string[]>([])
+  const [brandInput, setBrandInput] = useState('')
+  const [showCategoryPicker, setShowCategoryPicker] = useState(false)
+  const [confirmDialog, setConfirmDialog] = useState<{
+    isOpen: boolean
+    title: string
+    message: string
+    onConfirm: () => void
+  }>({ isOpen: false, title: '', message: '', onConfirm: () => {} })
+
+  useEffect(() => {
+    loadCoupons()
+    loadCategories()
+    loadBrands()
+  }, [])
+
+  async function loadCoupons() {
+    setLoading(true)
+    const result = await getCouponsAction()
+    if (result.success && result.data) {
+      setCoupons(result.data)
+    } else {
+      toast.error(result.message || 'Failed to load coupons')
+    }
+    setLoading(false)
+  }
+
+  async function loadCategories() {
+    const result = await getCategoryTreeAction()
+    if (result.success && result.data) {
+      const names: Record<string, string> = {}
+      const collect = (items: CategoryTreeItem[], path: string[]) => {
+        for (const item of items) {
+          const itemPath = [...path, item.name]
+          names[item.id] = itemPath.join(' › ')
+          if (item.children) collect(item.children, itemPath)
+        }
+      }
+      collect(Object.values(result.data).flat() as CategoryTreeItem[], [])
+      setCategoryNames(names)
+    }
+  }
+
+  async function loadBrands() {
+    const result = await getAllBrandsAction()
+    if (result.success && result.data) {
+      setBrandOptions(result.data.brands)
+    }
+  }
+
+  const filteredCoupons = useMemo(() => {
+    if (!search.trim()) return coupons
+    const q = search.toLowerCase()
+    return coupons.filter(
+      (c) =>
+        c.code.toLowerCase().includes(q) ||
+        (c.description ?? '').toLowerCase().includes(q)
+    )
+  }, [coupons, search])
+
+  const activeCount = useMemo(() => coupons.filter((c) => c.isActive).length, [coupons])
+
+  function resetForm() {
+    setForm(EMPTY_FORM)
+    setEditingId(null)
+    setBrandInput('')
+  }
+
+  function handleEdit(coupon: Coupon) {
+    setEditingId(coupon.id)
+    setForm({
+      code: coupon.code,
+      description: coupon.description ?? '',
+      discountType: coupon.discountType,
+      discountValue: coupon.discountType === 'FREE_SHIPPING' ? '' : String(coupon.discountValue),
+      minimumSpend: coupon.minimumSpend?.toString() ?? '',
+      usageLimit: coupon.usageLimit?.toString() ?? '',
+      perUserLimit: coupon.perUserLimit?.toString() ?? '',
+      startsAt: toDateTimeLocal(coupon.startsAt),
+      endsAt: toDateTimeLocal(coupon.endsAt),
+      categoryIds: coupon.categoryIds,
+      brands: coupon.brands,
+    })
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  function addBrand() {
+    const brand = brandInput.trim().toLowerCase()
+    if (brand && !form.brands.includes(brand)) {
+      setForm({ ...form, brands: [...form.brands, brand] })
+    }
+    setBrandInput('')
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!form.code.trim()) return
+
+    const input: CouponInput = {
+      code: form.code,
+      description: form.description.trim() || undefined,
+      discountType: form.discountType,
+      discountValue: form.discountType === 'FREE_SHIPPING' ? 0 : Number(form.discountValue),
+      minimumSpend: optionalNumber(form.minimumSpend),
+      usageLimit: optionalNumber(form.usageLimit),
+      perUserLimit: optionalNumber(form.perUserLimit),
+      startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : undefined,
+      endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : undefined,
+      categoryIds: form.categoryIds,
+      brands: form.brands,
+    }
+
+    setSaving(true)
+    const result = editingId
+      ? await updateCouponAction(editingId, {
+          ...input,
+          isActive: coupons.find((c) => c.id === editingId)?.isActive,
+        })
+      : await createCouponAction(input)
+
+    if (result.success) {
+      toast.success(editingId ? `Coupon "${result.data?.code}" updated` : `Coupon "${result.data?.code}" created`)
+      resetForm()
+      await loadCoupons()
+    } else {
+      toast.error(result.message || 'Failed to save coupon')
+    }
+    setSaving(false)
+  }
+
+  async function handleToggleActive(coupon: Coupon) {
+    setTogglingId(coupon.id)
+    const result = await setCouponActiveAction(coupon.id, !coupon.isActive)
+    if (result.success && result.data) {
+      setCoupons((prev) => prev.map((c) => (c.id === coupon.id ? result.data! : c)))
+      toast.success(result.data.isActive ? `"${coupon.code}" enabled` : `"${coupon.code}" disabled`)
+    } else {
+      toast.error(result.message || 'Failed to update coupon')
+    }
+    setTogglingId(null)
+  }
+
+  function handleDelete(coupon: Coupon) {
+    setConfirmDialog({
+      isOpen: true,
+      title: 'Delete Coupon',
+      message: `Are you sure you want to delete "${coupon.code}"? This cannot be undone.`,
+      onConfirm: async () => {
+        setConfirmDialog((prev) => ({ ...prev, isOpen: false }))
+        const result = await deleteCouponAction(coupon.id)
+        if (result.success) {
+          toast.success(`Coupon "${coupon.code}" deleted`)
+          if (editingId === coupon.id) resetForm()
+          await loadCoupons()
+        } else {
+          toast.error(result.message || 'Failed to delete coupon')
+        }
+      },
+    })
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent text-sm'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-black-700">Coupon Management</h1>
+              <p className="mt-1 text-sm text-gray-600">
+                Create discount codes customers can enter in their cart or at checkout
+              </p>
+            </div>
+            <Link
+              href={`/${locale}/admin`}
+              className="text-sm text-black-700 hover:text-black-700 font-medium flex-shrink-0"
+            >
+              &larr; Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Stats */}
+        <div className="mb-6 flex flex-wrap gap-3">
+          <div className="inline-flex items-center gap-2 bg-white px-4 py-2 rounded-lg shadow-sm border border-gray-200">
+            <span className="text-sm font-medium text-gray-600">Total:</span>
+            <span className="text-lg font-bold text-black-700">{coupons.length}</span>
+          </div>
+          <div className="inline-flex items-center gap-2 bg-white px-4 py-2 rounded-lg shadow-sm border border-gray-200">
+            <span className="text-sm font-medium text-gray-600">Active:</span>
+            <span className="text-lg font-bold text-green-600">{activeCount}</span>
+          </div>
+          <div className="inline-flex items-center gap-2 bg-white px-4 py-2 rounded-lg shadow-sm border border-gray-200">
+            <span className="text-sm font-medium text-gray-600">Disabled:</span>
+            <span className="text-lg font-bold text-gray-400">{coupons.length - activeCount}</span>
+          </div>
+        </div>
+
+        {/* Coupon Form */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+          <h2 className="text-lg font-semibold text-black-700 mb-4">
+            {editingId ? `Edit Coupon ${form.code}` : 'Add New Coupon'}
+          </h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                <input
+                  type="text"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="e.g. SUMMER10"
+                  className={`${inputClass} font-mono uppercase`}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Discount Type</label>
+                <select
+                  value={form.discountType}
+                  onChange={(e) => setForm({ ...form, discountType: e.target.value as CouponDiscountType })}
+                  className={inputClass}
+                >
+                  {(Object.keys(DISCOUNT_TYPE_LABELS) as CouponDiscountType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {DISCOUNT_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {form.discountType !== 'FREE_SHIPPING' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {form.discountType === 'PERCENTAGE' ? 'Percentage (%)' : 'Amount (Rs)'}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max={form.discountType === 'PERCENTAGE' ? 100 : undefined}
+                    step="0.01"
+                    value={form.discountValue}
+                    onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Spend (Rs)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.minimumSpend}
+                  onChange={(e) => setForm({ ...form, minimumSpend: e.target.value })}
+                  placeholder="No minimum"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Internal note, e.g. Newsletter subscribers, summer 2026"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Total Uses</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={form.usageLimit}
+                  onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+                  placeholder="Unlimited"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Uses per Customer</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={form.perUserLimit}
+                  onChange={(e) => setForm({ ...form, perUserLimit: e.target.value })}
+                  placeholder="Unlimited"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                <input
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                <input
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+              {/* Category restriction */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Categories</label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {form.categoryIds.length === 0 && (
+                    <span className="text-sm text-gray-500">All categories</span>
+                  )}
+                  {form.categoryIds.map((id) => (
+                    <span
+                      key={id}
+                      className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700"
+                    >
+                      {categoryNames[id] || id}
+                      <button
+                        type="button"
+                        onClick={() => setForm({ ...form, categoryIds: form.categoryIds.filter((c) => c !== id) })}
+                        className="text-gray-400 hover:text-gray-600"
+                      >
+                        &times;
+                      </button>
+                    </span>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setShowCategoryPicker(true)}
+                    className="text-xs font-medium text-rose-600 hover:text-rose-700"
+                  >
+                    Choose categories
+                  </button>
+                </div>
+              </div>
+
+              {/* Brand restriction */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Brands</label>
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  {form.brands.length === 0 && <span className="text-sm text-gray-500">All brands</span>}
+                  {form.brands.map((brand) => (
+                    <span
+                      key={brand}
+                      className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700 capitalize"
+                    >
+                      {brand}
+                      <button
+                        type="button"
+                        onClick={() => setForm({ ...form, brands: form.brands.filter((b) => b !== brand) })}
+                        className="text-gray-400 hover:text-gray-600"
+                      >
+                        &times;
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    list="coupon-brand-options"
+                    value={brandInput}
+                    onChange={(e) => setBrandInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault()
+                        addBrand()
+                      }
+                    }}
+                    placeholder="Add a brand"
+                    className={inputClass}
+                  />
+                  <datalist id="coupon-brand-options">
+                    {brandOptions.map((brand) => (
+                      <option key={brand} value={brand} />
+                    ))}
+                  </datalist>
+                  <button
+                    type="button"
+                    onClick={addBrand}
+                    disabled={!brandInput.trim()}
+                    className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end gap-3">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={saving || !form.code.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-rose-600 hover:bg-rose-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Add Coupon'}
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {/* Coupon List */}
+        {loading ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <div className="animate-spin h-8 w-8 border-4 border-black-500 border-t-transparent rounded-full mx-auto mb-4" />
+            <p className="text-gray-500">Loading coupons...</p>
+          </div>
+        ) : coupons.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <h3 className="text-lg font-semibold text-black-700 mb-2">No Coupons Yet</h3>
+            <p className="text-sm text-gray-500">Use the form above to create your first coupon code.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            {/* Search / filter bar */}
+            <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+              <div className="relative max-w-sm">
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Filter coupons by code or description..."
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent bg-white"
+                />
+              </div>
+              {search && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Showing {filteredCoupons.length} of {coupons.length} coupons
+                </p>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Code
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Discount
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Applies To
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Usage
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Schedule
+                    </th>
+                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {filteredCoupons.map((coupon) => {
+                    const schedule = getSchedule(coupon)
+                    const restrictions = [
+                      ...coupon.categoryIds.map((id) => categoryNames[id] || id),
+                      ...coupon.brands,
+                    ]
+                    return (
+                      <tr
+                        key={coupon.id}
+                        className={`transition-colors ${coupon.isActive ? 'hover:bg-gray-50' : 'bg-gray-50/50 opacity-60'}`}
+                      >
+                        <td className="px-6 py-3">
+                          <p className="text-sm font-mono font-medium text-black-700">{coupon.code}</p>
+                          {coupon.description && (
+                            <p className="text-xs text-gray-500">{coupon.description}</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-3">
+                          <p className="text-sm text-black-700">{formatDiscount(coupon)}</p>
+                          {coupon.minimumSpend !== undefined && (
+                            <p className="text-xs text-gray-500">Min. Rs {coupon.minimumSpend.toFixed(2)}</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 text-sm text-gray-600 capitalize">
+                          {restrictions.length > 0 ? restrictions.join(', ') : 'Everything'}
+                        </td>
+                        <td className="px-6 py-3">
+                          <p className="text-sm text-black-700">
+                            {coupon.usageCount}
+                            {coupon.usageLimit !== undefined && ` / ${coupon.usageLimit}`}
+                          </p>
+                          {coupon.perUserLimit !== undefined && (
+                            <p className="text-xs text-gray-500">{coupon.perUserLimit} per customer</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-3">
+                          <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${schedule.className}`}>
+                            {schedule.label}
+                          </span>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {coupon.startsAt ? new Date(coupon.startsAt).toLocaleString() : 'Any time'}
+                            {' – '}
+                            {coupon.endsAt ? new Date(coupon.endsAt).toLocaleString() : 'No end'}
+                          </p>
+                        </td>
+                        <td className="px-6 py-3 text-center">
+                          <button
+                            onClick={() => handleToggleActive(coupon)}
+                            disabled={togglingId === coupon.id}
+                            className={`px-2 py-0.5 text-xs font-medium rounded-full transition-colors disabled:opacity-50 ${
+                              coupon.isActive
+                                ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                                : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                            }`}
+                            title={coupon.isActive ? 'Click to disable' : 'Click to enable'}
+                          >
+                            {coupon.isActive ? 'Active' : 'Disabled'}
+                          </button>
+                        </td>
+                        <td className="px-6 py-3 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => handleEdit(coupon)}
+                            className="inline-flex items-center px-2.5 py-1.5 text-xs font-medium text-black-700 hover:bg-gray-100 rounded transition-colors"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(coupon)}
+                            disabled={coupon.usageCount > 0}
+                            title={coupon.usageCount > 0 ? 'Used coupons can only be disabled' : undefined}
+                            className="inline-flex items-center px-2.5 py-1.5 text-xs font-medium text-red-600 hover:text-red-800 hover:bg-red-50 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                  {filteredCoupons.length === 0 && search && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500">
+                        No coupons match &ldquo;{search}&rdquo;
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <CategoryPickerDialog
+        key={form.categoryIds.join(',')}
+        isOpen={showCategoryPicker}
+        onClose={() => setShowCategoryPicker(false)}
+        onConfirm={(categoryIds) => {
+          setForm({ ...form, categoryIds })
+          setShowCategoryPicker(false)
+        }}
+        initialSelectedIds={form.categoryIds}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDialog.isOpen}
+        title={confirmDialog.title}
+        message={confirmDialog.message}
+        onConfirm={confirmDialog.onConfirm}
+        onCancel={() => setConfirmDialog((prev) => ({ ...prev, isOpen: false }))}
+        type="danger"
+      />
+    </div>
+  )
+}
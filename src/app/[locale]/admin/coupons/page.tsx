@@ -0,0 +1,13 @@
+import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/auth'
+import CouponsClient from './CouponsClient'
+
+export default async function AdminCouponsPage() {
+  const user = await authorize('MANAGE_COUPONS')
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  return <CouponsClient />
+}
@@ -1,17 +1,22 @@
 import { redirect } from 'next/navigation'
-import { isAdmin } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth'
+import { isStaffRole, roleHasPermission } from '@/lib/permissions'
+import type { Permission } from '@/lib/types'
 import { getTranslations, getLocale } from 'next-intl/server'
 import Link from 'next/link'
 import { shopConfig } from '@/config/shop'
 
 export default async function AdminDashboardPage() {
-  const adminAccess = await isAdmin()
+  const user = await getCurrentUser()
   const locale = await getLocale()
 
-  if (!adminAccess) {
+  if (!user || !isStaffRole(user.role)) {
     redirect(`/${locale}/login?redirect=/${locale}/admin`)
   }
 
+  // Only show the areas the user's role gives them access to
+  const can = (permission: Permission) => roleHasPermission(user.role, permission)
+
   const t = await getTranslations('admin.dashboard')
 
   return (
@@ -35,242 +40,399 @@ export default async function AdminDashboardPage() {
       <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
         <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
           {/* Products Card */}
-          <Link
-            href={`/${locale}/admin/products`}
-            className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
-          >
-            <div className="flex items-center mb-4">
-              <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
-                <svg
-                  className="h-6 w-6 text-white"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
-                  />
+          {can('MANAGE_PRODUCTS') && (
+            <Link
+              href={`/${locale}/admin/products`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Products</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Manage your product catalog, add new products, update inventory, and more.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
+                {t('manageProducts')}
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </div>
-              <h2 className="ml-4 text-xl font-semibold text-black-700">Products</h2>
-            </div>
-            <p className="text-sm text-gray-600">
-              Manage your product catalog, add new products, update inventory, and more.
-            </p>
-            <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
-              {t('manageProducts')}
-              <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </div>
-          </Link>
+            </Link>
+          )}
 
           {/* Orders Card */}
-          <Link
-            href={`/${locale}/admin/orders`}
-            className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
-          >
-            <div className="flex items-center mb-4">
-              <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
-                <svg
-                  className="h-6 w-6 text-white"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
-                  />
+          {can('MANAGE_ORDERS') && (
+            <Link
+              href={`/${locale}/admin/orders`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Orders</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                View and manage customer orders, update order status, and track fulfillment.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
+                {t('manageOrders')}
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </div>
-              <h2 className="ml-4 text-xl font-semibold text-black-700">Orders</h2>
-            </div>
-            <p className="text-sm text-gray-600">
-              View and manage customer orders, update order status, and track fulfillment.
-            </p>
-            <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
-              {t('manageOrders')}
-              <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </div>
-          </Link>
+            </Link>
+          )}
 
           {/* Inventory Card */}
-          <Link
-            href={`/${locale}/admin/inventory`}
-            className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
-          >
-            <div className="flex items-center mb-4">
-              <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
-                <svg
-                  className="h-6 w-6 text-white"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-                  />
+          {can('VIEW_INVENTORY') && (
+            <Link
+              href={`/${locale}/admin/inventory`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Inventory</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Track stock levels, view low inventory alerts, and manage product variants.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-600 group-hover:text-black-700">
+                {t('viewInventory')}
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </div>
-              <h2 className="ml-4 text-xl font-semibold text-black-700">Inventory</h2>
-            </div>
-            <p className="text-sm text-gray-600">
-              Track stock levels, view low inventory alerts, and manage product variants.
-            </p>
-            <div className="mt-4 flex items-center text-sm font-medium text-black-600 group-hover:text-black-700">
-              {t('viewInventory')}
-              <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </div>
-          </Link>
+            </Link>
+          )}
 
           {/* Promotional Sections Card */}
-          <Link
-            href={`/${locale}/admin/sections`}
-            className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
-          >
-            <div className="flex items-center mb-4">
-              <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
-                <svg
-                  className="h-6 w-6 text-white"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01"
-                  />
+          {can('MANAGE_CONTENT') && (
+            <Link
+              href={`/${locale}/admin/sections`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Promotional Sections</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Create and manage promotional sections like &quot;Best Sellers&quot;, &quot;New Arrivals&quot;, and seasonal offers.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-600 group-hover:text-black-700">
+                Manage Sections
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </div>
-              <h2 className="ml-4 text-xl font-semibold text-black-700">Promotional Sections</h2>
-            </div>
-            <p className="text-sm text-gray-600">
-              Create and manage promotional sections like &quot;Best Sellers&quot;, &quot;New Arrivals&quot;, and seasonal offers.
-            </p>
-            <div className="mt-4 flex items-center text-sm font-medium text-black-600 group-hover:text-black-700">
-              Manage Sections
-              <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </div>
-          </Link>
+            </Link>
+          )}
 
           {/* Hero Slides Card */}
-          <Link
-            href={`/${locale}/admin/hero-slides`}
-            className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
-          >
-            <div className="flex items-center mb-4">
-              <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
-                <svg
-                  className="h-6 w-6 text-white"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-                  />
+          {can('MANAGE_CONTENT') && (
+            <Link
+              href={`/${locale}/admin/hero-slides`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Hero Slides</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Manage homepage hero slider images, animations, and text content.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-600 group-hover:text-black-700">
+                Manage Slides
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </div>
-              <h2 className="ml-4 text-xl font-semibold text-black-700">Hero Slides</h2>
-            </div>
-            <p className="text-sm text-gray-600">
-              Manage homepage hero slider images, animations, and text content.
-            </p>
-            <div className="mt-4 flex items-center text-sm font-medium text-black-600 group-hover:text-black-700">
-              Manage Slides
-              <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </div>
-          </Link>
+            </Link>
+          )}
 
           {/* Custom Filters Card */}
-          <Link
-            href={`/${locale}/admin/filters`}
-            className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
-          >
-            <div className="flex items-center mb-4">
-              <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
-                <svg
-                  className="h-6 w-6 text-white"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
-                  />
+          {can('MANAGE_CATEGORIES') && (
+            <Link
+              href={`/${locale}/admin/filters`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Custom Filters</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Define hierarchical filters to organize products by custom categories like &quot;Office Wares&quot; or &quot;Evening Dresses&quot;.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-indigo-700">
+                Manage Filters
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </div>
-              <h2 className="ml-4 text-xl font-semibold text-black-700">Custom Filters</h2>
-            </div>
-            <p className="text-sm text-gray-600">
-              Define hierarchical filters to organize products by custom categories like &quot;Office Wares&quot; or &quot;Evening Dresses&quot;.
-            </p>
-            <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-indigo-700">
-              Manage Filters
-              <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </div>
-          </Link>
+            </Link>
+          )}
 
           {/* Colors Card */}
-          <Link
-            href={`/${locale}/admin/colors`}
-            className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
-          >
-            <div className="flex items-center mb-4">
-              <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
-                <svg
-                  className="h-6 w-6 text-white"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01"
-                  />
+          {can('MANAGE_PRODUCTS') && (
+            <Link
+              href={`/${locale}/admin/colors`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Colors</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Manage product color swatches for your catalog. Add, edit, and enable/disable colors.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
+                Manage Colors
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
                 </svg>
               </div>
-              <h2 className="ml-4 text-xl font-semibold text-black-700">Colors</h2>
-            </div>
-            <p className="text-sm text-gray-600">
-              Manage product color swatches for your catalog. Add, edit, and enable/disable colors.
-            </p>
-            <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
-              Manage Colors
-              <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </div>
-          </Link>
+            </Link>
+          )}
+
+          {/* Coupons Card */}
+          {can('MANAGE_COUPONS') && (
+            <Link
+              href={`/${locale}/admin/coupons`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Coupons</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Create discount codes with date windows, usage limits and category or brand restrictions.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
+                Manage Coupons
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </Link>
+          )}
+
+          {/* Returns Card */}
+          {can('MANAGE_RETURNS') && (
+            <Link
+              href={`/${locale}/admin/returns`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Returns</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Approve, receive and refund customer returns, and swap sizes for exchanges.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
+                Manage Returns
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </Link>
+          )}
+
+          {/* Users Card */}
+          {can('MANAGE_USERS') && (
+            <Link
+              href={`/${locale}/admin/users`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Users</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Search customer accounts, review their orders, and grant or revoke admin access.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
+                Manage Users
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </Link>
+          )}
+
+          {can('VIEW_AUDIT_LOG') && (
+            <Link
+              href={`/${locale}/admin/audit`}
+              className="group relative bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-shadow border border-gray-200"
+            >
+              <div className="flex items-center mb-4">
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-black-700 group-hover:bg-black-800 transition-colors">
+                  <svg
+                    className="h-6 w-6 text-white"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+                    />
+                  </svg>
+                </div>
+                <h2 className="ml-4 text-xl font-semibold text-black-700">Audit Log</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                See who changed what in the admin area and when, and export the history as CSV.
+              </p>
+              <div className="mt-4 flex items-center text-sm font-medium text-black-700 group-hover:text-black-700">
+                View Audit Log
+                <svg className="ml-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </div>
+            </Link>
+          )}
         </div>
 
         {/* Quick Stats */}
@@ -1,11 +1,11 @@
 import { redirect } from 'next/navigation'
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { getLocale } from 'next-intl/server'
 import { getCategoryTreeAction } from '@/app/actions/categories'
 import CategoriesClient from './CategoriesClient'
 
 export default async function CategoriesPage() {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_CATEGORIES')
   const locale = await getLocale()
 
   if (!adminAccess) {
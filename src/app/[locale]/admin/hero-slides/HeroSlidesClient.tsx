@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from 'react'
 import Link from 'next/link'
 import { useLocale } from 'next-intl'
-import type { HeroSlide, HeroAnimationType, PromotionalCategory, HeroColorTheme } from '@/lib/types'
+import type { HeroSlide, HeroAnimationType, PromotionalCategory, HeroColorTheme, FieldErrors } from '@/lib/types'
 import {
   createHeroSlideAction,
   updateHeroSlideAction,
@@ -14,7 +14,11 @@ import { deleteImage } from '@/app/actions/upload'
 import ImageUpload from '@/components/ui/ImageUpload'
 import Notification from '@/components/ui/Notification'
 import { shopConfig } from '@/config/shop'
+import { createHeroSlideSchema } from '@/lib/schemas'
+import { checkInput } from '@/lib/validation'
 import ConfirmDialog from '@/components/ui/ConfirmDialog'
+import ScheduleBadge from '@/components/admin/ScheduleBadge'
+import HomePreviewLauncher from '@/components/admin/HomePreviewLauncher'
 
 const ANIMATION_OPTIONS: { value: HeroAnimationType; label: string }[] = [
   { value: 'left-panel', label: 'Left Panel' },
@@ -42,6 +46,8 @@ type FormData = {
   subtitle: string
   linkUrl: string
   isActive: boolean
+  startDate: string
+  endDate: string
 }
 
 const emptyForm: FormData = {
@@ -53,6 +59,8 @@ const emptyForm: FormData = {
   subtitle: '',
   linkUrl: '',
   isActive: true,
+  startDate: '',
+  endDate: '',
 }
 
 export default function HeroSlidesClient({ initialSlides, promotionalCategories }: HeroSlidesClientProps) {
@@ -61,6 +69,7 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingSlide, setEditingSlide] = useState<HeroSlide | null>(null)
   const [form, setForm] = useState<FormData>(emptyForm)
+  const [formErrors, setFormErrors] = useState<FieldErrors>({})
   const [saving, setSaving] = useState(false)
   const [sectionDropdownOpen, setSectionDropdownOpen] = useState(false)
   const sectionDropdownRef = useRef<HTMLDivElement>(null)
@@ -95,6 +104,7 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
   const openCreateModal = () => {
     setEditingSlide(null)
     setForm(emptyForm)
+    setFormErrors({})
     setIsModalOpen(true)
   }
 
@@ -109,7 +119,10 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
       subtitle: slide.subtitle,
       linkUrl: slide.linkUrl || '',
       isActive: slide.isActive,
+      startDate: slide.startDate || '',
+      endDate: slide.endDate || '',
     })
+    setFormErrors({})
     setIsModalOpen(true)
   }
 
@@ -120,18 +133,14 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
   }
 
   const handleSave = async () => {
-    if (!form.imageUrl) {
-      showNotification('error', 'Image required', 'Please upload an image for the slide.')
-      return
-    }
-    if (!form.title.trim()) {
-      showNotification('error', 'Title required', 'Please enter a title for the slide.')
-      return
-    }
+    const sanitizedLinkUrl = form.linkUrl === '__custom__' ? '' : form.linkUrl
+    const displayOrder = editingSlide ? editingSlide.displayOrder : slides.length
 
-    setSaving(true)
+    const errors = checkInput(createHeroSlideSchema, { ...form, linkUrl: sanitizedLinkUrl, displayOrder })
+    setFormErrors(errors || {})
+    if (errors) return
 
-    const sanitizedLinkUrl = form.linkUrl === '__custom__' ? '' : form.linkUrl
+    setSaving(true)
 
     try {
       if (editingSlide) {
@@ -145,6 +154,8 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
           subtitle: form.subtitle,
           linkUrl: sanitizedLinkUrl,
           isActive: form.isActive,
+          startDate: form.startDate,
+          endDate: form.endDate,
         })
 
         if (result.success && result.data) {
@@ -162,11 +173,11 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
           showNotification('success', 'Slide updated')
           closeModal()
         } else {
+          setFormErrors(result.fieldErrors || {})
           showNotification('error', 'Failed to update', result.message)
         }
       } else {
         // Create new
-        const displayOrder = slides.length
         const result = await createHeroSlideAction({
           ...form,
           linkUrl: sanitizedLinkUrl,
@@ -178,6 +189,7 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
           showNotification('success', 'Slide created')
           closeModal()
         } else {
+          setFormErrors(result.fieldErrors || {})
           showNotification('error', 'Failed to create', result.message)
         }
       }
@@ -258,12 +270,15 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
               ← Back to Dashboard
             </Link>
           </div>
-          <button
-            onClick={openCreateModal}
-            className="mt-4 w-full sm:w-auto px-4 py-2 bg-black-700 text-white rounded-lg hover:bg-black-800 transition-colors text-sm font-medium"
-          >
-            + Add Slide
-          </button>
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <button
+              onClick={openCreateModal}
+              className="w-full sm:w-auto px-4 py-2 bg-black-700 text-white rounded-lg hover:bg-black-800 transition-colors text-sm font-medium"
+            >
+              + Add Slide
+            </button>
+            <HomePreviewLauncher />
+          </div>
         </div>
       </div>
 
@@ -368,6 +383,9 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
                       <p className="text-xs text-gray-500 truncate mb-0.5">{slide.badgeText}</p>
                     )}
                     <p className="text-sm text-gray-600 truncate">{slide.subtitle}</p>
+                    <div className="mt-1">
+                      <ScheduleBadge schedule={slide} />
+                    </div>
                   </div>
 
                   {/* Actions */}
@@ -486,6 +504,9 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
                       {slide.subtitle && (
                         <p className="text-xs text-gray-600 truncate mt-1">{slide.subtitle}</p>
                       )}
+                      <div className="mt-1">
+                        <ScheduleBadge schedule={slide} />
+                      </div>
 
                       {/* Actions row */}
                       <div className="flex items-center gap-3 mt-2 pt-2 border-t border-gray-100">
@@ -579,6 +600,7 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
                     setForm((prev) => ({ ...prev, imageUrl: urls[0] || '' }))
                   }}
                 />
+                {formErrors.imageUrl && <p className="text-xs text-red-600">{formErrors.imageUrl}</p>}
 
                 {/* Animation Type */}
                 <div>
@@ -663,6 +685,7 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
                     placeholder={`e.g. ${shopConfig.name}`}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent text-sm"
                   />
+                  {formErrors.title && <p className="mt-1 text-xs text-red-600">{formErrors.title}</p>}
                 </div>
 
                 {/* Subtitle */}
@@ -677,6 +700,7 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
                     placeholder={`e.g. ${shopConfig.tagline}`}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent text-sm"
                   />
+                  {formErrors.subtitle && <p className="mt-1 text-xs text-red-600">{formErrors.subtitle}</p>}
                 </div>
 
                 {/* Redirect to Section */}
@@ -766,6 +790,7 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
                       className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent text-sm"
                     />
                   )}
+                  {formErrors.linkUrl && <p className="mt-1 text-xs text-red-600">{formErrors.linkUrl}</p>}
                 </div>
 
                 {/* Active checkbox */}
@@ -781,6 +806,41 @@ export default function HeroSlidesClient({ initialSlides, promotionalCategories
                     Active (visible on homepage)
                   </label>
                 </div>
+
+                {/* Schedule */}
+                <div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="slide-start" className="block text-sm font-medium text-gray-700 mb-1">
+                        Start Date (Optional)
+                      </label>
+                      <input
+                        id="slide-start"
+                        type="date"
+                        value={form.startDate}
+                        onChange={(e) => setForm((prev) => ({ ...prev, startDate: e.target.value }))}
+                        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+                      />
+                      {formErrors.startDate && <p className="mt-1 text-xs text-red-600">{formErrors.startDate}</p>}
+                    </div>
+                    <div>
+                      <label htmlFor="slide-end" className="block text-sm font-medium text-gray-700 mb-1">
+                        End Date (Optional)
+                      </label>
+                      <input
+                        id="slide-end"
+                        type="date"
+                        value={form.endDate}
+                        onChange={(e) => setForm((prev) => ({ ...prev, endDate: e.target.value }))}
+                        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+                      />
+                      {formErrors.endDate && <p className="mt-1 text-xs text-red-600">{formErrors.endDate}</p>}
+                    </div>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Active slides are shown from the start date through the end date ({shopConfig.timezone} time).
+                  </p>
+                </div>
               </div>
 
               {/* Footer */}
@@ -1,12 +1,12 @@
 import { redirect } from 'next/navigation'
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { getLocale } from 'next-intl/server'
 import { getAllHeroSlidesAction } from '@/app/actions/hero-slides'
 import { getAllPromotionalCategoriesAction } from '@/app/actions/promotional-categories'
 import HeroSlidesClient from './HeroSlidesClient'
 
 export default async function HeroSlidesPage() {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_CONTENT')
   const locale = await getLocale()
 
   if (!adminAccess) {
@@ -1,10 +1,10 @@
 import { redirect } from 'next/navigation'
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { getAdminProductsAction } from '@/app/actions/admin-products'
 import InventoryDashboardClient from './InventoryDashboardClient'
 
 export default async function InventoryPage() {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('VIEW_INVENTORY')
 
   if (!adminAccess) {
     redirect('/login?redirect=/admin/inventory')
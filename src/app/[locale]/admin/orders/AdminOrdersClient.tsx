@@ -3,11 +3,22 @@
 import { useState } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
-import { useLocale } from 'next-intl'
+import { useLocale, useTranslations } from 'next-intl'
 import { updateAdminOrderStatusAction } from '@/app/actions/admin-orders'
 import type { OrderWithItems } from '@/lib/repositories/order.repository'
-import type { OrderStatus } from '@/lib/types'
+import type { OrderEvent, OrderStatus, PaymentSubmission } from '@/lib/types'
+import { canRefundItems, getAllowedTransitions, requiresPaymentReview } from '@/lib/order-lifecycle'
+import { matchesOrderNumber } from '@/lib/order-number'
 import Notification, { type NotificationType } from '@/components/ui/Notification'
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge'
+import OrderTimeline from '@/components/orders/OrderTimeline'
+import PaymentReviewQueue from './PaymentReviewQueue'
+import ItemRefundForm from './ItemRefundForm'
+
+const AWAITING_PAYMENT: OrderStatus[] = ['PENDING', 'PAYMENT_SUBMITTED']
+const IN_PROGRESS: OrderStatus[] = ['PAYMENT_VERIFIED', 'PROCESSING', 'SHIPPED', 'READY_FOR_COLLECTION', 'CONFIRMED']
+const COMPLETED: OrderStatus[] = ['DELIVERED', 'COLLECTED', 'FULFILLED']
+const NEGATIVE: OrderStatus[] = ['CANCELLED', 'REFUNDED']
 
 interface AdminOrdersClientProps {
   orders: OrderWithItems[]
@@ -15,8 +26,13 @@ interface AdminOrdersClientProps {
 
 export default function AdminOrdersClient({ orders: initialOrders }: AdminOrdersClientProps) {
   const locale = useLocale()
+  const tStatus = useTranslations('order.status')
   const [orders, setOrders] = useState(initialOrders)
   const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [view, setView] = useState<'all' | 'payments'>('all')
+  const [refundingItemId, setRefundingItemId] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
 
   // Notification state
   const [notification, setNotification] = useState<{
@@ -41,14 +57,16 @@ export default function AdminOrdersClient({ orders: initialOrders }: AdminOrders
   const handleStatusUpdate = async (orderId: string, newStatus: OrderStatus) => {
     setUpdatingId(orderId)
 
-    const result = await updateAdminOrderStatusAction(orderId, newStatus)
+    const result = await updateAdminOrderStatusAction(orderId, newStatus, notes[orderId])
 
-    if (result.success) {
+    if (result.success && result.data) {
+      const event = result.data.event
       setOrders(orders.map(o =>
         o.id === orderId
-          ? { ...o, status: newStatus, updatedAt: new Date().toISOString() }
+          ? { ...o, status: newStatus, updatedAt: event.createdAt, events: [...o.events, event] }
           : o
       ))
+      setNotes(prev => ({ ...prev, [orderId]: '' }))
       showNotification('success', 'Order status updated successfully')
     } else {
       showNotification('error', 'Failed to update order status', result.message || 'Failed to update order status')
@@ -57,26 +75,56 @@ export default function AdminOrdersClient({ orders: initialOrders }: AdminOrders
     setUpdatingId(null)
   }
 
-  const getStatusColor = (status: OrderStatus) => {
-    switch (status) {
-      case 'PENDING':
-        return 'bg-gray-100 text-black-700'
-      case 'CONFIRMED':
-        return 'bg-gray-100 text-black-700'
-      case 'FULFILLED':
-        return 'bg-green-100 text-green-700'
-      case 'CANCELLED':
-        return 'bg-red-100 text-red-700'
-      default:
-        return 'bg-gray-100 text-gray-700'
-    }
+  const handlePaymentReviewed = (
+    orderId: string,
+    newStatus: OrderStatus,
+    event: OrderEvent,
+    submission: PaymentSubmission
+  ) => {
+    setOrders(orders.map(o =>
+      o.id === orderId
+        ? {
+            ...o,
+            status: newStatus,
+            updatedAt: event.createdAt,
+            events: [...o.events, event],
+            paymentSubmissions: o.paymentSubmissions.map(s => (s.id === submission.id ? submission : s)),
+          }
+        : o
+    ))
+    showNotification(
+      'success',
+      submission.status === 'APPROVED' ? 'Payment approved' : 'Payment proof rejected'
+    )
+  }
+
+  const handleItemRefunded = (updatedOrder: OrderWithItems, message?: string) => {
+    setOrders(orders.map(o => (o.id === updatedOrder.id ? updatedOrder : o)))
+    setRefundingItemId(null)
+    showNotification('success', message || 'Item cancelled')
+  }
+
+  const getTransitionButtonColor = (status: OrderStatus) => {
+    if (NEGATIVE.includes(status)) return 'bg-red-600 hover:bg-red-700'
+    if (COMPLETED.includes(status)) return 'bg-green-600 hover:bg-green-700'
+    if (status === 'PENDING') return 'bg-gray-500 hover:bg-gray-600'
+    return 'bg-black-700 hover:bg-black-800'
   }
 
-  const pendingCount = orders.filter(o => o.status === 'PENDING').length
-  const confirmedCount = orders.filter(o => o.status === 'CONFIRMED').length
-  const fulfilledCount = orders.filter(o => o.status === 'FULFILLED').length
+  const paymentReviewOrders = orders.filter(o => o.status === 'PAYMENT_SUBMITTED')
+  const pendingCount = orders.filter(o => AWAITING_PAYMENT.includes(o.status)).length
+  const inProgressCount = orders.filter(o => IN_PROGRESS.includes(o.status)).length
+  const completedCount = orders.filter(o => COMPLETED.includes(o.status)).length
   const totalRevenue = orders.reduce((sum, o) => sum + o.totalAmount, 0)
 
+  // Search by order number (new or timestamp style), customer name or email
+  const searchTerm = search.trim().toLowerCase()
+  const filteredOrders = orders.filter(o =>
+    matchesOrderNumber(o.orderNumber, search) ||
+    o.shippingAddress.fullName.toLowerCase().includes(searchTerm) ||
+    (o.guestEmail ?? '').includes(searchTerm)
+  )
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -98,16 +146,16 @@ export default function AdminOrdersClient({ orders: initialOrders }: AdminOrders
       <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
         <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
           <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
-            <p className="text-sm font-medium text-gray-600">Pending Orders</p>
+            <p className="text-sm font-medium text-gray-600">Awaiting Payment</p>
             <p className="mt-2 text-3xl font-bold text-black-600">{pendingCount}</p>
           </div>
           <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
-            <p className="text-sm font-medium text-gray-600">Confirmed Orders</p>
-            <p className="mt-2 text-3xl font-bold text-black-600">{confirmedCount}</p>
+            <p className="text-sm font-medium text-gray-600">In Progress</p>
+            <p className="mt-2 text-3xl font-bold text-black-600">{inProgressCount}</p>
           </div>
           <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
-            <p className="text-sm font-medium text-gray-600">Fulfilled Orders</p>
-            <p className="mt-2 text-3xl font-bold text-green-600">{fulfilledCount}</p>
+            <p className="text-sm font-medium text-gray-600">Completed Orders</p>
+            <p className="mt-2 text-3xl font-bold text-green-600">{completedCount}</p>
           </div>
           <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
             <p className="text-sm font-medium text-gray-600">Total Revenue</p>
@@ -118,174 +166,306 @@ export default function AdminOrdersClient({ orders: initialOrders }: AdminOrders
 
       {/* Orders List */}
       <div className="mx-auto max-w-7xl px-4 pb-8 sm:px-6 lg:px-8">
-        <div className="space-y-4">
-          {orders.map((order) => {
-            const orderDate = new Date(order.createdAt).toLocaleDateString('en-US', {
-              year: 'numeric',
-              month: 'short',
-              day: 'numeric',
-              hour: '2-digit',
-              minute: '2-digit',
-            })
+        {/* View switcher */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          <button
+            onClick={() => setView('all')}
+            className={`px-4 py-2 text-sm font-medium transition-all duration-200 ${
+              view === 'all' ? 'bg-black-700 text-white shadow-sm' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            All Orders
+          </button>
+          <button
+            onClick={() => setView('payments')}
+            className={`px-4 py-2 text-sm font-medium transition-all duration-200 ${
+              view === 'payments' ? 'bg-black-700 text-white shadow-sm' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Payment Review ({paymentReviewOrders.length})
+          </button>
+          {view === 'all' && (
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search order number, name or email"
+              className="w-full sm:w-80 sm:ml-auto rounded border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+            />
+          )}
+        </div>
 
-            return (
-              <div key={order.id} className="bg-white rounded-lg shadow-sm border border-gray-200">
-                {/* Order Header */}
-                <div className="border-b border-gray-200 px-4 sm:px-6 py-4">
-                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-                    <div className="grid grid-cols-2 sm:flex sm:items-center gap-3 sm:gap-6">
-                      <div>
-                        <p className="text-xs text-gray-600">Order Number</p>
-                        <p className="font-semibold text-black-700 text-sm sm:text-base">{order.orderNumber}</p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-gray-600">Date</p>
-                        <p className="text-sm text-black-700">{orderDate}</p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-gray-600">Total</p>
-                        <p className="text-sm font-semibold text-black-700">
-                          Rs {order.totalAmount.toFixed(2)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-gray-600">Items</p>
-                        <p className="text-sm text-black-700">{order.items.length} items</p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-gray-600">Delivery</p>
-                        <p className="text-sm text-black-700">
-                          {order.deliveryMethod === 'SHIP' ? '📦 Ship' : '🏪 Collect'}
-                        </p>
+        {view === 'payments' ? (
+          <PaymentReviewQueue
+            orders={paymentReviewOrders}
+            onReviewed={handlePaymentReviewed}
+            onError={(title, message) => showNotification('error', title, message)}
+          />
+        ) : (
+          <>
+            <div className="space-y-4">
+              {filteredOrders.map((order) => {
+                const orderDate = new Date(order.createdAt).toLocaleDateString('en-US', {
+                  year: 'numeric',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })
+                const allowedTransitions = getAllowedTransitions(order.status, order.deliveryMethod)
+                  .filter(next => !requiresPaymentReview(order.status, next))
+
+                return (
+                  <div key={order.id} className="bg-white rounded-lg shadow-sm border border-gray-200">
+                    {/* Order Header */}
+                    <div className="border-b border-gray-200 px-4 sm:px-6 py-4">
+                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                        <div className="grid grid-cols-2 sm:flex sm:items-center gap-3 sm:gap-6">
+                          <div>
+                            <p className="text-xs text-gray-600">Order Number</p>
+                            <p className="font-semibold text-black-700 text-sm sm:text-base">{order.orderNumber}</p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-gray-600">Date</p>
+                            <p className="text-sm text-black-700">{orderDate}</p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-gray-600">Total</p>
+                            <p className="text-sm font-semibold text-black-700">
+                              Rs {order.totalAmount.toFixed(2)}
+                            </p>
+                            {order.couponCode && (
+                              <p className="text-xs text-green-600">Coupon {order.couponCode}</p>
+                            )}
+                            {(order.refundedAmount ?? 0) > 0 && (
+                              <p className="text-xs text-red-600">Refunded Rs {order.refundedAmount!.toFixed(2)}</p>
+                            )}
+                          </div>
+                          <div>
+                            <p className="text-xs text-gray-600">Items</p>
+                            <p className="text-sm text-black-700">{order.items.length} items</p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-gray-600">Delivery</p>
+                            <p className="text-sm text-black-700">
+                              {order.deliveryMethod === 'SHIP' ? '📦 Ship' : '🏪 Collect'}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-4">
+                          <OrderStatusBadge status={order.status} />
+                          <Link
+                            href={`/${locale}/order/${order.id}/documents/invoice`}
+                            className="text-sm text-gray-600 hover:text-black-700"
+                            target="_blank"
+                          >
+                            Invoice
+                          </Link>
+                          <Link
+                            href={`/${locale}/order/${order.id}/documents/packing-slip`}
+                            className="text-sm text-gray-600 hover:text-black-700"
+                            target="_blank"
+                          >
+                            Packing Slip
+                          </Link>
+                          <Link
+                            href={`/${locale}/order/${order.id}`}
+                            className="text-sm font-medium text-black-700 hover:text-black-700"
+                            target="_blank"
+                          >
+                            View Details →
+                          </Link>
+                        </div>
                       </div>
                     </div>
-                    <div className="flex items-center gap-4">
-                      <span className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${getStatusColor(order.status)}`}>
-                        {order.status}
-                      </span>
-                      <Link
-                        href={`/${locale}/order/${order.id}`}
-                        className="text-sm font-medium text-black-700 hover:text-black-700"
-                        target="_blank"
-                      >
-                        View Details →
-                      </Link>
-                    </div>
-                  </div>
-                </div>
 
-                {/* Order Items */}
-                <div className="px-6 py-4">
-                  <div className="space-y-3 mb-4">
-                    {order.items.map((item) => (
-                      <div key={item.id} className="flex gap-3">
-                        <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-lg bg-gray-100">
-                          {(item.variant.images?.[0] || item.product.images?.[0]) ? (
-                            <Image
-                              src={item.variant.images?.[0] || item.product.images[0]}
-                              alt={item.product.name}
-                              fill
-                              className="object-cover"
-                              sizes="64px"
-                            />
-                          ) : (
-                            <div className="flex h-full items-center justify-center text-gray-400 text-xs">
-                              No Image
+                    {/* Order Items */}
+                    <div className="px-6 py-4">
+                      <div className="space-y-3 mb-4">
+                        {order.items.map((item) => {
+                          const cancelled = item.cancelledQuantity ?? 0
+                          const canRefund = canRefundItems(order.status) && cancelled < item.quantity
+
+                          return (
+                            <div key={item.id}>
+                              <div className="flex gap-3">
+                                <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-lg bg-gray-100">
+                                  {(item.variant.images?.[0] || item.product.images?.[0]) ? (
+                                    <Image
+                                      src={item.variant.images?.[0] || item.product.images[0]}
+                                      alt={item.product.name}
+                                      fill
+                                      className="object-cover"
+                                      sizes="64px"
+                                    />
+                                  ) : (
+                                    <div className="flex h-full items-center justify-center text-gray-400 text-xs">
+                                      No Image
+                                    </div>
+                                  )}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                  <p className="text-sm font-medium text-black-700 truncate">{item.product.name}</p>
+                                  <p className="text-xs text-gray-600">{item.product.brand}</p>
+                                  <p className="text-xs text-gray-500">
+                                    Size: {item.variant.size} • Color: {item.variant.color} • Qty: {item.quantity}
+                                  </p>
+                                  {cancelled > 0 && (
+                                    <p className="text-xs text-red-600">{cancelled} cancelled</p>
+                                  )}
+                                </div>
+                                <div className="text-right">
+                                  <p className="text-sm font-semibold text-black-700">
+                                    Rs {(item.priceAtPurchase * item.quantity).toFixed(2)}
+                                  </p>
+                                  {canRefund && refundingItemId !== item.id && (
+                                    <button
+                                      onClick={() => setRefundingItemId(item.id)}
+                                      className="text-xs font-medium text-red-600 hover:text-red-700"
+                                    >
+                                      Cancel / Refund
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+                              {canRefund && refundingItemId === item.id && (
+                                <ItemRefundForm
+                                  order={order}
+                                  item={item}
+                                  onRefunded={handleItemRefunded}
+                                  onError={(title, message) => showNotification('error', title, message)}
+                                  onClose={() => setRefundingItemId(null)}
+                                />
+                              )}
                             </div>
-                          )}
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium text-black-700 truncate">{item.product.name}</p>
-                          <p className="text-xs text-gray-600">{item.product.brand}</p>
-                          <p className="text-xs text-gray-500">
-                            Size: {item.variant.size} • Color: {item.variant.color} • Qty: {item.quantity}
-                          </p>
+                          )
+                        })}
+                      </div>
+
+                      {/* Refunds */}
+                      {order.refunds.length > 0 && (
+                        <div className="border-t border-gray-200 pt-4 mb-4">
+                          <p className="text-xs font-medium text-gray-600 mb-2">Cancellations & Refunds</p>
+                          <ul className="space-y-1 text-xs text-gray-700">
+                            {order.refunds.map((refund) => {
+                              const refundedItem = order.items.find(i => i.id === refund.orderItemId)
+                              return (
+                                <li key={refund.id}>
+                                  {new Date(refund.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                                  {' • '}{refund.quantity} × {refundedItem?.product.name ?? 'Item'}
+                                  {' • '}Rs {refund.amount.toFixed(2)} ({refund.method.replace('_', ' ').toLowerCase()})
+                                  {refund.restocked && ' • restocked'}
+                                  {refund.reason && <> • {refund.reason}</>}
+                                  {refund.actorEmail && <span className="text-gray-500"> • by {refund.actorEmail}</span>}
+                                </li>
+                              )
+                            })}
+                          </ul>
                         </div>
-                        <div className="text-right">
-                          <p className="text-sm font-semibold text-black-700">
-                            Rs {(item.priceAtPurchase * item.quantity).toFixed(2)}
+                      )}
+
+                      {/* Shipping Address */}
+                      <div className="border-t border-gray-200 pt-4 mb-4">
+                        <p className="text-xs font-medium text-gray-600 mb-2">Shipping Address</p>
+                        <div className="text-sm text-black-700">
+                          <p className="font-medium">{order.shippingAddress.fullName}</p>
+                          <p>{order.shippingAddress.addressLine1}</p>
+                          {order.shippingAddress.addressLine2 && <p>{order.shippingAddress.addressLine2}</p>}
+                          <p>
+                            {order.shippingAddress.city}, {order.shippingAddress.state} {order.shippingAddress.postalCode}
                           </p>
+                          <p>{order.shippingAddress.country}</p>
+                          <p className="mt-1 text-gray-600">Phone: {order.shippingAddress.phone}</p>
+                          {order.guestEmail && !order.userId && (
+                            <p className="text-gray-600">Guest: {order.guestEmail}</p>
+                          )}
                         </div>
                       </div>
-                    ))}
-                  </div>
 
-                  {/* Shipping Address */}
-                  <div className="border-t border-gray-200 pt-4 mb-4">
-                    <p className="text-xs font-medium text-gray-600 mb-2">Shipping Address</p>
-                    <div className="text-sm text-black-700">
-                      <p className="font-medium">{order.shippingAddress.fullName}</p>
-                      <p>{order.shippingAddress.addressLine1}</p>
-                      {order.shippingAddress.addressLine2 && <p>{order.shippingAddress.addressLine2}</p>}
-                      <p>
-                        {order.shippingAddress.city}, {order.shippingAddress.state} {order.shippingAddress.postalCode}
-                      </p>
-                      <p>{order.shippingAddress.country}</p>
-                      <p className="mt-1 text-gray-600">Phone: {order.shippingAddress.phone}</p>
-                    </div>
-                  </div>
+                      {/* Order History */}
+                      <div className="border-t border-gray-200 pt-4 mb-4">
+                        <p className="text-xs font-medium text-gray-600 mb-2">Order History</p>
+                        <OrderTimeline events={order.events} showActor />
+                      </div>
 
-                  {/* Status Actions */}
-                  <div className="border-t border-gray-200 pt-4">
-                    <p className="text-xs font-medium text-gray-600 mb-2">Update Status</p>
-                    <div className="flex items-center gap-2">
-                      <button
-                        onClick={() => handleStatusUpdate(order.id, 'CONFIRMED')}
-                        disabled={updatingId === order.id || order.status === 'CONFIRMED'}
-                        className="px-3 py-1 text-xs font-medium text-white bg-black-700 rounded hover:bg-black-800 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        Confirm
-                      </button>
-                      <button
-                        onClick={() => handleStatusUpdate(order.id, 'FULFILLED')}
-                        disabled={updatingId === order.id || order.status === 'FULFILLED'}
-                        className="px-3 py-1 text-xs font-medium text-white bg-green-600 rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        Mark as Fulfilled
-                      </button>
-                      <button
-                        onClick={() => handleStatusUpdate(order.id, 'CANCELLED')}
-                        disabled={updatingId === order.id || order.status === 'CANCELLED' || order.status === 'FULFILLED'}
-                        className="px-3 py-1 text-xs font-medium text-white bg-red-600 rounded hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        Cancel
-                      </button>
-                      {updatingId === order.id && (
-                        <span className="text-xs text-gray-500">Updating...</span>
-                      )}
+                      {/* Status Actions */}
+                      <div className="border-t border-gray-200 pt-4">
+                        <p className="text-xs font-medium text-gray-600 mb-2">Update Status</p>
+                        {allowedTransitions.length === 0 ? (
+                          <p className="text-xs text-gray-500">No further status changes are possible for this order.</p>
+                        ) : (
+                          <div className="space-y-2">
+                            <input
+                              type="text"
+                              value={notes[order.id] || ''}
+                              onChange={(e) => setNotes(prev => ({ ...prev, [order.id]: e.target.value }))}
+                              placeholder="Optional note (e.g. tracking number)"
+                              className="w-full sm:w-96 rounded border border-gray-300 px-3 py-1.5 text-sm focus:border-black-700 focus:outline-none"
+                              disabled={updatingId === order.id}
+                            />
+                            <div className="flex flex-wrap items-center gap-2">
+                              {order.status === 'PAYMENT_SUBMITTED' && (
+                              <button
+                                onClick={() => setView('payments')}
+                                className="px-3 py-1 text-xs font-medium text-white bg-yellow-600 rounded hover:bg-yellow-700"
+                              >
+                                Review Payment Proof
+                              </button>
+                            )}
+                            {allowedTransitions.map((nextStatus) => (
+                                <button
+                                  key={nextStatus}
+                                  onClick={() => handleStatusUpdate(order.id, nextStatus)}
+                                  disabled={updatingId === order.id}
+                                  className={`px-3 py-1 text-xs font-medium text-white rounded disabled:opacity-50 disabled:cursor-not-allowed ${getTransitionButtonColor(nextStatus)}`}
+                                >
+                                  → {tStatus(nextStatus)}
+                                </button>
+                              ))}
+                              {updatingId === order.id && (
+                                <span className="text-xs text-gray-500">Updating...</span>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              </div>
-            )
-          })}
-        </div>
+                )
+              })}
+            </div>
 
-        {orders.length === 0 && (
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
-            <svg
-              className="mx-auto h-12 w-12 text-gray-400"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
-              />
-            </svg>
-            <h3 className="mt-2 text-sm font-medium text-black-700">No orders</h3>
-            <p className="mt-1 text-sm text-gray-500">Orders will appear here when customers place them.</p>
-          </div>
-        )}
+            {filteredOrders.length === 0 && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+                <svg
+                  className="mx-auto h-12 w-12 text-gray-400"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
+                  />
+                </svg>
+                <h3 className="mt-2 text-sm font-medium text-black-700">No orders</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  {orders.length === 0
+                    ? 'Orders will appear here when customers place them.'
+                    : 'No orders match your search.'}
+                </p>
+              </div>
+            )}
 
-        {/* Summary */}
-        {orders.length > 0 && (
-          <div className="mt-6 text-sm text-gray-600">
-            <p>Showing {orders.length} orders</p>
-          </div>
+            {/* Summary */}
+            {filteredOrders.length > 0 && (
+              <div className="mt-6 text-sm text-gray-600">
+                <p>Showing {filteredOrders.length} of {orders.length} orders</p>
+              </div>
+            )}
+          </>
         )}
       </div>
 
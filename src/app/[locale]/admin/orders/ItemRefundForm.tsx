@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import { refundOrderItemAction } from '@/app/actions/admin-orders'
+import type { OrderWithItems } from '@/lib/repositories/order.repository'
+import type { RefundMethod } from '@/lib/types'
+import { canSubmitPayment, holdsStock } from '@/lib/order-lifecycle'
+import { roundCurrency } from '@/lib/pricing'
+
+const REFUND_METHODS: { value: RefundMethod; label: string }[] = [
+  { value: 'BANK_TRANSFER', label: 'Bank transfer' },
+  { value: 'CASH', label: 'Cash' },
+  { value: 'STORE_CREDIT', label: 'Store credit' },
+  { value: 'NONE', label: 'No refund (not paid)' },
+]
+
+interface ItemRefundFormProps {
+  order: OrderWithItems
+  item: OrderWithItems['items'][number]
+  onRefunded: (order: OrderWithItems, message?: string) => void
+  onError: (title: string, message?: string) => void
+  onClose: () => void
+}
+
+/**
+ * What the customer actually paid for some units of a line:
+ * its price less the line's share of any order discount, capped at what's still owed
+ */
+function suggestRefund(order: OrderWithItems, item: ItemRefundFormProps['item'], quantity: number): number {
+  const subtotal = order.subtotal ?? 0
+  const discountShare = subtotal > 0 ? (order.discountAmount ?? 0) / subtotal : 0
+  const value = item.priceAtPurchase * quantity * (1 - discountShare)
+  return roundCurrency(Math.min(value, order.totalAmount))
+}
+
+export default function ItemRefundForm({ order, item, onRefunded, onError, onClose }: ItemRefundFormProps) {
+  const remaining = item.quantity - (item.cancelledQuantity ?? 0)
+  // Nothing to give back on an order that hasn't been paid yet
+  const unpaid = canSubmitPayment(order.status)
+  const stockHeld = holdsStock(order.status)
+
+  const [quantity, setQuantity] = useState(remaining)
+  const [amount, setAmount] = useState(unpaid ? 0 : suggestRefund(order, item, remaining))
+  const [method, setMethod] = useState<RefundMethod>(unpaid ? 'NONE' : 'BANK_TRANSFER')
+  const [restock, setRestock] = useState(true)
+  const [reason, setReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleQuantityChange = (value: number) => {
+    setQuantity(value)
+    if (!unpaid) {
+      setAmount(suggestRefund(order, item, value))
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+
+    const result = await refundOrderItemAction(order.id, {
+      orderItemId: item.id,
+      quantity,
+      amount,
+      method,
+      reason,
+      restock,
+    })
+
+    if (result.success && result.data) {
+      onRefunded(result.data.order, result.message)
+    } else {
+      onError('Failed to cancel item', result.message)
+    }
+
+    setIsSubmitting(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 rounded-lg border border-red-200 bg-red-50 p-3 space-y-2">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <label className="text-xs text-gray-700">
+          Quantity
+          <input
+            type="number"
+            min={1}
+            max={remaining}
+            step={1}
+            value={quantity}
+            onChange={(e) => handleQuantityChange(Number(e.target.value))}
+            className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm focus:border-black-700 focus:outline-none"
+            disabled={isSubmitting}
+          />
+        </label>
+        <label className="text-xs text-gray-700">
+          Refund (Rs)
+          <input
+            type="number"
+            min={0}
+            max={order.totalAmount}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(Number(e.target.value))}
+            className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm focus:border-black-700 focus:outline-none"
+            disabled={isSubmitting}
+          />
+        </label>
+        <label className="text-xs text-gray-700 col-span-2">
+          Refund method
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as RefundMethod)}
+            className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm focus:border-black-700 focus:outline-none"
+            disabled={isSubmitting}
+          >
+            {REFUND_METHODS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (e.g. out of stock, damaged, customer request)"
+        className="w-full rounded border border-gray-300 px-2 py-1 text-sm focus:border-black-700 focus:outline-none"
+        disabled={isSubmitting}
+      />
+      <label className="flex items-center gap-2 text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={stockHeld || restock}
+          onChange={(e) => setRestock(e.target.checked)}
+          disabled={isSubmitting || stockHeld}
+        />
+        {stockHeld ? 'Units go back to stock (not dispatched yet)' : 'Return units to stock (goods came back)'}
+      </label>
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={isSubmitting || quantity < 1 || quantity > remaining}
+          className="px-3 py-1 text-xs font-medium text-white bg-red-600 rounded hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Saving...' : `Cancel ${quantity} item${quantity === 1 ? '' : 's'}`}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSubmitting}
+          className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+        >
+          Close
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { approvePaymentProofAction, rejectPaymentProofAction } from '@/app/actions/admin-orders'
+import { getPaymentProofUrlAction } from '@/app/actions/payment'
+import PaymentProofLink from '@/components/orders/PaymentProofLink'
+import type { OrderWithItems } from '@/lib/repositories/order.repository'
+import type { OrderEvent, OrderStatus, PaymentSubmission } from '@/lib/types'
+
+interface PaymentReviewQueueProps {
+  orders: OrderWithItems[]
+  onReviewed: (
+    orderId: string,
+    status: OrderStatus,
+    event: OrderEvent,
+    submission: PaymentSubmission
+  ) => void
+  onError: (title: string, message?: string) => void
+}
+
+// Inline receipt preview; proofs are private so a signed URL is fetched for each one
+function ProofPreview({ orderId, submission, alt }: { orderId: string; submission: PaymentSubmission; alt: string }) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    getPaymentProofUrlAction(orderId, submission.id).then((result) => {
+      if (cancelled) return
+      if (result.success && result.data) {
+        setUrl(result.data.url)
+      } else {
+        setFailed(true)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [orderId, submission.id])
+
+  if (!url) {
+    return (
+      <div className="flex h-72 items-center justify-center text-sm text-gray-500">
+        {failed ? 'Could not load payment proof' : 'Loading...'}
+      </div>
+    )
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="relative block h-72">
+      <Image src={url} alt={alt} fill className="object-contain" sizes="(max-width: 768px) 100vw, 50vw" unoptimized />
+    </a>
+  )
+}
+
+export default function PaymentReviewQueue({ orders, onReviewed, onError }: PaymentReviewQueueProps) {
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+
+  const handleApprove = async (orderId: string) => {
+    setReviewingId(orderId)
+
+    const result = await approvePaymentProofAction(orderId)
+
+    if (result.success && result.data) {
+      onReviewed(orderId, 'PAYMENT_VERIFIED', result.data.event, result.data.submission)
+    } else {
+      onError('Failed to approve payment', result.message)
+    }
+
+    setReviewingId(null)
+  }
+
+  const handleReject = async (orderId: string) => {
+    setReviewingId(orderId)
+
+    const result = await rejectPaymentProofAction(orderId, reasons[orderId] || '')
+
+    if (result.success && result.data) {
+      onReviewed(orderId, 'PENDING', result.data.event, result.data.submission)
+      setRejectingId(null)
+      setReasons(prev => ({ ...prev, [orderId]: '' }))
+    } else {
+      onError('Failed to reject payment proof', result.message)
+    }
+
+    setReviewingId(null)
+  }
+
+  if (orders.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+        <h3 className="text-sm font-medium text-black-700">No payments to review</h3>
+        <p className="mt-1 text-sm text-gray-500">Uploaded payment proofs will appear here.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {orders.map((order) => {
+        const submission = [...order.paymentSubmissions]
+          .reverse()
+          .find((s) => s.status === 'PENDING_REVIEW')
+        const previousRejections = order.paymentSubmissions.filter((s) => s.status === 'REJECTED')
+
+        if (!submission) return null
+
+        const submittedAt = new Date(submission.submittedAt).toLocaleString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+        })
+
+        return (
+          <div key={order.id} className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="grid grid-cols-1 gap-6 p-4 sm:p-6 md:grid-cols-2">
+              {/* Receipt */}
+              <div className="rounded-lg border border-gray-200 bg-gray-50 overflow-hidden">
+                {submission.fileType === 'application/pdf' ? (
+                  <div className="flex h-72 flex-col items-center justify-center gap-3 p-4">
+                    <p className="text-sm text-gray-600">PDF receipt</p>
+                    <PaymentProofLink
+                      orderId={order.id}
+                      submissionId={submission.id}
+                      className="text-sm font-medium text-black-700 underline"
+                    >
+                      Open PDF →
+                    </PaymentProofLink>
+                  </div>
+                ) : (
+                  <ProofPreview
+                    orderId={order.id}
+                    submission={submission}
+                    alt={`Payment proof for ${order.orderNumber}`}
+                  />
+                )}
+              </div>
+
+              {/* Details & actions */}
+              <div className="flex flex-col">
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-xs text-gray-600">Order Number</p>
+                    <p className="font-semibold text-black-700">{order.orderNumber}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-600">Amount Due</p>
+                    <p className="font-semibold text-black-700">Rs {order.totalAmount.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-600">Customer</p>
+                    <p className="text-black-700">{order.shippingAddress.fullName}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-600">Submitted</p>
+                    <p className="text-black-700">{submittedAt}</p>
+                  </div>
+                </div>
+
+                {previousRejections.length > 0 && (
+                  <div className="mt-4 rounded border border-red-200 bg-red-50 p-3 text-xs text-red-700">
+                    <p className="font-medium">
+                      Previously rejected {previousRejections.length} {previousRejections.length === 1 ? 'time' : 'times'}
+                    </p>
+                    <ul className="mt-1 list-disc pl-4">
+                      {previousRejections.map((rejection) => (
+                        <li key={rejection.id}>{rejection.rejectionReason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="mt-auto pt-4">
+                  {rejectingId === order.id ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={reasons[order.id] || ''}
+                        onChange={(e) => setReasons(prev => ({ ...prev, [order.id]: e.target.value }))}
+                        placeholder="Reason shown to the customer (e.g. amount does not match)"
+                        rows={3}
+                        className="w-full rounded border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+                        disabled={reviewingId === order.id}
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleReject(order.id)}
+                          disabled={reviewingId === order.id || !reasons[order.id]?.trim()}
+                          className="px-3 py-1.5 text-xs font-medium text-white bg-red-600 rounded hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Confirm Rejection
+                        </button>
+                        <button
+                          onClick={() => setRejectingId(null)}
+                          disabled={reviewingId === order.id}
+                          className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleApprove(order.id)}
+                        disabled={reviewingId === order.id}
+                        className="px-3 py-1.5 text-xs font-medium text-white bg-green-600 rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Approve Payment
+                      </button>
+                      <button
+                        onClick={() => setRejectingId(order.id)}
+                        disabled={reviewingId === order.id}
+                        className="px-3 py-1.5 text-xs font-medium text-white bg-red-600 rounded hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Reject
+                      </button>
+                      {reviewingId === order.id && (
+                        <span className="self-center text-xs text-gray-500">Saving...</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,10 +1,10 @@
 import { redirect } from 'next/navigation'
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { getAdminOrdersAction } from '@/app/actions/admin-orders'
 import AdminOrdersClient from './AdminOrdersClient'
 
 export default async function AdminOrdersPage() {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_ORDERS')
 
   if (!adminAccess) {
     redirect('/login?redirect=/admin/orders')
@@ -26,7 +26,9 @@ import {
   getCategoriesForProductAction,
 } from '@/app/actions/categories'
 import type { ProductWithVariants } from '@/lib/repositories/product.repository'
-import type { ProductCategory, ProductGender, Product, PromotionalCategory, SizeOption } from '@/lib/types'
+import type { ProductCategory, ProductGender, Product, PromotionalCategory, SizeOption, FieldErrors } from '@/lib/types'
+import { createProductSchema, updateProductSchema } from '@/lib/schemas'
+import { checkInput } from '@/lib/validation'
 import type { Category } from '@/lib/repositories/category.repository'
 import CategoryPickerDialog from '@/components/category/CategoryPickerDialog'
 import ProductFormDialog from '@/components/admin/ProductFormDialog'
@@ -405,13 +407,11 @@ export default function AdminProductsClient({ products: initialProducts }: Admin
     setEditingVariantIndex(null)
   }
 
-  const handleSubmit = async (formDataParam: FormData, variantsParam: VariantFormData[]) => {
-    // Validation
-    if (!formDataParam.name.trim() || !formDataParam.brand.trim()) {
-      showNotification('warning', 'Missing required fields', 'Please fill in all required fields (Name, Brand)')
-      return
-    }
-
+  // Returns the problems to show next to the form's fields, if any
+  const handleSubmit = async (
+    formDataParam: FormData,
+    variantsParam: VariantFormData[]
+  ): Promise<FieldErrors | void> => {
     if (formDataParam.categoryIds.length === 0) {
       showNotification('warning', 'No categories selected', 'Please select at least one category (leaf categories only)')
       return
@@ -422,12 +422,33 @@ export default function AdminProductsClient({ products: initialProducts }: Admin
       return
     }
 
-    const stockPrice = parseFloat(formDataParam.stockPrice)
-    const retailPrice = parseFloat(formDataParam.retailPrice)
+    const product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'> = {
+      name: formDataParam.name.trim(),
+      description: formDataParam.description.trim(),
+      brand: formDataParam.brand.trim(),
+      gender: formDataParam.gender,
+      stockPrice: parseFloat(formDataParam.stockPrice),
+      retailPrice: parseFloat(formDataParam.retailPrice),
+      // Auto-generate SKU for new products if not provided (to avoid uniqueness constraint violations)
+      sku:
+        formDataParam.sku.trim() ||
+        (isEditing ? '' : `SKU-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`),
+      images: formDataParam.images || [],
+    }
 
-    if (isNaN(stockPrice) || isNaN(retailPrice) || stockPrice <= 0 || retailPrice <= 0) {
-      showNotification('warning', 'Invalid prices', 'Please enter valid prices')
-      return
+    // Convert variants to the format expected by createProductAction
+    const variantsToCreate = variantsParam.map(v => ({
+      size: v.size,
+      color: v.color,
+      stockQuantity: v.stockQuantity,
+      images: [] as string[]
+    }))
+
+    const errors = isEditing
+      ? checkInput(updateProductSchema, product)
+      : checkInput(createProductSchema, { ...product, variants: variantsToCreate })
+    if (errors) {
+      return errors
     }
 
     setIsSubmitting(true)
@@ -435,18 +456,7 @@ export default function AdminProductsClient({ products: initialProducts }: Admin
     try {
       if (isEditing && editingId) {
         // Update existing product
-        const updates: Partial<Omit<Product, 'id' | 'createdAt' | 'updatedAt'>> = {
-          name: formDataParam.name.trim(),
-          description: formDataParam.description.trim(),
-          brand: formDataParam.brand.trim(),
-          gender: formDataParam.gender,
-          stockPrice,
-          retailPrice,
-          sku: formDataParam.sku.trim(),
-          images: formDataParam.images || [],
-        }
-
-        const result = await updateProductAction(editingId, updates)
+        const result = await updateProductAction(editingId, product)
 
         if (result.success) {
           // Assign product to selected categories
@@ -455,7 +465,7 @@ export default function AdminProductsClient({ products: initialProducts }: Admin
           // Refresh the products list
           const updatedProducts = products.map(p =>
             p.id === editingId
-              ? { ...p, ...updates }
+              ? { ...p, ...product }
               : p
           )
           setProducts(updatedProducts)
@@ -463,32 +473,11 @@ export default function AdminProductsClient({ products: initialProducts }: Admin
           resetForm()
         } else {
           showNotification('error', 'Failed to update product', result.message || 'Failed to update product')
+          return result.fieldErrors
         }
       } else {
         // Create new product with variants
-        // Auto-generate SKU if not provided (to avoid uniqueness constraint violations)
-        const effectiveSku = formDataParam.sku.trim() || `SKU-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`
-
-        const newProduct: Omit<Product, 'id' | 'createdAt' | 'updatedAt'> = {
-          name: formDataParam.name.trim(),
-          description: formDataParam.description.trim(),
-          brand: formDataParam.brand.trim(),
-          gender: formDataParam.gender,
-          stockPrice,
-          retailPrice,
-          sku: effectiveSku,
-          images: formDataParam.images || []
-        }
-
-        // Convert variants to the format expected by createProductAction
-        const variantsToCreate = variantsParam.map(v => ({
-          size: v.size,
-          color: v.color,
-          stockQuantity: v.stockQuantity,
-          images: [] as string[]
-        }))
-
-        const result = await createProductAction(newProduct, variantsToCreate)
+        const result = await createProductAction(product, variantsToCreate)
 
         if (result.success && result.data) {
           // Assign product to selected categories
@@ -499,6 +488,7 @@ export default function AdminProductsClient({ products: initialProducts }: Admin
           resetForm()
         } else {
           showNotification('error', 'Failed to create product', result.message || 'Failed to create product')
+          return result.fieldErrors
         }
       }
     } catch (error) {
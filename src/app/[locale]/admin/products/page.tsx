@@ -1,10 +1,10 @@
 import { redirect } from 'next/navigation'
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { getAdminProductsAction } from '@/app/actions/admin-products'
 import AdminProductsClient from './AdminProductsClient'
 
 export default async function AdminProductsPage() {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_PRODUCTS')
 
   if (!adminAccess) {
     redirect('/login?redirect=/admin/products')
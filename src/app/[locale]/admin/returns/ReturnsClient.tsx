@@ -0,0 +1,283 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { useLocale, useTranslations } from 'next-intl'
+import { updateReturnStatusAction } from '@/app/actions/returns'
+import type { ReturnRequestWithDetails } from '@/lib/repositories/return.repository'
+import type { RefundMethod, ReturnRequestStatus } from '@/lib/types'
+import { getAllowedReturnTransitions } from '@/lib/return-lifecycle'
+import Notification, { type NotificationType } from '@/components/ui/Notification'
+import ReturnStatusBadge from '@/components/orders/ReturnStatusBadge'
+
+const OPEN: ReturnRequestStatus[] = ['REQUESTED', 'APPROVED', 'RECEIVED']
+
+const REFUND_METHODS: { value: RefundMethod; label: string }[] = [
+  { value: 'BANK_TRANSFER', label: 'Bank transfer' },
+  { value: 'CASH', label: 'Cash' },
+  { value: 'STORE_CREDIT', label: 'Store credit' },
+]
+
+const TRANSITION_LABELS: Record<ReturnRequestStatus, string> = {
+  REQUESTED: 'Requested',
+  APPROVED: 'Approve',
+  REJECTED: 'Reject',
+  RECEIVED: 'Mark Received',
+  REFUNDED: 'Refund',
+  EXCHANGED: 'Mark Exchanged',
+}
+
+interface ReturnsClientProps {
+  returns: ReturnRequestWithDetails[]
+}
+
+export default function ReturnsClient({ returns: initialReturns }: ReturnsClientProps) {
+  const locale = useLocale()
+  const tReturns = useTranslations('order.returns')
+  const [returns, setReturns] = useState(initialReturns)
+  const [view, setView] = useState<'open' | 'all'>('open')
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [refunds, setRefunds] = useState<Record<string, { amount: string; method: RefundMethod }>>({})
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    isOpen: boolean
+    type: NotificationType
+    title: string
+    message?: string
+  }>({
+    isOpen: false,
+    type: 'success',
+    title: '',
+  })
+
+  const showNotification = (type: NotificationType, title: string, message?: string) => {
+    setNotification({ isOpen: true, type, title, message })
+  }
+
+  const getRefund = (returnRequest: ReturnRequestWithDetails) =>
+    refunds[returnRequest.id] ?? {
+      amount: (returnRequest.priceAtPurchase * returnRequest.quantity).toFixed(2),
+      method: 'BANK_TRANSFER' as RefundMethod,
+    }
+
+  const handleStatusUpdate = async (returnRequest: ReturnRequestWithDetails, status: ReturnRequestStatus) => {
+    setUpdatingId(returnRequest.id)
+
+    const refund = getRefund(returnRequest)
+    const result = await updateReturnStatusAction(returnRequest.id, status, {
+      note: notes[returnRequest.id],
+      ...(status === 'REFUNDED' && { refundAmount: Number(refund.amount), refundMethod: refund.method }),
+    })
+
+    if (result.success && result.data) {
+      const updated = result.data.returnRequest
+      setReturns(returns.map(r => (r.id === updated.id ? updated : r)))
+      setNotes(prev => ({ ...prev, [returnRequest.id]: '' }))
+      showNotification('success', result.message || 'Return updated')
+    } else {
+      showNotification('error', 'Failed to update return', result.message)
+    }
+
+    setUpdatingId(null)
+  }
+
+  const openCount = returns.filter(r => OPEN.includes(r.status)).length
+  const visibleReturns = view === 'open' ? returns.filter(r => OPEN.includes(r.status)) : returns
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-black-700">Returns & Exchanges</h1>
+              <p className="mt-1 text-sm text-gray-600">Process customer returns and size exchanges</p>
+            </div>
+            <Link href={`/${locale}/admin/dashboard`} className="text-sm text-black-700 hover:text-black-700 font-medium flex-shrink-0">
+              ← Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+        {/* View switcher */}
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setView('open')}
+            className={`px-4 py-2 text-sm font-medium transition-all duration-200 ${
+              view === 'open' ? 'bg-black-700 text-white shadow-sm' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Open ({openCount})
+          </button>
+          <button
+            onClick={() => setView('all')}
+            className={`px-4 py-2 text-sm font-medium transition-all duration-200 ${
+              view === 'all' ? 'bg-black-700 text-white shadow-sm' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            All Requests
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {visibleReturns.map((returnRequest) => {
+            const allowedTransitions = getAllowedReturnTransitions(returnRequest.status, returnRequest.type)
+            const refund = getRefund(returnRequest)
+            const requestedDate = new Date(returnRequest.createdAt).toLocaleDateString('en-US', {
+              year: 'numeric',
+              month: 'short',
+              day: 'numeric',
+            })
+
+            return (
+              <div key={returnRequest.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                  <div className="flex gap-3">
+                    <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-lg bg-gray-100">
+                      {(returnRequest.variant.images?.[0] || returnRequest.product.images?.[0]) ? (
+                        <Image
+                          src={returnRequest.variant.images?.[0] || returnRequest.product.images[0]}
+                          alt={returnRequest.product.name}
+                          fill
+                          className="object-cover"
+                          sizes="64px"
+                        />
+                      ) : (
+                        <div className="flex h-full items-center justify-center text-gray-400 text-xs">
+                          No Image
+                        </div>
+                      )}
+                    </div>
+                    <div className="text-sm">
+                      <p className="font-medium text-black-700">
+                        {returnRequest.type === 'EXCHANGE' ? 'Exchange' : 'Return'} • {returnRequest.quantity} × {returnRequest.product.name}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        Size: {returnRequest.variant.size} • Color: {returnRequest.variant.color}
+                        {returnRequest.type === 'EXCHANGE' && (
+                          <> → {returnRequest.replacementSize} / {returnRequest.replacementColor}</>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        Reason: {tReturns(`reasons.${returnRequest.reason}`)}
+                        {returnRequest.note && <> • “{returnRequest.note}”</>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        <Link href={`/${locale}/order/${returnRequest.orderId}`} target="_blank" className="underline">
+                          {returnRequest.orderNumber}
+                        </Link>
+                        {' • '}{returnRequest.requestedBy} • {requestedDate}
+                      </p>
+                      {returnRequest.refundAmount !== undefined && (
+                        <p className="text-xs text-green-700">
+                          Refunded Rs {returnRequest.refundAmount.toFixed(2)}
+                        </p>
+                      )}
+                      {returnRequest.adminNote && (
+                        <p className="text-xs text-gray-500">Note: {returnRequest.adminNote}</p>
+                      )}
+                    </div>
+                  </div>
+                  <ReturnStatusBadge status={returnRequest.status} />
+                </div>
+
+                {allowedTransitions.length > 0 && (
+                  <div className="border-t border-gray-200 mt-4 pt-4 space-y-2">
+                    <input
+                      type="text"
+                      value={notes[returnRequest.id] || ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [returnRequest.id]: e.target.value }))}
+                      placeholder="Note for the customer (e.g. return address, tracking number)"
+                      className="w-full sm:w-96 rounded border border-gray-300 px-3 py-1.5 text-sm focus:border-black-700 focus:outline-none"
+                      disabled={updatingId === returnRequest.id}
+                    />
+                    {allowedTransitions.includes('REFUNDED') && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <label className="text-xs text-gray-700">
+                          Refund (Rs)
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={refund.amount}
+                            onChange={(e) =>
+                              setRefunds(prev => ({ ...prev, [returnRequest.id]: { ...refund, amount: e.target.value } }))
+                            }
+                            className="ml-2 w-28 rounded border border-gray-300 px-2 py-1 text-sm focus:border-black-700 focus:outline-none"
+                            disabled={updatingId === returnRequest.id}
+                          />
+                        </label>
+                        <select
+                          value={refund.method}
+                          onChange={(e) =>
+                            setRefunds(prev => ({
+                              ...prev,
+                              [returnRequest.id]: { ...refund, method: e.target.value as RefundMethod },
+                            }))
+                          }
+                          className="rounded border border-gray-300 px-2 py-1 text-sm focus:border-black-700 focus:outline-none"
+                          disabled={updatingId === returnRequest.id}
+                        >
+                          {REFUND_METHODS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                      {allowedTransitions.map((nextStatus) => (
+                        <button
+                          key={nextStatus}
+                          onClick={() => handleStatusUpdate(returnRequest, nextStatus)}
+                          disabled={updatingId === returnRequest.id}
+                          className={`px-3 py-1 text-xs font-medium text-white rounded disabled:opacity-50 disabled:cursor-not-allowed ${
+                            nextStatus === 'REJECTED' ? 'bg-red-600 hover:bg-red-700' : 'bg-black-700 hover:bg-black-800'
+                          }`}
+                        >
+                          {TRANSITION_LABELS[nextStatus]}
+                        </button>
+                      ))}
+                      {updatingId === returnRequest.id && (
+                        <span className="text-xs text-gray-500">Updating...</span>
+                      )}
+                    </div>
+                    {allowedTransitions.includes('RECEIVED') && (
+                      <p className="text-xs text-gray-500">
+                        Receiving puts the returned items back in stock
+                        {returnRequest.type === 'EXCHANGE' && ' and takes the replacement out of stock'}.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {visibleReturns.length === 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <h3 className="text-sm font-medium text-black-700">No return requests</h3>
+            <p className="mt-1 text-sm text-gray-500">Returns and exchanges customers request will appear here.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Notification */}
+      <Notification
+        type={notification.type}
+        title={notification.title}
+        message={notification.message}
+        isOpen={notification.isOpen}
+        onClose={() => setNotification(prev => ({ ...prev, isOpen: false }))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/auth'
+import { getAdminReturnRequestsAction } from '@/app/actions/returns'
+import ReturnsClient from './ReturnsClient'
+
+export default async function AdminReturnsPage() {
+  const adminAccess = await authorize('MANAGE_RETURNS')
+
+  if (!adminAccess) {
+    redirect('/login?redirect=/admin/returns')
+  }
+
+  const result = await getAdminReturnRequestsAction()
+
+  if (!result.success || !result.data) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+          <h1 className="text-3xl font-bold text-black-700">Returns & Exchanges</h1>
+          <div className="mt-8 text-center">
+            <p className="text-gray-600">{result.message || 'Failed to load return requests'}</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return <ReturnsClient returns={result.data.returns} />
+}
@@ -22,6 +22,9 @@ import {
 import { searchProductsAction } from '@/app/actions/products'
 import Toast, { ToastType } from '@/components/Toast'
 import ConfirmDialog from '@/components/ui/ConfirmDialog'
+import ScheduleBadge from '@/components/admin/ScheduleBadge'
+import HomePreviewLauncher from '@/components/admin/HomePreviewLauncher'
+import { shopConfig } from '@/config/shop'
 
 interface PromotionalCategoriesClientProps {
   initialCategories: PromotionalCategory[]
@@ -427,12 +430,15 @@ export default function PromotionalCategoriesClient({
               Back to Dashboard
             </Link>
           </div>
-          <button
-            onClick={() => setShowCreateForm(true)}
-            className="mt-4 w-full sm:w-auto px-4 py-2 bg-black-700 text-white rounded-lg hover:bg-black-800 transition-colors font-semibold flex items-center justify-center gap-2"
-          >
-            + Create Section
-          </button>
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <button
+              onClick={() => setShowCreateForm(true)}
+              className="w-full sm:w-auto px-4 py-2 bg-black-700 text-white rounded-lg hover:bg-black-800 transition-colors font-semibold flex items-center justify-center gap-2"
+            >
+              + Create Section
+            </button>
+            <HomePreviewLauncher />
+          </div>
         </div>
       </div>
 
@@ -458,6 +464,9 @@ export default function PromotionalCategoriesClient({
                       <div className="flex-1">
                         <h3 className="font-semibold text-black-700">{category.name}</h3>
                         <p className="text-xs text-gray-600 mt-1">Order: {category.displayOrder}</p>
+                        <div className="mt-1">
+                          <ScheduleBadge schedule={category} />
+                        </div>
                         <div className="flex items-center gap-2 mt-2">
                           <button
                             onClick={(e) => {
@@ -1020,6 +1029,9 @@ export default function PromotionalCategoriesClient({
                   />
                 </div>
               </div>
+              <p className="text-xs text-gray-500">
+                Active sections are shown from the start date through the end date ({shopConfig.timezone} time).
+              </p>
             </div>
 
             <div className="flex gap-3 mt-6">
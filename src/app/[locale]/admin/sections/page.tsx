@@ -1,11 +1,11 @@
 import { redirect } from 'next/navigation'
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
 import { getLocale } from 'next-intl/server'
 import { getAllPromotionalCategoriesAction } from '@/app/actions/promotional-categories'
 import PromotionalCategoriesClient from './PromotionalCategoriesClient'
 
 export default async function PromotionalCategoriesPage() {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_CONTENT')
   const locale = await getLocale()
 
   if (!adminAccess) {
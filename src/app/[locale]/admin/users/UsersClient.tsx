@@ -0,0 +1,324 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useLocale } from 'next-intl'
+import {
+  getAdminUsersAction,
+  getAdminUserOrdersAction,
+  unlockUserAction,
+  updateUserRoleAction,
+} from '@/app/actions/admin'
+import type { UserWithOrderStats } from '@/lib/repositories/user.repository'
+import type { OrderWithItems } from '@/lib/repositories/order.repository'
+import type { UserRole } from '@/lib/types'
+import { ROLE_LABELS, USER_ROLES } from '@/lib/permissions'
+import Notification, { type NotificationType } from '@/components/ui/Notification'
+import ConfirmDialog from '@/components/ui/ConfirmDialog'
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge'
+
+const ROLE_FILTERS: { value: UserRole | ''; label: string }[] = [
+  { value: '', label: 'All Users' },
+  ...USER_ROLES.map((role) => ({ value: role, label: ROLE_LABELS[role] })),
+]
+
+interface UsersClientProps {
+  users: UserWithOrderStats[]
+  currentUserId: string
+}
+
+function isLocked(user: UserWithOrderStats): boolean {
+  return Boolean(user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now())
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export default function UsersClient({ users: initialUsers, currentUserId }: UsersClientProps) {
+  const locale = useLocale()
+  const [users, setUsers] = useState(initialUsers)
+  const [query, setQuery] = useState('')
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('')
+  const [searching, setSearching] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [orders, setOrders] = useState<Record<string, OrderWithItems[]>>({})
+  const [loadingOrdersId, setLoadingOrdersId] = useState<string | null>(null)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [pendingRoleChange, setPendingRoleChange] = useState<{ user: UserWithOrderStats; role: UserRole } | null>(null)
+  const isFirstSearch = useRef(true)
+
+  // Notification state
+  const [notification, setNotification] = useState<{
+    isOpen: boolean
+    type: NotificationType
+    title: string
+    message?: string
+  }>({
+    isOpen: false,
+    type: 'success',
+    title: '',
+  })
+
+  const showNotification = (type: NotificationType, title: string, message?: string) => {
+    setNotification({ isOpen: true, type, title, message })
+  }
+
+  // Search as the admin types, once they pause
+  useEffect(() => {
+    if (isFirstSearch.current) {
+      isFirstSearch.current = false
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      setSearching(true)
+      const result = await getAdminUsersAction(query, roleFilter || undefined)
+      if (result.success && result.data) {
+        setUsers(result.data.users)
+      } else {
+        showNotification('error', 'Search failed', result.message)
+      }
+      setSearching(false)
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [query, roleFilter])
+
+  const toggleOrders = async (user: UserWithOrderStats) => {
+    if (expandedId === user.id) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(user.id)
+    if (orders[user.id]) return
+
+    setLoadingOrdersId(user.id)
+    const result = await getAdminUserOrdersAction(user.id)
+    if (result.success && result.data) {
+      setOrders(prev => ({ ...prev, [user.id]: result.data!.orders }))
+    } else {
+      showNotification('error', 'Failed to load orders', result.message)
+    }
+    setLoadingOrdersId(null)
+  }
+
+  const handleUnlock = async (user: UserWithOrderStats) => {
+    setUpdatingId(user.id)
+
+    const result = await unlockUserAction(user.id)
+    if (result.success) {
+      setUsers(users.map(u => (u.id === user.id ? { ...u, lockedUntil: undefined } : u)))
+      showNotification('success', 'Account unlocked', result.message)
+    } else {
+      showNotification('error', 'Failed to unlock account', result.message)
+    }
+
+    setUpdatingId(null)
+  }
+
+  const handleRoleChange = async () => {
+    if (!pendingRoleChange) return
+
+    const { user, role } = pendingRoleChange
+    setPendingRoleChange(null)
+    setUpdatingId(user.id)
+
+    const result = await updateUserRoleAction(user.id, role)
+    if (result.success && result.data) {
+      const updated = result.data.user
+      setUsers(users.map(u => (u.id === updated.id ? { ...u, ...updated } : u)))
+      showNotification('success', 'Role updated', result.message)
+
+      // Changing your own role ends your own session
+      if (user.id === currentUserId) {
+        window.location.href = `/${locale}`
+      }
+    } else {
+      showNotification('error', 'Failed to update role', result.message)
+    }
+
+    setUpdatingId(null)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200">
+        <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-black-700">Users</h1>
+              <p className="mt-1 text-sm text-gray-600">Find customers, review their orders and manage staff roles</p>
+            </div>
+            <Link href={`/${locale}/admin/dashboard`} className="text-sm text-black-700 hover:text-black-700 font-medium flex-shrink-0">
+              ← Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+        {/* Search and filters */}
+        <div className="flex flex-col sm:flex-row gap-3 mb-4">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name, email or phone"
+            className="w-full sm:w-96 rounded border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+          />
+          <select
+            value={roleFilter}
+            onChange={(e) => setRoleFilter(e.target.value as UserRole | '')}
+            className="rounded border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+          >
+            {ROLE_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+          {searching && <span className="self-center text-xs text-gray-500">Searching...</span>}
+        </div>
+
+        <div className="space-y-4">
+          {users.map((user) => {
+            const userOrders = orders[user.id]
+
+            return (
+              <div key={user.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                  <div className="text-sm">
+                    <p className="font-medium text-black-700">
+                      {user.firstName} {user.lastName}
+                      {user.id === currentUserId && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {user.email}
+                      {!user.emailVerifiedAt && <span className="ml-2 text-yellow-700">Unverified</span>}
+                      {user.twoFactorEnabledAt && <span className="ml-2 text-green-700">2FA</span>}
+                      {user.phone && <> • {user.phone}</>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Joined {formatDate(user.createdAt)} • {user.orderCount} {user.orderCount === 1 ? 'order' : 'orders'}
+                      {user.lastOrderAt && <> • Last order {formatDate(user.lastOrderAt)}</>}
+                    </p>
+                    {isLocked(user) && (
+                      <p className="mt-1 text-xs text-red-700">
+                        Locked after failed sign-in attempts until{' '}
+                        {new Date(user.lockedUntil!).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                        <button
+                          onClick={() => handleUnlock(user)}
+                          disabled={updatingId === user.id}
+                          className="ml-2 font-medium text-black-700 underline disabled:opacity-50"
+                        >
+                          Unlock
+                        </button>
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={user.role}
+                      onChange={(e) => setPendingRoleChange({ user, role: e.target.value as UserRole })}
+                      disabled={updatingId === user.id}
+                      aria-label="Change role"
+                      className={`rounded border border-gray-300 px-2 py-1 text-xs font-medium focus:border-black-700 focus:outline-none disabled:opacity-50 ${
+                        user.role === 'CUSTOMER' ? 'text-black-700' : 'text-purple-800'
+                      }`}
+                    >
+                      {USER_ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                    {updatingId === user.id && <span className="text-xs text-gray-500">Updating...</span>}
+                  </div>
+                </div>
+
+                {user.orderCount > 0 && (
+                  <div className="border-t border-gray-200 mt-4 pt-3">
+                    <button
+                      onClick={() => toggleOrders(user)}
+                      className="text-xs font-medium text-black-700 underline"
+                    >
+                      {expandedId === user.id ? 'Hide orders' : 'View orders'}
+                    </button>
+
+                    {expandedId === user.id && (
+                      <div className="mt-3">
+                        {loadingOrdersId === user.id && <p className="text-xs text-gray-500">Loading orders...</p>}
+                        {userOrders && (
+                          <table className="min-w-full text-sm">
+                            <tbody className="divide-y divide-gray-100">
+                              {userOrders.map((order) => (
+                                <tr key={order.id}>
+                                  <td className="py-2 pr-4">
+                                    <Link href={`/${locale}/order/${order.id}`} target="_blank" className="underline">
+                                      {order.orderNumber}
+                                    </Link>
+                                  </td>
+                                  <td className="py-2 pr-4 text-gray-600">{formatDate(order.createdAt)}</td>
+                                  <td className="py-2 pr-4 text-gray-600">
+                                    {order.items.length} {order.items.length === 1 ? 'item' : 'items'}
+                                  </td>
+                                  <td className="py-2 pr-4 font-medium text-black-700">Rs {order.totalAmount.toFixed(2)}</td>
+                                  <td className="py-2">
+                                    <OrderStatusBadge status={order.status} />
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {users.length === 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <h3 className="text-sm font-medium text-black-700">No users found</h3>
+            <p className="mt-1 text-sm text-gray-500">Try a different name, email or phone number.</p>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={pendingRoleChange !== null}
+        title="Change role"
+        message={
+          pendingRoleChange
+            ? `Change ${pendingRoleChange.user.email} from ${ROLE_LABELS[pendingRoleChange.user.role]} to ${
+                ROLE_LABELS[pendingRoleChange.role]
+              }? They will be signed out on all devices.`
+            : ''
+        }
+        confirmLabel="Change Role"
+        type={pendingRoleChange?.role === 'CUSTOMER' ? 'danger' : 'warning'}
+        onConfirm={handleRoleChange}
+        onCancel={() => setPendingRoleChange(null)}
+      />
+
+      {/* Notification */}
+      <Notification
+        type={notification.type}
+        title={notification.title}
+        message={notification.message}
+        isOpen={notification.isOpen}
+        onClose={() => setNotification(prev => ({ ...prev, isOpen: false }))}
+      />
+    </div>
+  )
+}
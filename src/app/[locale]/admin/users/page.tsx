@@ -0,0 +1,29 @@
+import { redirect } from 'next/navigation'
+import { authorize } from '@/lib/auth'
+import { getAdminUsersAction } from '@/app/actions/admin'
+import UsersClient from './UsersClient'
+
+export default async function AdminUsersPage() {
+  const currentUser = await authorize('MANAGE_USERS')
+
+  if (!currentUser) {
+    redirect('/login?redirect=/admin/users')
+  }
+
+  const result = await getAdminUsersAction()
+
+  if (!result.success || !result.data) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+          <h1 className="text-3xl font-bold text-black-700">Users</h1>
+          <div className="mt-8 text-center">
+            <p className="text-gray-600">{result.message || 'Failed to load users'}</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return <UsersClient users={result.data.users} currentUserId={currentUser.userId} />
+}
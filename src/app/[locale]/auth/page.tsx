@@ -1,8 +1,10 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { useTranslations, useLocale } from 'next-intl'
 import { loginAction, signupAction } from '@/app/actions/auth'
+import { isStaffRole } from '@/lib/permissions'
 import { shopConfig } from '@/config/shop'
 import Input from '@/components/ui/Input'
 import Button from '@/components/ui/Button'
@@ -44,7 +46,7 @@ export default function AuthPage() {
       const result = await loginAction(loginData)
 
       if (result.success) {
-        if (result.user?.role === 'ADMIN') {
+        if (result.user && isStaffRole(result.user.role)) {
           window.location.href = `/${locale}/admin/dashboard`
         } else {
           window.location.href = `/${locale}/shop`
@@ -118,6 +120,15 @@ export default function AuthPage() {
             showPasswordToggle
           />
 
+          <div className="flex justify-end">
+            <Link
+              href={`/${locale}/forgot-password`}
+              className="text-sm text-gray-600 hover:text-black-700 transition-colors"
+            >
+              {tLogin('forgotPassword')}
+            </Link>
+          </div>
+
           <Button type="submit" className="w-full" isLoading={isLoginLoading} variant="primary">
             {isLoginLoading ? tLogin('signingIn') : tLogin('submit')}
           </Button>
@@ -7,6 +7,7 @@ import CartItem from '@/components/cart/CartItem'
 import type { CartItemWithDetails } from '@/lib/repositories/cart.repository'
 import { useCartStore } from '@/stores/cartStore'
 import ConfirmDialog from '@/components/ui/ConfirmDialog'
+import CouponForm from '@/components/cart/CouponForm'
 
 interface CartPageClientProps {
   initialItems: CartItemWithDetails[]
@@ -21,7 +22,17 @@ export default function CartPageClient({
 }: CartPageClientProps) {
   const locale = useLocale()
   const t = useTranslations('cart')
-  const { items, total, itemCount, isLoading, clearCart } = useCartStore()
+  const {
+    items,
+    total,
+    itemCount,
+    quote,
+    couponError,
+    isLoading,
+    clearCart,
+    applyCoupon,
+    removeCoupon,
+  } = useCartStore()
   const [isClearing, setIsClearing] = useState(false)
 
   // Confirm dialog state
@@ -56,12 +67,12 @@ export default function CartPageClient({
     })
   }
 
-  // Calculate savings
-  const retailTotal = items.reduce(
-    (sum, item) => sum + item.product.retailPrice * item.quantity,
-    0
-  )
+  // Totals come from the server-side pricing engine
+  const retailTotal = quote?.retailSubtotal ?? total
   const savings = retailTotal - total
+  const shipping = quote?.shipping ?? 0
+  const amountToFreeShipping = quote?.amountToFreeShipping ?? 0
+  const grandTotal = quote?.grandTotal ?? total
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -141,18 +152,40 @@ export default function CartPageClient({
                   </div>
                 )}
 
+                {/* Coupon */}
+                <CouponForm
+                  appliedCode={quote?.coupon?.code ?? null}
+                  error={couponError}
+                  onApply={applyCoupon}
+                  onRemove={removeCoupon}
+                />
+                {quote?.discounts.map((discount) => (
+                  <div key={discount.label} className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t('discount', { code: discount.label })}</span>
+                    <span className="font-medium text-green-600">- Rs {discount.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+
                 {/* Shipping */}
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">{t('shipping')}</span>
                   <span className="font-medium text-black-700">
-                    {total >= 100 ? t('free') : 'Rs 9.99'}
+                    {shipping === 0 ? t('free') : `Rs ${shipping.toFixed(2)}`}
                   </span>
                 </div>
 
+                {/* Tax */}
+                {quote && quote.tax > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t('tax')}</span>
+                    <span className="font-medium text-black-700">Rs {quote.tax.toFixed(2)}</span>
+                  </div>
+                )}
+
                 {/* Free shipping notice */}
-                {total < 100 && (
+                {amountToFreeShipping > 0 && (
                   <p className="text-xs text-gray-500">
-                    {t('addMoreForFreeShipping', { amount: (100 - total).toFixed(2) })}
+                    {t('addMoreForFreeShipping', { amount: amountToFreeShipping.toFixed(2) })}
                   </p>
                 )}
 
@@ -161,7 +194,7 @@ export default function CartPageClient({
                   <div className="flex justify-between">
                     <span className="text-base font-bold text-black-700">{t('total')}</span>
                     <span className="text-2xl font-bold text-black-700">
-                      Rs {(total + (total >= 100 ? 0 : 9.99)).toFixed(2)}
+                      Rs {grandTotal.toFixed(2)}
                     </span>
                   </div>
                 </div>
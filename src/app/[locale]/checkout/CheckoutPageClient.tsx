@@ -6,62 +6,116 @@ import Image from 'next/image'
 import Link from 'next/link'
 import { useTranslations, useLocale } from 'next-intl'
 import type { CartItemWithDetails } from '@/lib/repositories/cart.repository'
-import type { ShippingAddress, DeliveryMethod } from '@/lib/types'
+import type { Address, ShippingAddress, DeliveryMethod, FieldErrors } from '@/lib/types'
+import type { PriceQuote } from '@/lib/pricing'
 import { createOrderAction } from '@/app/actions/order'
+import { applyCouponAction, removeCouponAction } from '@/app/actions/coupons'
 import { getColorHex } from '@/lib/color-utils'
+import { createOrderSchema } from '@/lib/schemas'
+import { checkInput } from '@/lib/validation'
 import Input from '@/components/ui/Input'
 import Button from '@/components/ui/Button'
+import CouponForm from '@/components/cart/CouponForm'
+import EmailVerificationNotice from '@/components/auth/EmailVerificationNotice'
 
 interface CheckoutPageClientProps {
   items: CartItemWithDetails[]
-  total: number
+  quotes: Record<DeliveryMethod, PriceQuote>
   itemCount: number
   userEmail?: string
   isAuthenticated: boolean
+  emailVerified: boolean
+  couponError?: string
+  savedAddresses: Address[]
+}
+
+const EMPTY_ADDRESS: ShippingAddress = {
+  fullName: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: 'United States',
+  phone: '',
+}
+
+/**
+ * The fields of a saved address that are copied onto the order
+ */
+function toShippingAddress(address: Address): ShippingAddress {
+  return {
+    fullName: address.fullName,
+    addressLine1: address.addressLine1,
+    addressLine2: address.addressLine2 || '',
+    city: address.city,
+    state: address.state,
+    postalCode: address.postalCode,
+    country: address.country,
+    phone: address.phone,
+  }
 }
 
 export default function CheckoutPageClient({
   items,
-  total,
+  quotes,
   itemCount,
   userEmail,
   isAuthenticated,
+  emailVerified,
+  couponError,
+  savedAddresses,
 }: CheckoutPageClientProps) {
   const locale = useLocale()
   const t = useTranslations('checkout')
-  const tCommon = useTranslations('common')
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({})
   const [email, setEmail] = useState(userEmail || '')
-  const [showLoginModal, setShowLoginModal] = useState(false)
   const [deliveryMethod, setDeliveryMethod] = useState<DeliveryMethod>('SHIP')
   const [paymentMethod, setPaymentMethod] = useState<'cod' | 'online'>('cod')
 
-  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>({
-    fullName: '',
-    addressLine1: '',
-    addressLine2: '',
-    city: '',
-    state: '',
-    postalCode: '',
-    country: 'United States',
-    phone: '',
-  })
-
-  // Calculate shipping based on delivery method
-  const shipping = deliveryMethod === 'SHIP' ? (total >= 100 ? 0 : 9.99) : 0
-  const finalTotal = total + shipping
+  // Signed-in customers start from their default saved address; '' means a new address
+  const defaultAddress = savedAddresses.find((address) => address.isDefault)
+  const [selectedAddressId, setSelectedAddressId] = useState(defaultAddress?.id || '')
+  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>(
+    defaultAddress ? toShippingAddress(defaultAddress) : EMPTY_ADDRESS
+  )
+
+  const handleSelectAddress = (addressId: string) => {
+    const address = savedAddresses.find((item) => item.id === addressId)
+    setSelectedAddressId(addressId)
+    setShippingAddress(address ? toShippingAddress(address) : EMPTY_ADDRESS)
+    setFieldErrors({})
+  }
+
+  // Totals are quoted by the server for each delivery method
+  const quote = quotes[deliveryMethod]
+  const shipQuote = quotes.SHIP
+  const lineTotals = new Map(quote.lines.map((line) => [line.variantId, line.lineTotal]))
+
+  // Coupons are validated server-side; refresh so both delivery quotes include the change
+  const handleApplyCoupon = async (code: string) => {
+    const result = await applyCouponAction(code)
+    if (result.success) {
+      router.refresh()
+    }
+    return result
+  }
+
+  const handleRemoveCoupon = async () => {
+    await removeCouponAction()
+    router.refresh()
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
 
-    // Check if user is authenticated before placing order
-    if (!isAuthenticated) {
-      setShowLoginModal(true)
-      return
-    }
+    const errors = checkInput(createOrderSchema, { shippingAddress, deliveryMethod, email })
+    setFieldErrors(errors || {})
+    if (errors) return
 
     setIsSubmitting(true)
 
@@ -69,9 +123,10 @@ export default function CheckoutPageClient({
       const result = await createOrderAction(shippingAddress, deliveryMethod, email)
 
       if (result.success && result.data) {
-        // Redirect to order confirmation page
+        // Redirect to order confirmation page (guests are granted access to it by the server)
         router.push(`/${locale}/order/${result.data.orderId}`)
       } else {
+        setFieldErrors(result.fieldErrors || {})
         setError(result.message || 'Failed to place order')
       }
     } catch (err) {
@@ -106,6 +161,10 @@ export default function CheckoutPageClient({
               )}
 
               <form onSubmit={handleSubmit} className="space-y-5">
+                {isAuthenticated && !emailVerified && userEmail && (
+                  <EmailVerificationNotice email={userEmail} />
+                )}
+
                 {!isAuthenticated && (
                   <div className="mb-6 p-4 bg-gray-100 border border-gray-200 rounded-lg">
                     <div className="flex items-start gap-3">
@@ -127,6 +186,29 @@ export default function CheckoutPageClient({
                   </div>
                 )}
 
+                {savedAddresses.length > 0 && (
+                  <div>
+                    <label htmlFor="savedAddress" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('savedAddress')}
+                    </label>
+                    <select
+                      id="savedAddress"
+                      value={selectedAddressId}
+                      onChange={(e) => handleSelectAddress(e.target.value)}
+                      className="input"
+                    >
+                      {savedAddresses.map((address) => (
+                        <option key={address.id} value={address.id}>
+                          {address.label ? `${address.label}: ` : ''}
+                          {address.fullName}, {address.addressLine1}, {address.city}
+                        </option>
+                      ))}
+                      <option value="">{t('newAddress')}</option>
+                    </select>
+                    <p className="mt-2 text-sm text-gray-500">{t('savedAddressHint')}</p>
+                  </div>
+                )}
+
                 <Input
                   id="fullName"
                   type="text"
@@ -137,6 +219,7 @@ export default function CheckoutPageClient({
                     setShippingAddress({ ...shippingAddress, fullName: e.target.value })
                   }
                   required
+                  error={fieldErrors['shippingAddress.fullName']}
                 />
 
                 <Input
@@ -146,8 +229,10 @@ export default function CheckoutPageClient({
                   placeholder={t('emailPlaceholder')}
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
+                  error={fieldErrors.email}
                   disabled={isAuthenticated}
-                  hint={isAuthenticated ? t('emailHint') : t('emailOptionalHint')}
+                  required={!isAuthenticated}
+                  hint={isAuthenticated ? t('emailHint') : t('emailGuestHint')}
                 />
 
                 <Input
@@ -160,6 +245,7 @@ export default function CheckoutPageClient({
                     setShippingAddress({ ...shippingAddress, phone: e.target.value })
                   }
                   required
+                  error={fieldErrors['shippingAddress.phone']}
                 />
 
                 {/* Delivery Method Selection */}
@@ -184,7 +270,7 @@ export default function CheckoutPageClient({
                         <div className="text-xs text-black-700 mt-1">📦 Delivery within 4-5 business days</div>
                       </div>
                       <div className="text-sm font-medium text-black-700">
-                        {total >= 100 ? t('free') : 'Rs 9.99'}
+                        {shipQuote.shipping === 0 ? t('free') : `Rs ${shipQuote.shipping.toFixed(2)}`}
                       </div>
                     </label>
 
@@ -265,6 +351,7 @@ export default function CheckoutPageClient({
                       setShippingAddress({ ...shippingAddress, addressLine1: e.target.value })
                     }
                     required
+                    error={fieldErrors['shippingAddress.addressLine1']}
                   />
 
                   <Input
@@ -276,6 +363,7 @@ export default function CheckoutPageClient({
                     onChange={(e) =>
                       setShippingAddress({ ...shippingAddress, addressLine2: e.target.value })
                     }
+                    error={fieldErrors['shippingAddress.addressLine2']}
                   />
 
                   <div className="grid grid-cols-2 gap-4">
@@ -289,6 +377,7 @@ export default function CheckoutPageClient({
                         setShippingAddress({ ...shippingAddress, city: e.target.value })
                       }
                       required
+                      error={fieldErrors['shippingAddress.city']}
                     />
 
                     <Input
@@ -301,6 +390,7 @@ export default function CheckoutPageClient({
                         setShippingAddress({ ...shippingAddress, state: e.target.value })
                       }
                       required
+                      error={fieldErrors['shippingAddress.state']}
                     />
                   </div>
 
@@ -315,6 +405,7 @@ export default function CheckoutPageClient({
                         setShippingAddress({ ...shippingAddress, postalCode: e.target.value })
                       }
                       required
+                      error={fieldErrors['shippingAddress.postalCode']}
                     />
 
                     <Input
@@ -326,6 +417,7 @@ export default function CheckoutPageClient({
                         setShippingAddress({ ...shippingAddress, country: e.target.value })
                       }
                       required
+                      error={fieldErrors['shippingAddress.country']}
                     />
                   </div>
                 </>
@@ -335,7 +427,7 @@ export default function CheckoutPageClient({
                   <Link href={`/${locale}/cart`} className="btn-secondary flex-1">
                     {t('backToCart')}
                   </Link>
-                  <Button type="submit" className="flex-1" isLoading={isSubmitting}>
+                  <Button type="submit" className="flex-1" isLoading={isSubmitting} disabled={!emailVerified}>
                     {t('placeOrder')}
                   </Button>
                 </div>
@@ -386,7 +478,7 @@ export default function CheckoutPageClient({
                       </div>
                     </div>
                     <div className="text-sm font-medium text-black-700">
-                      Rs {(item.product.stockPrice * item.quantity).toFixed(2)}
+                      Rs {(lineTotals.get(item.variantId) ?? 0).toFixed(2)}
                     </div>
                   </div>
                 ))}
@@ -396,8 +488,20 @@ export default function CheckoutPageClient({
               <div className="space-y-3 border-t border-gray-200 pt-4">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">{t('subtotalItems', { count: itemCount })}</span>
-                  <span className="font-medium text-black-700">Rs {total.toFixed(2)}</span>
+                  <span className="font-medium text-black-700">Rs {quote.subtotal.toFixed(2)}</span>
                 </div>
+                <CouponForm
+                  appliedCode={quote.coupon?.code ?? null}
+                  error={couponError}
+                  onApply={handleApplyCoupon}
+                  onRemove={handleRemoveCoupon}
+                />
+                {quote.discounts.map((discount) => (
+                  <div key={discount.label} className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t('discount', { code: discount.label })}</span>
+                    <span className="font-medium text-green-600">- Rs {discount.amount.toFixed(2)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-sm">
                   <div>
                     <span className="text-gray-600">{t('shipping')}</span>
@@ -408,14 +512,20 @@ export default function CheckoutPageClient({
                       <div className="text-xs text-gray-500 mt-1">🏪 Ready for pickup within 2-3 business days</div>
                     )}
                   </div>
-                  <span className={`font-medium ${shipping === 0 ? 'text-black-700' : 'text-black-700'}`}>
-                    {shipping === 0 ? t('free') : `$Rs {shipping.toFixed(2)}`}
+                  <span className="font-medium text-black-700">
+                    {quote.shipping === 0 ? t('free') : `Rs ${quote.shipping.toFixed(2)}`}
                   </span>
                 </div>
+                {quote.tax > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t('tax')}</span>
+                    <span className="font-medium text-black-700">Rs {quote.tax.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between border-t border-gray-200 pt-3">
                   <span className="text-base font-bold text-black-700">{t('total')}</span>
                   <span className="text-2xl font-bold text-black-700">
-                    Rs {finalTotal.toFixed(2)}
+                    Rs {quote.grandTotal.toFixed(2)}
                   </span>
                 </div>
               </div>
@@ -423,62 +533,6 @@ export default function CheckoutPageClient({
           </div>
         </div>
       </div>
-
-      {/* Login Modal */}
-      {showLoginModal && (
-        <div className="fixed inset-0 z-50 overflow-y-auto">
-          <div className="flex min-h-screen items-center justify-center p-4">
-            {/* Backdrop */}
-            <div
-              className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
-              onClick={() => setShowLoginModal(false)}
-            />
-
-            {/* Modal */}
-            <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full p-6 z-10">
-              <button
-                onClick={() => setShowLoginModal(false)}
-                className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
-              >
-                <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
-
-              <div className="text-center">
-                <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-navy-100 mb-4">
-                  <svg className="h-6 w-6 text-black-700" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                  </svg>
-                </div>
-                <h3 className="text-xl font-bold text-black-700 mb-2">{t('loginRequired')}</h3>
-                <p className="text-gray-600 mb-6">{t('loginRequiredMessage')}</p>
-
-                <div className="space-y-3">
-                  <Link
-                    href={`/${locale}/login?redirect=${encodeURIComponent(`/${locale}/checkout`)}`}
-                    className="block w-full bg-black-700 text-white px-6 py-3 rounded-lg font-semibold hover:bg-black-800 transition-colors"
-                  >
-                    {t('signIn')}
-                  </Link>
-                  <Link
-                    href={`/${locale}/signup?redirect=${encodeURIComponent(`/${locale}/checkout`)}`}
-                    className="block w-full bg-white border-2 border-black-700 text-black-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
-                  >
-                    {t('createAccount')}
-                  </Link>
-                  <button
-                    onClick={() => setShowLoginModal(false)}
-                    className="w-full text-sm text-gray-600 hover:text-black-700 py-2"
-                  >
-                    {tCommon('cancel')}
-                  </button>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
     </div>
   )
 }
@@ -1,7 +1,10 @@
 import { redirect } from 'next/navigation'
-import { cookies } from 'next/headers'
-import { verifyToken } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth'
 import { getCartItemsAction } from '@/app/actions/cart'
+import { quoteCart } from '@/lib/pricing'
+import { getAppliedCoupon } from '@/lib/coupons'
+import { findUserById } from '@/lib/repositories/user.repository'
+import { getAddressesByUserId } from '@/lib/repositories/address.repository'
 import CheckoutPageClient from './CheckoutPageClient'
 
 export default async function CheckoutPage({
@@ -18,32 +21,37 @@ export default async function CheckoutPage({
     redirect(`/${locale}/cart`)
   }
 
-  const { items, total, itemCount } = result.data
+  const { items, itemCount } = result.data
 
   // Check if user is authenticated (optional for checkout)
-  const cookieStore = await cookies()
-  const token = cookieStore.get('auth_token')
-  let userEmail: string | undefined
-
-  if (token) {
-    try {
-      const payload = await verifyToken(token.value)
-      if (payload) {
-        userEmail = payload.email
-      }
-    } catch {
-      // Invalid token, treat as guest
-      userEmail = undefined
-    }
+  const user = await getCurrentUser()
+  const userEmail = user?.email
+  const userId = user?.userId ?? null
+
+  // Account holders can only place orders once their email is verified
+  const emailVerified = userId ? !!(await findUserById(userId))?.emailVerifiedAt : true
+
+  // Account holders can fill in the form from their address book
+  const savedAddresses = userId ? await getAddressesByUserId(userId) : []
+
+  // Quote both delivery methods server-side so the client only switches between them
+  const applied = await getAppliedCoupon(items, { userId, email: null })
+  const quoteCoupon = applied.coupon?.quoteCoupon ?? null
+  const quotes = {
+    SHIP: quoteCart(items, 'SHIP', quoteCoupon),
+    COLLECT: quoteCart(items, 'COLLECT', quoteCoupon),
   }
 
   return (
     <CheckoutPageClient
       items={items}
-      total={total}
+      quotes={quotes}
       itemCount={itemCount}
       userEmail={userEmail}
       isAuthenticated={!!userEmail}
+      emailVerified={emailVerified}
+      couponError={applied.error}
+      savedAddresses={savedAddresses}
     />
   )
 }
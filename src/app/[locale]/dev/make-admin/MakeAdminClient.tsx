@@ -0,0 +1,55 @@
+'use client'
+
+import { useState } from 'react'
+import { makeUserAdmin } from '@/app/actions/admin'
+
+export default function MakeAdminClient() {
+  const [email, setEmail] = useState('john.doe@example.com')
+  const [message, setMessage] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setMessage('')
+
+    const result = await makeUserAdmin(email)
+    setMessage(result.message || (result.success ? 'Success!' : 'Failed'))
+    setLoading(false)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8">
+        <h1 className="text-2xl font-bold text-black-700 mb-6">Make User Admin</h1>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+              User Email
+            </label>
+            <input
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-black-700 focus:border-transparent"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full btn-primary disabled:opacity-50"
+          >
+            {loading ? 'Processing...' : 'Make Admin'}
+          </button>
+          {message && (
+            <div className={`p-4 rounded-lg ${message.includes('Success') || message.includes('updated') ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+              {message}
+            </div>
+          )}
+        </form>
+      </div>
+    </div>
+  )
+}
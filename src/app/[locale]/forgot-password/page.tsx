@@ -0,0 +1,91 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useTranslations, useLocale } from 'next-intl'
+import { requestPasswordResetAction } from '@/app/actions/auth'
+import Input from '@/components/ui/Input'
+import Button from '@/components/ui/Button'
+
+export default function ForgotPasswordPage() {
+  const locale = useLocale()
+  const t = useTranslations('auth.forgotPassword')
+  const tCommon = useTranslations('common')
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState('')
+  const [sent, setSent] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const result = await requestPasswordResetAction(email)
+
+      if (result.success) {
+        setSent(true)
+      } else {
+        setError(result.message || 'Something went wrong')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-black-700 mb-2">{tCommon('appName')}</h1>
+        </div>
+
+        <div className="card p-8">
+          <h2 className="text-2xl font-bold text-black-700 mb-2">{t('title')}</h2>
+          <p className="text-sm text-gray-600 mb-6">{t('subtitle')}</p>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {sent ? (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+              {t('sent')}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <Input
+                id="email"
+                type="email"
+                label={t('email')}
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                autoComplete="email"
+              />
+
+              <Button type="submit" className="w-full" isLoading={isLoading}>
+                {isLoading ? t('sending') : t('submit')}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link
+              href={`/${locale}/login`}
+              className="text-sm font-semibold text-black-700 hover:text-black-700 transition-colors"
+            >
+              {t('backToLogin')}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
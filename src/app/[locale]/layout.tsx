@@ -1,12 +1,12 @@
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
-import { cookies } from 'next/headers'
 import { NextIntlClientProvider } from 'next-intl'
 import { getMessages } from 'next-intl/server'
 import { notFound } from 'next/navigation'
 import '../globals.css'
 import Navigation from '@/components/layout/Navigation'
-import { verifyToken } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth'
+import { isStaffRole } from '@/lib/permissions'
 import { locales, type Locale } from '@/i18n/request'
 import { shopConfig } from '@/config/shop'
 
@@ -47,25 +47,10 @@ export default async function LocaleLayout({
   const messages = await getMessages()
 
   // Check authentication
-  const cookieStore = await cookies()
-  const token = cookieStore.get('auth_token')
-  let isAuthenticated = false
-  let userEmail: string | undefined
-  let isAdmin = false
-
-  if (token) {
-    try {
-      const payload = await verifyToken(token.value)
-      if (payload) {
-        isAuthenticated = true
-        userEmail = payload.email
-        isAdmin = payload.role === 'ADMIN'
-      }
-    } catch {
-      // Token is invalid
-      isAuthenticated = false
-    }
-  }
+  const user = await getCurrentUser()
+  const isAuthenticated = user !== null
+  const userEmail = user?.email
+  const isAdmin = user !== null && isStaffRole(user.role)
 
   return (
     <html lang={locale} className={inter.variable}>
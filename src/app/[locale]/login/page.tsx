@@ -4,9 +4,12 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useTranslations, useLocale } from 'next-intl'
-import { loginAction } from '@/app/actions/auth'
+import { loginAction, verifyTwoFactorLoginAction } from '@/app/actions/auth'
+import { isStaffRole } from '@/lib/permissions'
 import Input from '@/components/ui/Input'
 import Button from '@/components/ui/Button'
+import TwoFactorSetup from '@/components/auth/TwoFactorSetup'
+import type { User } from '@/lib/types'
 
 export default function LoginPage() {
   const router = useRouter()
@@ -17,9 +20,20 @@ export default function LoginPage() {
     email: '',
     password: '',
   })
+  const [step, setStep] = useState<'password' | 'code' | 'setup'>('password')
+  const [code, setCode] = useState('')
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
 
+  // Use full page reload to ensure layout picks up new auth cookie
+  const redirectAfterLogin = (user?: User) => {
+    if (user && isStaffRole(user.role)) {
+      window.location.href = `/${locale}/admin/dashboard`
+    } else {
+      window.location.href = `/${locale}/shop`
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -29,12 +43,11 @@ export default function LoginPage() {
       const result = await loginAction(formData)
 
       if (result.success) {
-        // Use full page reload to ensure layout picks up new auth cookie
-        if (result.user?.role === 'ADMIN') {
-          window.location.href = `/${locale}/admin/dashboard`
-        } else {
-          window.location.href = `/${locale}/shop`
-        }
+        redirectAfterLogin(result.user)
+      } else if (result.twoFactorRequired) {
+        setStep('code')
+      } else if (result.twoFactorSetupRequired) {
+        setStep('setup')
       } else {
         setError(result.message || 'Login failed')
       }
@@ -45,6 +58,37 @@ export default function LoginPage() {
     }
   }
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const result = await verifyTwoFactorLoginAction(code)
+
+      if (result.success) {
+        redirectAfterLogin(result.user)
+      } else {
+        setError(result.message || 'Login failed')
+        // The sign-in expired or the account locked: start again from the password
+        if (!result.twoFactorRequired) {
+          setStep('password')
+          setCode('')
+        }
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleBack = () => {
+    setStep('password')
+    setCode('')
+    setError('')
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -57,7 +101,7 @@ export default function LoginPage() {
         {/* Login Form */}
         <div className="card p-8">
           <h2 className="text-2xl font-bold text-black-700 mb-6">
-            {t('title')}
+            {step === 'code' ? t('twoFactorTitle') : step === 'setup' ? t('twoFactorSetupTitle') : t('title')}
           </h2>
 
           {error && (
@@ -66,38 +110,81 @@ export default function LoginPage() {
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-5">
-            <Input
-              id="email"
-              type="email"
-              label={t('email')}
-              placeholder="you@example.com"
-              value={formData.email}
-              onChange={(e) =>
-                setFormData({ ...formData, email: e.target.value })
-              }
-              required
-              autoComplete="email"
-            />
-
-            <Input
-              id="password"
-              type="password"
-              label={t('password')}
-              placeholder="••••••••"
-              value={formData.password}
-              onChange={(e) =>
-                setFormData({ ...formData, password: e.target.value })
-              }
-              required
-              autoComplete="current-password"
-              showPasswordToggle
-            />
-
-            <Button type="submit" className="w-full" isLoading={isLoading}>
-              {isLoading ? t('signingIn') : t('submit')}
-            </Button>
-          </form>
+          {step === 'code' && (
+            <form onSubmit={handleCodeSubmit} className="space-y-5">
+              <p className="text-sm text-gray-600">{t('twoFactorHint')}</p>
+
+              <Input
+                id="code"
+                label={t('twoFactorCode')}
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                autoFocus
+                autoComplete="one-time-code"
+              />
+
+              <Button type="submit" className="w-full" isLoading={isLoading}>
+                {isLoading ? t('verifying') : t('verify')}
+              </Button>
+
+              <button type="button" onClick={handleBack} className="w-full text-sm text-gray-600 hover:text-black-700">
+                {t('back')}
+              </button>
+            </form>
+          )}
+
+          {step === 'setup' && (
+            <div className="space-y-5">
+              <p className="text-sm text-gray-600">{t('twoFactorSetupHint')}</p>
+              <TwoFactorSetup onComplete={redirectAfterLogin} onCancel={handleBack} />
+            </div>
+          )}
+
+          {step === 'password' && (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <Input
+                id="email"
+                type="email"
+                label={t('email')}
+                placeholder="you@example.com"
+                value={formData.email}
+                onChange={(e) =>
+                  setFormData({ ...formData, email: e.target.value })
+                }
+                required
+                autoComplete="email"
+              />
+
+              <Input
+                id="password"
+                type="password"
+                label={t('password')}
+                placeholder="••••••••"
+                value={formData.password}
+                onChange={(e) =>
+                  setFormData({ ...formData, password: e.target.value })
+                }
+                required
+                autoComplete="current-password"
+                showPasswordToggle
+              />
+
+              <div className="flex justify-end">
+                <Link
+                  href={`/${locale}/forgot-password`}
+                  className="text-sm text-gray-600 hover:text-black-700 transition-colors"
+                >
+                  {t('forgotPassword')}
+                </Link>
+              </div>
+
+              <Button type="submit" className="w-full" isLoading={isLoading}>
+                {isLoading ? t('signingIn') : t('submit')}
+              </Button>
+            </form>
+          )}
 
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-600">
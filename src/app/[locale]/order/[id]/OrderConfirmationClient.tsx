@@ -1,9 +1,18 @@
 'use client'
 
+import { useState } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
+import { useRouter } from 'next/navigation'
 import { useTranslations, useLocale } from 'next-intl'
 import type { OrderWithItems } from '@/lib/repositories/order.repository'
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge'
+import OrderTimeline from '@/components/orders/OrderTimeline'
+import ReturnRequestForm from '@/components/orders/ReturnRequestForm'
+import ReturnStatusBadge from '@/components/orders/ReturnStatusBadge'
+import { canSubmitPayment } from '@/lib/order-lifecycle'
+import { canRequestReturn, getFulfilledAt, getReturnableQuantity } from '@/lib/return-lifecycle'
+import { shopConfig } from '@/config/shop'
 
 interface OrderConfirmationClientProps {
   order: OrderWithItems
@@ -12,7 +21,10 @@ interface OrderConfirmationClientProps {
 export default function OrderConfirmationClient({ order }: OrderConfirmationClientProps) {
   const locale = useLocale()
   const t = useTranslations('order.confirmation')
-  const tStatus = useTranslations('order.status')
+  const tTimeline = useTranslations('order.timeline')
+  const tReturns = useTranslations('order.returns')
+  const router = useRouter()
+  const [returningItemId, setReturningItemId] = useState<string | null>(null)
 
   const orderDate = new Date(order.createdAt).toLocaleDateString('en-US', {
     year: 'numeric',
@@ -20,8 +32,24 @@ export default function OrderConfirmationClient({ order }: OrderConfirmationClie
     day: 'numeric',
   })
 
-  const shipping = order.totalAmount < 100 ? 9.99 : 0
-  const subtotal = order.totalAmount - shipping
+  // Orders placed before the pricing engine have no stored breakdown
+  const shipping = order.shippingCost ?? 0
+  const discount = order.discountAmount ?? 0
+  const tax = order.taxAmount ?? 0
+  const refunded = order.refundedAmount ?? 0
+  const subtotal = order.subtotal ?? order.totalAmount + refunded - shipping - tax + discount
+
+  const latestSubmission = order.paymentSubmissions[order.paymentSubmissions.length - 1]
+  const awaitingPayment = canSubmitPayment(order.status)
+  const isGuestOrder = !order.userId && !!order.guestEmail
+  const returnsOpen = canRequestReturn(order)
+  const returnDeadline = new Date(getFulfilledAt(order))
+  returnDeadline.setDate(returnDeadline.getDate() + shopConfig.returnWindowDays)
+
+  const handleReturnSubmitted = () => {
+    setReturningItemId(null)
+    router.refresh()
+  }
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -66,74 +94,177 @@ export default function OrderConfirmationClient({ order }: OrderConfirmationClie
                 </div>
               </div>
               <div className="mt-4">
-                <span
-                  className={`inline-block rounded-full px-3 py-1 text-sm font-semibold ${
-                    order.status === 'PENDING'
-                      ? 'bg-gray-100 text-black-700'
-                      : order.status === 'CONFIRMED'
-                      ? 'bg-gray-100 text-black-700'
-                      : order.status === 'FULFILLED'
-                      ? 'bg-green-100 text-green-700'
-                      : 'bg-red-100 text-red-700'
-                  }`}
-                >
-                  {tStatus(order.status)}
-                </span>
+                <OrderStatusBadge status={order.status} className="text-sm" />
+              </div>
+              {awaitingPayment && (
+                <div className="mt-4 border-t border-gray-200 pt-4">
+                  {latestSubmission?.status === 'REJECTED' && (
+                    <p className="mb-3 text-sm text-red-700">
+                      {t('paymentRejected', { reason: latestSubmission.rejectionReason ?? '' })}
+                    </p>
+                  )}
+                  <Link href={`/${locale}/order/${order.id}/payment`} className="btn-primary inline-block">
+                    {t('uploadPayment')}
+                  </Link>
+                </div>
+              )}
+            </div>
+
+            {/* Guest order access */}
+            {isGuestOrder && (
+              <div className="rounded-lg bg-white p-6 shadow-sm">
+                <h2 className="text-lg font-bold text-black-700 mb-2">{t('guestTitle')}</h2>
+                <p className="text-sm text-gray-600">
+                  {t('guestLookup', { orderNumber: order.orderNumber, email: order.guestEmail ?? '' })}
+                </p>
+                <p className="mt-2 text-sm text-gray-600">{t('guestSignup')}</p>
+                <div className="mt-4 flex flex-wrap gap-4 text-sm font-medium">
+                  <Link
+                    href={`/${locale}/order/lookup?orderNumber=${encodeURIComponent(order.orderNumber)}`}
+                    className="text-black-700 underline"
+                  >
+                    {t('guestLookupLink')}
+                  </Link>
+                  <Link href={`/${locale}/signup`} className="text-black-700 underline">
+                    {t('guestCreateAccount')}
+                  </Link>
+                </div>
               </div>
+            )}
+
+            {/* Order History */}
+            <div className="rounded-lg bg-white p-6 shadow-sm">
+              <h2 className="text-lg font-bold text-black-700 mb-4">{tTimeline('title')}</h2>
+              <OrderTimeline events={order.events} />
             </div>
 
             {/* Order Items */}
             <div className="rounded-lg bg-white p-6 shadow-sm">
               <h2 className="text-lg font-bold text-black-700 mb-4">{t('items')}</h2>
               <div className="space-y-4">
-                {order.items.map((item) => (
-                  <div key={item.id} className="flex gap-4 border-b border-gray-200 pb-4 last:border-0">
-                    <Link
-                      href={`/${locale}/product/${item.product.id}`}
-                      className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-lg bg-gray-100"
-                    >
-                      {(item.variant.images?.[0] || item.product.images?.[0]) ? (
-                        <Image
-                          src={item.variant.images?.[0] || item.product.images[0]}
-                          alt={item.product.name}
-                          fill
-                          className="object-cover"
-                          sizes="80px"
-                        />
-                      ) : (
-                        <div className="flex h-full items-center justify-center text-gray-400 text-xs">
-                          {t('noImage')}
+                {order.items.map((item) => {
+                  const returnable = returnsOpen ? getReturnableQuantity(order, item.id) : 0
+
+                  return (
+                    <div key={item.id} className="border-b border-gray-200 pb-4 last:border-0">
+                      <div className="flex gap-4">
+                        <Link
+                          href={`/${locale}/product/${item.product.id}`}
+                          className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-lg bg-gray-100"
+                        >
+                          {(item.variant.images?.[0] || item.product.images?.[0]) ? (
+                            <Image
+                              src={item.variant.images?.[0] || item.product.images[0]}
+                              alt={item.product.name}
+                              fill
+                              className="object-cover"
+                              sizes="80px"
+                            />
+                          ) : (
+                            <div className="flex h-full items-center justify-center text-gray-400 text-xs">
+                              {t('noImage')}
+                            </div>
+                          )}
+                        </Link>
+
+                        <div className="flex-1">
+                          <Link
+                            href={`/${locale}/product/${item.product.id}`}
+                            className="text-sm font-semibold text-black-700 hover:text-black-700 transition-colors"
+                          >
+                            {item.product.name}
+                          </Link>
+                          <p className="text-xs text-gray-600 mt-1">{item.product.brand}</p>
+                          <p className="text-xs text-gray-600 mt-1">
+                            Size: {item.variant.size} • Color: {item.variant.color}
+                          </p>
+                          <p className="text-sm text-gray-600 mt-1">Quantity: {item.quantity}</p>
+                          {(item.cancelledQuantity ?? 0) > 0 && (
+                            <p className="text-sm text-red-600 mt-1">
+                              {t('cancelled', { count: item.cancelledQuantity! })}
+                            </p>
+                          )}
                         </div>
-                      )}
-                    </Link>
-
-                    <div className="flex-1">
-                      <Link
-                        href={`/${locale}/product/${item.product.id}`}
-                        className="text-sm font-semibold text-black-700 hover:text-black-700 transition-colors"
-                      >
-                        {item.product.name}
-                      </Link>
-                      <p className="text-xs text-gray-600 mt-1">{item.product.brand}</p>
-                      <p className="text-xs text-gray-600 mt-1">
-                        Size: {item.variant.size} • Color: {item.variant.color}
-                      </p>
-                      <p className="text-sm text-gray-600 mt-1">Quantity: {item.quantity}</p>
-                    </div>
 
-                    <div className="text-right">
-                      <p className="text-sm font-bold text-black-700">
-                        Rs {(item.priceAtPurchase * item.quantity).toFixed(2)}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        Rs {item.priceAtPurchase.toFixed(2)} {t('each')}
-                      </p>
+                        <div className="text-right">
+                          <p className="text-sm font-bold text-black-700">
+                            Rs {(item.priceAtPurchase * item.quantity).toFixed(2)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Rs {item.priceAtPurchase.toFixed(2)} {t('each')}
+                          </p>
+                        </div>
+                      </div>
+
+                      {returnable > 0 && returningItemId !== item.id && (
+                        <button
+                          onClick={() => setReturningItemId(item.id)}
+                          className="mt-2 text-sm font-medium text-black-700 underline"
+                        >
+                          {tReturns('requestButton')}
+                        </button>
+                      )}
+                      {returnable > 0 && returningItemId === item.id && (
+                        <ReturnRequestForm
+                          orderId={order.id}
+                          orderItemId={item.id}
+                          maxQuantity={returnable}
+                          onSubmitted={handleReturnSubmitted}
+                          onCancel={() => setReturningItemId(null)}
+                        />
+                      )}
                     </div>
-                  </div>
-                ))}
+                  )
+                })}
               </div>
             </div>
 
+            {/* Returns & Exchanges */}
+            {(returnsOpen || order.returns.length > 0) && (
+              <div className="rounded-lg bg-white p-6 shadow-sm">
+                <h2 className="text-lg font-bold text-black-700 mb-2">{tReturns('title')}</h2>
+                {returnsOpen && (
+                  <p className="text-sm text-gray-600 mb-4">
+                    {tReturns('window', {
+                      date: returnDeadline.toLocaleDateString('en-US', {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      }),
+                    })}
+                  </p>
+                )}
+                <div className="space-y-3">
+                  {order.returns.map((returnRequest) => {
+                    const returnedItem = order.items.find((item) => item.id === returnRequest.orderItemId)
+                    return (
+                      <div key={returnRequest.id} className="flex items-start justify-between gap-4 text-sm">
+                        <div>
+                          <p className="font-medium text-black-700">
+                            {returnRequest.quantity} × {returnedItem?.product.name} ({returnedItem?.variant.size} / {returnedItem?.variant.color})
+                          </p>
+                          <p className="text-gray-600">
+                            {returnRequest.type === 'EXCHANGE'
+                              ? tReturns('exchangeFor', {
+                                  size: returnRequest.replacementSize ?? '',
+                                  color: returnRequest.replacementColor ?? '',
+                                })
+                              : tReturns('type.RETURN')}
+                            {' • '}
+                            {tReturns(`reasons.${returnRequest.reason}`)}
+                          </p>
+                          {returnRequest.adminNote && (
+                            <p className="text-gray-600">{tReturns('adminNote', { note: returnRequest.adminNote })}</p>
+                          )}
+                        </div>
+                        <ReturnStatusBadge status={returnRequest.status} />
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Shipping Address */}
             <div className="rounded-lg bg-white p-6 shadow-sm">
               <h2 className="text-lg font-bold text-black-700 mb-4">{t('shippingAddress')}</h2>
@@ -162,6 +293,14 @@ export default function OrderConfirmationClient({ order }: OrderConfirmationClie
                   <span className="text-gray-600">{t('subtotal')}</span>
                   <span className="font-medium text-black-700">Rs {subtotal.toFixed(2)}</span>
                 </div>
+                {discount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">
+                      {order.couponCode ? t('couponDiscount', { code: order.couponCode }) : t('discount')}
+                    </span>
+                    <span className="font-medium text-green-600">- Rs {discount.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">{t('shipping')}</span>
                   <span
@@ -169,9 +308,21 @@ export default function OrderConfirmationClient({ order }: OrderConfirmationClie
                       shipping === 0 ? 'text-green-600' : 'text-black-700'
                     }`}
                   >
-                    {shipping === 0 ? t('free') : `$Rs {shipping.toFixed(2)}`}
+                    {shipping === 0 ? t('free') : `Rs ${shipping.toFixed(2)}`}
                   </span>
                 </div>
+                {tax > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t('tax')}</span>
+                    <span className="font-medium text-black-700">Rs {tax.toFixed(2)}</span>
+                  </div>
+                )}
+                {refunded > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">{t('refunded')}</span>
+                    <span className="font-medium text-red-600">- Rs {refunded.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between border-t border-gray-200 pt-3">
                   <span className="text-base font-bold text-black-700">{t('total')}</span>
                   <span className="text-2xl font-bold text-black-700">
@@ -181,9 +332,11 @@ export default function OrderConfirmationClient({ order }: OrderConfirmationClie
               </div>
 
               <div className="mt-6 space-y-3">
-                <Link href={`/${locale}/orders`} className="btn-primary w-full text-center block">
-                  {t('viewMyOrders')}
-                </Link>
+                {!isGuestOrder && (
+                  <Link href={`/${locale}/orders`} className="btn-primary w-full text-center block">
+                    {t('viewMyOrders')}
+                  </Link>
+                )}
                 <Link href={`/${locale}/shop`} className="btn-secondary w-full text-center block">
                   {t('continueShopping')}
                 </Link>
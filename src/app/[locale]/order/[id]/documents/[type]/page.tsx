@@ -0,0 +1,48 @@
+import { notFound, redirect } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import { getCurrentUser } from '@/lib/auth'
+import { canRenderOrderDocumentPdf, getOrderDocument, isOrderDocumentType } from '@/lib/order-documents'
+import OrderDocumentView from '@/components/orders/OrderDocumentView'
+import PrintButton from '@/components/orders/PrintButton'
+
+export default async function OrderDocumentPage({
+  params,
+}: {
+  params: Promise<{ id: string; type: string; locale: string }>
+}) {
+  const { id, type, locale } = await params
+
+  if (!isOrderDocumentType(type)) {
+    notFound()
+  }
+
+  const document = await getOrderDocument(id, type, locale)
+
+  if (!document) {
+    const user = await getCurrentUser()
+    if (!user) {
+      redirect(`/${locale}/login?redirect=/${locale}/order/${id}/documents/${type}`)
+    }
+    notFound()
+  }
+
+  const t = await getTranslations('order.documents')
+  const pdfInEnglish = !canRenderOrderDocumentPdf(document)
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 print:bg-white print:py-0">
+      <div className="mx-auto max-w-3xl px-4 mb-4 flex justify-end gap-3 print:hidden">
+        <a href={`/${locale}/order/${id}/documents/${type}/pdf`} className="btn-secondary">
+          {pdfInEnglish ? t('downloadPdfEnglish') : t('downloadPdf')}
+        </a>
+        <PrintButton label={t('print')} />
+      </div>
+      {pdfInEnglish && (
+        <p className="mx-auto max-w-3xl px-4 mb-4 text-right text-xs text-gray-600 print:hidden">
+          {t('pdfEnglishOnly')}
+        </p>
+      )}
+      <OrderDocumentView document={document} />
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import {
+  getOrderDocumentFileName,
+  getOrderDocumentForPdf,
+  isOrderDocumentType,
+  renderOrderDocumentPdf,
+} from '@/lib/order-documents'
+
+/**
+ * Download an invoice or packing slip as a PDF
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; type: string; locale: string }> }
+) {
+  const { id, type, locale } = await params
+
+  const document = isOrderDocumentType(type) ? await getOrderDocumentForPdf(id, type, locale) : null
+
+  if (!document) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  const pdf = renderOrderDocumentPdf(document)
+
+  return new Response(new Uint8Array(pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${getOrderDocumentFileName(document)}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  })
+}
@@ -1,6 +1,5 @@
 import { notFound, redirect } from 'next/navigation'
-import { cookies } from 'next/headers'
-import { verifyToken } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth'
 import { getOrderAction } from '@/app/actions/order'
 import OrderConfirmationClient from './OrderConfirmationClient'
 
@@ -11,24 +10,15 @@ export default async function OrderConfirmationPage({
 }) {
   const { id, locale } = await params
 
-  // Check authentication
-  const cookieStore = await cookies()
-  const token = cookieStore.get('auth_token')
-
-  if (!token) {
-    redirect(`/${locale}/login`)
-  }
-
-  try {
-    await verifyToken(token.value)
-  } catch {
-    redirect(`/${locale}/login`)
-  }
-
-  // Get order
+  // Get order (signed-in owner, or a guest with access to it)
   const result = await getOrderAction(id)
 
   if (!result.success || !result.data) {
+    // Guests without access can look the order up by order number and email
+    const user = await getCurrentUser()
+    if (!user) {
+      redirect(`/${locale}/order/lookup`)
+    }
     notFound()
   }
 
@@ -6,6 +6,7 @@ import Link from 'next/link'
 import { useTranslations, useLocale } from 'next-intl'
 import type { OrderWithItems } from '@/lib/repositories/order.repository'
 import Notification, { type NotificationType } from '@/components/ui/Notification'
+import PaymentProofLink from '@/components/orders/PaymentProofLink'
 import { shopConfig } from '@/config/shop'
 
 interface PaymentPageClientProps {
@@ -18,7 +19,11 @@ export default function PaymentPageClient({ order }: PaymentPageClientProps) {
   const tCommon = useTranslations('common')
   const [paymentProof, setPaymentProof] = useState<File | null>(null)
   const [isUploading, setIsUploading] = useState(false)
-  const [uploadSuccess, setUploadSuccess] = useState(false)
+  const [uploadSuccess, setUploadSuccess] = useState(order.status === 'PAYMENT_SUBMITTED')
+
+  const submissions = [...order.paymentSubmissions].reverse()
+  const latestSubmission = submissions[0]
+  const wasRejected = !uploadSuccess && latestSubmission?.status === 'REJECTED'
 
   // Notification state
   const [notification, setNotification] = useState<{
@@ -193,6 +198,16 @@ export default function PaymentPageClient({ order }: PaymentPageClientProps) {
                 </div>
               ) : (
                 <div className="space-y-4">
+                  {wasRejected && (
+                    <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                      <p className="text-sm font-semibold text-red-800">{t('proofRejected')}</p>
+                      <p className="text-sm text-red-700 mt-1">
+                        {t('rejectionReason')}: {latestSubmission.rejectionReason}
+                      </p>
+                      <p className="text-xs text-red-700 mt-2">{t('reuploadPrompt')}</p>
+                    </div>
+                  )}
+
                   <div className="border-2 border-dashed border-gray-300 rounded-lg p-6">
                     <input
                       type="file"
@@ -230,6 +245,53 @@ export default function PaymentPageClient({ order }: PaymentPageClientProps) {
                 </div>
               )}
             </div>
+
+            {/* Submission History */}
+            {submissions.length > 0 && (
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-xl font-bold text-black-700 mb-4">{t('submissionHistory')}</h2>
+                <ul className="divide-y divide-gray-200">
+                  {submissions.map((submission) => (
+                    <li key={submission.id} className="py-3 flex items-start justify-between gap-4">
+                      <div>
+                        <p className="text-sm text-black-700">
+                          {new Date(submission.submittedAt).toLocaleString('en-US', {
+                            year: 'numeric',
+                            month: 'short',
+                            day: 'numeric',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                        </p>
+                        {submission.rejectionReason && (
+                          <p className="text-xs text-red-700 mt-1">{submission.rejectionReason}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span
+                          className={`text-xs font-semibold px-2 py-1 rounded ${
+                            submission.status === 'APPROVED'
+                              ? 'bg-green-100 text-green-700'
+                              : submission.status === 'REJECTED'
+                              ? 'bg-red-100 text-red-700'
+                              : 'bg-yellow-100 text-yellow-800'
+                          }`}
+                        >
+                          {t(`submissionStatus.${submission.status}`)}
+                        </span>
+                        <PaymentProofLink
+                          orderId={order.id}
+                          submissionId={submission.id}
+                          className="text-xs text-black-700 underline"
+                        >
+                          {t('viewFile')}
+                        </PaymentProofLink>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           {/* Order Summary Sidebar */}
@@ -1,7 +1,8 @@
 import { notFound, redirect } from 'next/navigation'
-import { cookies } from 'next/headers'
-import { verifyToken } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth'
+import { getOrderAccessActor } from '@/lib/guest-orders'
 import { getOrderById } from '@/lib/repositories/order.repository'
+import { canSubmitPayment } from '@/lib/order-lifecycle'
 import { getTranslations } from 'next-intl/server'
 import PaymentPageClient from './PaymentPageClient'
 
@@ -9,25 +10,6 @@ export default async function PaymentPage({ params }: { params: Promise<{ id: st
   const { id: orderId } = await params
   const t = await getTranslations('payment')
 
-  // Get current user
-  const cookieStore = await cookies()
-  const token = cookieStore.get('auth_token')
-
-  if (!token) {
-    redirect(`/login?redirect=/order/${orderId}/payment`)
-  }
-
-  let userId: string
-  try {
-    const payload = await verifyToken(token.value)
-    if (!payload) {
-      redirect(`/login?redirect=/order/${orderId}/payment`)
-    }
-    userId = payload.userId
-  } catch {
-    redirect(`/login?redirect=/order/${orderId}/payment`)
-  }
-
   // Get order
   const order = await getOrderById(orderId)
 
@@ -35,13 +17,18 @@ export default async function PaymentPage({ params }: { params: Promise<{ id: st
     notFound()
   }
 
-  // Verify order belongs to user
-  if (order.userId !== userId) {
+  // Verify order belongs to the user (or to a guest with access to it)
+  const actor = await getOrderAccessActor(order)
+  if (!actor) {
+    // Guests can look the order up by order number and email first
+    if (!(await getCurrentUser())) {
+      redirect('/order/lookup')
+    }
     notFound()
   }
 
-  // Only allow payment for CONFIRMED orders
-  if (order.status !== 'CONFIRMED') {
+  // Only allow payment while the order is awaiting it (or show the proof under review)
+  if (!canSubmitPayment(order.status) && order.status !== 'PAYMENT_SUBMITTED') {
     redirect(`/order/${orderId}`)
   }
 
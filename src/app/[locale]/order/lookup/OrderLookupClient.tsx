@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { useTranslations, useLocale } from 'next-intl'
+import { lookupGuestOrderAction } from '@/app/actions/order'
+import Input from '@/components/ui/Input'
+import Button from '@/components/ui/Button'
+
+interface OrderLookupClientProps {
+  initialOrderNumber: string
+  initialEmail: string
+}
+
+export default function OrderLookupClient({ initialOrderNumber, initialEmail }: OrderLookupClientProps) {
+  const router = useRouter()
+  const locale = useLocale()
+  const t = useTranslations('order.lookup')
+  const [formData, setFormData] = useState({
+    orderNumber: initialOrderNumber,
+    email: initialEmail,
+  })
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const result = await lookupGuestOrderAction(formData.orderNumber, formData.email)
+
+      if (result.success && result.data) {
+        router.push(`/${locale}/order/${result.data.orderId}`)
+      } else {
+        setError(result.message || t('notFound'))
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="card p-8">
+          <h1 className="text-2xl font-bold text-black-700 mb-2">{t('title')}</h1>
+          <p className="text-sm text-gray-600 mb-6">{t('subtitle')}</p>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <Input
+              id="orderNumber"
+              type="text"
+              label={t('orderNumber')}
+              placeholder="FB-..."
+              value={formData.orderNumber}
+              onChange={(e) => setFormData({ ...formData, orderNumber: e.target.value })}
+              required
+            />
+
+            <Input
+              id="email"
+              type="email"
+              label={t('email')}
+              placeholder="you@example.com"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              required
+              autoComplete="email"
+            />
+
+            <Button type="submit" className="w-full" isLoading={isLoading}>
+              {t('submit')}
+            </Button>
+          </form>
+
+          <div className="mt-6 text-center">
+            <p className="text-sm text-gray-600">
+              {t('haveAccount')}{' '}
+              <Link
+                href={`/${locale}/login`}
+                className="font-semibold text-black-700 hover:text-black-700 transition-colors"
+              >
+                {t('signIn')}
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
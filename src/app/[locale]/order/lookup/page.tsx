@@ -0,0 +1,11 @@
+import OrderLookupClient from './OrderLookupClient'
+
+export default async function OrderLookupPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ orderNumber?: string; email?: string }>
+}) {
+  const { orderNumber, email } = await searchParams
+
+  return <OrderLookupClient initialOrderNumber={orderNumber ?? ''} initialEmail={email ?? ''} />
+}
@@ -4,6 +4,7 @@ import Link from 'next/link'
 import Image from 'next/image'
 import { useTranslations, useLocale } from 'next-intl'
 import type { OrderWithItems } from '@/lib/repositories/order.repository'
+import OrderStatusBadge from '@/components/orders/OrderStatusBadge'
 
 interface OrdersPageClientProps {
   orders: OrderWithItems[]
@@ -13,7 +14,7 @@ interface OrdersPageClientProps {
 export default function OrdersPageClient({ orders, count }: OrdersPageClientProps) {
   const locale = useLocale()
   const t = useTranslations('order.list')
-  const tStatus = useTranslations('order.status')
+  const tDocuments = useTranslations('order.documents')
 
   if (orders.length === 0) {
     return (
@@ -70,6 +71,7 @@ export default function OrdersPageClient({ orders, count }: OrdersPageClientProp
               month: 'short',
               day: 'numeric',
             })
+            const refunded = order.refundedAmount ?? 0
 
             return (
               <div key={order.id} className="rounded-lg bg-white shadow-sm">
@@ -92,20 +94,14 @@ export default function OrdersPageClient({ orders, count }: OrdersPageClientProp
                         </p>
                       </div>
                     </div>
-                    <div className="flex items-center gap-4">
-                      <span
-                        className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${
-                          order.status === 'PENDING'
-                            ? 'bg-gray-100 text-black-700'
-                            : order.status === 'CONFIRMED'
-                            ? 'bg-gray-100 text-black-700'
-                            : order.status === 'FULFILLED'
-                            ? 'bg-green-100 text-green-700'
-                            : 'bg-red-100 text-red-700'
-                        }`}
+                    <div className="flex flex-wrap items-center gap-4">
+                      <OrderStatusBadge status={order.status} />
+                      <a
+                        href={`/${locale}/order/${order.id}/documents/invoice/pdf`}
+                        className="text-sm text-gray-600 hover:text-black-700"
                       >
-                        {tStatus(order.status)}
-                      </span>
+                        {tDocuments('downloadInvoice')}
+                      </a>
                       <Link
                         href={`/${locale}/order/${order.id}`}
                         className="text-sm font-medium text-black-700 hover:text-black-700"
@@ -152,6 +148,11 @@ export default function OrdersPageClient({ orders, count }: OrdersPageClientProp
                             {t('size')} {item.variant.size} • {t('color')} {item.variant.color} • {t('qty')}{' '}
                             {item.quantity}
                           </p>
+                          {(item.cancelledQuantity ?? 0) > 0 && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {t('cancelled', { count: item.cancelledQuantity! })}
+                            </p>
+                          )}
                         </div>
 
                         <div className="text-right">
@@ -162,6 +163,24 @@ export default function OrdersPageClient({ orders, count }: OrdersPageClientProp
                       </div>
                     ))}
                   </div>
+
+                  {/* Adjusted breakdown after cancelled items */}
+                  {refunded > 0 && (
+                    <div className="mt-4 space-y-1 border-t border-gray-200 pt-4 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">{t('originalTotal')}</span>
+                        <span className="text-black-700">Rs {(order.totalAmount + refunded).toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">{t('refunded')}</span>
+                        <span className="text-red-600">- Rs {refunded.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between font-semibold">
+                        <span className="text-black-700">{t('adjustedTotal')}</span>
+                        <span className="text-black-700">Rs {order.totalAmount.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             )
@@ -1,7 +1,6 @@
 import { redirect } from 'next/navigation'
-import { cookies } from 'next/headers'
 import { getTranslations } from 'next-intl/server'
-import { verifyToken } from '@/lib/auth'
+import { getCurrentUser } from '@/lib/auth'
 import { getUserOrdersAction } from '@/app/actions/order'
 import OrdersPageClient from './OrdersPageClient'
 
@@ -9,16 +8,9 @@ export default async function OrdersPage() {
   const t = await getTranslations('order.list')
 
   // Check authentication
-  const cookieStore = await cookies()
-  const token = cookieStore.get('auth_token')
+  const user = await getCurrentUser()
 
-  if (!token) {
-    redirect('/login?redirect=/orders')
-  }
-
-  try {
-    await verifyToken(token.value)
-  } catch {
+  if (!user) {
     redirect('/login?redirect=/orders')
   }
 
@@ -3,20 +3,33 @@ import { getPersonalizedRecommendationsAction, getRecentlyViewedProductsAction }
 import { getNewArrivals } from '@/lib/repositories/recommendation.repository'
 import { getAllPromotionalCategoriesAction, getProductsByCategoryAction } from '@/app/actions/promotional-categories'
 import { getAllHeroSlidesAction } from '@/app/actions/hero-slides'
+import { isStoreDate } from '@/lib/schedule'
+import { roleHasPermission } from '@/lib/permissions'
 import type { PromotionalCategory } from '@/lib/types'
 import HomePageClient from './HomePageClient'
 
-export default async function HomePage({ params }: { params: Promise<{ locale: string }> }) {
+export default async function HomePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<{ preview?: string }>
+}) {
   await params // Consume the params promise even though we don't need the locale
+  const { preview } = await searchParams
   const user = await getCurrentUser()
 
+  // Content staff can preview scheduled sections and slides as of another date (?preview=YYYY-MM-DD)
+  const previewDate =
+    preview && user && roleHasPermission(user.role, 'MANAGE_CONTENT') && isStoreDate(preview) ? preview : undefined
+
   // Fetch data in parallel
   const [recommendationsResult, recentlyViewedResult, newArrivals, promoCategoriesResult, heroSlidesResult] = await Promise.all([
     user ? getPersonalizedRecommendationsAction() : Promise.resolve({ success: true, data: { products: [] } }),
     user ? getRecentlyViewedProductsAction() : Promise.resolve({ success: true, data: { products: [] } }),
     getNewArrivals(8),
-    getAllPromotionalCategoriesAction(true), // Only active categories
-    getAllHeroSlidesAction(true), // Only active hero slides
+    getAllPromotionalCategoriesAction(true, previewDate), // Only active, in-schedule categories
+    getAllHeroSlidesAction(true, previewDate), // Only active, in-schedule hero slides
   ])
 
   const recommendations = recommendationsResult.data?.products || []
@@ -43,6 +56,7 @@ export default async function HomePage({ params }: { params: Promise<{ locale: s
       newArrivals={newArrivals}
       promotionalCategories={promotionalCategoriesWithProducts}
       heroSlides={heroSlides}
+      previewDate={previewDate}
     />
   )
 }
@@ -12,9 +12,10 @@ import { useCartStore } from '@/stores/cartStore'
 
 interface ProductDetailClientProps {
   product: ProductWithVariants
+  promotionalCategoryId?: string
 }
 
-export default function ProductDetailClient({ product }: ProductDetailClientProps) {
+export default function ProductDetailClient({ product, promotionalCategoryId }: ProductDetailClientProps) {
   const router = useRouter()
   const locale = useLocale()
   const t = useTranslations('product')
@@ -82,14 +83,14 @@ export default function ProductDetailClient({ product }: ProductDetailClientProp
     setIsAdding(true)
     setMessage(null)
 
-    const success = await addToCart(selectedVariant.id, 1)
+    const success = await addToCart(selectedVariant.id, 1, promotionalCategoryId)
 
     if (success) {
       setMessage({ type: 'success', text: t('addedToCart') })
       // Clear message after 3 seconds
       setTimeout(() => setMessage(null), 3000)
     } else {
-      setMessage({ type: 'error', text: t('failedToAddToCart') })
+      setMessage({ type: 'error', text: useCartStore.getState().addError || t('failedToAddToCart') })
     }
 
     setIsAdding(false)
@@ -4,15 +4,19 @@ import ProductDetailClient from './ProductDetailClient'
 
 export default async function ProductDetailPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ id: string; locale: string }>
+  searchParams: Promise<{ promo?: string }>
 }) {
   const { id } = await params
+  const { promo } = await searchParams
   const { product } = await getProductAction(id)
 
   if (!product) {
     notFound()
   }
 
-  return <ProductDetailClient product={product} />
+  // Opened from a promotional section: adding to cart attributes the sale to it
+  return <ProductDetailClient product={product} promotionalCategoryId={promo} />
 }
@@ -4,25 +4,38 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { useTranslations } from 'next-intl'
 import { updateUserPreferencesAction, updateUserMeasurementsAction } from '@/app/actions/user-profile'
-import type { User, UserPreference, UserMeasurements, ProductCategory, SizeOption, MeasurementUnit } from '@/lib/types'
+import EmailVerificationNotice from '@/components/auth/EmailVerificationNotice'
+import ActiveSessions from '@/components/auth/ActiveSessions'
+import TwoFactorSettings from '@/components/auth/TwoFactorSettings'
+import AddressBook from '@/components/profile/AddressBook'
+import { ROLE_LABELS, isStaffRole } from '@/lib/permissions'
+import { userMeasurementsSchema } from '@/lib/schemas'
+import { checkInput } from '@/lib/validation'
+import type { Address, User, UserSession, UserPreference, UserMeasurements, ProductCategory, SizeOption, MeasurementUnit, FieldErrors } from '@/lib/types'
 
 interface ProfileClientProps {
   user: User
   initialPreferences: UserPreference | null
   initialMeasurements: UserMeasurements | null
+  initialAddresses: Address[]
+  initialSessions: (UserSession & { current: boolean })[]
+  twoFactorStatus: { enabled: boolean; required: boolean; recoveryCodesRemaining: number }
 }
 
 export default function ProfileClient({
   user,
   initialPreferences,
   initialMeasurements,
+  initialAddresses,
+  initialSessions,
+  twoFactorStatus,
 }: ProfileClientProps) {
   const t = useTranslations('profile')
   const tCommon = useTranslations('common')
   const tCategories = useTranslations('categories')
   const tSizes = useTranslations('sizes')
 
-  const [activeTab, setActiveTab] = useState<'info' | 'preferences' | 'measurements'>('info')
+  const [activeTab, setActiveTab] = useState<'info' | 'preferences' | 'measurements' | 'addresses' | 'sessions' | 'security'>('info')
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState('')
 
@@ -45,6 +58,7 @@ export default function ProfileClient({
   const [weight, setWeight] = useState(initialMeasurements?.weight?.toString() || '')
   const [preferredSize, setPreferredSize] = useState<SizeOption | ''>(initialMeasurements?.preferredSize || '')
   const [unit, setUnit] = useState<MeasurementUnit>(initialMeasurements?.unit || 'METRIC')
+  const [measurementErrors, setMeasurementErrors] = useState<FieldErrors>({})
 
   const categories: ProductCategory[] = ['SHIRT', 'PANTS', 'JACKET', 'DRESS', 'SHOES', 'ACCESSORIES']
   const sizes: SizeOption[] = ['XS', 'S', 'M', 'L', 'XL', 'XXL']
@@ -107,25 +121,33 @@ export default function ProfileClient({
   }
 
   const handleSaveMeasurements = async () => {
-    setLoading(true)
     setMessage('')
 
+    const measurements = {
+      chest: chest ? parseFloat(chest) : undefined,
+      waist: waist ? parseFloat(waist) : undefined,
+      hips: hips ? parseFloat(hips) : undefined,
+      shoulders: shoulders ? parseFloat(shoulders) : undefined,
+      inseam: inseam ? parseFloat(inseam) : undefined,
+      height: height ? parseFloat(height) : undefined,
+      weight: weight ? parseFloat(weight) : undefined,
+      preferredSize: preferredSize || undefined,
+      unit,
+    }
+
+    const errors = checkInput(userMeasurementsSchema, measurements)
+    setMeasurementErrors(errors || {})
+    if (errors) return
+
+    setLoading(true)
+
     try {
-      const result = await updateUserMeasurementsAction({
-        chest: chest ? parseFloat(chest) : undefined,
-        waist: waist ? parseFloat(waist) : undefined,
-        hips: hips ? parseFloat(hips) : undefined,
-        shoulders: shoulders ? parseFloat(shoulders) : undefined,
-        inseam: inseam ? parseFloat(inseam) : undefined,
-        height: height ? parseFloat(height) : undefined,
-        weight: weight ? parseFloat(weight) : undefined,
-        preferredSize: preferredSize || undefined,
-        unit,
-      })
+      const result = await updateUserMeasurementsAction(measurements)
 
       if (result.success) {
         setMessage(t('measurements.saved'))
       } else {
+        setMeasurementErrors(result.fieldErrors || {})
         setMessage(result.message || 'Failed to save measurements')
       }
     } catch (error) {
@@ -186,6 +208,36 @@ export default function ProfileClient({
             >
               {t('tabs.measurements')}
             </button>
+            <button
+              onClick={() => setActiveTab('addresses')}
+              className={`py-4 border-b-2 font-medium text-sm ${
+                activeTab === 'addresses'
+                  ? 'border-black-700 text-black-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {t('tabs.addresses')}
+            </button>
+            <button
+              onClick={() => setActiveTab('sessions')}
+              className={`py-4 border-b-2 font-medium text-sm ${
+                activeTab === 'sessions'
+                  ? 'border-black-700 text-black-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {t('tabs.sessions')}
+            </button>
+            <button
+              onClick={() => setActiveTab('security')}
+              className={`py-4 border-b-2 font-medium text-sm ${
+                activeTab === 'security'
+                  ? 'border-black-700 text-black-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {t('tabs.security')}
+            </button>
           </div>
         </div>
       </div>
@@ -203,6 +255,11 @@ export default function ProfileClient({
         {/* Account Info Tab */}
         {activeTab === 'info' && (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            {!user.emailVerifiedAt && (
+              <div className="mb-6">
+                <EmailVerificationNotice email={user.email} />
+              </div>
+            )}
             <h2 className="text-lg font-semibold text-black-700 mb-4">{t('accountInfo.title')}</h2>
             <div className="space-y-4">
               <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
@@ -248,9 +305,9 @@ export default function ProfileClient({
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">{t('accountInfo.role')}</label>
                 <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium ${
-                  user.role === 'ADMIN' ? 'bg-gray-100 text-purple-800' : 'bg-gray-100 text-black-700'
+                  isStaffRole(user.role) ? 'bg-gray-100 text-purple-800' : 'bg-gray-100 text-black-700'
                 }`}>
-                  {user.role}
+                  {ROLE_LABELS[user.role]}
                 </span>
               </div>
             </div>
@@ -444,6 +501,7 @@ export default function ProfileClient({
                   step="0.1"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent"
                 />
+                {measurementErrors.chest && <p className="mt-1 text-sm text-red-600">{measurementErrors.chest}</p>}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -456,6 +514,7 @@ export default function ProfileClient({
                   step="0.1"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent"
                 />
+                {measurementErrors.waist && <p className="mt-1 text-sm text-red-600">{measurementErrors.waist}</p>}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -468,6 +527,7 @@ export default function ProfileClient({
                   step="0.1"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent"
                 />
+                {measurementErrors.hips && <p className="mt-1 text-sm text-red-600">{measurementErrors.hips}</p>}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -480,6 +540,7 @@ export default function ProfileClient({
                   step="0.1"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent"
                 />
+                {measurementErrors.shoulders && <p className="mt-1 text-sm text-red-600">{measurementErrors.shoulders}</p>}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -492,6 +553,7 @@ export default function ProfileClient({
                   step="0.1"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent"
                 />
+                {measurementErrors.inseam && <p className="mt-1 text-sm text-red-600">{measurementErrors.inseam}</p>}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -504,6 +566,7 @@ export default function ProfileClient({
                   step="0.1"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent"
                 />
+                {measurementErrors.height && <p className="mt-1 text-sm text-red-600">{measurementErrors.height}</p>}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -516,6 +579,7 @@ export default function ProfileClient({
                   step="0.1"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-black-700 focus:border-transparent"
                 />
+                {measurementErrors.weight && <p className="mt-1 text-sm text-red-600">{measurementErrors.weight}</p>}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">{t('measurements.preferredSize')}</label>
@@ -541,6 +605,15 @@ export default function ProfileClient({
             </button>
           </div>
         )}
+
+        {/* Addresses Tab */}
+        {activeTab === 'addresses' && <AddressBook initialAddresses={initialAddresses} />}
+
+        {/* Sessions Tab */}
+        {activeTab === 'sessions' && <ActiveSessions initialSessions={initialSessions} />}
+
+        {/* Security Tab */}
+        {activeTab === 'security' && <TwoFactorSettings initialStatus={twoFactorStatus} />}
       </div>
     </div>
   )
@@ -1,6 +1,8 @@
 import { redirect } from 'next/navigation'
 import { getCurrentUser } from '@/lib/auth'
 import { getUserPreferencesAction, getUserMeasurementsAction } from '@/app/actions/user-profile'
+import { getSessionsAction, getTwoFactorStatusAction } from '@/app/actions/auth'
+import { getAddressesAction } from '@/app/actions/addresses'
 import { findUserById } from '@/lib/repositories/user.repository'
 import ProfileClient from './ProfileClient'
 
@@ -24,9 +26,12 @@ export default async function ProfilePage({
     redirect(`/${locale}/login?returnTo=/${locale}/profile`)
   }
 
-  const [preferencesResult, measurementsResult] = await Promise.all([
+  const [preferencesResult, measurementsResult, addressesResult, sessionsResult, twoFactorResult] = await Promise.all([
     getUserPreferencesAction(),
     getUserMeasurementsAction(),
+    getAddressesAction(),
+    getSessionsAction(),
+    getTwoFactorStatusAction(),
   ])
 
   return (
@@ -34,6 +39,9 @@ export default async function ProfilePage({
       user={user}
       initialPreferences={preferencesResult.data?.preferences || null}
       initialMeasurements={measurementsResult.data?.measurements || null}
+      initialAddresses={addressesResult.data?.addresses || []}
+      initialSessions={sessionsResult.data || []}
+      twoFactorStatus={twoFactorResult.data || { enabled: false, required: false, recoveryCodesRemaining: 0 }}
     />
   )
 }
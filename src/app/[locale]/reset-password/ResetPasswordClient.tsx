@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useTranslations, useLocale } from 'next-intl'
+import { resetPasswordAction } from '@/app/actions/auth'
+import Input from '@/components/ui/Input'
+import Button from '@/components/ui/Button'
+
+interface ResetPasswordClientProps {
+  token: string
+}
+
+export default function ResetPasswordClient({ token }: ResetPasswordClientProps) {
+  const locale = useLocale()
+  const t = useTranslations('auth.resetPassword')
+  const tCommon = useTranslations('common')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [done, setDone] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError(t('mismatch'))
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const result = await resetPasswordAction(token, password)
+
+      if (result.success) {
+        setDone(true)
+      } else {
+        setError(result.message || 'Failed to reset password')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-black-700 mb-2">{tCommon('appName')}</h1>
+        </div>
+
+        <div className="card p-8">
+          <h2 className="text-2xl font-bold text-black-700 mb-6">{t('title')}</h2>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {done ? (
+            <div className="space-y-6">
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+                {t('success')}
+              </div>
+              <Link href={`/${locale}/login`} className="btn-primary w-full">
+                {t('signIn')}
+              </Link>
+            </div>
+          ) : !token ? (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">{t('missingToken')}</p>
+              <Link href={`/${locale}/forgot-password`} className="btn-primary w-full">
+                {t('requestNew')}
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <Input
+                id="password"
+                type="password"
+                label={t('password')}
+                placeholder="••••••••"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                autoComplete="new-password"
+                hint={t('passwordHint')}
+                showPasswordToggle
+              />
+
+              <Input
+                id="confirmPassword"
+                type="password"
+                label={t('confirmPassword')}
+                placeholder="••••••••"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                autoComplete="new-password"
+                showPasswordToggle
+              />
+
+              <Button type="submit" className="w-full" isLoading={isLoading}>
+                {isLoading ? t('saving') : t('submit')}
+              </Button>
+
+              <div className="text-center">
+                <Link
+                  href={`/${locale}/forgot-password`}
+                  className="text-sm text-gray-600 hover:text-black-700 transition-colors"
+                >
+                  {t('requestNew')}
+                </Link>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
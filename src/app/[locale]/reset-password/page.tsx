@@ -0,0 +1,11 @@
+import ResetPasswordClient from './ResetPasswordClient'
+
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>
+}) {
+  const { token } = await searchParams
+
+  return <ResetPasswordClient token={token ?? ''} />
+}
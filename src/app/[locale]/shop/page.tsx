@@ -10,6 +10,7 @@ import {
 } from '@/app/actions/categories'
 import ProductGrid from '@/components/products/ProductGrid'
 import { ProductWithVariants } from '@/lib/repositories/product.repository'
+import { getScheduleState } from '@/lib/schedule'
 import { PromotionalCategory } from '@/lib/types'
 
 export default async function ShopPage({
@@ -49,7 +50,13 @@ export default async function ShopPage({
   // Promotional category filtering
   if (!categoryParam && promoSlug) {
     const catResult = await getPromotionalCategoryBySlugAction(promoSlug)
-    if (catResult.success && catResult.data) {
+    // Inactive or out-of-schedule sections fall back to the full catalog
+    if (
+      catResult.success &&
+      catResult.data &&
+      catResult.data.isActive &&
+      getScheduleState(catResult.data) === 'live'
+    ) {
       promoCategory = catResult.data
       const prodResult = await getProductsByCategoryAction(promoCategory.id)
       products = prodResult.data || []
@@ -87,7 +94,7 @@ export default async function ShopPage({
           </p>
         </div>
 
-        <ProductGrid products={products} />
+        <ProductGrid products={products} promotionalCategoryId={promoCategory?.id} />
       </div>
     </div>
   )
@@ -5,6 +5,9 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useTranslations, useLocale } from 'next-intl'
 import { signupAction } from '@/app/actions/auth'
+import { signupSchema } from '@/lib/schemas'
+import { checkInput } from '@/lib/validation'
+import type { FieldErrors } from '@/lib/types'
 import Input from '@/components/ui/Input'
 import Button from '@/components/ui/Button'
 
@@ -21,11 +24,17 @@ export default function SignupPage() {
     phone: '',
   })
   const [error, setError] = useState('')
+  const [errors, setErrors] = useState<FieldErrors>({})
   const [isLoading, setIsLoading] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
+
+    const formErrors = checkInput(signupSchema, formData)
+    setErrors(formErrors || {})
+    if (formErrors) return
+
     setIsLoading(true)
 
     try {
@@ -35,6 +44,7 @@ export default function SignupPage() {
         // Use full page reload to ensure layout picks up new auth cookie
         window.location.href = `/${locale}/shop`
       } else {
+        setErrors(result.fieldErrors || {})
         setError(result.message || 'Signup failed')
       }
     } catch (err) {
@@ -78,6 +88,7 @@ export default function SignupPage() {
                 }
                 required
                 autoComplete="given-name"
+                error={errors.firstName}
               />
 
               <Input
@@ -91,6 +102,7 @@ export default function SignupPage() {
                 }
                 required
                 autoComplete="family-name"
+                error={errors.lastName}
               />
             </div>
 
@@ -105,6 +117,7 @@ export default function SignupPage() {
               }
               required
               autoComplete="email"
+              error={errors.email}
             />
 
             <Input
@@ -117,6 +130,7 @@ export default function SignupPage() {
                 setFormData({ ...formData, phone: e.target.value })
               }
               autoComplete="tel"
+              error={errors.phone}
             />
 
             <Input
@@ -132,6 +146,7 @@ export default function SignupPage() {
               autoComplete="new-password"
               showPasswordToggle
               hint="Min 8 characters, 1 uppercase, 1 number"
+              error={errors.password}
             />
 
             <Button type="submit" className="w-full" isLoading={isLoading}>
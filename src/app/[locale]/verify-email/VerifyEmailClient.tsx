@@ -0,0 +1,64 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useTranslations, useLocale } from 'next-intl'
+import { verifyEmailAction } from '@/app/actions/auth'
+
+interface VerifyEmailClientProps {
+  token: string
+}
+
+export default function VerifyEmailClient({ token }: VerifyEmailClientProps) {
+  const locale = useLocale()
+  const t = useTranslations('auth.verifyEmail')
+  const tCommon = useTranslations('common')
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed')
+
+  // Verified from the browser rather than on page load so link scanners in mail
+  // clients don't use up the token; the ref keeps it to one attempt per visit
+  const attempted = useRef(false)
+
+  useEffect(() => {
+    if (!token || attempted.current) return
+    attempted.current = true
+
+    verifyEmailAction(token)
+      .then((result) => setStatus(result.success ? 'verified' : 'failed'))
+      .catch(() => setStatus('failed'))
+  }, [token])
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-black-700 mb-2">{tCommon('appName')}</h1>
+        </div>
+
+        <div className="card p-8 space-y-6">
+          <h2 className="text-2xl font-bold text-black-700">{t('title')}</h2>
+
+          {status === 'verifying' && <p className="text-sm text-gray-600">{t('verifying')}</p>}
+
+          {status === 'verified' && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+              {t('success')}
+            </div>
+          )}
+
+          {status === 'failed' && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {token ? t('failed') : t('missingToken')}
+            </div>
+          )}
+
+          {status !== 'verifying' && (
+            <Link href={`/${locale}/shop`} className="btn-primary w-full">
+              {t('continueShopping')}
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+'use server'
+
+import { getCurrentUser } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { addressSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import {
+  getAddressesByUserId,
+  createAddress,
+  updateAddress,
+  setDefaultAddress,
+  deleteAddress,
+  type AddressInput,
+} from '@/lib/repositories/address.repository'
+import type { ActionResponse, Address } from '@/lib/types'
+
+// How many addresses one customer can keep in their address book
+const MAX_ADDRESSES = 10
+
+/**
+ * Get the signed-in user's saved addresses, default first
+ */
+export async function getAddressesAction(): Promise<ActionResponse<{ addresses: Address[] }>> {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  try {
+    const addresses = await getAddressesByUserId(user.userId)
+
+    return {
+      success: true,
+      data: { addresses },
+    }
+  } catch (error) {
+    console.error('Get addresses error:', error)
+    return {
+      success: false,
+      message: 'Failed to fetch addresses',
+    }
+  }
+}
+
+/**
+ * Save a new address to the signed-in user's address book
+ */
+export async function createAddressAction(
+  address: AddressInput,
+  makeDefault = false
+): Promise<ActionResponse<{ addresses: Address[] }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await getCurrentUser()
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  const input = validateInput(addressSchema, address)
+  if (!input.success) {
+    return input.response
+  }
+
+  try {
+    const existing = await getAddressesByUserId(user.userId)
+    if (existing.length >= MAX_ADDRESSES) {
+      return {
+        success: false,
+        message: `You can save up to ${MAX_ADDRESSES} addresses. Delete one to add another.`,
+      }
+    }
+
+    await createAddress(user.userId, input.data, makeDefault)
+
+    return {
+      success: true,
+      message: 'Address saved',
+      data: { addresses: await getAddressesByUserId(user.userId) },
+    }
+  } catch (error) {
+    console.error('Create address error:', error)
+    return {
+      success: false,
+      message: 'Failed to save address',
+    }
+  }
+}
+
+/**
+ * Update one of the signed-in user's saved addresses
+ */
+export async function updateAddressAction(
+  addressId: string,
+  address: AddressInput
+): Promise<ActionResponse<{ addresses: Address[] }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await getCurrentUser()
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  const input = validateInput(addressSchema, address)
+  if (!input.success) {
+    return input.response
+  }
+
+  try {
+    const updated = await updateAddress(user.userId, addressId, input.data)
+    if (!updated) {
+      return {
+        success: false,
+        message: 'Address not found',
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Address updated',
+      data: { addresses: await getAddressesByUserId(user.userId) },
+    }
+  } catch (error) {
+    console.error('Update address error:', error)
+    return {
+      success: false,
+      message: 'Failed to update address',
+    }
+  }
+}
+
+/**
+ * Make one of the signed-in user's saved addresses their default for checkout
+ */
+export async function setDefaultAddressAction(
+  addressId: string
+): Promise<ActionResponse<{ addresses: Address[] }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await getCurrentUser()
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  try {
+    if (!(await setDefaultAddress(user.userId, addressId))) {
+      return {
+        success: false,
+        message: 'Address not found',
+      }
+    }
+
+    return {
+      success: true,
+      data: { addresses: await getAddressesByUserId(user.userId) },
+    }
+  } catch (error) {
+    console.error('Set default address error:', error)
+    return {
+      success: false,
+      message: 'Failed to update default address',
+    }
+  }
+}
+
+/**
+ * Delete one of the signed-in user's saved addresses. Orders placed with it keep
+ * their own copy.
+ */
+export async function deleteAddressAction(
+  addressId: string
+): Promise<ActionResponse<{ addresses: Address[] }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await getCurrentUser()
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  try {
+    if (!(await deleteAddress(user.userId, addressId))) {
+      return {
+        success: false,
+        message: 'Address not found',
+      }
+    }
+
+    return {
+      success: true,
+      message: 'Address deleted',
+      data: { addresses: await getAddressesByUserId(user.userId) },
+    }
+  } catch (error) {
+    console.error('Delete address error:', error)
+    return {
+      success: false,
+      message: 'Failed to delete address',
+    }
+  }
+}
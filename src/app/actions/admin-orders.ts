@@ -1,12 +1,26 @@
 'use server'
 
-import { isAdmin } from '@/lib/auth'
+import { after } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { recordAudit } from '@/lib/audit'
+import { notifyOrderStatusChanged, notifyPaymentReviewed } from '@/lib/notifications'
 import {
   getAllOrders,
   updateOrderStatus,
+  reviewPaymentProof,
+  refundOrderItem,
   type OrderWithItems,
 } from '@/lib/repositories/order.repository'
-import type { ActionResponse, OrderStatus } from '@/lib/types'
+import { orderRefundSchema, orderStatusUpdateSchema, paymentRejectionSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import type {
+  ActionResponse,
+  OrderEvent,
+  OrderRefundInput,
+  OrderStatus,
+  PaymentSubmission,
+} from '@/lib/types'
 
 /**
  * Get all orders for admin view
@@ -14,7 +28,7 @@ import type { ActionResponse, OrderStatus } from '@/lib/types'
 export async function getAdminOrdersAction(): Promise<
   ActionResponse<{ orders: OrderWithItems[] }>
 > {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_ORDERS')
 
   if (!adminAccess) {
     return {
@@ -40,33 +54,197 @@ export async function getAdminOrdersAction(): Promise<
 }
 
 /**
- * Update order status
+ * Move an order to its next lifecycle status, recording the admin and an optional note
  */
 export async function updateAdminOrderStatusAction(
   orderId: string,
-  status: OrderStatus
-): Promise<ActionResponse<null>> {
-  const adminAccess = await isAdmin()
+  status: OrderStatus,
+  note?: string
+): Promise<ActionResponse<{ event: OrderEvent }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-  if (!adminAccess) {
+  const user = await authorize('MANAGE_ORDERS')
+
+  if (!user) {
     return {
       success: false,
       message: 'Unauthorized',
     }
   }
 
+  const input = validateInput(orderStatusUpdateSchema, { status, note })
+  if (!input.success) {
+    return input.response
+  }
+  const { status: nextStatus, note: statusNote } = input.data
+
   try {
-    await updateOrderStatus(orderId, status)
+    const { event } = await updateOrderStatus(orderId, nextStatus, user, statusNote)
+    await recordAudit(
+      user,
+      'order.status',
+      { type: 'ORDER', id: orderId },
+      { status: event.fromStatus },
+      { status: event.toStatus, note: event.note }
+    )
+
+    after(() => notifyOrderStatusChanged(orderId, nextStatus, statusNote))
 
     return {
       success: true,
       message: 'Order status updated successfully',
+      data: { event },
     }
   } catch (error) {
     console.error('Update order status error:', error)
     return {
       success: false,
-      message: 'Failed to update order status',
+      message: error instanceof Error ? error.message : 'Failed to update order status',
+    }
+  }
+}
+
+/**
+ * Approve the payment proof under review and move the order to PAYMENT_VERIFIED
+ */
+export async function approvePaymentProofAction(
+  orderId: string
+): Promise<ActionResponse<{ event: OrderEvent; submission: PaymentSubmission }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_ORDERS')
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  try {
+    const { event, submission } = await reviewPaymentProof(orderId, 'APPROVED', user)
+    await recordAudit(
+      user,
+      'order.payment.approve',
+      { type: 'ORDER', id: orderId },
+      { status: event.fromStatus, paymentProof: 'PENDING_REVIEW' },
+      { status: event.toStatus, paymentProof: submission.status }
+    )
+
+    after(() => notifyPaymentReviewed(orderId, 'APPROVED'))
+
+    return {
+      success: true,
+      message: 'Payment approved',
+      data: { event, submission },
+    }
+  } catch (error) {
+    console.error('Approve payment proof error:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to approve payment',
+    }
+  }
+}
+
+/**
+ * Reject the payment proof under review; the customer sees the reason and can re-upload
+ */
+export async function rejectPaymentProofAction(
+  orderId: string,
+  reason: string
+): Promise<ActionResponse<{ event: OrderEvent; submission: PaymentSubmission }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_ORDERS')
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  const input = validateInput(paymentRejectionSchema, { reason })
+  if (!input.success) {
+    return input.response
+  }
+
+  try {
+    const { event, submission } = await reviewPaymentProof(orderId, 'REJECTED', user, input.data.reason)
+    await recordAudit(
+      user,
+      'order.payment.reject',
+      { type: 'ORDER', id: orderId },
+      { status: event.fromStatus, paymentProof: 'PENDING_REVIEW' },
+      { status: event.toStatus, paymentProof: submission.status, rejectionReason: submission.rejectionReason }
+    )
+
+    after(() => notifyPaymentReviewed(orderId, 'REJECTED', input.data.reason))
+
+    return {
+      success: true,
+      message: 'Payment proof rejected',
+      data: { event, submission },
+    }
+  } catch (error) {
+    console.error('Reject payment proof error:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to reject payment proof',
+    }
+  }
+}
+
+/**
+ * Cancel some or all units of one order item, recording the refund given for them
+ */
+export async function refundOrderItemAction(
+  orderId: string,
+  input: OrderRefundInput
+): Promise<ActionResponse<{ order: OrderWithItems }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_ORDERS')
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  const refund = validateInput(orderRefundSchema, input)
+  if (!refund.success) {
+    return refund.response
+  }
+
+  try {
+    const order = await refundOrderItem(orderId, refund.data, user)
+    await recordAudit(user, 'order.refund', { type: 'ORDER', id: orderId, label: order.orderNumber }, null, refund.data)
+
+    return {
+      success: true,
+      message: refund.data.amount > 0 ? 'Item cancelled and refund recorded' : 'Item cancelled',
+      data: { order },
+    }
+  } catch (error) {
+    console.error('Refund order item error:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to cancel item',
     }
   }
 }
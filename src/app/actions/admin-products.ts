@@ -1,6 +1,15 @@
 'use server'
 
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import {
+  createProductSchema,
+  productImageSchema,
+  updateProductSchema,
+  updateVariantSchema,
+} from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import { recordAudit } from '@/lib/audit'
 import {
   getAllProducts,
   getProductById,
@@ -11,6 +20,7 @@ import {
   updateVariant,
   deleteVariant,
   getAllBrands,
+  getVariantById,
   addProductImage,
   removeProductImage,
   type ProductWithVariants,
@@ -23,7 +33,7 @@ import type { ActionResponse, Product, ProductVariant } from '@/lib/types'
 export async function getAdminProductsAction(): Promise<
   ActionResponse<{ products: ProductWithVariants[] }>
 > {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_PRODUCTS', 'VIEW_INVENTORY')
 
   if (!adminAccess) {
     return {
@@ -54,7 +64,7 @@ export async function getAdminProductsAction(): Promise<
 export async function getAdminProductAction(
   productId: string
 ): Promise<ActionResponse<{ product: ProductWithVariants }>> {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_PRODUCTS')
 
   if (!adminAccess) {
     return {
@@ -92,9 +102,14 @@ export async function getAdminProductAction(
 export async function deleteProductAction(
   productId: string
 ): Promise<ActionResponse<null>> {
-  const adminAccess = await isAdmin()
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-  if (!adminAccess) {
+  const user = await authorize('MANAGE_PRODUCTS')
+
+  if (!user) {
     return {
       success: false,
       message: 'Unauthorized',
@@ -102,8 +117,13 @@ export async function deleteProductAction(
   }
 
   try {
+    const product = await getProductById(productId)
     await deleteProduct(productId)
 
+    if (product) {
+      await recordAudit(user, 'product.delete', { type: 'PRODUCT', id: productId, label: product.name }, product, null)
+    }
+
     return {
       success: true,
       message: 'Product deleted successfully',
@@ -124,17 +144,29 @@ export async function createProductAction(
   product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>,
   variants: Omit<ProductVariant, 'id' | 'productId'>[]
 ): Promise<ActionResponse<{ product: ProductWithVariants }>> {
-  const adminAccess = await isAdmin()
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-  if (!adminAccess) {
+  const user = await authorize('MANAGE_PRODUCTS')
+
+  if (!user) {
     return {
       success: false,
       message: 'Unauthorized',
     }
   }
 
+  const input = validateInput(createProductSchema, { ...product, variants })
+  if (!input.success) {
+    return input.response
+  }
+
   try {
-    const newProduct = await createProduct(product, variants)
+    const { variants: validVariants, ...validProduct } = input.data
+    const newProduct = await createProduct(validProduct, validVariants)
+    await recordAudit(user, 'product.create', { type: 'PRODUCT', id: newProduct.id, label: newProduct.name }, null, newProduct)
 
     return {
       success: true,
@@ -157,17 +189,29 @@ export async function updateProductAction(
   productId: string,
   updates: Partial<Omit<Product, 'id' | 'createdAt' | 'updatedAt'>>
 ): Promise<ActionResponse<null>> {
-  const adminAccess = await isAdmin()
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-  if (!adminAccess) {
+  const user = await authorize('MANAGE_PRODUCTS')
+
+  if (!user) {
     return {
       success: false,
       message: 'Unauthorized',
     }
   }
 
+  const input = validateInput(updateProductSchema, updates)
+  if (!input.success) {
+    return input.response
+  }
+
   try {
-    await updateProduct(productId, updates)
+    const before = await getProductById(productId)
+    const product = await updateProduct(productId, input.data)
+    await recordAudit(user, 'product.update', { type: 'PRODUCT', id: productId, label: product.name }, before, input.data)
 
     return {
       success: true,
@@ -189,17 +233,35 @@ export async function updateVariantAction(
   variantId: string,
   updates: Partial<Omit<ProductVariant, 'id' | 'productId'>>
 ): Promise<ActionResponse<null>> {
-  const adminAccess = await isAdmin()
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-  if (!adminAccess) {
+  const user = await authorize('MANAGE_PRODUCTS')
+
+  if (!user) {
     return {
       success: false,
       message: 'Unauthorized',
     }
   }
 
+  const input = validateInput(updateVariantSchema, updates)
+  if (!input.success) {
+    return input.response
+  }
+
   try {
-    await updateVariant(variantId, updates)
+    const before = await getVariantById(variantId)
+    const variant = await updateVariant(variantId, input.data)
+    await recordAudit(
+      user,
+      'variant.update',
+      { type: 'VARIANT', id: variantId, label: `${variant.size} / ${variant.color}` },
+      before,
+      input.data
+    )
 
     return {
       success: true,
@@ -220,7 +282,7 @@ export async function updateVariantAction(
 export async function searchProductsByNameAction(
   searchTerm: string
 ): Promise<ActionResponse<{ products: ProductWithVariants[] }>> {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_PRODUCTS')
 
   if (!adminAccess) {
     return {
@@ -252,7 +314,7 @@ export async function checkProductNameExistsAction(
   name: string,
   excludeId?: string
 ): Promise<ActionResponse<{ exists: boolean; product?: ProductWithVariants }>> {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_PRODUCTS')
 
   if (!adminAccess) {
     return {
@@ -289,7 +351,7 @@ export async function checkProductNameExistsAction(
  * Get all unique brands (for autocomplete)
  */
 export async function getAllBrandsAction(): Promise<ActionResponse<{ brands: string[] }>> {
-  const adminAccess = await isAdmin()
+  const adminAccess = await authorize('MANAGE_PRODUCTS', 'MANAGE_COUPONS')
 
   if (!adminAccess) {
     return {
@@ -321,18 +383,27 @@ export async function addVariantImageAction(
   variantId: string,
   imageUrl: string
 ): Promise<ActionResponse<null>> {
-  const adminAccess = await isAdmin()
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-  if (!adminAccess) {
+  const user = await authorize('MANAGE_PRODUCTS')
+
+  if (!user) {
     return {
       success: false,
       message: 'Unauthorized',
     }
   }
 
+  const input = validateInput(productImageSchema, { imageUrl })
+  if (!input.success) {
+    return input.response
+  }
+
   try {
     // Get current variant to access existing images
-    const { getVariantById } = await import('@/lib/repositories/product.repository')
     const variant = await getVariantById(variantId)
 
     if (!variant) {
@@ -343,9 +414,16 @@ export async function addVariantImageAction(
     }
 
     // Add new image to existing images
-    const updatedImages = [...(variant.images || []), imageUrl]
+    const updatedImages = [...(variant.images || []), input.data.imageUrl]
 
     await updateVariant(variantId, { images: updatedImages })
+    await recordAudit(
+      user,
+      'variant.image.add',
+      { type: 'VARIANT', id: variantId, label: `${variant.size} / ${variant.color}` },
+      { images: variant.images },
+      { images: updatedImages }
+    )
 
     return {
       success: true,
@@ -367,9 +445,14 @@ export async function removeVariantImageAction(
   variantId: string,
   imageUrl: string
 ): Promise<ActionResponse<null>> {
-  const adminAccess = await isAdmin()
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-  if (!adminAccess) {
+  const user = await authorize('MANAGE_PRODUCTS')
+
+  if (!user) {
     return {
       success: false,
       message: 'Unauthorized',
@@ -378,7 +461,6 @@ export async function removeVariantImageAction(
 
   try {
     // Get current variant to access existing images
-    const { getVariantById } = await import('@/lib/repositories/product.repository')
     const variant = await getVariantById(variantId)
 
     if (!variant) {
@@ -392,6 +474,13 @@ export async function removeVariantImageAction(
     const updatedImages = (variant.images || []).filter(img => img !== imageUrl)
 
     await updateVariant(variantId, { images: updatedImages })
+    await recordAudit(
+      user,
+      'variant.image.remove',
+      { type: 'VARIANT', id: variantId, label: `${variant.size} / ${variant.color}` },
+      { images: variant.images },
+      { images: updatedImages }
+    )
 
     return {
       success: true,
@@ -413,17 +502,39 @@ export async function addProductImageAction(
   productId: string,
   imageUrl: string
 ): Promise<ActionResponse<null>> {
-  const adminAccess = await isAdmin()
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-  if (!adminAccess) {
+  const user = await authorize('MANAGE_PRODUCTS')
+
+  if (!user) {
     return {
       success: false,
       message: 'Unauthorized',
     }
   }
 
+  const input = validateInput(productImageSchema, { imageUrl })
+  if (!input.success) {
+    return input.response
+  }
+
   try {
-    await addProductImage(productId, imageUrl)
+    const product = await getProductById(productId)
+    await addProductImage(productId, input.data.imageUrl)
+
+    if (product) {
+      const images = product.images || []
+      await recordAudit(
+        user,
+        'product.image.add',
+        { type: 'PRODUCT', id: productId, label: product.name },
+        { images },
+        { images: [...images, input.data.imageUrl] }
+      )
+    }
 
     return {
       success: true,
@@ -445,9 +556,14 @@ export async function removeProductImageAction(
   productId: string,
   imageUrl: string
 ): Promise<ActionResponse<null>> {
-  const adminAccess = await isAdmin()
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-  if (!adminAccess) {
+  const user = await authorize('MANAGE_PRODUCTS')
+
+  if (!user) {
     return {
       success: false,
       message: 'Unauthorized',
@@ -455,8 +571,20 @@ export async function removeProductImageAction(
   }
 
   try {
+    const product = await getProductById(productId)
     await removeProductImage(productId, imageUrl)
 
+    if (product) {
+      const images = product.images || []
+      await recordAudit(
+        user,
+        'product.image.remove',
+        { type: 'PRODUCT', id: productId, label: product.name },
+        { images },
+        { images: images.filter((img) => img !== imageUrl) }
+      )
+    }
+
     return {
       success: true,
       message: 'Image removed from product successfully',
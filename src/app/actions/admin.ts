@@ -1,17 +1,49 @@
 'use server'
 
-import { isAdmin } from '@/lib/auth'
-import { updateUser, findUserByEmail } from '@/lib/repositories/user.repository'
-import type { ActionResponse } from '@/lib/types'
+import { authorize, isAdmin } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { recordAudit } from '@/lib/audit'
+import { clearLoginFailures } from '@/lib/login-attempts'
+import {
+  findUserByEmail,
+  findUserById,
+  searchUsers,
+  setUserRole,
+  unlockUser,
+  type UserWithOrderStats,
+} from '@/lib/repositories/user.repository'
+import { getUserOrders, type OrderWithItems } from '@/lib/repositories/order.repository'
+import { ROLE_LABELS } from '@/lib/permissions'
+import { makeAdminSchema, userRoleSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import type { ActionResponse, User, UserRole } from '@/lib/types'
 
 /**
- * Make a user an admin (dev helper)
+ * Make a user an admin (dev helper). Only available when running in development;
+ * everywhere else roles are managed from the admin Users screen.
  */
 export async function makeUserAdmin(
   email: string
 ): Promise<ActionResponse<{ email: string }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  if (process.env.NODE_ENV !== 'development') {
+    return {
+      success: false,
+      message: 'Not available',
+    }
+  }
+
+  const input = validateInput(makeAdminSchema, { email })
+  if (!input.success) {
+    return input.response
+  }
+
   try {
-    const user = await findUserByEmail(email)
+    const user = await findUserByEmail(input.data.email)
     if (!user) {
       return {
         success: false,
@@ -19,11 +51,11 @@ export async function makeUserAdmin(
       }
     }
 
-    await updateUser(user.id, { role: 'ADMIN' })
+    await setUserRole(user.id, 'ADMIN')
 
     return {
       success: true,
-      message: 'User updated to admin',
+      message: 'User updated to admin. They have been signed out and need to log in again.',
       data: { email: user.email },
     }
   } catch (error) {
@@ -36,7 +68,7 @@ export async function makeUserAdmin(
 }
 
 /**
- * Check if current user is admin
+ * Check if current user can use the admin area
  */
 export async function checkAdminAccess(): Promise<ActionResponse<{ isAdmin: boolean }>> {
   const adminAccess = await isAdmin()
@@ -46,3 +78,172 @@ export async function checkAdminAccess(): Promise<ActionResponse<{ isAdmin: bool
     data: { isAdmin: adminAccess },
   }
 }
+
+/**
+ * Search users by name, email or phone (admin only)
+ */
+export async function getAdminUsersAction(
+  query = '',
+  role?: UserRole
+): Promise<ActionResponse<{ users: UserWithOrderStats[] }>> {
+  try {
+    const user = await authorize('MANAGE_USERS')
+    if (!user) {
+      return {
+        success: false,
+        message: 'Unauthorized',
+      }
+    }
+
+    const users = await searchUsers(query, { role })
+
+    return {
+      success: true,
+      data: { users },
+    }
+  } catch (error) {
+    console.error('Get users error:', error)
+    return {
+      success: false,
+      message: 'Failed to load users',
+    }
+  }
+}
+
+/**
+ * Get a user's orders (admin only)
+ */
+export async function getAdminUserOrdersAction(
+  userId: string
+): Promise<ActionResponse<{ orders: OrderWithItems[] }>> {
+  try {
+    const user = await authorize('MANAGE_USERS')
+    if (!user) {
+      return {
+        success: false,
+        message: 'Unauthorized',
+      }
+    }
+
+    const orders = await getUserOrders(userId)
+
+    return {
+      success: true,
+      data: { orders },
+    }
+  } catch (error) {
+    console.error('Get user orders error:', error)
+    return {
+      success: false,
+      message: 'Failed to load orders',
+    }
+  }
+}
+
+/**
+ * Change a user's role (owner only). The user is signed out everywhere, and the
+ * last owner can't be demoted.
+ */
+export async function updateUserRoleAction(
+  userId: string,
+  role: UserRole
+): Promise<ActionResponse<{ user: User }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const currentUser = await authorize('MANAGE_USERS')
+    if (!currentUser) {
+      return {
+        success: false,
+        message: 'Unauthorized',
+      }
+    }
+
+    const input = validateInput(userRoleSchema, { userId, role })
+    if (!input.success) {
+      return input.response
+    }
+
+    const before = await findUserById(input.data.userId)
+    const user = await setUserRole(input.data.userId, input.data.role)
+    if (!user) {
+      return {
+        success: false,
+        message: 'User not found',
+      }
+    }
+
+    await recordAudit(
+      currentUser,
+      'user.role',
+      { type: 'USER', id: userId, label: user.email },
+      before && { role: before.role },
+      { role: user.role }
+    )
+
+    return {
+      success: true,
+      message: `${user.email} is now ${ROLE_LABELS[input.data.role]}`,
+      data: { user },
+    }
+  } catch (error) {
+    console.error('Update user role error:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to update user role',
+    }
+  }
+}
+
+/**
+ * Let a user locked out by failed sign-in attempts sign in again straight away (admin only)
+ */
+export async function unlockUserAction(userId: string): Promise<ActionResponse<{ user: User }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const currentUser = await authorize('MANAGE_USERS')
+    if (!currentUser) {
+      return {
+        success: false,
+        message: 'Unauthorized',
+      }
+    }
+
+    const before = await findUserById(userId)
+    const user = await unlockUser(userId)
+    if (!user) {
+      return {
+        success: false,
+        message: 'User not found',
+      }
+    }
+
+    await clearLoginFailures(user.email)
+    await recordAudit(
+      currentUser,
+      'user.unlock',
+      { type: 'USER', id: userId, label: user.email },
+      { lockedUntil: before?.lockedUntil },
+      { lockedUntil: null }
+    )
+
+    return {
+      success: true,
+      message: `${user.email} can sign in again`,
+      data: { user },
+    }
+  } catch (error) {
+    console.error('Unlock user error:', error)
+    return {
+      success: false,
+      message: 'Failed to unlock user',
+    }
+  }
+}
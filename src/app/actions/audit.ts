@@ -0,0 +1,73 @@
+'use server'
+
+import { authorize } from '@/lib/auth'
+import { getAuditActors, getAuditEvents } from '@/lib/repositories/audit.repository'
+import { isStoreDate } from '@/lib/schedule'
+import type { ActionResponse, AuditEvent, AuditEventFilters } from '@/lib/types'
+
+/**
+ * Search the audit log (owner only)
+ */
+export async function getAuditEventsAction(
+  filters: AuditEventFilters = {}
+): Promise<ActionResponse<{ events: AuditEvent[] }>> {
+  const user = await authorize('VIEW_AUDIT_LOG')
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  if ((filters.from && !isStoreDate(filters.from)) || (filters.to && !isStoreDate(filters.to))) {
+    return {
+      success: false,
+      message: 'Dates must be in YYYY-MM-DD format',
+    }
+  }
+
+  try {
+    const events = await getAuditEvents(filters)
+
+    return {
+      success: true,
+      data: { events },
+    }
+  } catch (error) {
+    console.error('Get audit events error:', error)
+    return {
+      success: false,
+      message: 'Failed to load the audit log',
+    }
+  }
+}
+
+/**
+ * Everyone who appears in the audit log, for the user filter (owner only)
+ */
+export async function getAuditActorsAction(): Promise<ActionResponse<{ actors: { id: string; email: string }[] }>> {
+  const user = await authorize('VIEW_AUDIT_LOG')
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  try {
+    const actors = await getAuditActors()
+
+    return {
+      success: true,
+      data: { actors },
+    }
+  } catch (error) {
+    console.error('Get audit actors error:', error)
+    return {
+      success: false,
+      message: 'Failed to load users',
+    }
+  }
+}
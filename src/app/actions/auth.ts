@@ -1,27 +1,58 @@
 'use server'
 
+import { after } from 'next/server'
+import { getLocale } from 'next-intl/server'
 import {
   hashPassword,
   verifyPassword,
-  generateToken,
-  setAuthCookie,
-  removeAuthCookie,
-  isValidEmail,
-  validatePassword,
+  startSession,
+  endSession,
+  getCurrentUser,
+  getClientIp,
+  setPendingLogin,
+  getPendingLogin,
+  clearPendingLogin,
 } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { loginSchema, passwordResetRequestSchema, passwordResetSchema, signupSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
 import {
   createUser,
   findUserByEmail,
+  findUserById,
   emailExists,
+  resetPasswordWithToken,
+  verifyEmailWithToken,
 } from '@/lib/repositories/user.repository'
+import { createUserToken } from '@/lib/repositories/user-token.repository'
+import { getUserSessions, revokeSession, revokeUserSessions } from '@/lib/repositories/session.repository'
 import {
   addToCart,
 } from '@/lib/repositories/cart.repository'
+import { linkGuestOrdersToUser } from '@/lib/repositories/order.repository'
 import {
   getGuestCart,
   clearGuestCart,
 } from '@/lib/guest-cart'
-import type { AuthResponse, CreateUserInput, LoginInput } from '@/lib/types'
+import {
+  clearLoginFailures,
+  clearTwoFactorFailures,
+  getLoginBlock,
+  getLoginBlockMessage,
+  recordLoginFailure,
+  recordTwoFactorFailure,
+} from '@/lib/login-attempts'
+import { requiresTwoFactor } from '@/lib/permissions'
+import {
+  beginTwoFactorEnrolment,
+  confirmTwoFactorEnrolment,
+  regenerateRecoveryCodes,
+  verifyTwoFactorCode,
+  type TwoFactorEnrolment,
+} from '@/lib/two-factor'
+import { disableTwoFactor, getTwoFactorState } from '@/lib/repositories/two-factor.repository'
+import { notifyEmailVerification, notifyPasswordReset, notifySignup } from '@/lib/notifications'
+import type { ActionResponse, AuthResponse, CreateUserInput, LoginInput, User, UserSession } from '@/lib/types'
 
 /**
  * Sign up a new user
@@ -29,52 +60,50 @@ import type { AuthResponse, CreateUserInput, LoginInput } from '@/lib/types'
 export async function signupAction(
   input: CreateUserInput
 ): Promise<AuthResponse> {
-  try {
-    // Validate email
-    if (!isValidEmail(input.email)) {
-      return {
-        success: false,
-        message: 'Please provide a valid email address',
-      }
-    }
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-    // Validate password
-    const passwordError = validatePassword(input.password)
-    if (passwordError) {
-      return {
-        success: false,
-        message: passwordError,
-      }
-    }
+  const validated = validateInput(signupSchema, input)
+  if (!validated.success) {
+    return validated.response
+  }
+  const { email, password, firstName, lastName, phone } = validated.data
 
+  try {
     // Check if email already exists
-    const exists = await emailExists(input.email)
+    const exists = await emailExists(email)
     if (exists) {
       return {
         success: false,
         message: 'An account with this email already exists',
+        fieldErrors: { email: 'An account with this email already exists' },
       }
     }
 
     // Hash password
-    const passwordHash = await hashPassword(input.password)
+    const passwordHash = await hashPassword(password)
 
     // Create user
     const user = await createUser({
-      ...input,
+      email,
+      password,
+      firstName,
+      lastName,
+      phone: phone || undefined,
       passwordHash,
-      role: input.role || 'CUSTOMER',
     })
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    })
+    // Guest orders placed with this email are attached once the email is verified
+    const verificationToken = await createUserToken(user.id, 'EMAIL_VERIFICATION')
+
+    // Send the welcome email once the response is on its way
+    const locale = await getLocale()
+    after(() => notifySignup(user, verificationToken, locale))
 
-    // Set auth cookie
-    await setAuthCookie(token)
+    // Sign in on this device
+    await startSession(user)
 
     return {
       success: true,
@@ -93,73 +122,158 @@ export async function signupAction(
 /**
  * Log in an existing user
  */
-export async function loginAction(input: LoginInput): Promise<AuthResponse> {
-  try {
-    // Validate email
-    if (!isValidEmail(input.email)) {
-      return {
-        success: false,
-        message: 'Please provide a valid email address',
-      }
-    }
+export async function loginAction(credentials: LoginInput): Promise<AuthResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
+  const validated = validateInput(loginSchema, credentials)
+  if (!validated.success) {
+    return validated.response
+  }
+  const input = validated.data
+
+  try {
     // Find user by email
+    const ipAddress = await getClientIp()
     const userWithPassword = await findUserByEmail(input.email)
-    if (!userWithPassword) {
+
+    // Refuse throttled addresses and locked accounts before spending time on bcrypt
+    const block = await getLoginBlock(input.email, ipAddress, userWithPassword)
+    if (block) {
       return {
         success: false,
-        message: 'Invalid email or password',
+        message: getLoginBlockMessage(block),
       }
     }
 
     // Verify password
-    const isValid = await verifyPassword(
-      input.password,
-      userWithPassword.passwordHash
-    )
-    if (!isValid) {
+    const isValid =
+      userWithPassword !== null && (await verifyPassword(input.password, userWithPassword.passwordHash))
+    if (!userWithPassword || !isValid) {
+      const lock = await recordLoginFailure(input.email, ipAddress, userWithPassword)
       return {
         success: false,
-        message: 'Invalid email or password',
+        message: lock ? getLoginBlockMessage(lock) : 'Invalid email or password',
       }
     }
 
+    await clearLoginFailures(input.email)
+
     // Remove passwordHash from user object
     const { passwordHash, ...user } = userWithPassword
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    })
+    // With two-factor on (or required but not set up yet) the password only gets
+    // the user as far as the second step
+    if (user.twoFactorEnabledAt) {
+      await setPendingLogin(user.id)
+      return {
+        success: false,
+        message: 'Enter the code from your authenticator app',
+        twoFactorRequired: true,
+      }
+    }
+    if (requiresTwoFactor(user.role)) {
+      await setPendingLogin(user.id)
+      return {
+        success: false,
+        message: 'Your account needs two-factor authentication. Set it up to continue.',
+        twoFactorSetupRequired: true,
+      }
+    }
 
-    // Set auth cookie
-    await setAuthCookie(token)
+    await completeLogin(user)
 
-    // Migrate guest cart to user cart
-    try {
-      const guestCart = await getGuestCart()
-      if (guestCart.length > 0) {
-        // Add each guest cart item to user's cart
-        for (const item of guestCart) {
-          await addToCart(user.id, item.variantId, item.quantity)
-        }
-        // Clear guest cart after migration
-        await clearGuestCart()
+    return {
+      success: true,
+      message: 'Login successful!',
+      user,
+    }
+  } catch (error) {
+    console.error('Login error:', error)
+    return {
+      success: false,
+      message: 'An error occurred during login. Please try again.',
+    }
+  }
+}
+
+/**
+ * Sign in on this device and bring the guest cart along
+ */
+async function completeLogin(user: User): Promise<void> {
+  await clearPendingLogin()
+  await startSession(user)
+
+  // Migrate guest cart to user cart
+  try {
+    const guestCart = await getGuestCart()
+    if (guestCart.length > 0) {
+      // Add each guest cart item to user's cart
+      for (const item of guestCart) {
+        await addToCart(user.id, item.variantId, item.quantity, item.promotionalCategoryId)
+      }
+      // Clear guest cart after migration
+      await clearGuestCart()
+    }
+  } catch (error) {
+    console.error('Cart migration error:', error)
+    // Don't fail login if cart migration fails
+  }
+}
+
+/**
+ * Second step of logging in: check the code from the user's authenticator app
+ * (or one of their recovery codes)
+ */
+export async function verifyTwoFactorLoginAction(code: string): Promise<AuthResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const userId = await getPendingLogin()
+    const user = userId ? await findUserById(userId) : null
+    if (!user?.twoFactorEnabledAt) {
+      return {
+        success: false,
+        message: 'Your sign-in has expired. Please enter your password again.',
+      }
+    }
+
+    const block = await getLoginBlock(user.email, await getClientIp(), user)
+    if (block) {
+      await clearPendingLogin()
+      return {
+        success: false,
+        message: getLoginBlockMessage(block),
+      }
+    }
+
+    if (!(await verifyTwoFactorCode(user.id, code.trim()))) {
+      const lock = await recordTwoFactorFailure(user.id)
+      if (lock) {
+        await clearPendingLogin()
+      }
+      return {
+        success: false,
+        message: lock ? getLoginBlockMessage(lock) : 'That code is not valid. Please try again.',
+        twoFactorRequired: !lock,
       }
-    } catch (error) {
-      console.error('Cart migration error:', error)
-      // Don't fail login if cart migration fails
     }
 
+    await clearTwoFactorFailures(user.id)
+    await completeLogin(user)
+
     return {
       success: true,
       message: 'Login successful!',
       user,
     }
   } catch (error) {
-    console.error('Login error:', error)
+    console.error('Two-factor login error:', error)
     return {
       success: false,
       message: 'An error occurred during login. Please try again.',
@@ -170,6 +284,528 @@ export async function loginAction(input: LoginInput): Promise<AuthResponse> {
 /**
  * Log out the current user
  */
-export async function logoutAction(): Promise<void> {
-  await removeAuthCookie()
+export async function logoutAction(): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  await endSession()
+
+  return { success: true }
+}
+
+/**
+ * List the signed-in user's active sessions, flagging the one making this request
+ */
+export async function getSessionsAction(): Promise<ActionResponse<(UserSession & { current: boolean })[]>> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return {
+        success: false,
+        message: 'You must be logged in',
+      }
+    }
+
+    const sessions = await getUserSessions(user.userId)
+
+    return {
+      success: true,
+      data: sessions.map((session) => ({ ...session, current: session.id === user.sessionId })),
+    }
+  } catch (error) {
+    console.error('Get sessions error:', error)
+    return {
+      success: false,
+      message: 'Failed to load sessions',
+    }
+  }
+}
+
+/**
+ * Sign out one of the signed-in user's sessions
+ */
+export async function revokeSessionAction(sessionId: string): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return {
+        success: false,
+        message: 'You must be logged in',
+      }
+    }
+
+    const revoked = await revokeSession(user.userId, sessionId)
+    if (!revoked) {
+      return {
+        success: false,
+        message: 'Session not found',
+      }
+    }
+
+    // Revoking this device's own session is the same as logging out
+    if (sessionId === user.sessionId) {
+      await endSession()
+    }
+
+    return {
+      success: true,
+      message: 'Session signed out',
+    }
+  } catch (error) {
+    console.error('Revoke session error:', error)
+    return {
+      success: false,
+      message: 'Failed to sign out session',
+    }
+  }
+}
+
+/**
+ * Sign out every session except the one making this request
+ */
+export async function revokeOtherSessionsAction(): Promise<ActionResponse<{ revoked: number }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return {
+        success: false,
+        message: 'You must be logged in',
+      }
+    }
+
+    const revoked = await revokeUserSessions(user.userId, user.sessionId)
+
+    return {
+      success: true,
+      message: 'Signed out of all other sessions',
+      data: { revoked },
+    }
+  } catch (error) {
+    console.error('Revoke sessions error:', error)
+    return {
+      success: false,
+      message: 'Failed to sign out other sessions',
+    }
+  }
+}
+
+/**
+ * Email a password reset link. The response is the same whether or not the email
+ * has an account, so this can't be used to find out who is registered.
+ */
+export async function requestPasswordResetAction(email: string): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const input = validateInput(passwordResetRequestSchema, { email })
+  if (!input.success) {
+    return input.response
+  }
+
+  try {
+    const user = await findUserByEmail(input.data.email)
+    if (user) {
+      const token = await createUserToken(user.id, 'PASSWORD_RESET')
+      const { passwordHash, ...profile } = user
+      const locale = await getLocale()
+      after(() => notifyPasswordReset(profile, token, locale))
+    }
+
+    return {
+      success: true,
+      message: "If an account exists for that email, we've sent a link to reset your password",
+    }
+  } catch (error) {
+    console.error('Request password reset error:', error)
+    return {
+      success: false,
+      message: 'An error occurred. Please try again.',
+    }
+  }
+}
+
+/**
+ * Set a new password using the token from a reset email
+ */
+export async function resetPasswordAction(token: string, password: string): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const input = validateInput(passwordResetSchema, { token, password })
+  if (!input.success) {
+    return input.response
+  }
+
+  try {
+    const user = await resetPasswordWithToken(token, await hashPassword(input.data.password))
+    if (!user) {
+      return {
+        success: false,
+        message: 'This reset link is invalid or has expired. Please request a new one.',
+      }
+    }
+
+    await linkGuestOrdersToUser(user.id, user.email)
+
+    return {
+      success: true,
+      message: 'Your password has been reset',
+    }
+  } catch (error) {
+    console.error('Reset password error:', error)
+    return {
+      success: false,
+      message: 'An error occurred. Please try again.',
+    }
+  }
+}
+
+/**
+ * Verify an email address using the token from a verification email, then attach
+ * any orders previously placed as a guest with that email
+ */
+export async function verifyEmailAction(token: string): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const user = await verifyEmailWithToken(token)
+    if (!user) {
+      return {
+        success: false,
+        message: 'This verification link is invalid or has expired',
+      }
+    }
+
+    await linkGuestOrdersToUser(user.id, user.email)
+
+    return {
+      success: true,
+      message: 'Email verified',
+    }
+  } catch (error) {
+    console.error('Verify email error:', error)
+    return {
+      success: false,
+      message: 'An error occurred. Please try again.',
+    }
+  }
+}
+
+/**
+ * Send the signed-in user a new verification link
+ */
+export async function resendVerificationEmailAction(): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const currentUser = await getCurrentUser()
+    if (!currentUser) {
+      return {
+        success: false,
+        message: 'You must be logged in',
+      }
+    }
+
+    const user = await findUserById(currentUser.userId)
+    if (!user) {
+      return {
+        success: false,
+        message: 'User not found',
+      }
+    }
+
+    if (user.emailVerifiedAt) {
+      return {
+        success: true,
+        message: 'Your email is already verified',
+      }
+    }
+
+    const token = await createUserToken(user.id, 'EMAIL_VERIFICATION')
+    const locale = await getLocale()
+    after(() => notifyEmailVerification(user, token, locale))
+
+    return {
+      success: true,
+      message: 'Verification email sent',
+    }
+  } catch (error) {
+    console.error('Resend verification email error:', error)
+    return {
+      success: false,
+      message: 'An error occurred. Please try again.',
+    }
+  }
+}
+
+/**
+ * Who is managing two-factor: the signed-in user, or someone part-way through signing
+ * in whose account requires two-factor before they can finish
+ */
+async function getTwoFactorUser(): Promise<{ user: User; signingIn: boolean } | null> {
+  const currentUser = await getCurrentUser()
+  if (currentUser) {
+    const user = await findUserById(currentUser.userId)
+    return user ? { user, signingIn: false } : null
+  }
+
+  const pendingUserId = await getPendingLogin()
+  const user = pendingUserId ? await findUserById(pendingUserId) : null
+
+  // Someone with two-factor already on must pass it before changing anything
+  return user && !user.twoFactorEnabledAt && requiresTwoFactor(user.role) ? { user, signingIn: true } : null
+}
+
+/**
+ * Check a code from a signed-in user before a two-factor change. Wrong codes count
+ * towards the same lockout as signing in. Returns why the code was refused, or null.
+ */
+async function checkTwoFactorCode(user: User, code: string): Promise<string | null> {
+  const block = await getLoginBlock(user.email, await getClientIp(), user)
+  if (block) {
+    return getLoginBlockMessage(block)
+  }
+
+  if (!(await verifyTwoFactorCode(user.id, code.trim()))) {
+    const lock = await recordTwoFactorFailure(user.id)
+    return lock ? getLoginBlockMessage(lock) : 'That code is not valid. Please try again.'
+  }
+
+  await clearTwoFactorFailures(user.id)
+  return null
+}
+
+/**
+ * Whether the signed-in user has two-factor on, and how many recovery codes are left
+ */
+export async function getTwoFactorStatusAction(): Promise<
+  ActionResponse<{ enabled: boolean; required: boolean; recoveryCodesRemaining: number }>
+> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return {
+        success: false,
+        message: 'You must be logged in',
+      }
+    }
+
+    const state = await getTwoFactorState(user.userId)
+
+    return {
+      success: true,
+      data: {
+        enabled: Boolean(state?.enabledAt),
+        required: requiresTwoFactor(user.role),
+        recoveryCodesRemaining: state?.recoveryCodesRemaining ?? 0,
+      },
+    }
+  } catch (error) {
+    console.error('Get two-factor status error:', error)
+    return {
+      success: false,
+      message: 'Failed to load two-factor settings',
+    }
+  }
+}
+
+/**
+ * Start setting up an authenticator app: returns the QR code to scan
+ */
+export async function beginTwoFactorSetupAction(): Promise<ActionResponse<TwoFactorEnrolment>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const twoFactorUser = await getTwoFactorUser()
+    if (!twoFactorUser) {
+      return {
+        success: false,
+        message: 'You must be logged in',
+      }
+    }
+
+    if (twoFactorUser.user.twoFactorEnabledAt) {
+      return {
+        success: false,
+        message: 'Two-factor authentication is already on. Turn it off first to use a different app.',
+      }
+    }
+
+    return {
+      success: true,
+      data: await beginTwoFactorEnrolment(twoFactorUser.user),
+    }
+  } catch (error) {
+    console.error('Begin two-factor setup error:', error)
+    return {
+      success: false,
+      message: 'Failed to start two-factor setup',
+    }
+  }
+}
+
+/**
+ * Finish setting up an authenticator app with a code from it. Returns the recovery
+ * codes to save; someone signing in is signed in at the same time.
+ */
+export async function confirmTwoFactorSetupAction(
+  code: string
+): Promise<ActionResponse<{ recoveryCodes: string[]; user: User }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const twoFactorUser = await getTwoFactorUser()
+    if (!twoFactorUser) {
+      return {
+        success: false,
+        message: 'You must be logged in',
+      }
+    }
+
+    const { user, signingIn } = twoFactorUser
+    const recoveryCodes = await confirmTwoFactorEnrolment(user.id, code.trim())
+    if (!recoveryCodes) {
+      return {
+        success: false,
+        message: 'That code is not valid. Check the time on your device and try again.',
+      }
+    }
+
+    if (signingIn) {
+      await completeLogin(user)
+    }
+
+    return {
+      success: true,
+      message: 'Two-factor authentication is on',
+      data: { recoveryCodes, user },
+    }
+  } catch (error) {
+    console.error('Confirm two-factor setup error:', error)
+    return {
+      success: false,
+      message: 'Failed to turn on two-factor authentication',
+    }
+  }
+}
+
+/**
+ * Replace the signed-in user's recovery codes, after checking a current code
+ */
+export async function regenerateRecoveryCodesAction(
+  code: string
+): Promise<ActionResponse<{ recoveryCodes: string[] }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const currentUser = await getCurrentUser()
+    const user = currentUser ? await findUserById(currentUser.userId) : null
+    if (!user) {
+      return {
+        success: false,
+        message: 'You must be logged in',
+      }
+    }
+
+    const refused = await checkTwoFactorCode(user, code)
+    if (refused) {
+      return {
+        success: false,
+        message: refused,
+      }
+    }
+
+    return {
+      success: true,
+      message: 'New recovery codes created',
+      data: { recoveryCodes: await regenerateRecoveryCodes(user.id) },
+    }
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error)
+    return {
+      success: false,
+      message: 'Failed to create new recovery codes',
+    }
+  }
+}
+
+/**
+ * Turn two-factor off for the signed-in user, after checking a current code.
+ * Not allowed for roles that require it.
+ */
+export async function disableTwoFactorAction(code: string): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    const currentUser = await getCurrentUser()
+    const user = currentUser ? await findUserById(currentUser.userId) : null
+    if (!user) {
+      return {
+        success: false,
+        message: 'You must be logged in',
+      }
+    }
+
+    if (requiresTwoFactor(user.role)) {
+      return {
+        success: false,
+        message: 'Two-factor authentication is required for your role',
+      }
+    }
+
+    const refused = await checkTwoFactorCode(user, code)
+    if (refused) {
+      return {
+        success: false,
+        message: refused,
+      }
+    }
+
+    await disableTwoFactor(user.id)
+
+    return {
+      success: true,
+      message: 'Two-factor authentication is off',
+    }
+  } catch (error) {
+    console.error('Disable two-factor error:', error)
+    return {
+      success: false,
+      message: 'Failed to turn off two-factor authentication',
+    }
+  }
 }
@@ -1,6 +1,10 @@
 'use server'
 
 import { getCurrentUserId } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { getSession } from '@/lib/db'
+import { cartItemSchema, cartQuantitySchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
 import {
   addToCart,
   removeFromCart,
@@ -8,7 +12,6 @@ import {
   getCartItems,
   getCartCount,
   clearCart,
-  getCartTotal,
   type CartItemWithDetails,
 } from '@/lib/repositories/cart.repository'
 import {
@@ -18,71 +21,56 @@ import {
   getGuestCart,
   clearGuestCart,
   getGuestCartCount,
+  getGuestCartItems,
 } from '@/lib/guest-cart'
-import { getVariantWithProduct } from '@/lib/repositories/product.repository'
-import type { ActionResponse } from '@/lib/types'
+import { isVariantInLivePromotionalCategory } from '@/lib/repositories/promotional-category.repository'
+import { quoteCart, type PriceQuote } from '@/lib/pricing'
+import { getAppliedCoupon } from '@/lib/coupons'
+import type { ActionResponse, DeliveryMethod } from '@/lib/types'
 
-/**
- * Get guest cart items with full details
- */
-async function getGuestCartWithDetails(): Promise<CartItemWithDetails[]> {
-  const guestCart = await getGuestCart()
-  const items: CartItemWithDetails[] = []
-
-  for (const item of guestCart) {
-    try {
-      const data = await getVariantWithProduct(item.variantId)
-      if (data) {
-        items.push({
-          id: item.variantId, // Use variantId as the unique ID for guest items
-          userId: 'guest', // Guest user identifier
-          variantId: item.variantId,
-          quantity: item.quantity,
-          addedAt: new Date().toISOString(), // Guest carts don't track add time
-          product: data.product,
-          variant: data.variant,
-        })
-      }
-    } catch (error) {
-      console.error(`Failed to get variant details for ${item.variantId}:`, error)
-    }
+async function isPromotionalCategoryLive(promotionalCategoryId: string, variantId: string): Promise<boolean> {
+  const session = getSession()
+  try {
+    return await isVariantInLivePromotionalCategory(session, promotionalCategoryId, variantId)
+  } finally {
+    await session.close()
   }
-
-  return items
-}
-
-/**
- * Calculate total for guest cart
- */
-function calculateGuestCartTotal(items: CartItemWithDetails[]): number {
-  return items.reduce((sum, item) => {
-    return sum + item.product.stockPrice * item.quantity
-  }, 0)
 }
 
 /**
  * Add item to cart (supports both authenticated and guest users)
+ * Pass the promotional section the product was found in so the sale is attributed to it
  */
 export async function addToCartAction(
   variantId: string,
-  quantity: number = 1
+  quantity: number = 1,
+  promotionalCategoryId?: string
 ): Promise<ActionResponse> {
-  try {
-    if (quantity < 1) {
-      return {
-        success: false,
-        message: 'Quantity must be at least 1',
-      }
-    }
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
+  const input = validateInput(cartItemSchema, { variantId, quantity, promotionalCategoryId })
+  if (!input.success) {
+    return input.response
+  }
+
+  try {
+    const item = input.data
+    // The section comes from the client; only keep it if the product really is on sale there
+    const verifiedCategoryId =
+      item.promotionalCategoryId && (await isPromotionalCategoryLive(item.promotionalCategoryId, item.variantId))
+        ? item.promotionalCategoryId
+        : undefined
     const userId = await getCurrentUserId()
 
     if (userId) {
       // Authenticated user - use database cart
-      await addToCart(userId, variantId, quantity)
+      await addToCart(userId, item.variantId, item.quantity, verifiedCategoryId)
     } else {
       // Guest user - use cookie cart
-      await addToGuestCart(variantId, quantity)
+      await addToGuestCart(item.variantId, item.quantity, verifiedCategoryId)
     }
 
     return {
@@ -102,6 +90,11 @@ export async function addToCartAction(
  * Remove item from cart (supports both authenticated and guest users)
  */
 export async function removeFromCartAction(variantId: string): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   try {
     const userId = await getCurrentUserId()
 
@@ -133,22 +126,25 @@ export async function updateCartItemAction(
   variantId: string,
   quantity: number
 ): Promise<ActionResponse> {
-  try {
-    if (quantity < 1) {
-      return {
-        success: false,
-        message: 'Quantity must be at least 1',
-      }
-    }
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
+  const input = validateInput(cartQuantitySchema, { variantId, quantity })
+  if (!input.success) {
+    return input.response
+  }
+
+  try {
     const userId = await getCurrentUserId()
 
     if (userId) {
       // Authenticated user
-      await updateCartItemQuantity(userId, variantId, quantity)
+      await updateCartItemQuantity(userId, input.data.variantId, input.data.quantity)
     } else {
       // Guest user
-      await updateGuestCartQuantity(variantId, quantity)
+      await updateGuestCartQuantity(input.data.variantId, input.data.quantity)
     }
 
     return {
@@ -166,32 +162,42 @@ export async function updateCartItemAction(
 
 /**
  * Get all cart items (supports both authenticated and guest users)
+ * The quote defaults to SHIP so the cart page shows the shipping fee that would apply,
+ * and includes the applied coupon if it's still valid for the cart.
  */
-export async function getCartItemsAction(): Promise<
-  ActionResponse<{ items: CartItemWithDetails[]; total: number; itemCount: number }>
+export async function getCartItemsAction(
+  deliveryMethod: DeliveryMethod = 'SHIP'
+): Promise<
+  ActionResponse<{
+    items: CartItemWithDetails[]
+    total: number
+    itemCount: number
+    quote: PriceQuote
+    couponError?: string
+  }>
 > {
   try {
     const userId = await getCurrentUserId()
 
     let items: CartItemWithDetails[]
-    let total: number
     let itemCount: number
 
     if (userId) {
       // Authenticated user
       items = await getCartItems(userId)
-      total = await getCartTotal(userId)
       itemCount = await getCartCount(userId)
     } else {
       // Guest user
-      items = await getGuestCartWithDetails()
-      total = calculateGuestCartTotal(items)
+      items = await getGuestCartItems()
       itemCount = await getGuestCartCount()
     }
 
+    const applied = await getAppliedCoupon(items, { userId, email: null })
+    const quote = quoteCart(items, deliveryMethod, applied.coupon?.quoteCoupon ?? null)
+
     return {
       success: true,
-      data: { items, total, itemCount },
+      data: { items, total: quote.subtotal, itemCount, quote, couponError: applied.error },
     }
   } catch (error) {
     console.error('Get cart items error:', error)
@@ -236,6 +242,11 @@ export async function getCartCountAction(): Promise<ActionResponse<{ count: numb
  * Clear cart (supports both authenticated and guest users)
  */
 export async function clearCartAction(): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   try {
     const userId = await getCurrentUserId()
 
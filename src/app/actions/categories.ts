@@ -1,9 +1,19 @@
 'use server'
 
 import { getSession } from '@/lib/db'
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import {
+  createCategorySchema,
+  moveCategorySchema,
+  productCategoriesSchema,
+  updateCategorySchema,
+} from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import { recordAudit } from '@/lib/audit'
 import { convertNeo4jIntegers } from '@/lib/neo4j-utils'
 import * as categoryRepo from '@/lib/repositories/category.repository'
+import type { ActionResponse } from '@/lib/types'
 
 /**
  * Get all root categories (Ladies, Gents, Kids)
@@ -150,20 +160,32 @@ export async function createCategoryAction(
   hierarchy: string,
   parentId: string | null = null,
   isFeatured: boolean = false
-) {
-  if (!(await isAdmin())) {
+): Promise<ActionResponse<categoryRepo.Category>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_CATEGORIES')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
 }
 
+  const input = validateInput(createCategorySchema, { name, hierarchy, parentId, isFeatured })
+  if (!input.success) {
+    return input.response
+  }
+
   const session = getSession()
   try {
     const category = await categoryRepo.createCategory(
       session,
-      name,
-      hierarchy,
-      parentId,
-      isFeatured
+      input.data.name,
+      input.data.hierarchy,
+      input.data.parentId,
+      input.data.isFeatured
     )
+    await recordAudit(user, 'category.create', { type: 'CATEGORY', id: category.id, label: category.name }, null, category)
     return { success: true, data: category }
   } catch (error: unknown) {
     console.error('Error creating category:', error)
@@ -183,14 +205,27 @@ export async function updateCategoryAction(
     isActive?: boolean
     isFeatured?: boolean
   }
-) {
-  if (!(await isAdmin())) {
+): Promise<ActionResponse<categoryRepo.Category>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_CATEGORIES')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
 }
 
+  const input = validateInput(updateCategorySchema, updates)
+  if (!input.success) {
+    return input.response
+  }
+
   const session = getSession()
   try {
-    const category = await categoryRepo.updateCategory(session, id, updates)
+    const before = await categoryRepo.getCategoryById(session, id)
+    const category = await categoryRepo.updateCategory(session, id, input.data)
+    await recordAudit(user, 'category.update', { type: 'CATEGORY', id, label: category.name }, before, input.data)
     return { success: true, data: category }
   } catch (error: unknown) {
     console.error('Error updating category:', error)
@@ -203,18 +238,28 @@ export async function updateCategoryAction(
 /**
  * Delete category (Admin only)
  */
-export async function deleteCategoryAction(id: string) {
-  if (!(await isAdmin())) {
+export async function deleteCategoryAction(id: string): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_CATEGORIES')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
 }
 
   const session = getSession()
   try {
+    const category = await categoryRepo.getCategoryById(session, id)
     const result = await categoryRepo.deleteCategory(session, id)
     // Map 'message' to 'error' for consistency with other actions
     if (!result.success && result.message) {
       return { success: false, message: result.message }
     }
+    if (result.success && category) {
+      await recordAudit(user, 'category.delete', { type: 'CATEGORY', id, label: category.name }, category, null)
+    }
     return { success: result.success }
   } catch (error: unknown) {
     console.error('Error deleting category:', error)
@@ -230,14 +275,33 @@ export async function deleteCategoryAction(id: string) {
 export async function moveCategoryAction(
   categoryId: string,
   newParentId: string | null
-) {
-  if (!(await isAdmin())) {
+): Promise<ActionResponse<categoryRepo.Category>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_CATEGORIES')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
 }
 
+  const input = validateInput(moveCategorySchema, { categoryId, newParentId })
+  if (!input.success) {
+    return input.response
+  }
+
   const session = getSession()
   try {
-    const category = await categoryRepo.moveCategory(session, categoryId, newParentId)
+    const before = await categoryRepo.getCategoryById(session, categoryId)
+    const category = await categoryRepo.moveCategory(session, categoryId, input.data.newParentId)
+    await recordAudit(
+      user,
+      'category.move',
+      { type: 'CATEGORY', id: categoryId, label: category.name },
+      before && { parentId: before.parentId, hierarchy: before.hierarchy, level: before.level },
+      { parentId: category.parentId, hierarchy: category.hierarchy, level: category.level }
+    )
     return { success: true, data: category }
   } catch (error: unknown) {
     console.error('Error moving category:', error)
@@ -306,7 +370,7 @@ export async function getFullProductsByCategoriesAction(categoryIds: string[]) {
  * Find duplicate category names
  */
 export async function findDuplicateNamesAction() {
-  if (!(await isAdmin())) {
+  if (!(await authorize('MANAGE_CATEGORIES'))) {
     return { success: false, message: 'Unauthorized' }
 }
 
@@ -326,7 +390,7 @@ export async function findDuplicateNamesAction() {
  * Get category statistics
  */
 export async function getCategoryStatisticsAction() {
-  if (!(await isAdmin())) {
+  if (!(await authorize('MANAGE_CATEGORIES'))) {
     return { success: false, message: 'Unauthorized' }
 }
 
@@ -399,14 +463,33 @@ export async function validateLeafCategoryAction(categoryId: string) {
 export async function assignProductToCategoriesAction(
   productId: string,
   categoryIds: string[]
-) {
-  if (!(await isAdmin())) {
+): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_CATEGORIES')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
 }
 
+  const input = validateInput(productCategoriesSchema, { productId, categoryIds })
+  if (!input.success) {
+    return input.response
+  }
+
   const session = getSession()
   try {
-    await categoryRepo.assignProductToCategories(session, productId, categoryIds)
+    const before = await categoryRepo.getCategoriesForProduct(session, productId)
+    await categoryRepo.assignProductToCategories(session, productId, input.data.categoryIds)
+    await recordAudit(
+      user,
+      'product.categories',
+      { type: 'PRODUCT', id: productId },
+      { categoryIds: before },
+      { categoryIds: input.data.categoryIds }
+    )
     return { success: true }
   } catch (error: unknown) {
     console.error('Error assigning product to categories:', error)
@@ -420,7 +503,7 @@ export async function assignProductToCategoriesAction(
  * Get products for a specific category with full details (Admin only)
  */
 export async function getCategoryProductsAction(categoryId: string) {
-  if (!(await isAdmin())) {
+  if (!(await authorize('MANAGE_CATEGORIES'))) {
     return { success: false, message: 'Unauthorized' }
 }
 
@@ -451,8 +534,14 @@ export async function getCategoryProductsAction(categoryId: string) {
 export async function removeProductFromCategoryAction(
   productId: string,
   categoryId: string
-) {
-  if (!(await isAdmin())) {
+): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_CATEGORIES')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
 }
 
@@ -463,6 +552,7 @@ export async function removeProductFromCategoryAction(
        DELETE r`,
       { productId, categoryId }
     )
+    await recordAudit(user, 'product.category.remove', { type: 'PRODUCT', id: productId }, { categoryId }, null)
     return { success: true }
   } catch (error: unknown) {
     console.error('Error removing product from category:', error)
@@ -478,8 +568,14 @@ export async function removeProductFromCategoryAction(
 export async function addProductToCategoryAction(
   productId: string,
   categoryId: string
-) {
-  if (!(await isAdmin())) {
+): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_CATEGORIES')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
 }
 
@@ -509,6 +605,7 @@ export async function addProductToCategoryAction(
        CREATE (p)-[:HAS_CATEGORY]->(c)`,
       { productId, categoryId }
     )
+    await recordAudit(user, 'product.category.add', { type: 'PRODUCT', id: productId }, null, { categoryId })
 
     return { success: true }
   } catch (error: unknown) {
@@ -523,7 +620,7 @@ export async function addProductToCategoryAction(
  * Get all products that are NOT assigned to a specific category (Admin only)
  */
 export async function getUnassignedProductsAction(categoryId: string) {
-  if (!(await isAdmin())) {
+  if (!(await authorize('MANAGE_CATEGORIES'))) {
     return { success: false, message: 'Unauthorized' }
 }
 
@@ -1,9 +1,14 @@
 'use server'
 
 import { getSession } from '@/lib/db'
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { colorSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import { recordAudit } from '@/lib/audit'
 import * as colorRepo from '@/lib/repositories/color.repository'
 import { FASHION_COLORS } from '@/lib/color-utils'
+import type { ActionResponse } from '@/lib/types'
 
 /**
  * Get all colors (public)
@@ -24,22 +29,26 @@ export async function getColorsAction() {
 /**
  * Create a new color (admin only)
  */
-export async function createColorAction(name: string, hex: string) {
-  if (!(await isAdmin())) {
-    return { success: false, message: 'Unauthorized' }
+export async function createColorAction(name: string, hex: string): Promise<ActionResponse<colorRepo.Color>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
   }
 
-  if (!name || !name.trim()) {
-    return { success: false, message: 'Color name is required' }
+  const user = await authorize('MANAGE_PRODUCTS')
+  if (!user) {
+    return { success: false, message: 'Unauthorized' }
   }
 
-  if (!/^#[0-9a-fA-F]{6}$/.test(hex)) {
-    return { success: false, message: 'Invalid hex color (must be #RRGGBB)' }
+  const input = validateInput(colorSchema, { name, hex })
+  if (!input.success) {
+    return input.response
   }
 
   const session = getSession()
   try {
-    const color = await colorRepo.createColor(session, { name: name.trim(), hex })
+    const color = await colorRepo.createColor(session, input.data)
+    await recordAudit(user, 'color.create', { type: 'COLOR', id: color.id, label: color.name }, null, color)
     return { success: true, data: color }
   } catch (error: unknown) {
     console.error('Error creating color:', error)
@@ -56,8 +65,14 @@ export async function createColorAction(name: string, hex: string) {
 /**
  * Toggle a color's active status (admin only)
  */
-export async function toggleColorActiveAction(id: string) {
-  if (!(await isAdmin())) {
+export async function toggleColorActiveAction(id: string): Promise<ActionResponse<colorRepo.Color>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_PRODUCTS')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
   }
 
@@ -67,6 +82,13 @@ export async function toggleColorActiveAction(id: string) {
     if (!color) {
       return { success: false, message: 'Color not found' }
     }
+    await recordAudit(
+      user,
+      color.isActive ? 'color.enable' : 'color.disable',
+      { type: 'COLOR', id, label: color.name },
+      { isActive: !color.isActive },
+      { isActive: color.isActive }
+    )
     return { success: true, data: color }
   } catch (error: unknown) {
     console.error('Error toggling color:', error)
@@ -79,17 +101,25 @@ export async function toggleColorActiveAction(id: string) {
 /**
  * Delete a color (admin only)
  */
-export async function deleteColorAction(id: string) {
-  if (!(await isAdmin())) {
+export async function deleteColorAction(id: string): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_PRODUCTS')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
   }
 
   const session = getSession()
   try {
+    const color = (await colorRepo.getAllColors(session)).find((item) => item.id === id)
     const deleted = await colorRepo.deleteColor(session, id)
     if (!deleted) {
       return { success: false, message: 'Color not found' }
     }
+    await recordAudit(user, 'color.delete', { type: 'COLOR', id, label: color?.name }, color ?? null, null)
     return { success: true }
   } catch (error: unknown) {
     console.error('Error deleting color:', error)
@@ -102,8 +132,14 @@ export async function deleteColorAction(id: string) {
 /**
  * Seed default colors from static COLOR_MAP (admin only)
  */
-export async function seedColorsAction() {
-  if (!(await isAdmin())) {
+export async function seedColorsAction(): Promise<ActionResponse<{ count: number }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_PRODUCTS')
+  if (!user) {
     return { success: false, message: 'Unauthorized' }
   }
 
@@ -113,6 +149,7 @@ export async function seedColorsAction() {
     if (count === 0) {
       return { success: false, message: 'Colors already exist in the database' }
     }
+    await recordAudit(user, 'color.seed', { type: 'COLOR', id: 'defaults' }, null, { count })
     return { success: true, data: { count } }
   } catch (error: unknown) {
     console.error('Error seeding colors:', error)
@@ -0,0 +1,261 @@
+'use server'
+
+import { getSession } from '@/lib/db'
+import { authorize, getCurrentUserId } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { couponSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import { recordAudit } from '@/lib/audit'
+import { getCartItems } from '@/lib/repositories/cart.repository'
+import { getGuestCartItems } from '@/lib/guest-cart'
+import { clearAppliedCouponCode, resolveCoupon, setAppliedCouponCode } from '@/lib/coupons'
+import * as couponRepo from '@/lib/repositories/coupon.repository'
+import type { ActionResponse, Coupon, CouponInput } from '@/lib/types'
+
+/**
+ * Apply a coupon code to the current cart (supports both authenticated and guest users)
+ */
+export async function applyCouponAction(code: string): Promise<ActionResponse<{ code: string }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    if (!code.trim()) {
+      return { success: false, message: 'Please enter a coupon code' }
+    }
+
+    const userId = await getCurrentUserId()
+    const items = userId ? await getCartItems(userId) : await getGuestCartItems()
+
+    if (items.length === 0) {
+      return { success: false, message: 'Your cart is empty' }
+    }
+
+    const { coupon } = await resolveCoupon(code, items, { userId, email: null })
+    await setAppliedCouponCode(coupon.code)
+
+    return {
+      success: true,
+      message: `Coupon ${coupon.code} applied`,
+      data: { code: coupon.code },
+    }
+  } catch (error) {
+    if (error instanceof couponRepo.CouponError) {
+      return { success: false, message: error.message }
+    }
+    console.error('Apply coupon error:', error)
+    return { success: false, message: 'Failed to apply coupon' }
+  }
+}
+
+/**
+ * Remove the applied coupon from the current cart
+ */
+export async function removeCouponAction(): Promise<ActionResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  try {
+    await clearAppliedCouponCode()
+    return { success: true, message: 'Coupon removed' }
+  } catch (error) {
+    console.error('Remove coupon error:', error)
+    return { success: false, message: 'Failed to remove coupon' }
+  }
+}
+
+/**
+ * Get all coupons (Admin only)
+ */
+export async function getCouponsAction(): Promise<ActionResponse<Coupon[]>> {
+  const session = getSession()
+
+  try {
+    const user = await authorize('MANAGE_COUPONS')
+    if (!user) {
+      return { success: false, message: 'Unauthorized. Admin access required.' }
+    }
+
+    const coupons = await couponRepo.getAllCoupons(session)
+
+    return { success: true, data: coupons }
+  } catch (error: any) {
+    console.error('Error fetching coupons:', error)
+    return { success: false, message: error.message || 'Failed to fetch coupons' }
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Create a new coupon (Admin only)
+ */
+export async function createCouponAction(input: CouponInput): Promise<ActionResponse<Coupon>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const session = getSession()
+
+  try {
+    const user = await authorize('MANAGE_COUPONS')
+    if (!user) {
+      return { success: false, message: 'Unauthorized. Admin access required.' }
+    }
+
+    const validated = validateInput(couponSchema, input)
+    if (!validated.success) {
+      return validated.response
+    }
+
+    const coupon = await couponRepo.createCoupon(session, validated.data)
+    await recordAudit(user, 'coupon.create', { type: 'COUPON', id: coupon.id, label: coupon.code }, null, coupon)
+
+    return {
+      success: true,
+      message: 'Coupon created successfully',
+      data: coupon,
+    }
+  } catch (error: any) {
+    console.error('Error creating coupon:', error)
+    return { success: false, message: error.message || 'Failed to create coupon' }
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Update a coupon (Admin only)
+ */
+export async function updateCouponAction(
+  id: string,
+  input: CouponInput
+): Promise<ActionResponse<Coupon>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const session = getSession()
+
+  try {
+    const user = await authorize('MANAGE_COUPONS')
+    if (!user) {
+      return { success: false, message: 'Unauthorized. Admin access required.' }
+    }
+
+    const validated = validateInput(couponSchema, input)
+    if (!validated.success) {
+      return validated.response
+    }
+
+    const before = await couponRepo.getCouponById(session, id)
+    const coupon = await couponRepo.updateCoupon(session, id, validated.data)
+
+    if (!coupon) {
+      return { success: false, message: 'Coupon not found' }
+    }
+
+    await recordAudit(user, 'coupon.update', { type: 'COUPON', id, label: coupon.code }, before, coupon)
+
+    return {
+      success: true,
+      message: 'Coupon updated successfully',
+      data: coupon,
+    }
+  } catch (error: any) {
+    console.error('Error updating coupon:', error)
+    return { success: false, message: error.message || 'Failed to update coupon' }
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Enable or disable a coupon (Admin only)
+ */
+export async function setCouponActiveAction(
+  id: string,
+  isActive: boolean
+): Promise<ActionResponse<Coupon>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const session = getSession()
+
+  try {
+    const user = await authorize('MANAGE_COUPONS')
+    if (!user) {
+      return { success: false, message: 'Unauthorized. Admin access required.' }
+    }
+
+    const coupon = await couponRepo.setCouponActive(session, id, isActive)
+
+    if (!coupon) {
+      return { success: false, message: 'Coupon not found' }
+    }
+
+    await recordAudit(
+      user,
+      isActive ? 'coupon.enable' : 'coupon.disable',
+      { type: 'COUPON', id, label: coupon.code },
+      { isActive: !isActive },
+      { isActive }
+    )
+
+    return {
+      success: true,
+      message: isActive ? 'Coupon enabled' : 'Coupon disabled',
+      data: coupon,
+    }
+  } catch (error: any) {
+    console.error('Error updating coupon status:', error)
+    return { success: false, message: error.message || 'Failed to update coupon' }
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Delete a coupon that has never been used (Admin only)
+ */
+export async function deleteCouponAction(id: string): Promise<ActionResponse<void>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const session = getSession()
+
+  try {
+    const user = await authorize('MANAGE_COUPONS')
+    if (!user) {
+      return { success: false, message: 'Unauthorized. Admin access required.' }
+    }
+
+    const coupon = await couponRepo.getCouponById(session, id)
+    const deleted = await couponRepo.deleteCoupon(session, id)
+    if (!deleted) {
+      return { success: false, message: 'Coupon not found' }
+    }
+
+    await recordAudit(user, 'coupon.delete', { type: 'COUPON', id, label: coupon?.code }, coupon, null)
+
+    return {
+      success: true,
+      message: 'Coupon deleted successfully',
+    }
+  } catch (error: any) {
+    console.error('Error deleting coupon:', error)
+    return { success: false, message: error.message || 'Failed to delete coupon' }
+  } finally {
+    await session.close()
+  }
+}
@@ -1,21 +1,43 @@
 'use server'
 
 import { getSession } from '@/lib/db'
-import { getCurrentUser } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { createHeroSlideSchema, updateHeroSlideSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import { recordAudit } from '@/lib/audit'
 import { deleteFile } from '@/lib/minio'
+import { getStoreDate, isStoreDate } from '@/lib/schedule'
 import { ActionResponse, HeroSlide, HeroAnimationType, HeroColorTheme } from '@/lib/types'
 import * as heroSlideRepo from '@/lib/repositories/hero-slide.repository'
 
 /**
  * Get all hero slides (public for frontend, all for admin)
+ * With activeOnly, previewDate (YYYY-MM-DD, admin only) lists the slides that
+ * will be live on that date instead of today
  */
 export async function getAllHeroSlidesAction(
-  activeOnly = false
+  activeOnly = false,
+  previewDate?: string
 ): Promise<ActionResponse<HeroSlide[]>> {
   const session = getSession()
 
   try {
-    const slides = await heroSlideRepo.getAllHeroSlides(session, activeOnly)
+    if (previewDate) {
+      const user = await authorize('MANAGE_CONTENT')
+      if (!user) {
+        return { success: false, message: 'Unauthorized. Admin access required.' }
+      }
+      if (!isStoreDate(previewDate)) {
+        return { success: false, message: 'Invalid preview date' }
+      }
+    }
+
+    const slides = await heroSlideRepo.getAllHeroSlides(
+      session,
+      activeOnly,
+      previewDate || getStoreDate()
+    )
 
     return {
       success: true,
@@ -42,16 +64,29 @@ export async function createHeroSlideAction(data: {
   linkUrl?: string
   displayOrder: number
   isActive?: boolean
+  startDate?: string
+  endDate?: string
 }): Promise<ActionResponse<HeroSlide>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
-    const slide = await heroSlideRepo.createHeroSlide(session, data)
+    const input = validateInput(createHeroSlideSchema, data)
+    if (!input.success) {
+      return input.response
+    }
+
+    const slide = await heroSlideRepo.createHeroSlide(session, input.data)
+    await recordAudit(user, 'hero_slide.create', { type: 'HERO_SLIDE', id: slide.id, label: slide.title }, null, slide)
 
     return {
       success: true,
@@ -81,22 +116,37 @@ export async function updateHeroSlideAction(
     linkUrl: string
     displayOrder: number
     isActive: boolean
+    startDate: string
+    endDate: string
   }>
 ): Promise<ActionResponse<HeroSlide>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
-    const slide = await heroSlideRepo.updateHeroSlide(session, id, data)
+    const input = validateInput(updateHeroSlideSchema, data)
+    if (!input.success) {
+      return input.response
+    }
+
+    const before = await heroSlideRepo.getHeroSlideById(session, id)
+    const slide = await heroSlideRepo.updateHeroSlide(session, id, input.data)
 
     if (!slide) {
       return { success: false, message: 'Hero slide not found' }
     }
 
+    await recordAudit(user, 'hero_slide.update', { type: 'HERO_SLIDE', id, label: slide.title }, before, input.data)
+
     return {
       success: true,
       message: 'Hero slide updated successfully',
@@ -116,11 +166,16 @@ export async function updateHeroSlideAction(
 export async function deleteHeroSlideAction(
   id: string
 ): Promise<ActionResponse<void>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
@@ -136,6 +191,8 @@ export async function deleteHeroSlideAction(
       return { success: false, message: 'Failed to delete hero slide' }
     }
 
+    await recordAudit(user, 'hero_slide.delete', { type: 'HERO_SLIDE', id, label: slide.title }, slide, null)
+
     // Delete image from MinIO (best effort — don't fail if image deletion fails)
     try {
       if (slide.imageUrl) {
@@ -163,16 +220,35 @@ export async function deleteHeroSlideAction(
 export async function reorderHeroSlidesAction(
   slides: Array<{ id: string; displayOrder: number }>
 ): Promise<ActionResponse<void>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
+    const current = await heroSlideRepo.getAllHeroSlides(session)
     await heroSlideRepo.reorderHeroSlides(session, slides)
 
+    for (const { id, displayOrder } of slides) {
+      const slide = current.find((item) => item.id === id)
+      if (slide && slide.displayOrder !== displayOrder) {
+        await recordAudit(
+          user,
+          'hero_slide.reorder',
+          { type: 'HERO_SLIDE', id, label: slide.title },
+          { displayOrder: slide.displayOrder },
+          { displayOrder }
+        )
+      }
+    }
+
     return {
       success: true,
       message: 'Hero slides reordered successfully',
@@ -1,38 +1,81 @@
 'use server'
 
-import { getCurrentUserId, isAdmin } from '@/lib/auth'
+import { after } from 'next/server'
+import { getLocale } from 'next-intl/server'
+import { getClientIp, getCurrentUserId } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { createOrderSchema, guestOrderLookupSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
 import {
   createOrder,
+  getGuestOrderByNumber,
   getOrderById,
   getUserOrders,
-  updateOrderStatus,
   getUserOrderCount,
   type OrderWithItems,
   type CreateOrderInput,
 } from '@/lib/repositories/order.repository'
-import { getCartItems, clearCart } from '@/lib/repositories/cart.repository'
-import type { OrderStatus, ShippingAddress, DeliveryMethod, ActionResponse } from '@/lib/types'
+import { getCartItems, type CartItemWithDetails } from '@/lib/repositories/cart.repository'
+import { findUserById } from '@/lib/repositories/user.repository'
+import { clearGuestCart, getGuestCartItems } from '@/lib/guest-cart'
+import { getOrderAccessActor, grantGuestOrderAccess } from '@/lib/guest-orders'
+import {
+  getOrderLookupBlock,
+  getOrderLookupBlockMessage,
+  recordOrderLookupFailure,
+} from '@/lib/order-lookup-attempts'
+import { quoteCart } from '@/lib/pricing'
+import { clearAppliedCouponCode, getAppliedCoupon } from '@/lib/coupons'
+import { notifyOrderPlaced } from '@/lib/notifications'
+import type { ShippingAddress, DeliveryMethod, ActionResponse } from '@/lib/types'
 
 /**
  * Create order from current cart
+ * Guests check out from their cookie cart and must give an email, which together
+ * with the order number lets them look the order up later.
  */
 export async function createOrderAction(
   shippingAddress: ShippingAddress,
   deliveryMethod: DeliveryMethod,
   email?: string
 ): Promise<ActionResponse<{ orderId: string; orderNumber: string }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const input = validateInput(createOrderSchema, { shippingAddress, deliveryMethod, email })
+  if (!input.success) {
+    return input.response
+  }
+
   try {
     const userId = await getCurrentUserId()
+    const guestEmail = input.data.email
 
-    if (!userId) {
+    if (!userId && !guestEmail) {
       return {
         success: false,
-        message: 'You must be logged in to place an order',
+        message: 'Please enter a valid email address',
+        fieldErrors: { email: 'Enter a valid email address' },
+      }
+    }
+
+    // Account holders must have verified their email before ordering
+    if (userId) {
+      const account = await findUserById(userId)
+      if (!account?.emailVerifiedAt) {
+        return {
+          success: false,
+          message: 'Please verify your email address before placing an order',
+        }
       }
     }
 
     // Get cart items
-    const cartItems = await getCartItems(userId)
+    const cartItems: CartItemWithDetails[] = userId
+      ? await getCartItems(userId)
+      : await getGuestCartItems()
 
     if (cartItems.length === 0) {
       return {
@@ -41,33 +84,59 @@ export async function createOrderAction(
       }
     }
 
-    // Calculate total
-    const subtotal = cartItems.reduce((total, item) => {
-      return total + item.product.stockPrice * item.quantity
-    }, 0)
+    // Re-validate the applied coupon; if it no longer applies the customer has to
+    // see the new total before placing the order
+    const applied = await getAppliedCoupon(cartItems, {
+      userId,
+      email: userId ? null : guestEmail ?? null,
+    })
+
+    if (applied.error) {
+      return {
+        success: false,
+        message: `${applied.error}. Remove the coupon to continue.`,
+      }
+    }
 
-    // Shipping cost only applies if delivery method is SHIP
-    const shipping = deliveryMethod === 'SHIP' ? (subtotal >= 100 ? 0 : 9.99) : 0
-    const totalAmount = subtotal + shipping
+    // Price the cart server-side; client-side totals are never trusted
+    const quote = quoteCart(cartItems, input.data.deliveryMethod, applied.coupon?.quoteCoupon ?? null)
 
-    // Prepare order items
-    const orderItems = cartItems.map((item) => ({
-      variantId: item.variantId,
-      quantity: item.quantity,
-      priceAtPurchase: item.product.stockPrice,
+    // Prepare order items, keeping the promotional section each was added from
+    const orderItems = quote.lines.map((line) => ({
+      variantId: line.variantId,
+      quantity: line.quantity,
+      priceAtPurchase: line.unitPrice,
+      promotionalCategoryId: cartItems.find((item) => item.variantId === line.variantId)
+        ?.promotionalCategoryId,
     }))
 
-    // Create order
+    // Create order and clear the cart in one transaction
     const order = await createOrder({
       userId,
+      guestEmail: userId ? undefined : guestEmail,
       items: orderItems,
-      shippingAddress,
-      deliveryMethod,
-      totalAmount,
+      shippingAddress: input.data.shippingAddress,
+      deliveryMethod: input.data.deliveryMethod,
+      locale: await getLocale(),
+      subtotal: quote.subtotal,
+      discountAmount: quote.discountTotal,
+      coupon: applied.coupon?.coupon,
+      shippingCost: quote.shipping,
+      taxAmount: quote.tax,
+      totalAmount: quote.grandTotal,
+      clearCart: true,
     })
 
-    // Clear cart after successful order
-    await clearCart(userId)
+    if (applied.coupon) {
+      await clearAppliedCouponCode()
+    }
+
+    if (!userId) {
+      await clearGuestCart()
+      await grantGuestOrderAccess(order.id)
+    }
+
+    after(() => notifyOrderPlaced(order.id))
 
     return {
       success: true,
@@ -93,15 +162,6 @@ export async function getOrderAction(
   orderId: string
 ): Promise<ActionResponse<{ order: OrderWithItems }>> {
   try {
-    const userId = await getCurrentUserId()
-
-    if (!userId) {
-      return {
-        success: false,
-        message: 'You must be logged in',
-      }
-    }
-
     const order = await getOrderById(orderId)
 
     if (!order) {
@@ -111,8 +171,9 @@ export async function getOrderAction(
       }
     }
 
-    // Verify the order belongs to the user
-    if (order.userId !== userId) {
+    // Verify the order belongs to the user (or to a guest with access to it)
+    const actor = await getOrderAccessActor(order)
+    if (!actor) {
       return {
         success: false,
         message: 'Unauthorized',
@@ -133,44 +194,65 @@ export async function getOrderAction(
 }
 
 /**
- * Get all orders for current user
+ * Look up a guest order by order number and checkout email.
+ * On a match this browser is granted access to view and pay for the order.
+ * Failed lookups are throttled per address and per email.
  */
-export async function getUserOrdersAction(): Promise<
-  ActionResponse<{ orders: OrderWithItems[]; count: number }>
-> {
+export async function lookupGuestOrderAction(
+  orderNumber: string,
+  email: string
+): Promise<ActionResponse<{ orderId: string }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const input = validateInput(guestOrderLookupSchema, { orderNumber, email })
+  if (!input.success) {
+    return input.response
+  }
+
   try {
-    const userId = await getCurrentUserId()
+    const ipAddress = await getClientIp()
+    const retryAt = await getOrderLookupBlock(input.data.email, ipAddress)
+    if (retryAt) {
+      return {
+        success: false,
+        message: getOrderLookupBlockMessage(retryAt),
+      }
+    }
 
-    if (!userId) {
+    const order = await getGuestOrderByNumber(input.data.orderNumber, input.data.email)
+
+    if (!order) {
+      await recordOrderLookupFailure(input.data.email, ipAddress)
       return {
         success: false,
-        message: 'You must be logged in',
+        message: 'No order found with that order number and email',
       }
     }
 
-    const orders = await getUserOrders(userId)
-    const count = await getUserOrderCount(userId)
+    await grantGuestOrderAccess(order.id)
 
     return {
       success: true,
-      data: { orders, count },
+      data: { orderId: order.id },
     }
   } catch (error) {
-    console.error('Get user orders error:', error)
+    console.error('Lookup guest order error:', error)
     return {
       success: false,
-      message: error instanceof Error ? error.message : 'Failed to get orders',
+      message: 'Failed to look up order',
     }
   }
 }
 
 /**
- * Update order status (admin only - TODO: add admin check)
+ * Get all orders for current user
  */
-export async function updateOrderStatusAction(
-  orderId: string,
-  status: OrderStatus
-): Promise<ActionResponse> {
+export async function getUserOrdersAction(): Promise<
+  ActionResponse<{ orders: OrderWithItems[]; count: number }>
+> {
   try {
     const userId = await getCurrentUserId()
 
@@ -181,25 +263,18 @@ export async function updateOrderStatusAction(
       }
     }
 
-    const adminAccess = await isAdmin()
-    if (!adminAccess) {
-      return {
-        success: false,
-        message: 'Unauthorized: Admin access required',
-      }
-    }
-
-    await updateOrderStatus(orderId, status)
+    const orders = await getUserOrders(userId)
+    const count = await getUserOrderCount(userId)
 
     return {
       success: true,
-      message: 'Order status updated',
+      data: { orders, count },
     }
   } catch (error) {
-    console.error('Update order status error:', error)
+    console.error('Get user orders error:', error)
     return {
       success: false,
-      message: error instanceof Error ? error.message : 'Failed to update order status',
+      message: error instanceof Error ? error.message : 'Failed to get orders',
     }
   }
 }
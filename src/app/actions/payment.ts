@@ -1,95 +1,131 @@
 'use server'
 
-import { cookies } from 'next/headers'
-import { verifyToken } from '@/lib/auth'
-import { uploadFile } from '@/lib/minio'
-import { updateOrderPaymentProof } from '@/lib/repositories/order.repository'
+import { after } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import { authorize } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { getOrderAccessActor } from '@/lib/guest-orders'
+import { getPresignedUrl, uploadPrivateFile } from '@/lib/minio'
+import { getOrderById, submitPaymentProof } from '@/lib/repositories/order.repository'
+import { canSubmitPayment } from '@/lib/order-lifecycle'
+import { notifyPaymentReceived } from '@/lib/notifications'
+import { paymentProofSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
 import type { ActionResponse } from '@/lib/types'
 
+// Signed payment proof URLs are only valid for a few minutes
+const PAYMENT_PROOF_URL_EXPIRY = 5 * 60
+
 export async function uploadPaymentProofAction(
   orderId: string,
   formData: FormData
-): Promise<ActionResponse<{ proofUrl: string }>> {
-  try {
-    // Verify authentication
-    const cookieStore = await cookies()
-    const token = cookieStore.get('auth_token')
+): Promise<ActionResponse<{ submissionId: string }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
 
-    if (!token) {
+  try {
+    // Check the order before storing anything; customers and guests may only pay for their own orders
+    const order = await getOrderById(orderId)
+    const actor = order ? await getOrderAccessActor(order) : null
+    if (!order || !actor) {
       return {
         success: false,
-        message: 'Authentication required',
+        message: 'Order not found',
       }
     }
 
-    let userId: string
-    try {
-      const payload = await verifyToken(token.value)
-      if (!payload) {
-        return {
-          success: false,
-          message: 'Invalid authentication token',
-        }
-      }
-      userId = payload.userId
-    } catch {
+    if (!canSubmitPayment(order.status)) {
       return {
         success: false,
-        message: 'Invalid authentication',
+        message: order.status === 'PAYMENT_SUBMITTED'
+          ? 'Your payment proof is already being reviewed'
+          : 'Payment proof can no longer be submitted for this order',
       }
     }
 
-    // Get the file from form data
-    const file = formData.get('paymentProof') as File
+    // An image or PDF of at most 5MB
+    const input = validateInput(paymentProofSchema, { paymentProof: formData.get('paymentProof') })
+    if (!input.success) {
+      return input.response
+    }
+    const file = input.data.paymentProof
+
+    // Create unguessable object key
+    const fileExtension = file.type === 'application/pdf' ? 'pdf' : file.type.split('/').pop()
+    const objectKey = `payment-proofs/${orderId}/${uuidv4()}.${fileExtension}`
+
+    // Convert file to buffer and upload to the private bucket
+    const bytes = await file.arrayBuffer()
+    const buffer = Buffer.from(bytes)
+
+    const fileKey = await uploadPrivateFile(buffer, objectKey, file.type)
+
+    // Record the submission for admin review (moves the order to PAYMENT_SUBMITTED)
+    const submission = await submitPaymentProof(orderId, actor, fileKey, file.type)
+
+    after(() => notifyPaymentReceived(orderId))
+
+    return {
+      success: true,
+      data: { submissionId: submission.id },
+      message: 'Payment proof uploaded successfully',
+    }
+  } catch (error) {
+    console.error('Upload payment proof error:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to upload payment proof',
+    }
+  }
+}
 
-    if (!file) {
+/**
+ * Get a short-lived URL for viewing a payment proof
+ * Only the customer who placed the order and admins may view it.
+ */
+export async function getPaymentProofUrlAction(
+  orderId: string,
+  submissionId: string
+): Promise<ActionResponse<{ url: string }>> {
+  try {
+    const order = await getOrderById(orderId)
+    if (!order) {
       return {
         success: false,
-        message: 'No file provided',
+        message: 'Order not found',
       }
     }
 
-    // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf']
-    if (!allowedTypes.includes(file.type)) {
+    // Only the order's customer (or guest) and order staff may view its payment proofs
+    const hasAccess = (await authorize('MANAGE_ORDERS')) !== null || (await getOrderAccessActor(order)) !== null
+    if (!hasAccess) {
       return {
         success: false,
-        message: 'Invalid file type. Please upload an image or PDF.',
+        message: 'Order not found',
       }
     }
 
-    // Validate file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024 // 5MB
-    if (file.size > maxSize) {
+    const submission = order.paymentSubmissions.find((s) => s.id === submissionId)
+    if (!submission) {
       return {
         success: false,
-        message: 'File size too large. Maximum size is 5MB.',
+        message: 'Payment proof not found',
       }
     }
 
-    // Create unique filename
-    const fileExtension = file.name.split('.').pop()
-    const filename = `payment-proofs/payment-proof-${orderId}-${Date.now()}.${fileExtension}`
-
-    // Convert file to buffer and upload to MinIO
-    const bytes = await file.arrayBuffer()
-    const buffer = Buffer.from(bytes)
-
-    const proofUrl = await uploadFile(buffer, filename, file.type)
-
-    // Update order with payment proof
-    await updateOrderPaymentProof(orderId, userId, proofUrl)
+    const url = await getPresignedUrl(submission.fileKey, PAYMENT_PROOF_URL_EXPIRY, 'private')
 
     return {
       success: true,
-      data: { proofUrl },
-      message: 'Payment proof uploaded successfully',
+      data: { url },
     }
   } catch (error) {
-    console.error('Upload payment proof error:', error)
+    console.error('Get payment proof URL error:', error)
     return {
       success: false,
-      message: error instanceof Error ? error.message : 'Failed to upload payment proof',
+      message: 'Failed to load payment proof',
     }
   }
 }
@@ -1,7 +1,17 @@
 'use server'
 
 import { getSession } from '@/lib/db'
-import { getCurrentUser } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import {
+  createPromotionalCategorySchema,
+  sectionAllocationSchema,
+  sectionTransferSchema,
+  updatePromotionalCategorySchema,
+} from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import { recordAudit } from '@/lib/audit'
+import { getStoreDate, isStoreDate } from '@/lib/schedule'
 import { ActionResponse, PromotionalCategory } from '@/lib/types'
 import * as promoCategoryRepo from '@/lib/repositories/promotional-category.repository'
 import { ProductWithVariants } from '@/lib/repositories/product.repository'
@@ -18,15 +28,32 @@ export async function createPromotionalCategoryAction(data: {
   startDate?: string
   endDate?: string
 }): Promise<ActionResponse<PromotionalCategory>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
-    const category = await promoCategoryRepo.createPromotionalCategory(session, data)
+    const input = validateInput(createPromotionalCategorySchema, data)
+    if (!input.success) {
+      return input.response
+    }
+
+    const category = await promoCategoryRepo.createPromotionalCategory(session, input.data)
+    await recordAudit(
+      user,
+      'promotional_category.create',
+      { type: 'PROMOTIONAL_CATEGORY', id: category.id, label: category.name },
+      null,
+      category
+    )
 
     return {
       success: true,
@@ -43,14 +70,31 @@ export async function createPromotionalCategoryAction(data: {
 
 /**
  * Get all promotional categories
+ * With activeOnly, previewDate (YYYY-MM-DD, admin only) lists the sections that
+ * will be live on that date instead of today
  */
 export async function getAllPromotionalCategoriesAction(
-  activeOnly = false
+  activeOnly = false,
+  previewDate?: string
 ): Promise<ActionResponse<PromotionalCategory[]>> {
   const session = getSession()
 
   try {
-    const categories = await promoCategoryRepo.getAllPromotionalCategories(session, activeOnly)
+    if (previewDate) {
+      const user = await authorize('MANAGE_CONTENT', 'MANAGE_PRODUCTS')
+      if (!user) {
+        return { success: false, message: 'Unauthorized. Admin access required.' }
+      }
+      if (!isStoreDate(previewDate)) {
+        return { success: false, message: 'Invalid preview date' }
+      }
+    }
+
+    const categories = await promoCategoryRepo.getAllPromotionalCategories(
+      session,
+      activeOnly,
+      previewDate || getStoreDate()
+    )
 
     return {
       success: true,
@@ -133,20 +177,39 @@ export async function updatePromotionalCategoryAction(
     endDate: string
   }>
 ): Promise<ActionResponse<PromotionalCategory>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
-    const category = await promoCategoryRepo.updatePromotionalCategory(session, categoryId, data)
+    const input = validateInput(updatePromotionalCategorySchema, data)
+    if (!input.success) {
+      return input.response
+    }
+
+    const before = await promoCategoryRepo.getPromotionalCategoryById(session, categoryId)
+    const category = await promoCategoryRepo.updatePromotionalCategory(session, categoryId, input.data)
 
     if (!category) {
       return { success: false, message: 'Promotional category not found' }
     }
 
+    await recordAudit(
+      user,
+      'promotional_category.update',
+      { type: 'PROMOTIONAL_CATEGORY', id: categoryId, label: category.name },
+      before,
+      input.data
+    )
+
     return {
       success: true,
       message: 'Promotional category updated successfully',
@@ -166,20 +229,34 @@ export async function updatePromotionalCategoryAction(
 export async function deletePromotionalCategoryAction(
   categoryId: string
 ): Promise<ActionResponse<void>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
+    const category = await promoCategoryRepo.getPromotionalCategoryById(session, categoryId)
     const deleted = await promoCategoryRepo.deletePromotionalCategory(session, categoryId)
 
     if (!deleted) {
       return { success: false, message: 'Promotional category not found' }
     }
 
+    await recordAudit(
+      user,
+      'promotional_category.delete',
+      { type: 'PROMOTIONAL_CATEGORY', id: categoryId, label: category?.name },
+      category,
+      null
+    )
+
     return {
       success: true,
       message: 'Promotional category deleted successfully',
@@ -200,15 +277,26 @@ export async function addProductToCategoryAction(
   productId: string,
   allocatedQuantity: number
 ): Promise<ActionResponse<void>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT', 'MANAGE_PRODUCTS')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
-    await promoCategoryRepo.addProductToCategory(session, categoryId, productId, allocatedQuantity)
+    const input = validateInput(sectionAllocationSchema, { allocatedQuantity })
+    if (!input.success) {
+      return input.response
+    }
+
+    await promoCategoryRepo.addProductToCategory(session, categoryId, productId, input.data.allocatedQuantity)
+    await recordAudit(user, 'promotional_category.product.add', { type: 'PROMOTIONAL_CATEGORY', id: categoryId }, null, { productId, allocatedQuantity })
 
     return {
       success: true,
@@ -229,11 +317,16 @@ export async function removeProductFromCategoryAction(
   categoryId: string,
   productId: string
 ): Promise<ActionResponse<void>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
@@ -243,6 +336,8 @@ export async function removeProductFromCategoryAction(
       return { success: false, message: 'Product not found in category' }
     }
 
+    await recordAudit(user, 'promotional_category.product.remove', { type: 'PROMOTIONAL_CATEGORY', id: categoryId }, { productId }, null)
+
     return {
       success: true,
       message: 'Product removed from category successfully',
@@ -263,25 +358,43 @@ export async function updateCategoryItemQuantityAction(
   productId: string,
   allocatedQuantity: number
 ): Promise<ActionResponse<void>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
+    const input = validateInput(sectionAllocationSchema, { allocatedQuantity })
+    if (!input.success) {
+      return input.response
+    }
+
     const item = await promoCategoryRepo.updateCategoryItemQuantity(
       session,
       categoryId,
       productId,
-      allocatedQuantity
+      input.data.allocatedQuantity
     )
 
     if (!item) {
       return { success: false, message: 'Product not found in category' }
     }
 
+    await recordAudit(
+      user,
+      'promotional_category.product.quantity',
+      { type: 'PROMOTIONAL_CATEGORY', id: categoryId },
+      { productId },
+      { productId, allocatedQuantity }
+    )
+
     return {
       success: true,
       message: 'Quantity updated successfully',
@@ -326,11 +439,16 @@ export async function toggleProductInCategoryAction(
   productId: string,
   isActive: boolean
 ): Promise<ActionResponse<void>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
@@ -345,6 +463,14 @@ export async function toggleProductInCategoryAction(
       return { success: false, message: 'Product not found in category' }
     }
 
+    await recordAudit(
+      user,
+      'promotional_category.product.visibility',
+      { type: 'PROMOTIONAL_CATEGORY', id: categoryId },
+      { productId, isActive: !isActive },
+      { productId, isActive }
+    )
+
     return {
       success: true,
       message: `Product ${isActive ? 'shown' : 'hidden'} successfully`,
@@ -374,8 +500,8 @@ export async function getCategoryItemsWithDetailsAction(categoryId: string): Pro
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
@@ -409,8 +535,8 @@ export async function getProductCategoriesAction(productId: string): Promise<
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
@@ -437,20 +563,30 @@ export async function moveQuantityBetweenCategoriesAction(
   toCategoryId: string,
   quantity: number
 ): Promise<ActionResponse<void>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const session = getSession()
 
   try {
-    const user = await getCurrentUser()
-    if (!user || user.role !== 'ADMIN') {
+    const user = await authorize('MANAGE_CONTENT')
+    if (!user) {
       return { success: false, message: 'Unauthorized. Admin access required.' }
     }
 
+    const input = validateInput(sectionTransferSchema, { fromCategoryId, toCategoryId, quantity })
+    if (!input.success) {
+      return input.response
+    }
+
     const moved = await promoCategoryRepo.moveQuantityBetweenCategories(
       session,
       productId,
-      fromCategoryId,
-      toCategoryId,
-      quantity
+      input.data.fromCategoryId,
+      input.data.toCategoryId,
+      input.data.quantity
     )
 
     if (!moved) {
@@ -460,6 +596,14 @@ export async function moveQuantityBetweenCategoriesAction(
       }
     }
 
+    await recordAudit(
+      user,
+      'promotional_category.product.move',
+      { type: 'PRODUCT', id: productId },
+      { categoryId: fromCategoryId },
+      { categoryId: toCategoryId, quantity }
+    )
+
     return {
       success: true,
       message: 'Quantity moved successfully',
@@ -0,0 +1,187 @@
+'use server'
+
+import { authorize } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { recordAudit } from '@/lib/audit'
+import { getOrderAccessActor } from '@/lib/guest-orders'
+import { getOrderById } from '@/lib/repositories/order.repository'
+import { returnRequestSchema, returnStatusSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
+import {
+  createReturnRequest,
+  getAllReturnRequests,
+  getExchangeVariants,
+  updateReturnStatus,
+  type ReturnRequestWithDetails,
+  type ReturnStatusUpdate,
+} from '@/lib/repositories/return.repository'
+import type {
+  ActionResponse,
+  ProductVariant,
+  ReturnRequest,
+  ReturnRequestInput,
+  ReturnRequestStatus,
+} from '@/lib/types'
+
+/**
+ * Open a return or exchange for an item on one of the customer's (or guest's) orders
+ */
+export async function createReturnRequestAction(
+  orderId: string,
+  input: ReturnRequestInput
+): Promise<ActionResponse<{ returnRequest: ReturnRequest }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const validated = validateInput(returnRequestSchema, input)
+  if (!validated.success) {
+    return validated.response
+  }
+
+  try {
+    const order = await getOrderById(orderId)
+    const actor = order ? await getOrderAccessActor(order) : null
+    if (!order || !actor) {
+      return {
+        success: false,
+        message: 'Order not found',
+      }
+    }
+
+    const returnRequest = await createReturnRequest(order, validated.data, actor)
+
+    return {
+      success: true,
+      message: validated.data.type === 'EXCHANGE' ? 'Exchange requested' : 'Return requested',
+      data: { returnRequest },
+    }
+  } catch (error) {
+    console.error('Create return request error:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to request return',
+    }
+  }
+}
+
+/**
+ * Get the sizes and colors an order item can be exchanged for
+ */
+export async function getExchangeVariantsAction(
+  orderId: string,
+  orderItemId: string
+): Promise<ActionResponse<{ variants: Pick<ProductVariant, 'id' | 'size' | 'color' | 'stockQuantity'>[] }>> {
+  try {
+    const order = await getOrderById(orderId)
+    const actor = order ? await getOrderAccessActor(order) : null
+    if (!order || !actor || !order.items.some((item) => item.id === orderItemId)) {
+      return {
+        success: false,
+        message: 'Order not found',
+      }
+    }
+
+    const variants = await getExchangeVariants(orderItemId)
+
+    return {
+      success: true,
+      data: { variants },
+    }
+  } catch (error) {
+    console.error('Get exchange variants error:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load sizes',
+    }
+  }
+}
+
+/**
+ * Get all return requests (Admin only)
+ */
+export async function getAdminReturnRequestsAction(): Promise<
+  ActionResponse<{ returns: ReturnRequestWithDetails[] }>
+> {
+  const user = await authorize('MANAGE_RETURNS')
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  try {
+    const returns = await getAllReturnRequests()
+
+    return {
+      success: true,
+      data: { returns },
+    }
+  } catch (error) {
+    console.error('Get return requests error:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to get return requests',
+    }
+  }
+}
+
+/**
+ * Move a return request to its next status (Admin only)
+ */
+export async function updateReturnStatusAction(
+  returnId: string,
+  status: ReturnRequestStatus,
+  update: ReturnStatusUpdate = {}
+): Promise<ActionResponse<{ returnRequest: ReturnRequestWithDetails }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
+  const user = await authorize('MANAGE_RETURNS')
+
+  if (!user) {
+    return {
+      success: false,
+      message: 'Unauthorized',
+    }
+  }
+
+  const input = validateInput(returnStatusSchema, { ...update, status })
+  if (!input.success) {
+    return input.response
+  }
+  const { status: nextStatus, ...changes } = input.data
+
+  try {
+    const returnRequest = await updateReturnStatus(returnId, nextStatus, user, changes)
+    await recordAudit(
+      user,
+      'return.status',
+      { type: 'RETURN', id: returnId, label: `${returnRequest.orderNumber} · ${returnRequest.product.name}` },
+      {},
+      {
+        status: returnRequest.status,
+        refundAmount: changes.refundAmount,
+        refundMethod: changes.refundMethod,
+        adminNote: changes.note,
+      }
+    )
+
+    return {
+      success: true,
+      message: 'Return updated',
+      data: { returnRequest },
+    }
+  } catch (error) {
+    console.error('Update return status error:', error)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to update return',
+    }
+  }
+}
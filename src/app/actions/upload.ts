@@ -6,7 +6,11 @@
  */
 
 import { uploadFile, uploadMultipleFiles, deleteFile } from '@/lib/minio'
-import { isAdmin } from '@/lib/auth'
+import { authorize } from '@/lib/auth'
+import { recordAudit } from '@/lib/audit'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { imageDeleteSchema, imageUploadSchema, imageUploadsSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
 
 export interface UploadResponse {
   success: boolean
@@ -19,9 +23,14 @@ export interface UploadResponse {
  * Upload a single image file
  */
 export async function uploadImage(formData: FormData): Promise<UploadResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   try {
     // Check admin authentication
-    const adminAccess = await isAdmin()
+    const adminAccess = await authorize('MANAGE_PRODUCTS', 'MANAGE_CONTENT')
     if (!adminAccess) {
       return {
         success: false,
@@ -29,41 +38,12 @@ export async function uploadImage(formData: FormData): Promise<UploadResponse> {
       }
     }
 
-    const file = formData.get('file') as File
-    if (!file) {
-      return {
-        success: false,
-        message: 'No file provided',
-      }
-    }
-
-    // Validate file type - support most common image formats
-    const allowedTypes = [
-      'image/jpeg',
-      'image/jpg',
-      'image/png',
-      'image/webp',
-      'image/gif',
-      'image/bmp',
-      'image/tiff',
-      'image/svg+xml',
-      'image/avif'
-    ]
-    if (!allowedTypes.includes(file.type)) {
-      return {
-        success: false,
-        message: 'Invalid file type. Only image files are allowed (JPEG, PNG, WebP, GIF, BMP, TIFF, SVG, AVIF).',
-      }
-    }
-
-    // Validate file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024 // 5MB
-    if (file.size > maxSize) {
-      return {
-        success: false,
-        message: 'File size exceeds 5MB limit',
-      }
+    // Any common image format, at most 5MB
+    const input = validateInput(imageUploadSchema, { file: formData.get('file') })
+    if (!input.success) {
+      return input.response
     }
+    const file = input.data.file
 
     // Convert file to buffer
     const bytes = await file.arrayBuffer()
@@ -71,6 +51,13 @@ export async function uploadImage(formData: FormData): Promise<UploadResponse> {
 
     // Upload to MinIO
     const url = await uploadFile(buffer, file.name, file.type)
+    await recordAudit(
+      adminAccess,
+      'image.upload',
+      { type: 'IMAGE', id: url, label: file.name },
+      null,
+      { url, contentType: file.type, size: file.size }
+    )
 
     return {
       success: true,
@@ -90,9 +77,14 @@ export async function uploadImage(formData: FormData): Promise<UploadResponse> {
  * Upload multiple image files
  */
 export async function uploadMultipleImages(formData: FormData): Promise<UploadResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   try {
     // Check admin authentication
-    const adminAccess = await isAdmin()
+    const adminAccess = await authorize('MANAGE_PRODUCTS', 'MANAGE_CONTENT')
     if (!adminAccess) {
       return {
         success: false,
@@ -100,55 +92,15 @@ export async function uploadMultipleImages(formData: FormData): Promise<UploadRe
       }
     }
 
-    const files = formData.getAll('files') as File[]
-    if (!files || files.length === 0) {
-      return {
-        success: false,
-        message: 'No files provided',
-      }
-    }
-
-    // Validate number of files (max 10)
-    if (files.length > 10) {
-      return {
-        success: false,
-        message: 'Maximum 10 files can be uploaded at once',
-      }
+    // Up to 10 images of at most 5MB each
+    const input = validateInput(imageUploadsSchema, { files: formData.getAll('files') })
+    if (!input.success) {
+      return input.response
     }
 
-    // Validate and convert files
-    const allowedTypes = [
-      'image/jpeg',
-      'image/jpg',
-      'image/png',
-      'image/webp',
-      'image/gif',
-      'image/bmp',
-      'image/tiff',
-      'image/svg+xml',
-      'image/avif'
-    ]
-    const maxSize = 5 * 1024 * 1024 // 5MB
-
     const fileBuffers = []
 
-    for (const file of files) {
-      // Validate file type
-      if (!allowedTypes.includes(file.type)) {
-        return {
-          success: false,
-          message: `Invalid file type for ${file.name}. Only image files are allowed (JPEG, PNG, WebP, GIF, BMP, TIFF, SVG, AVIF).`,
-        }
-      }
-
-      // Validate file size
-      if (file.size > maxSize) {
-        return {
-          success: false,
-          message: `File ${file.name} exceeds 5MB limit`,
-        }
-      }
-
+    for (const file of input.data.files) {
       // Convert to buffer
       const bytes = await file.arrayBuffer()
       const buffer = Buffer.from(bytes)
@@ -162,6 +114,16 @@ export async function uploadMultipleImages(formData: FormData): Promise<UploadRe
 
     // Upload all files to MinIO
     const urls = await uploadMultipleFiles(fileBuffers)
+    for (const [index, url] of urls.entries()) {
+      const file = input.data.files[index]
+      await recordAudit(
+        adminAccess,
+        'image.upload',
+        { type: 'IMAGE', id: url, label: file.name },
+        null,
+        { url, contentType: file.type, size: file.size }
+      )
+    }
 
     return {
       success: true,
@@ -181,9 +143,14 @@ export async function uploadMultipleImages(formData: FormData): Promise<UploadRe
  * Delete an image file
  */
 export async function deleteImage(fileUrl: string): Promise<UploadResponse> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   try {
     // Check admin authentication
-    const adminAccess = await isAdmin()
+    const adminAccess = await authorize('MANAGE_PRODUCTS', 'MANAGE_CONTENT')
     if (!adminAccess) {
       return {
         success: false,
@@ -191,15 +158,20 @@ export async function deleteImage(fileUrl: string): Promise<UploadResponse> {
       }
     }
 
-    if (!fileUrl) {
-      return {
-        success: false,
-        message: 'No file URL provided',
-      }
+    const input = validateInput(imageDeleteSchema, { fileUrl })
+    if (!input.success) {
+      return input.response
     }
 
     // Delete from MinIO
-    await deleteFile(fileUrl)
+    await deleteFile(input.data.fileUrl)
+    await recordAudit(
+      adminAccess,
+      'image.delete',
+      { type: 'IMAGE', id: input.data.fileUrl },
+      { url: input.data.fileUrl },
+      null
+    )
 
     return {
       success: true,
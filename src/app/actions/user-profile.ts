@@ -1,6 +1,9 @@
 'use server'
 
 import { getCurrentUser } from '@/lib/auth'
+import { rejectCrossSiteRequest } from '@/lib/csrf'
+import { userMeasurementsSchema, userPreferencesSchema } from '@/lib/schemas'
+import { validateInput } from '@/lib/validation'
 import {
   getUserPreferences,
   upsertUserPreferences,
@@ -58,6 +61,11 @@ export async function updateUserPreferencesAction(
   preferredCategories: ProductCategory[],
   priceRange: { min: number; max: number }
 ): Promise<ActionResponse<{ preferences: UserPreference }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const user = await getCurrentUser()
 
   if (!user) {
@@ -67,13 +75,18 @@ export async function updateUserPreferencesAction(
     }
   }
 
+  const input = validateInput(userPreferencesSchema, {
+    preferredBrands,
+    preferredColors,
+    preferredCategories,
+    priceRange,
+  })
+  if (!input.success) {
+    return input.response
+  }
+
   try {
-    const preferences = await upsertUserPreferences(user.userId, {
-      preferredBrands,
-      preferredColors,
-      preferredCategories,
-      priceRange,
-    })
+    const preferences = await upsertUserPreferences(user.userId, input.data)
 
     return {
       success: true,
@@ -126,6 +139,11 @@ export async function getUserMeasurementsAction(): Promise<
 export async function updateUserMeasurementsAction(
   measurements: Omit<UserMeasurements, 'id' | 'userId'>
 ): Promise<ActionResponse<{ measurements: UserMeasurements }>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const user = await getCurrentUser()
 
   if (!user) {
@@ -135,8 +153,13 @@ export async function updateUserMeasurementsAction(
     }
   }
 
+  const input = validateInput(userMeasurementsSchema, measurements)
+  if (!input.success) {
+    return input.response
+  }
+
   try {
-    const updated = await upsertUserMeasurements(user.userId, measurements)
+    const updated = await upsertUserMeasurements(user.userId, input.data)
 
     return {
       success: true,
@@ -156,6 +179,11 @@ export async function updateUserMeasurementsAction(
  * Track product view
  */
 export async function trackProductViewAction(productId: string): Promise<ActionResponse<null>> {
+  const rejected = await rejectCrossSiteRequest()
+  if (rejected) {
+    return rejected
+  }
+
   const user = await getCurrentUser()
 
   if (!user) {
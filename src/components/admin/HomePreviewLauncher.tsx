@@ -0,0 +1,39 @@
+'use client'
+
+import { useState } from 'react'
+import { useLocale } from 'next-intl'
+import { getStoreDate } from '@/lib/schedule'
+
+/**
+ * Opens the storefront home page as it will look on a chosen date, so scheduled
+ * promotional sections and hero slides can be checked before they go live
+ */
+export default function HomePreviewLauncher() {
+  const locale = useLocale()
+  const [date, setDate] = useState(getStoreDate())
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label htmlFor="homePreviewDate" className="text-sm font-medium text-gray-700">
+        Preview home page on
+      </label>
+      <input
+        id="homePreviewDate"
+        type="date"
+        value={date}
+        onChange={(e) => setDate(e.target.value)}
+        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-black-700"
+      />
+      <a
+        href={`/${locale}?preview=${date}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={`px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-black-700 hover:bg-gray-50 ${
+          date ? '' : 'pointer-events-none opacity-50'
+        }`}
+      >
+        Open Preview
+      </a>
+    </div>
+  )
+}
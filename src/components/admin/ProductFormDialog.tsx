@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from 'react'
 import Image from 'next/image'
 import type { ProductWithVariants } from '@/lib/repositories/product.repository'
-import type { ProductCategory, ProductGender, SizeOption, Product } from '@/lib/types'
+import type { ProductCategory, ProductGender, SizeOption, Product, FieldErrors } from '@/lib/types'
 import type { Category } from '@/lib/repositories/category.repository'
 import { getCategoryByIdAction } from '@/app/actions/categories'
 import { addProductImageAction, removeProductImageAction } from '@/app/actions/admin-products'
@@ -15,7 +15,7 @@ import ColorPicker from '@/components/admin/ColorPicker'
 interface ProductFormDialogProps {
   isOpen: boolean
   onClose: () => void
-  onSubmit: (formData: FormData, variants: VariantFormData[]) => Promise<void>
+  onSubmit: (formData: FormData, variants: VariantFormData[]) => Promise<FieldErrors | void>
   editingProduct: ProductWithVariants | null
   isEditing: boolean
   allBrands: string[]
@@ -79,6 +79,7 @@ export default function ProductFormDialog({
     sku: '',
     images: [],
   })
+  const [errors, setErrors] = useState<FieldErrors>({})
 
   // Hierarchical variant state
   const [sizeVariants, setSizeVariants] = useState<SizeVariants>({} as SizeVariants)
@@ -211,6 +212,7 @@ export default function ProductFormDialog({
       })
       setSizeVariants({} as SizeVariants)
       setProductImages([])
+      setErrors({})
     }
   }, [isEditing, editingProduct, isOpen])
 
@@ -422,7 +424,7 @@ export default function ProductFormDialog({
       categoryIds: selectedCategoryIds,
       images: productImages
     }
-    await onSubmit(submissionData, convertToFlatVariants())
+    setErrors((await onSubmit(submissionData, convertToFlatVariants())) || {})
   }
 
   if (!isOpen) return null
@@ -468,6 +470,7 @@ export default function ProductFormDialog({
                 placeholder="Enter product name"
                 required
               />
+              {errors.name && <p className="mt-1 text-xs text-red-600">{errors.name}</p>}
             </div>
 
             {/* Brand with Autocomplete */}
@@ -488,6 +491,7 @@ export default function ProductFormDialog({
                 placeholder="Enter brand"
                 required
               />
+              {errors.brand && <p className="mt-1 text-xs text-red-600">{errors.brand}</p>}
 
               {/* Brand Suggestions */}
               {showBrandSuggestions && brandSuggestions.length > 0 && (
@@ -524,6 +528,7 @@ export default function ProductFormDialog({
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
                 placeholder="Enter SKU (optional)"
               />
+              {errors.sku && <p className="mt-1 text-xs text-red-600">{errors.sku}</p>}
             </div>
 
             {/* Categories */}
@@ -564,6 +569,7 @@ export default function ProductFormDialog({
                   </option>
                 ))}
               </select>
+              {errors.gender && <p className="mt-1 text-xs text-red-600">{errors.gender}</p>}
             </div>
 
             {/* Stock Price */}
@@ -581,6 +587,7 @@ export default function ProductFormDialog({
                 placeholder="0.00"
                 required
               />
+              {errors.stockPrice && <p className="mt-1 text-xs text-red-600">{errors.stockPrice}</p>}
             </div>
 
             {/* Retail Price */}
@@ -598,6 +605,7 @@ export default function ProductFormDialog({
                 placeholder="0.00"
                 required
               />
+              {errors.retailPrice && <p className="mt-1 text-xs text-red-600">{errors.retailPrice}</p>}
             </div>
           </div>
 
@@ -613,6 +621,7 @@ export default function ProductFormDialog({
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent resize-none"
               placeholder="Enter product description"
             />
+            {errors.description && <p className="mt-1 text-xs text-red-600">{errors.description}</p>}
           </div>
 
           {/* Product Images Section */}
@@ -647,6 +656,7 @@ export default function ProductFormDialog({
             <p className="text-xs text-gray-500 mb-3">
               Images are shared across all product variants. Upload up to 5 images.
             </p>
+            {errors.images && <p className="mt-1 text-xs text-red-600">{errors.images}</p>}
 
             {/* Upload Error */}
             {uploadError && (
@@ -900,6 +910,7 @@ export default function ProductFormDialog({
                 No size variants added yet. Select a size from the dropdown to get started.
               </div>
             )}
+            {errors.variants && <p className="mt-1 text-xs text-red-600">{errors.variants}</p>}
 
             {/* Grand Total Display */}
             {Object.keys(sizeVariants).length > 0 && (
@@ -0,0 +1,35 @@
+'use client'
+
+import { getScheduleState, type DateWindow, type ScheduleState } from '@/lib/schedule'
+
+const STATE_STYLES: Record<ScheduleState, { label: string; className: string }> = {
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-700' },
+  live: { label: 'Live', className: 'bg-green-100 text-green-700' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-500' },
+}
+
+interface ScheduleBadgeProps {
+  schedule: DateWindow
+}
+
+/**
+ * Shows whether scheduled content is scheduled, live or expired today (store timezone),
+ * with its date window when it has one
+ */
+export default function ScheduleBadge({ schedule }: ScheduleBadgeProps) {
+  const state = STATE_STYLES[getScheduleState(schedule)]
+  const hasWindow = Boolean(schedule.startDate || schedule.endDate)
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1.5">
+      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${state.className}`}>
+        {state.label}
+      </span>
+      {hasWindow && (
+        <span className="text-xs text-gray-500">
+          {schedule.startDate?.slice(0, 10) || 'Any time'} → {schedule.endDate?.slice(0, 10) || 'No end'}
+        </span>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import { revokeSessionAction, revokeOtherSessionsAction } from '@/app/actions/auth'
+import type { UserSession } from '@/lib/types'
+
+type ActiveSession = UserSession & { current: boolean }
+
+interface ActiveSessionsProps {
+  initialSessions: ActiveSession[]
+}
+
+// Checked in order: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+const BROWSERS: [string, RegExp][] = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Chrome', /Chrome\//],
+  ['Firefox', /Firefox\//],
+  ['Safari', /Safari\//],
+]
+
+const PLATFORMS: [string, RegExp][] = [
+  ['Android', /Android/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X/],
+  ['Linux', /Linux/],
+]
+
+/**
+ * Short "Browser on OS" description of a session's user agent
+ */
+function describeUserAgent(userAgent?: string): string | null {
+  if (!userAgent) return null
+
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0]
+  const platform = PLATFORMS.find(([, pattern]) => pattern.test(userAgent))?.[0]
+
+  if (browser && platform) return `${browser} on ${platform}`
+  return browser || platform || null
+}
+
+/**
+ * Lists the devices signed in to the account, each of which can be signed out
+ */
+export default function ActiveSessions({ initialSessions }: ActiveSessionsProps) {
+  const t = useTranslations('profile.sessions')
+  const locale = useLocale()
+  const [sessions, setSessions] = useState(initialSessions)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setPendingId(session.id)
+    setError('')
+
+    const result = await revokeSessionAction(session.id)
+    if (!result.success) {
+      setError(result.message || t('revokeFailed'))
+      setPendingId(null)
+      return
+    }
+
+    if (session.current) {
+      window.location.href = `/${locale}/login`
+      return
+    }
+
+    setSessions((current) => current.filter((item) => item.id !== session.id))
+    setPendingId(null)
+  }
+
+  const handleRevokeOthers = async () => {
+    if (!confirm(t('confirmRevokeOthers'))) return
+
+    setPendingId('others')
+    setError('')
+
+    const result = await revokeOtherSessionsAction()
+    if (result.success) {
+      setSessions((current) => current.filter((item) => item.current))
+    } else {
+      setError(result.message || t('revokeFailed'))
+    }
+
+    setPendingId(null)
+  }
+
+  const hasOthers = sessions.some((session) => !session.current)
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-black-700">{t('title')}</h2>
+          <p className="mt-1 text-sm text-gray-600">{t('description')}</p>
+        </div>
+        {hasOthers && (
+          <button
+            onClick={handleRevokeOthers}
+            disabled={pendingId !== null}
+            className="shrink-0 px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {pendingId === 'others' ? t('revoking') : t('revokeOthers')}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>}
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {sessions.map((session) => (
+            <li key={session.id} className="py-4 flex items-center justify-between gap-4">
+              <div className="text-sm">
+                <p className="font-medium text-black-700">
+                  {describeUserAgent(session.userAgent) || t('unknownDevice')}
+                  {session.current && (
+                    <span className="ml-2 inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                      {t('thisDevice')}
+                    </span>
+                  )}
+                </p>
+                <p className="mt-1 text-gray-500">
+                  {session.ipAddress && <>{session.ipAddress} · </>}
+                  {t('signedIn', { date: formatDate(session.createdAt) })} ·{' '}
+                  {t('lastActive', { date: formatDate(session.lastSeenAt) })}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(session)}
+                disabled={pendingId !== null}
+                className="shrink-0 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                {pendingId === session.id ? t('revoking') : session.current ? t('signOut') : t('revoke')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { resendVerificationEmailAction } from '@/app/actions/auth'
+
+interface EmailVerificationNoticeProps {
+  email: string
+}
+
+/**
+ * Reminds a signed-in customer to verify their email, with a button to resend the link
+ */
+export default function EmailVerificationNotice({ email }: EmailVerificationNoticeProps) {
+  const t = useTranslations('auth.verifyEmail')
+  const [isSending, setIsSending] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleResend = async () => {
+    setIsSending(true)
+    setError('')
+
+    const result = await resendVerificationEmailAction()
+    if (result.success) {
+      setSent(true)
+    } else {
+      setError(result.message || 'Failed to send verification email')
+    }
+
+    setIsSending(false)
+  }
+
+  return (
+    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+      <p>{sent ? t('resent', { email }) : t('notice', { email })}</p>
+      {error && <p className="mt-1 text-red-600">{error}</p>}
+      {!sent && (
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={isSending}
+          className="mt-2 font-medium underline hover:text-yellow-900 disabled:opacity-50"
+        >
+          {isSending ? t('resending') : t('resend')}
+        </button>
+      )}
+    </div>
+  )
+}
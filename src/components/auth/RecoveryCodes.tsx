@@ -0,0 +1,43 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+
+interface RecoveryCodesProps {
+  codes: string[]
+}
+
+/**
+ * Newly issued recovery codes. They are only shown once, so the user is asked to
+ * keep a copy.
+ */
+export default function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const t = useTranslations('profile.twoFactor')
+
+  const handleDownload = () => {
+    const file = new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(file)
+    link.download = 'recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(link.href)
+  }
+
+  return (
+    <div className="rounded border border-yellow-200 bg-yellow-50 p-4">
+      <p className="text-sm font-medium text-black-700">{t('recoveryCodesTitle')}</p>
+      <p className="mt-1 text-sm text-gray-600">{t('recoveryCodesHint')}</p>
+      <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-black-700">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={handleDownload}
+        className="mt-3 text-sm font-medium text-black-700 underline"
+      >
+        {t('download')}
+      </button>
+    </div>
+  )
+}
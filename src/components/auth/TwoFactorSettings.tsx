@@ -0,0 +1,156 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { disableTwoFactorAction, regenerateRecoveryCodesAction } from '@/app/actions/auth'
+import Input from '@/components/ui/Input'
+import Button from '@/components/ui/Button'
+import RecoveryCodes from './RecoveryCodes'
+import TwoFactorSetup from './TwoFactorSetup'
+
+interface TwoFactorSettingsProps {
+  initialStatus: {
+    enabled: boolean
+    required: boolean
+    recoveryCodesRemaining: number
+  }
+}
+
+/**
+ * Turn two-factor authentication on or off and manage recovery codes
+ */
+export default function TwoFactorSettings({ initialStatus }: TwoFactorSettingsProps) {
+  const t = useTranslations('profile.twoFactor')
+  const [status, setStatus] = useState(initialStatus)
+  const [mode, setMode] = useState<'idle' | 'setup' | 'regenerate' | 'disable'>('idle')
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  const startMode = (next: typeof mode) => {
+    setMode(next)
+    setCode('')
+    setError('')
+    setRecoveryCodes(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    if (mode === 'regenerate') {
+      const result = await regenerateRecoveryCodesAction(code)
+      if (result.success && result.data) {
+        setRecoveryCodes(result.data.recoveryCodes)
+        setStatus({ ...status, recoveryCodesRemaining: result.data.recoveryCodes.length })
+        setMode('idle')
+      } else {
+        setError(result.message || t('failed'))
+      }
+    } else {
+      const result = await disableTwoFactorAction(code)
+      if (result.success) {
+        setStatus({ ...status, enabled: false, recoveryCodesRemaining: 0 })
+        setMode('idle')
+      } else {
+        setError(result.message || t('failed'))
+      }
+    }
+
+    setIsLoading(false)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-black-700">{t('title')}</h2>
+          <p className="mt-1 text-sm text-gray-600">{t('description')}</p>
+        </div>
+        <span
+          className={`shrink-0 inline-block px-2 py-0.5 rounded-full text-xs font-medium ${
+            status.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {status.enabled ? t('on') : t('off')}
+        </span>
+      </div>
+
+      {status.required && <p className="mb-4 text-sm text-gray-600">{t('required')}</p>}
+
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>}
+
+      {recoveryCodes && (
+        <div className="mb-4">
+          <RecoveryCodes codes={recoveryCodes} />
+        </div>
+      )}
+
+      {mode === 'setup' && (
+        <TwoFactorSetup
+          onComplete={() => {
+            setStatus({ ...status, enabled: true, recoveryCodesRemaining: 10 })
+            setMode('idle')
+          }}
+          onCancel={() => setMode('idle')}
+        />
+      )}
+
+      {(mode === 'regenerate' || mode === 'disable') && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">{mode === 'regenerate' ? t('regenerateHint') : t('disableHint')}</p>
+          <Input
+            id="two-factor-code"
+            label={t('codeOrRecovery')}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            autoComplete="one-time-code"
+          />
+          <div className="flex gap-3">
+            <Button type="button" variant="secondary" className="flex-1" onClick={() => setMode('idle')}>
+              {t('cancel')}
+            </Button>
+            <Button type="submit" className="flex-1" isLoading={isLoading}>
+              {mode === 'regenerate' ? t('regenerate') : t('disable')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {mode === 'idle' &&
+        (status.enabled ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              {t('recoveryCodesRemaining', { count: status.recoveryCodesRemaining })}
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => startMode('regenerate')}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {t('regenerate')}
+              </button>
+              {!status.required && (
+                <button
+                  onClick={() => startMode('disable')}
+                  className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-700"
+                >
+                  {t('disable')}
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => startMode('setup')}
+            className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {t('enable')}
+          </button>
+        ))}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { useTranslations } from 'next-intl'
+import { beginTwoFactorSetupAction, confirmTwoFactorSetupAction } from '@/app/actions/auth'
+import type { TwoFactorEnrolment } from '@/lib/two-factor'
+import type { User } from '@/lib/types'
+import Input from '@/components/ui/Input'
+import Button from '@/components/ui/Button'
+import RecoveryCodes from './RecoveryCodes'
+
+interface TwoFactorSetupProps {
+  /** Called once the user has seen their recovery codes and wants to carry on */
+  onComplete: (user: User) => void
+  onCancel?: () => void
+}
+
+/**
+ * Walks through adding an authenticator app: scan the QR code, confirm a code
+ * from the app, then save the recovery codes
+ */
+export default function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
+  const t = useTranslations('profile.twoFactor')
+  const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null)
+  const [code, setCode] = useState('')
+  const [result, setResult] = useState<{ recoveryCodes: string[]; user: User } | null>(null)
+  const [error, setError] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    beginTwoFactorSetupAction().then((response) => {
+      if (response.success && response.data) {
+        setEnrolment(response.data)
+      } else {
+        setError(response.message || t('setupFailed'))
+      }
+    })
+  }, [t])
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsLoading(true)
+
+    const response = await confirmTwoFactorSetupAction(code)
+    if (response.success && response.data) {
+      setResult(response.data)
+    } else {
+      setError(response.message || t('setupFailed'))
+    }
+
+    setIsLoading(false)
+  }
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={result.recoveryCodes} />
+        <Button type="button" className="w-full" onClick={() => onComplete(result.user)}>
+          {t('savedCodes')}
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>}
+
+      {enrolment ? (
+        <>
+          <p className="text-sm text-gray-600">{t('scan')}</p>
+          <Image
+            src={enrolment.qrCode}
+            alt={t('qrCodeAlt')}
+            width={192}
+            height={192}
+            className="mx-auto h-48 w-48"
+            unoptimized
+          />
+          <p className="text-sm text-gray-600">
+            {t('manualEntry')}{' '}
+            <code className="break-all rounded bg-gray-100 px-1 py-0.5 font-mono text-xs text-black-700">
+              {enrolment.secret}
+            </code>
+          </p>
+
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <Input
+              id="two-factor-setup-code"
+              label={t('code')}
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              inputMode="numeric"
+              autoComplete="one-time-code"
+            />
+            <div className="flex gap-3">
+              {onCancel && (
+                <Button type="button" variant="secondary" className="flex-1" onClick={onCancel}>
+                  {t('cancel')}
+                </Button>
+              )}
+              <Button type="submit" className="flex-1" isLoading={isLoading}>
+                {t('confirm')}
+              </Button>
+            </div>
+          </form>
+        </>
+      ) : (
+        !error && <p className="text-sm text-gray-500">{t('loading')}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+
+interface CouponFormProps {
+  /** Code currently applied to the cart */
+  appliedCode: string | null
+  /** Why the applied code no longer works, if it doesn't */
+  error?: string | null
+  onApply: (code: string) => Promise<{ success: boolean; message?: string }>
+  onRemove: () => Promise<unknown>
+}
+
+export default function CouponForm({ appliedCode, error, onApply, onRemove }: CouponFormProps) {
+  const t = useTranslations('coupon')
+  const [code, setCode] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!code.trim()) return
+
+    setIsSubmitting(true)
+    setMessage(null)
+    const result = await onApply(code.trim())
+    if (result.success) {
+      setCode('')
+    } else {
+      setMessage(result.message || t('invalid'))
+    }
+    setIsSubmitting(false)
+  }
+
+  const handleRemove = async () => {
+    setIsSubmitting(true)
+    setMessage(null)
+    await onRemove()
+    setIsSubmitting(false)
+  }
+
+  if (appliedCode) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-green-200 bg-green-50 px-3 py-2">
+        <span className="text-sm text-green-800">
+          {t('applied', { code: appliedCode })}
+        </span>
+        <button
+          type="button"
+          onClick={handleRemove}
+          disabled={isSubmitting}
+          className="text-xs font-medium text-green-800 underline disabled:opacity-50"
+        >
+          {t('remove')}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleApply} className="space-y-2">
+      <label htmlFor="couponCode" className="block text-sm font-medium text-black-700">
+        {t('label')}
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="couponCode"
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder={t('placeholder')}
+          className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm uppercase focus:border-black-700 focus:outline-none"
+          disabled={isSubmitting}
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting || !code.trim()}
+          className="rounded-lg bg-black-700 px-4 py-2 text-sm font-medium text-white hover:bg-black-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('apply')}
+        </button>
+      </div>
+      {message && <p className="text-xs text-red-600">{message}</p>}
+      {!message && error && (
+        <p className="text-xs text-red-600">
+          {error}.{' '}
+          <button
+            type="button"
+            onClick={handleRemove}
+            disabled={isSubmitting}
+            className="font-medium underline disabled:opacity-50"
+          >
+            {t('remove')}
+          </button>
+        </p>
+      )}
+    </form>
+  )
+}
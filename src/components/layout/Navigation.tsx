@@ -79,7 +79,7 @@ export default function Navigation({ isAuthenticated, userEmail, isAdmin }: Navi
   return (
     <>
       {/* Glass Morphism Navbar */}
-      <nav className="bg-white/80 backdrop-blur-md border-b border-white/20 sticky top-0 z-50 shadow-lg">
+      <nav className="bg-white/80 backdrop-blur-md border-b border-white/20 sticky top-0 z-50 shadow-lg print:hidden">
         <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
           <div className="flex h-20 items-center justify-between">
             {/* Enhanced Logo */}
@@ -0,0 +1,140 @@
+import type { OrderDocument } from '@/lib/order-documents'
+
+interface OrderDocumentViewProps {
+  document: OrderDocument
+}
+
+/**
+ * Printable invoice or packing slip
+ */
+export default function OrderDocumentView({ document }: OrderDocumentViewProps) {
+  const { labels } = document
+  const isInvoice = document.type === 'invoice'
+
+  return (
+    <article className="mx-auto max-w-3xl bg-white p-8 sm:p-12 shadow-sm border border-gray-200 print:max-w-none print:border-0 print:p-0 print:shadow-none">
+      {/* Header */}
+      <header className="flex flex-col sm:flex-row sm:justify-between gap-6 border-b border-gray-200 pb-6">
+        <div>
+          <p className="text-2xl font-bold text-black-700">{document.company.name}</p>
+          <p className="mt-1 text-xs text-gray-500">{document.company.companyName}</p>
+          <p className="text-xs text-gray-500">{document.company.url}</p>
+          <p className="text-xs text-gray-500">{document.company.supportEmail}</p>
+        </div>
+        <div className="sm:text-right">
+          <h1 className="text-2xl font-bold text-black-700">{labels.title}</h1>
+          <dl className="mt-1 text-xs text-gray-700 space-y-0.5">
+            <div>
+              <dt className="inline">{isInvoice ? labels.invoiceNumber : labels.orderNumber}: </dt>
+              <dd className="inline font-medium">{document.orderNumber}</dd>
+            </div>
+            <div>
+              <dt className="inline">{labels.orderDate}: </dt>
+              <dd className="inline">{document.orderDate}</dd>
+            </div>
+            {isInvoice && (
+              <div>
+                <dt className="inline">{labels.issuedOn}: </dt>
+                <dd className="inline">{document.issuedOn}</dd>
+              </div>
+            )}
+          </dl>
+        </div>
+      </header>
+
+      {/* Address and delivery */}
+      <section className="grid grid-cols-1 sm:grid-cols-2 gap-6 py-6 text-sm">
+        <div>
+          <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500">{labels.address}</h2>
+          <div className="mt-2 text-gray-800">
+            {document.addressLines.map((line, index) => (
+              <p key={index}>{line}</p>
+            ))}
+          </div>
+        </div>
+        <div>
+          <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500">{labels.deliveryMethod}</h2>
+          <p className="mt-2 text-gray-800">{document.deliveryMethod}</p>
+          <p className="text-gray-600">
+            {labels.phone}: {document.phone}
+          </p>
+          {document.email && (
+            <p className="text-gray-600">
+              {labels.email}: {document.email}
+            </p>
+          )}
+        </div>
+      </section>
+
+      {/* Line items */}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-gray-100 text-left text-xs font-semibold text-gray-700">
+            <th className="px-2 py-2">{labels.item}</th>
+            {!isInvoice && <th className="px-2 py-2">{labels.sku}</th>}
+            <th className="px-2 py-2">{labels.variant}</th>
+            <th className="px-2 py-2 text-right">{isInvoice ? labels.qty : labels.unitsToPack}</th>
+            {isInvoice ? (
+              <>
+                <th className="px-2 py-2 text-right">{labels.unitPrice}</th>
+                <th className="px-2 py-2 text-right">{labels.amount}</th>
+              </>
+            ) : (
+              <th className="px-2 py-2 text-right">{labels.packed}</th>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {document.lines.map((line) => (
+            <tr key={line.id} className="border-b border-gray-100 align-top">
+              <td className="px-2 py-3">
+                <p className="font-medium text-black-700">{line.name}</p>
+                <p className="text-xs text-gray-500">
+                  {isInvoice ? `${line.brand} • ${line.sku}` : line.brand}
+                </p>
+                {line.cancelledNote && <p className="text-xs text-gray-500">{line.cancelledNote}</p>}
+              </td>
+              {!isInvoice && <td className="px-2 py-3 text-gray-700">{line.sku}</td>}
+              <td className="px-2 py-3 text-gray-700">
+                {line.size} / {line.color}
+              </td>
+              <td className="px-2 py-3 text-right">{line.quantity}</td>
+              {isInvoice ? (
+                <>
+                  <td className="px-2 py-3 text-right">Rs {line.unitPrice.toFixed(2)}</td>
+                  <td className="px-2 py-3 text-right">Rs {line.amount.toFixed(2)}</td>
+                </>
+              ) : (
+                <td className="px-2 py-3 text-right">
+                  <span className="inline-block h-4 w-4 border border-gray-400" />
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Totals */}
+      {document.totals.length > 0 && (
+        <dl className="ml-auto mt-4 w-full sm:w-72 space-y-1 text-sm">
+          {document.totals.map((row) => (
+            <div
+              key={row.label}
+              className={`flex justify-between ${
+                row.emphasis ? 'border-t border-gray-300 pt-2 text-base font-semibold text-black-700' : 'text-gray-700'
+              }`}
+            >
+              <dt>{row.label}</dt>
+              <dd>{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <footer className="mt-10 text-center text-xs text-gray-500">
+        <p>{labels.thankYou}</p>
+        <p>{labels.questions}</p>
+      </footer>
+    </article>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import type { OrderStatus } from '@/lib/types'
+
+const statusStyles: Record<OrderStatus, string> = {
+  PENDING: 'bg-gray-100 text-black-700',
+  PAYMENT_SUBMITTED: 'bg-yellow-100 text-yellow-800',
+  PAYMENT_VERIFIED: 'bg-blue-100 text-blue-700',
+  PROCESSING: 'bg-blue-100 text-blue-700',
+  SHIPPED: 'bg-indigo-100 text-indigo-700',
+  READY_FOR_COLLECTION: 'bg-indigo-100 text-indigo-700',
+  DELIVERED: 'bg-green-100 text-green-700',
+  COLLECTED: 'bg-green-100 text-green-700',
+  CANCELLED: 'bg-red-100 text-red-700',
+  REFUNDED: 'bg-red-100 text-red-700',
+  CONFIRMED: 'bg-gray-100 text-black-700',
+  FULFILLED: 'bg-green-100 text-green-700',
+}
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus
+  className?: string
+}
+
+export default function OrderStatusBadge({ status, className = '' }: OrderStatusBadgeProps) {
+  const tStatus = useTranslations('order.status')
+
+  return (
+    <span
+      className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${
+        statusStyles[status] ?? 'bg-gray-100 text-gray-700'
+      } ${className}`}
+    >
+      {tStatus(status)}
+    </span>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import type { OrderEvent } from '@/lib/types'
+
+interface OrderTimelineProps {
+  events: OrderEvent[]
+  /** Show who made each change (admin view) */
+  showActor?: boolean
+}
+
+export default function OrderTimeline({ events, showActor = false }: OrderTimelineProps) {
+  const t = useTranslations('order.timeline')
+  const tStatus = useTranslations('order.status')
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">{t('empty')}</p>
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {events.map((event, index) => {
+        const isLatest = index === events.length - 1
+        const timestamp = new Date(event.createdAt).toLocaleString('en-US', {
+          year: 'numeric',
+          month: 'short',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+        })
+
+        return (
+          <li key={event.id} className="mb-4 ml-4 last:mb-0">
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                isLatest ? 'bg-black-700' : 'bg-gray-300'
+              }`}
+            />
+            <p className="text-sm font-medium text-black-700">
+              {event.fromStatus ? tStatus(event.toStatus) : t('placed')}
+            </p>
+            <p className="text-xs text-gray-500">
+              {timestamp}
+              {showActor && (
+                <> • {event.actorEmail ? t('by', { actor: event.actorEmail }) : t('system')}</>
+              )}
+            </p>
+            {event.note && <p className="mt-1 text-sm text-gray-600">{event.note}</p>}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import { getPaymentProofUrlAction } from '@/app/actions/payment'
+
+interface PaymentProofLinkProps {
+  orderId: string
+  submissionId: string
+  className?: string
+  children: ReactNode
+}
+
+/**
+ * Opens a payment proof in a new tab.
+ * Proofs are private, so a short-lived signed URL is requested on click.
+ */
+export default function PaymentProofLink({
+  orderId,
+  submissionId,
+  className = '',
+  children,
+}: PaymentProofLinkProps) {
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleOpen = async () => {
+    // Open the tab synchronously so popup blockers allow it, then point it at the signed URL
+    const proofWindow = window.open('', '_blank')
+    setIsLoading(true)
+
+    const result = await getPaymentProofUrlAction(orderId, submissionId)
+
+    if (result.success && result.data && proofWindow) {
+      proofWindow.opener = null
+      proofWindow.location.href = result.data.url
+    } else {
+      proofWindow?.close()
+      alert(result.message || 'Failed to load payment proof')
+    }
+
+    setIsLoading(false)
+  }
+
+  return (
+    <button type="button" onClick={handleOpen} disabled={isLoading} className={className}>
+      {children}
+    </button>
+  )
+}
@@ -0,0 +1,13 @@
+'use client'
+
+interface PrintButtonProps {
+  label: string
+}
+
+export default function PrintButton({ label }: PrintButtonProps) {
+  return (
+    <button onClick={() => window.print()} className="btn-primary">
+      {label}
+    </button>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { createReturnRequestAction, getExchangeVariantsAction } from '@/app/actions/returns'
+import type { ProductVariant, ReturnReason, ReturnRequestType } from '@/lib/types'
+
+const REASONS: ReturnReason[] = ['WRONG_SIZE', 'DAMAGED', 'NOT_AS_DESCRIBED', 'CHANGED_MIND', 'OTHER']
+
+interface ReturnRequestFormProps {
+  orderId: string
+  orderItemId: string
+  /** Units of the line that can still be returned */
+  maxQuantity: number
+  onSubmitted: () => void
+  onCancel: () => void
+}
+
+export default function ReturnRequestForm({
+  orderId,
+  orderItemId,
+  maxQuantity,
+  onSubmitted,
+  onCancel,
+}: ReturnRequestFormProps) {
+  const t = useTranslations('order.returns')
+  const [type, setType] = useState<ReturnRequestType>('EXCHANGE')
+  const [reason, setReason] = useState<ReturnReason>('WRONG_SIZE')
+  const [quantity, setQuantity] = useState(1)
+  const [replacementVariantId, setReplacementVariantId] = useState('')
+  const [note, setNote] = useState('')
+  const [variants, setVariants] = useState<Pick<ProductVariant, 'id' | 'size' | 'color'>[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Sizes and colors in stock are only needed for exchanges
+  useEffect(() => {
+    if (type !== 'EXCHANGE' || variants) return
+
+    let cancelled = false
+    getExchangeVariantsAction(orderId, orderItemId).then((result) => {
+      if (!cancelled) {
+        setVariants(result.success && result.data ? result.data.variants : [])
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [type, variants, orderId, orderItemId])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    const result = await createReturnRequestAction(orderId, {
+      orderItemId,
+      type,
+      reason,
+      quantity,
+      note,
+      replacementVariantId: type === 'EXCHANGE' ? replacementVariantId : undefined,
+    })
+
+    if (result.success) {
+      onSubmitted()
+    } else {
+      setError(result.message || t('failed'))
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-3 rounded-lg border border-gray-200 bg-gray-50 p-4">
+      <div className="flex flex-wrap gap-4 text-sm">
+        {(['EXCHANGE', 'RETURN'] as ReturnRequestType[]).map((option) => (
+          <label key={option} className="flex items-center gap-2">
+            <input
+              type="radio"
+              name={`type-${orderItemId}`}
+              checked={type === option}
+              onChange={() => setType(option)}
+              disabled={isSubmitting}
+            />
+            {t(`type.${option}`)}
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <label className="text-sm text-gray-700">
+          {t('reason')}
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as ReturnReason)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+            disabled={isSubmitting}
+          >
+            {REASONS.map((option) => (
+              <option key={option} value={option}>
+                {t(`reasons.${option}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          {t('quantity')}
+          <input
+            type="number"
+            min={1}
+            max={maxQuantity}
+            step={1}
+            value={quantity}
+            onChange={(e) => setQuantity(Number(e.target.value))}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+            disabled={isSubmitting}
+          />
+        </label>
+      </div>
+
+      {type === 'EXCHANGE' && (
+        <label className="block text-sm text-gray-700">
+          {t('replacement')}
+          {variants === null ? (
+            <p className="mt-1 text-sm text-gray-500">{t('loading')}</p>
+          ) : variants.length === 0 ? (
+            <p className="mt-1 text-sm text-red-600">{t('noVariants')}</p>
+          ) : (
+            <select
+              value={replacementVariantId}
+              onChange={(e) => setReplacementVariantId(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+              disabled={isSubmitting}
+            >
+              <option value="">{t('chooseReplacement')}</option>
+              {variants.map((variant) => (
+                <option key={variant.id} value={variant.id}>
+                  {variant.size} / {variant.color}
+                </option>
+              ))}
+            </select>
+          )}
+        </label>
+      )}
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder={t('notePlaceholder')}
+        rows={2}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-black-700 focus:outline-none"
+        disabled={isSubmitting}
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={
+            isSubmitting ||
+            quantity < 1 ||
+            quantity > maxQuantity ||
+            (type === 'EXCHANGE' && !replacementVariantId)
+          }
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? t('submitting') : t('submit')}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="text-sm font-medium text-gray-600 hover:text-black-700"
+        >
+          {t('cancel')}
+        </button>
+      </div>
+    </form>
+  )
+}
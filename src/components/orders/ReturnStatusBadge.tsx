@@ -0,0 +1,32 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import type { ReturnRequestStatus } from '@/lib/types'
+
+const statusStyles: Record<ReturnRequestStatus, string> = {
+  REQUESTED: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-blue-100 text-blue-700',
+  REJECTED: 'bg-red-100 text-red-700',
+  RECEIVED: 'bg-indigo-100 text-indigo-700',
+  REFUNDED: 'bg-green-100 text-green-700',
+  EXCHANGED: 'bg-green-100 text-green-700',
+}
+
+interface ReturnStatusBadgeProps {
+  status: ReturnRequestStatus
+  className?: string
+}
+
+export default function ReturnStatusBadge({ status, className = '' }: ReturnStatusBadgeProps) {
+  const tStatus = useTranslations('order.returns.status')
+
+  return (
+    <span
+      className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${
+        statusStyles[status] ?? 'bg-gray-100 text-gray-700'
+      } ${className}`}
+    >
+      {tStatus(status)}
+    </span>
+  )
+}
@@ -11,9 +11,11 @@ import { useCartStore } from '@/stores/cartStore'
 
 interface ProductCardProps {
   product: ProductWithVariants
+  /** Promotional section the card is shown in; sales from it count against the section's allocation */
+  promotionalCategoryId?: string
 }
 
-export default function ProductCard({ product }: ProductCardProps) {
+export default function ProductCard({ product, promotionalCategoryId }: ProductCardProps) {
   const locale = useLocale()
   const t = useTranslations('product')
   const router = useRouter()
@@ -43,7 +45,9 @@ export default function ProductCard({ product }: ProductCardProps) {
     ((product.retailPrice - product.stockPrice) / product.retailPrice) * 100
   )
 
-  const productUrl = `/${locale}/product/${product.id}`
+  const productUrl = promotionalCategoryId
+    ? `/${locale}/product/${product.id}?promo=${promotionalCategoryId}`
+    : `/${locale}/product/${product.id}`
 
   // Auto-select if only 1 size or 1 color
   useEffect(() => {
@@ -115,7 +119,7 @@ export default function ProductCard({ product }: ProductCardProps) {
     if (!validateSelection() || !selectedVariant || !isVariantAvailable) return
 
     setIsAdding(true)
-    const success = await addToCart(selectedVariant.id, 1)
+    const success = await addToCart(selectedVariant.id, 1, promotionalCategoryId)
     setIsAdding(false)
 
     // Show brief success indication (could be enhanced with toast)
@@ -131,7 +135,7 @@ export default function ProductCard({ product }: ProductCardProps) {
     if (!validateSelection() || !selectedVariant || !isVariantAvailable) return
 
     setIsQuickBuying(true)
-    const success = await addToCart(selectedVariant.id, 1)
+    const success = await addToCart(selectedVariant.id, 1, promotionalCategoryId)
     if (success) {
       router.push(`/${locale}/checkout`)
     } else {
@@ -4,11 +4,14 @@ import type { ProductWithVariants } from '@/lib/repositories/product.repository'
 interface ProductGridProps {
   products: ProductWithVariants[]
   emptyMessage?: string
+  /** Set when the grid lists a promotional section's products */
+  promotionalCategoryId?: string
 }
 
 export default function ProductGrid({
   products,
   emptyMessage = 'No products found',
+  promotionalCategoryId,
 }: ProductGridProps) {
   if (products.length === 0) {
     return (
@@ -26,7 +29,7 @@ export default function ProductGrid({
   return (
     <div className="grid grid-cols-2 gap-3 sm:gap-4 md:gap-5 lg:gap-6 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3 xl:grid-cols-4">
       {products.map((product) => (
-        <ProductCard key={product.id} product={product} />
+        <ProductCard key={product.id} product={product} promotionalCategoryId={promotionalCategoryId} />
       ))}
     </div>
   )
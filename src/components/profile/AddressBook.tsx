@@ -0,0 +1,314 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  createAddressAction,
+  updateAddressAction,
+  setDefaultAddressAction,
+  deleteAddressAction,
+} from '@/app/actions/addresses'
+import type { AddressInput } from '@/lib/repositories/address.repository'
+import { addressSchema } from '@/lib/schemas'
+import { checkInput } from '@/lib/validation'
+import type { Address, FieldErrors } from '@/lib/types'
+import Input from '@/components/ui/Input'
+import Button from '@/components/ui/Button'
+
+interface AddressBookProps {
+  initialAddresses: Address[]
+}
+
+const EMPTY_ADDRESS: AddressInput = {
+  label: '',
+  fullName: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: 'United States',
+  phone: '',
+}
+
+/**
+ * The customer's saved addresses, which they can pick from at checkout
+ */
+export default function AddressBook({ initialAddresses }: AddressBookProps) {
+  const t = useTranslations('profile.addresses')
+  const tCheckout = useTranslations('checkout')
+  const [addresses, setAddresses] = useState(initialAddresses)
+  // null while listing; 'new' or the ID of the address being edited while the form is open
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<AddressInput>(EMPTY_ADDRESS)
+  const [makeDefault, setMakeDefault] = useState(false)
+  const [errors, setErrors] = useState<FieldErrors>({})
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const openForm = (address?: Address) => {
+    setEditingId(address?.id || 'new')
+    setForm(
+      address
+        ? {
+            label: address.label || '',
+            fullName: address.fullName,
+            addressLine1: address.addressLine1,
+            addressLine2: address.addressLine2 || '',
+            city: address.city,
+            state: address.state,
+            postalCode: address.postalCode,
+            country: address.country,
+            phone: address.phone,
+          }
+        : EMPTY_ADDRESS
+    )
+    setMakeDefault(false)
+    setErrors({})
+    setError('')
+  }
+
+  const setField = (field: keyof AddressInput, value: string) => {
+    setForm({ ...form, [field]: value })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (editingId === null) return
+    setError('')
+
+    const formErrors = checkInput(addressSchema, form)
+    setErrors(formErrors || {})
+    if (formErrors) return
+
+    setPendingId('form')
+
+    const result =
+      editingId === 'new'
+        ? await createAddressAction(form, makeDefault)
+        : await updateAddressAction(editingId, form)
+
+    if (result.success && result.data) {
+      setAddresses(result.data.addresses)
+      setEditingId(null)
+    } else {
+      setErrors(result.fieldErrors || {})
+      setError(result.message || t('failed'))
+    }
+
+    setPendingId(null)
+  }
+
+  const handleSetDefault = async (address: Address) => {
+    setPendingId(address.id)
+    setError('')
+
+    const result = await setDefaultAddressAction(address.id)
+    if (result.success && result.data) {
+      setAddresses(result.data.addresses)
+    } else {
+      setError(result.message || t('failed'))
+    }
+
+    setPendingId(null)
+  }
+
+  const handleDelete = async (address: Address) => {
+    if (!confirm(t('confirmDelete'))) return
+
+    setPendingId(address.id)
+    setError('')
+
+    const result = await deleteAddressAction(address.id)
+    if (result.success && result.data) {
+      setAddresses(result.data.addresses)
+    } else {
+      setError(result.message || t('failed'))
+    }
+
+    setPendingId(null)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-black-700">{t('title')}</h2>
+          <p className="mt-1 text-sm text-gray-600">{t('description')}</p>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => openForm()}
+            className="shrink-0 px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {t('add')}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>}
+
+      {editingId !== null ? (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            id="address-label"
+            label={t('label')}
+            placeholder={t('labelPlaceholder')}
+            value={form.label}
+            onChange={(e) => setField('label', e.target.value)}
+            error={errors.label}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Input
+              id="address-fullName"
+              label={tCheckout('fullName')}
+              placeholder={tCheckout('fullNamePlaceholder')}
+              value={form.fullName}
+              onChange={(e) => setField('fullName', e.target.value)}
+              required
+              error={errors.fullName}
+            />
+            <Input
+              id="address-phone"
+              type="tel"
+              label={tCheckout('phone')}
+              placeholder={tCheckout('phonePlaceholder')}
+              value={form.phone}
+              onChange={(e) => setField('phone', e.target.value)}
+              required
+              error={errors.phone}
+            />
+          </div>
+          <Input
+            id="address-addressLine1"
+            label={tCheckout('addressLine1')}
+            placeholder={tCheckout('addressLine1Placeholder')}
+            value={form.addressLine1}
+            onChange={(e) => setField('addressLine1', e.target.value)}
+            required
+            error={errors.addressLine1}
+          />
+          <Input
+            id="address-addressLine2"
+            label={tCheckout('addressLine2')}
+            placeholder={tCheckout('addressLine2Placeholder')}
+            value={form.addressLine2}
+            onChange={(e) => setField('addressLine2', e.target.value)}
+            error={errors.addressLine2}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              id="address-city"
+              label={tCheckout('city')}
+              placeholder={tCheckout('cityPlaceholder')}
+              value={form.city}
+              onChange={(e) => setField('city', e.target.value)}
+              required
+              error={errors.city}
+            />
+            <Input
+              id="address-state"
+              label={tCheckout('state')}
+              placeholder={tCheckout('statePlaceholder')}
+              value={form.state}
+              onChange={(e) => setField('state', e.target.value)}
+              required
+              error={errors.state}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              id="address-postalCode"
+              label={tCheckout('postalCode')}
+              placeholder={tCheckout('postalCodePlaceholder')}
+              value={form.postalCode}
+              onChange={(e) => setField('postalCode', e.target.value)}
+              required
+              error={errors.postalCode}
+            />
+            <Input
+              id="address-country"
+              label={tCheckout('country')}
+              value={form.country}
+              onChange={(e) => setField('country', e.target.value)}
+              required
+              error={errors.country}
+            />
+          </div>
+          {editingId === 'new' && addresses.length > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={makeDefault}
+                onChange={(e) => setMakeDefault(e.target.checked)}
+                className="h-4 w-4"
+              />
+              {t('makeDefault')}
+            </label>
+          )}
+          <div className="flex gap-3">
+            <Button type="button" variant="secondary" className="flex-1" onClick={() => setEditingId(null)}>
+              {t('cancel')}
+            </Button>
+            <Button type="submit" className="flex-1" isLoading={pendingId === 'form'}>
+              {t('save')}
+            </Button>
+          </div>
+        </form>
+      ) : addresses.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {addresses.map((address) => (
+            <li key={address.id} className="py-4 flex items-start justify-between gap-4">
+              <div className="text-sm">
+                <p className="font-medium text-black-700">
+                  {address.label || address.fullName}
+                  {address.isDefault && (
+                    <span className="ml-2 inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                      {t('default')}
+                    </span>
+                  )}
+                </p>
+                <p className="mt-1 text-gray-600">
+                  {address.label && <>{address.fullName}<br /></>}
+                  {address.addressLine1}
+                  {address.addressLine2 && <>, {address.addressLine2}</>}
+                  <br />
+                  {address.city}, {address.state} {address.postalCode}, {address.country}
+                  <br />
+                  {address.phone}
+                </p>
+              </div>
+              <div className="shrink-0 flex flex-col items-end gap-2 text-sm font-medium">
+                <button
+                  onClick={() => openForm(address)}
+                  disabled={pendingId !== null}
+                  className="text-black-700 hover:underline disabled:opacity-50"
+                >
+                  {t('edit')}
+                </button>
+                {!address.isDefault && (
+                  <button
+                    onClick={() => handleSetDefault(address)}
+                    disabled={pendingId !== null}
+                    className="text-black-700 hover:underline disabled:opacity-50"
+                  >
+                    {t('setDefault')}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(address)}
+                  disabled={pendingId !== null}
+                  className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  {t('delete')}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
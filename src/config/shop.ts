@@ -19,6 +19,22 @@ export const shopConfig = {
   // Contact
   supportEmail: process.env.NEXT_PUBLIC_SUPPORT_EMAIL || 'support@locked.com',
 
+  // Timezone for scheduled content (promotional sections, hero slides)
+  timezone: process.env.NEXT_PUBLIC_SHOP_TIMEZONE || 'Asia/Colombo',
+
+  // Pricing (shared by cart, checkout and order creation)
+  pricing: {
+    freeShippingThreshold: Number(process.env.NEXT_PUBLIC_FREE_SHIPPING_THRESHOLD || 100),
+    shippingFee: Number(process.env.NEXT_PUBLIC_SHIPPING_FEE || 9.99),
+    taxRate: Number(process.env.NEXT_PUBLIC_TAX_RATE || 0),
+  },
+
+  // Order numbers look like <prefix>-2026-000123
+  orderNumberPrefix: process.env.NEXT_PUBLIC_ORDER_NUMBER_PREFIX || 'FB',
+
+  // Returns: how long after delivery or collection customers can open a return or exchange
+  returnWindowDays: Number(process.env.NEXT_PUBLIC_RETURN_WINDOW_DAYS || 14),
+
   // Social media (optional)
   social: {
     facebook: process.env.NEXT_PUBLIC_FACEBOOK_URL || '',
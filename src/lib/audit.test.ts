@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { auditEventsToCsv, diffAuditValues } from './audit'
+import type { AuditEvent } from './types'
+
+function auditEvent(overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    id: 'event-1',
+    actorId: 'user-1',
+    actorEmail: 'admin@example.com',
+    actorRole: 'ADMIN',
+    action: 'product.update',
+    entityType: 'PRODUCT',
+    entityId: 'product-1',
+    entityLabel: 'Linen shirt',
+    changes: [{ field: 'retailPrice', before: 40, after: 35 }],
+    storeDate: '2026-03-15',
+    createdAt: '2026-03-15T12:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('diffAuditValues', () => {
+  it('lists only the fields that changed, ignoring timestamps', () => {
+    const changes = diffAuditValues(
+      { name: 'Shirt', retailPrice: 40, tags: ['linen'], updatedAt: '2026-03-01' },
+      { name: 'Shirt', retailPrice: 35, tags: ['linen'], updatedAt: '2026-03-15' }
+    )
+    assert.deepEqual(changes, [{ field: 'retailPrice', before: 40, after: 35 }])
+  })
+
+  it('compares only the fields of a partial update', () => {
+    assert.deepEqual(diffAuditValues({ name: 'Shirt', retailPrice: 40 }, { retailPrice: 40 }), [])
+  })
+
+  it('lists every field on creation and deletion', () => {
+    assert.deepEqual(diffAuditValues(null, { code: 'SAVE10', discountValue: 10 }), [
+      { field: 'code', after: 'SAVE10' },
+      { field: 'discountValue', after: 10 },
+    ])
+    assert.deepEqual(diffAuditValues({ url: 'https://cdn/img.png' }, null), [
+      { field: 'url', before: 'https://cdn/img.png' },
+    ])
+  })
+
+  it('compares nested values by content', () => {
+    assert.deepEqual(diffAuditValues({ range: { min: 1 } }, { range: { min: 1 } }), [])
+    assert.equal(diffAuditValues({ range: { min: 1 } }, { range: { min: 2 } }).length, 1)
+  })
+})
+
+describe('auditEventsToCsv', () => {
+  it('writes one row per changed field', () => {
+    const csv = auditEventsToCsv([
+      auditEvent({
+        changes: [
+          { field: 'retailPrice', before: 40, after: 35 },
+          { field: 'name', before: 'Shirt', after: 'Linen shirt' },
+        ],
+      }),
+    ])
+    const rows = csv.trimEnd().split('\r\n')
+    assert.equal(rows.length, 3)
+    assert.equal(rows[0], 'Time,User,Role,Action,Entity,Entity ID,Name,Field,Before,After')
+    assert.equal(
+      rows[1],
+      '2026-03-15T12:00:00.000Z,admin@example.com,ADMIN,product.update,PRODUCT,product-1,Linen shirt,retailPrice,40,35'
+    )
+  })
+
+  it('keeps a row for events without field changes', () => {
+    const rows = auditEventsToCsv([auditEvent({ changes: [] })]).trimEnd().split('\r\n')
+    assert.equal(rows.length, 2)
+    assert.ok(rows[1].endsWith('Linen shirt,,,'))
+  })
+
+  it('quotes commas, quotes and line breaks', () => {
+    const csv = auditEventsToCsv([auditEvent({ entityLabel: 'Shirt, "classic"\nfit' })])
+    assert.ok(csv.includes(',"Shirt, ""classic""\nfit",'))
+  })
+
+  it('stops spreadsheet formulas from running', () => {
+    const csv = auditEventsToCsv([
+      auditEvent({ changes: [{ field: 'name', before: '=HYPERLINK("x")', after: '-1+2' }] }),
+    ])
+    const row = csv.trimEnd().split('\r\n')[1]
+    assert.ok(row.endsWith(`,name,"'=HYPERLINK(""x"")",'-1+2`))
+  })
+
+  it('writes objects as JSON', () => {
+    const csv = auditEventsToCsv([auditEvent({ changes: [{ field: 'brands', after: ['Acme'] }] })])
+    assert.ok(csv.includes(',brands,,"[""Acme""]"'))
+  })
+})
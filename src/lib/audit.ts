@@ -0,0 +1,107 @@
+/**
+ * Admin audit log
+ * Mutating admin actions call `recordAudit` after they succeed, with the entity's
+ * values before and after the change; only the fields that differ are stored.
+ * Recording never throws, so a logging failure can't undo or mask a change that
+ * has already been made.
+ */
+
+import { createAuditEvent } from './repositories/audit.repository'
+import type { AuditChange, AuditEntityType, AuditEvent, JWTPayload } from './types'
+
+export interface AuditEntity {
+  type: AuditEntityType
+  id: string
+  label?: string
+}
+
+// Bookkeeping fields that change on every write and would only add noise
+const IGNORED_FIELDS = ['createdAt', 'updatedAt']
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Field-by-field differences between two versions of an entity. With both given,
+ * only the fields in `after` are compared, so a partial update can be passed as is.
+ * A creation (no `before`) or deletion (no `after`) lists every field.
+ */
+export function diffAuditValues(beforeValues: object | null, afterValues: object | null): AuditChange[] {
+  const before = beforeValues as Record<string, unknown> | null
+  const after = afterValues as Record<string, unknown> | null
+  const fields = Object.keys(after ?? before ?? {}).filter((field) => !IGNORED_FIELDS.includes(field))
+
+  return fields.flatMap((field) => {
+    const from = before?.[field]
+    const to = after?.[field]
+    if (before && after && isEqual(from, to)) return []
+
+    return [
+      {
+        field,
+        ...(from !== undefined && { before: from }),
+        ...(to !== undefined && { after: to }),
+      },
+    ]
+  })
+}
+
+/**
+ * Record a change made through an admin action
+ */
+export async function recordAudit(
+  actor: JWTPayload,
+  action: string,
+  entity: AuditEntity,
+  before: object | null,
+  after: object | null
+): Promise<void> {
+  try {
+    await createAuditEvent({
+      actorId: actor.userId,
+      actorEmail: actor.email,
+      actorRole: actor.role,
+      action,
+      entityType: entity.type,
+      entityId: entity.id,
+      entityLabel: entity.label,
+      changes: diffAuditValues(before, after),
+    })
+  } catch (error) {
+    console.error(`Failed to record audit event ${action} for ${entity.type} ${entity.id}:`, error)
+  }
+}
+
+function csvCell(value: unknown): string {
+  let text = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value)
+  // Spreadsheets run cells starting with these as formulas, and the values come from user input
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Audit events as CSV, one row per changed field so the export can be filtered
+ * and sorted in a spreadsheet
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const header = ['Time', 'User', 'Role', 'Action', 'Entity', 'Entity ID', 'Name', 'Field', 'Before', 'After']
+
+  const rows = events.flatMap((event) => {
+    const base = [
+      event.createdAt,
+      event.actorEmail,
+      event.actorRole,
+      event.action,
+      event.entityType,
+      event.entityId,
+      event.entityLabel,
+    ]
+    const changes: (AuditChange | null)[] = event.changes.length > 0 ? event.changes : [null]
+    return changes.map((change) => [...base, change?.field, change?.before, change?.after])
+  })
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
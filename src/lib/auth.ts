@@ -1,7 +1,11 @@
 import bcrypt from 'bcryptjs'
+import { createHash, randomBytes } from 'crypto'
 import jwt from 'jsonwebtoken'
-import { cookies } from 'next/headers'
-import type { JWTPayload, User } from './types'
+import { cookies, headers } from 'next/headers'
+import { cache } from 'react'
+import { createSession, getActiveSession, revokeSession, touchSession } from './repositories/session.repository'
+import { isStaffRole, requiresTwoFactor, roleHasPermission } from './permissions'
+import type { JWTPayload, Permission, User } from './types'
 
 function getJwtSecret(): string {
   const secret = process.env.JWT_SECRET
@@ -13,7 +17,15 @@ function getJwtSecret(): string {
 
 const JWT_SECRET = getJwtSecret()
 const TOKEN_NAME = 'auth_token'
+// Carries a user between the password and two-factor steps of signing in
+const PENDING_LOGIN_TOKEN_NAME = 'pending_login'
+const PENDING_LOGIN_MAX_AGE_SECONDS = 10 * 60
 const SALT_ROUNDS = 12
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+// lastSeenAt is only written this often, so browsing doesn't write on every request
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000
+// How many proxies in front of the app append to X-Forwarded-For (0 when it is reached directly)
+const TRUSTED_PROXY_HOPS = Math.max(parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10) || 0, 0)
 
 /**
  * Hash a password using bcrypt
@@ -32,6 +44,20 @@ export async function verifyPassword(
   return bcrypt.compare(password, hash)
 }
 
+/**
+ * Generate a random token for emailed links (password reset, email verification)
+ */
+export function generateSecureToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+/**
+ * Hash an emailed token for storage; only the hash is kept in the database
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
 /**
  * Generate a JWT token for a user
  */
@@ -52,6 +78,29 @@ export function verifyToken(token: string): JWTPayload | null {
   }
 }
 
+/**
+ * Generate a token granting a guest access to the given orders
+ */
+export function generateGuestOrderToken(orderIds: string[]): string {
+  return jwt.sign({ orderIds, purpose: 'guest-order' }, JWT_SECRET, {
+    expiresIn: '30d',
+  })
+}
+
+/**
+ * Verify a guest order token and return the order IDs it grants access to
+ */
+export function verifyGuestOrderToken(token: string): string[] {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { orderIds?: unknown; purpose?: unknown }
+    return payload.purpose === 'guest-order' && Array.isArray(payload.orderIds)
+      ? payload.orderIds.filter((id) => typeof id === 'string')
+      : []
+  } catch (error) {
+    return []
+  }
+}
+
 /**
  * Set auth token in cookies
  */
@@ -84,58 +133,148 @@ export async function removeAuthCookie(): Promise<void> {
 }
 
 /**
- * Get current user from auth token
+ * Remember who is signing in after their password was accepted, until they give
+ * their two-factor code. No session exists until then.
  */
-export async function getCurrentUser(): Promise<JWTPayload | null> {
-  const token = await getAuthToken()
+export async function setPendingLogin(userId: string): Promise<void> {
+  const token = jwt.sign({ userId, purpose: 'pending-login' }, JWT_SECRET, {
+    expiresIn: PENDING_LOGIN_MAX_AGE_SECONDS,
+  })
+
+  const cookieStore = await cookies()
+  cookieStore.set(PENDING_LOGIN_TOKEN_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: PENDING_LOGIN_MAX_AGE_SECONDS,
+    path: '/',
+  })
+}
+
+/**
+ * The ID of the user part-way through signing in, if any
+ */
+export async function getPendingLogin(): Promise<string | null> {
+  const cookieStore = await cookies()
+  const token = cookieStore.get(PENDING_LOGIN_TOKEN_NAME)?.value
   if (!token) return null
-  return verifyToken(token)
+
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { userId?: unknown; purpose?: unknown }
+    return payload.purpose === 'pending-login' && typeof payload.userId === 'string' ? payload.userId : null
+  } catch (error) {
+    return null
+  }
+}
+
+export async function clearPendingLogin(): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.delete(PENDING_LOGIN_TOKEN_NAME)
 }
 
 /**
- * Check if user is authenticated
+ * The IP address the current request came from, as reported by the proxy in front of the app.
+ * Clients can send their own X-Forwarded-For, so only the entries our proxies appended are
+ * trusted: the client is the one the outermost trusted proxy added, counting from the right.
  */
-export async function isAuthenticated(): Promise<boolean> {
+export async function getClientIp(): Promise<string | undefined> {
+  if (TRUSTED_PROXY_HOPS === 0) {
+    return undefined
+  }
+
+  const headerStore = await headers()
+  const forwardedFor = headerStore
+    .get('x-forwarded-for')
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+  if (forwardedFor?.length) {
+    return forwardedFor[Math.max(forwardedFor.length - TRUSTED_PROXY_HOPS, 0)]
+  }
+
+  return headerStore.get('x-real-ip')?.trim() || undefined
+}
+
+/**
+ * Sign a user in on this device: record a session, then issue a token tied to it
+ */
+export async function startSession(user: Pick<User, 'id' | 'email' | 'role'>): Promise<void> {
+  const headerStore = await headers()
+  const session = await createSession(user.id, SESSION_MAX_AGE_MS, {
+    userAgent: headerStore.get('user-agent') || undefined,
+    ipAddress: await getClientIp(),
+  })
+
+  await setAuthCookie(generateToken({ userId: user.id, email: user.email, role: user.role, sessionId: session.id }))
+}
+
+/**
+ * Sign out on this device, revoking its session so the token can't be reused
+ */
+export async function endSession(): Promise<void> {
   const user = await getCurrentUser()
-  return user !== null
+  if (user) {
+    await revokeSession(user.userId, user.sessionId)
+  }
+  await removeAuthCookie()
 }
 
 /**
- * Check if user is admin
+ * Get current user from auth token.
+ * The token is only honoured while its session is active, and the email and role
+ * come from the database, so revocations and role changes apply immediately.
+ * Cached per request since layouts, pages and actions all ask.
  */
-export async function isAdmin(): Promise<boolean> {
+export const getCurrentUser = cache(async (): Promise<JWTPayload | null> => {
+  const token = await getAuthToken()
+  if (!token) return null
+
+  const payload = verifyToken(token)
+  if (!payload?.sessionId) return null
+
+  const active = await getActiveSession(payload.sessionId)
+  if (!active || active.user.id !== payload.userId) return null
+
+  // Sessions from before two-factor became mandatory for the role have to sign in again
+  if (requiresTwoFactor(active.user.role) && !active.user.twoFactorEnabledAt) return null
+
+  if (Date.now() - new Date(active.session.lastSeenAt).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    await touchSession(active.session.id)
+  }
+
+  return { userId: active.user.id, email: active.user.email, role: active.user.role, sessionId: active.session.id }
+})
+
+/**
+ * Check if user is authenticated
+ */
+export async function isAuthenticated(): Promise<boolean> {
   const user = await getCurrentUser()
-  return user?.role === 'ADMIN'
+  return user !== null
 }
 
 /**
- * Get current user ID from JWT token
+ * Check if user is staff and can use the admin area
  */
-export async function getCurrentUserId(): Promise<string | null> {
+export async function isAdmin(): Promise<boolean> {
   const user = await getCurrentUser()
-  return user?.userId || null
+  return user !== null && isStaffRole(user.role)
 }
 
 /**
- * Validate email format
+ * The shared permission guard for admin actions and pages: returns the current
+ * user if their role grants any of the given permissions, otherwise null
  */
-export function isValidEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-  return emailRegex.test(email)
+export async function authorize(...permissions: Permission[]): Promise<JWTPayload | null> {
+  const user = await getCurrentUser()
+  return user && roleHasPermission(user.role, ...permissions) ? user : null
 }
 
 /**
- * Validate password strength and return error message
+ * Get current user ID from JWT token
  */
-export function validatePassword(password: string): string | null {
-  if (password.length < 8) {
-    return 'Password must be at least 8 characters long'
-  }
-  if (!/[A-Z]/.test(password)) {
-    return 'Password must contain at least one uppercase letter'
-  }
-  if (!/[0-9]/.test(password)) {
-    return 'Password must contain at least one number'
-  }
-  return null
+export async function getCurrentUserId(): Promise<string | null> {
+  const user = await getCurrentUser()
+  return user?.userId || null
 }
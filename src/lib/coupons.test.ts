@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { assertCouponAvailable } from './coupons'
+import { CouponError, normalizeCouponCode } from './repositories/coupon.repository'
+import { couponSchema } from './schemas'
+import { validateInput } from './validation'
+
+const now = new Date('2026-03-15T12:00:00.000Z')
+
+function coupon(overrides: Partial<Parameters<typeof assertCouponAvailable>[0]> = {}) {
+  return { isActive: true, usageCount: 0, ...overrides }
+}
+
+function unavailableReason(overrides: Partial<Parameters<typeof assertCouponAvailable>[0]>) {
+  try {
+    assertCouponAvailable(coupon(overrides), now)
+    return null
+  } catch (error) {
+    assert.ok(error instanceof CouponError)
+    return error.message
+  }
+}
+
+describe('assertCouponAvailable', () => {
+  it('accepts an active coupon within its dates and limits', () => {
+    assert.equal(
+      unavailableReason({ startsAt: '2026-03-01T00:00:00.000Z', endsAt: '2026-03-31T00:00:00.000Z', usageLimit: 5, usageCount: 4 }),
+      null
+    )
+  })
+
+  it('rejects disabled, not yet started and expired coupons', () => {
+    assert.equal(unavailableReason({ isActive: false }), 'This coupon code is not valid')
+    assert.equal(unavailableReason({ startsAt: '2026-03-16T00:00:00.000Z' }), 'This coupon is not active yet')
+    assert.equal(unavailableReason({ endsAt: '2026-03-15T11:59:59.000Z' }), 'This coupon has expired')
+  })
+
+  it('rejects a coupon that has used up its total limit', () => {
+    assert.equal(unavailableReason({ usageLimit: 3, usageCount: 3 }), 'This coupon has reached its usage limit')
+  })
+})
+
+describe('normalizeCouponCode', () => {
+  it('matches codes regardless of case and surrounding spaces', () => {
+    assert.equal(normalizeCouponCode('  summer10 '), 'SUMMER10')
+  })
+})
+
+describe('couponSchema', () => {
+  const input = { code: 'save-10', discountType: 'PERCENTAGE', discountValue: 10, categoryIds: [], brands: [] }
+
+  it('normalises the code', () => {
+    const result = validateInput(couponSchema, input)
+    assert.ok(result.success)
+    assert.equal(result.data.code, 'SAVE-10')
+  })
+
+  it('keeps discounts within range', () => {
+    const overHundred = validateInput(couponSchema, { ...input, discountValue: 120 })
+    assert.ok(!overHundred.success)
+    assert.equal(overHundred.response.fieldErrors?.discountValue, 'Percentage discount cannot exceed 100%')
+
+    assert.equal(validateInput(couponSchema, { ...input, discountType: 'FIXED_AMOUNT', discountValue: 0 }).success, false)
+    assert.equal(validateInput(couponSchema, { ...input, discountType: 'FREE_SHIPPING', discountValue: 0 }).success, true)
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * Coupon validation
+ * Checks a code against its dates, usage limits, minimum spend and product
+ * restrictions and turns it into a QuoteCoupon the pricing engine can apply.
+ * The code a customer has applied is kept in a cookie so it follows them from
+ * the cart to checkout; it is re-validated every time the cart is priced.
+ */
+
+import { cookies } from 'next/headers'
+import { getSession } from './db'
+import { quoteCart, roundCurrency, type QuoteCoupon } from './pricing'
+import {
+  CouponError,
+  countCustomerRedemptions,
+  getCouponByCode,
+  getEligibleProductIds,
+  normalizeCouponCode,
+} from './repositories/coupon.repository'
+import type { CartItemWithDetails } from './repositories/cart.repository'
+import type { Coupon } from './types'
+
+const APPLIED_COUPON_COOKIE = 'applied_coupon'
+const APPLIED_COUPON_MAX_AGE = 60 * 60 * 24 * 7 // 7 days
+
+export interface CouponCustomer {
+  userId: string | null
+  email: string | null
+}
+
+export interface ResolvedCoupon {
+  coupon: Coupon
+  quoteCoupon: QuoteCoupon
+}
+
+export interface AppliedCouponResult {
+  coupon: ResolvedCoupon | null
+  /** Why the applied code can't be used with this cart, if it can't */
+  error?: string
+}
+
+/**
+ * Get the coupon code applied to this browser's cart
+ */
+export async function getAppliedCouponCode(): Promise<string | null> {
+  const cookieStore = await cookies()
+  return cookieStore.get(APPLIED_COUPON_COOKIE)?.value || null
+}
+
+/**
+ * Remember a coupon code for this browser's cart
+ */
+export async function setAppliedCouponCode(code: string): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.set(APPLIED_COUPON_COOKIE, normalizeCouponCode(code), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: APPLIED_COUPON_MAX_AGE,
+    path: '/',
+  })
+}
+
+/**
+ * Forget the applied coupon code
+ */
+export async function clearAppliedCouponCode(): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.delete(APPLIED_COUPON_COOKIE)
+}
+
+/**
+ * Check that a coupon is switched on, within its dates and under its total usage limit.
+ * Throws CouponError with a customer-facing message when it isn't.
+ */
+export function assertCouponAvailable(
+  coupon: Pick<Coupon, 'isActive' | 'startsAt' | 'endsAt' | 'usageLimit' | 'usageCount'>,
+  now: Date = new Date()
+): void {
+  if (!coupon.isActive) {
+    throw new CouponError('This coupon code is not valid')
+  }
+  if (coupon.startsAt && new Date(coupon.startsAt) > now) {
+    throw new CouponError('This coupon is not active yet')
+  }
+  if (coupon.endsAt && new Date(coupon.endsAt) < now) {
+    throw new CouponError('This coupon has expired')
+  }
+  if (coupon.usageLimit !== undefined && coupon.usageCount >= coupon.usageLimit) {
+    throw new CouponError('This coupon has reached its usage limit')
+  }
+}
+
+/**
+ * Validate a coupon code for a cart.
+ * Per-customer limits are only checked when the customer is known (guests give
+ * their email at checkout, and redemption re-checks every limit atomically).
+ * Throws CouponError with a customer-facing message when the code can't be used.
+ */
+export async function resolveCoupon(
+  code: string,
+  items: Pick<CartItemWithDetails, 'variantId' | 'quantity' | 'product'>[],
+  customer: CouponCustomer,
+  now: Date = new Date()
+): Promise<ResolvedCoupon> {
+  const session = getSession()
+  try {
+    const coupon = await getCouponByCode(session, code)
+    if (!coupon) {
+      throw new CouponError('This coupon code is not valid')
+    }
+    assertCouponAvailable(coupon, now)
+
+    if (coupon.perUserLimit !== undefined && (customer.userId || customer.email)) {
+      const uses = await countCustomerRedemptions(session, coupon.id, customer)
+      if (uses >= coupon.perUserLimit) {
+        throw new CouponError('You have already used this coupon')
+      }
+    }
+
+    const eligibleProductIds = await getEligibleProductIds(
+      session,
+      coupon,
+      items.map((item) => item.product.id)
+    )
+    if (eligibleProductIds && eligibleProductIds.length === 0) {
+      throw new CouponError('This coupon does not apply to any items in your cart')
+    }
+
+    const quoteCoupon: QuoteCoupon = {
+      code: coupon.code,
+      discountType: coupon.discountType,
+      discountValue: coupon.discountValue,
+      eligibleProductIds,
+    }
+
+    // Minimum spend is checked against the cart before any discount
+    if (coupon.minimumSpend !== undefined) {
+      const { subtotal } = quoteCart(items, 'COLLECT')
+      if (subtotal < coupon.minimumSpend) {
+        throw new CouponError(
+          `Spend Rs ${roundCurrency(coupon.minimumSpend - subtotal).toFixed(2)} more to use this coupon (minimum Rs ${coupon.minimumSpend.toFixed(2)})`
+        )
+      }
+    }
+
+    return { coupon, quoteCoupon }
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Validate the coupon applied to this browser's cart, if any
+ */
+export async function getAppliedCoupon(
+  items: Pick<CartItemWithDetails, 'variantId' | 'quantity' | 'product'>[],
+  customer: CouponCustomer
+): Promise<AppliedCouponResult> {
+  const code = await getAppliedCouponCode()
+  if (!code || items.length === 0) {
+    return { coupon: null }
+  }
+
+  try {
+    return { coupon: await resolveCoupon(code, items, customer) }
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return { coupon: null, error: error.message }
+    }
+    throw error
+  }
+}
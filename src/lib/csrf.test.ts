@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { shopConfig } from '@/config/shop'
+import { isCrossSite } from './csrf'
+
+function request(headers: Record<string, string>) {
+  return new Headers({ host: 'shop.example.com', ...headers })
+}
+
+describe('isCrossSite', () => {
+  it('allows requests from the shop’s own pages', () => {
+    assert.equal(isCrossSite(request({ origin: 'https://shop.example.com' })), false)
+    assert.equal(isCrossSite(request({ referer: 'https://shop.example.com/en/cart' })), false)
+    assert.equal(isCrossSite(request({ 'sec-fetch-site': 'same-origin', origin: 'https://shop.example.com' })), false)
+  })
+
+  it('blocks requests from other sites', () => {
+    assert.equal(isCrossSite(request({ origin: 'https://evil.example.net' })), true)
+    assert.equal(isCrossSite(request({ referer: 'https://evil.example.net/form' })), true)
+    assert.equal(isCrossSite(request({ 'sec-fetch-site': 'cross-site' })), true)
+  })
+
+  it('blocks opaque and malformed origins', () => {
+    assert.equal(isCrossSite(request({ origin: 'null' })), true)
+  })
+
+  it('does not treat a lookalike host as the shop', () => {
+    assert.equal(isCrossSite(request({ origin: 'https://shop.example.com.evil.net' })), true)
+  })
+
+  it('accepts the forwarded host and the shop’s public URL behind a proxy', () => {
+    const proxied = { host: 'app:3000', 'x-forwarded-host': 'shop.example.com, proxy.internal' }
+    assert.equal(isCrossSite(new Headers({ ...proxied, origin: 'https://shop.example.com' })), false)
+    assert.equal(isCrossSite(new Headers({ host: 'app:3000', origin: shopConfig.url })), false)
+  })
+
+  it('lets through requests that are not from a browser page', () => {
+    assert.equal(isCrossSite(request({})), false)
+  })
+})
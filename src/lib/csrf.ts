@@ -0,0 +1,69 @@
+/**
+ * Cross-site request protection
+ * Server actions are plain POSTs, so a page on another site could submit one with
+ * the visitor's cookies attached. Every mutating action checks first that the
+ * request came from one of the shop's own pages: the browser's Origin (or Referer)
+ * must match the host the request was sent to, or the shop's public URL. Requests
+ * without either header don't come from a browser page and are let through.
+ */
+
+import { headers } from 'next/headers'
+import { shopConfig } from '@/config/shop'
+import type { ActionResponse } from './types'
+
+export const CROSS_SITE_MESSAGE =
+  'This request came from another website and was blocked. Please reload the page and try again.'
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).host
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether a request with these headers was sent by a page on another site
+ */
+export function isCrossSite(headerStore: Pick<Headers, 'get'>): boolean {
+  if (headerStore.get('sec-fetch-site') === 'cross-site') {
+    return true
+  }
+
+  const source = headerStore.get('origin') || headerStore.get('referer')
+  if (!source) {
+    return false
+  }
+
+  // Sandboxed and privacy-sensitive contexts send "Origin: null", which never matches
+  const sourceHost = getHost(source)
+  const allowedHosts = [
+    headerStore.get('x-forwarded-host')?.split(',')[0].trim(),
+    headerStore.get('host'),
+    getHost(shopConfig.url),
+  ]
+
+  return !sourceHost || !allowedHosts.includes(sourceHost)
+}
+
+/**
+ * Whether the current request was sent by a page on another site
+ */
+export async function isCrossSiteRequest(): Promise<boolean> {
+  return isCrossSite(await headers())
+}
+
+/**
+ * The shared guard for mutating server actions: returns a failed response to send
+ * back if the request came from another site, otherwise null
+ */
+export async function rejectCrossSiteRequest(): Promise<ActionResponse<never> | null> {
+  if (!(await isCrossSiteRequest())) {
+    return null
+  }
+
+  return {
+    success: false,
+    message: CROSS_SITE_MESSAGE,
+  }
+}
@@ -5,16 +5,35 @@
 
 import { cookies } from 'next/headers'
 import { v4 as uuidv4 } from 'uuid'
+import { getVariantWithProduct } from './repositories/product.repository'
+import type { CartItemWithDetails } from './repositories/cart.repository'
 
 export interface GuestCartItem {
   variantId: string
   quantity: number
+  promotionalCategoryId?: string
 }
 
 const GUEST_CART_COOKIE = 'guest_cart'
 const GUEST_SESSION_COOKIE = 'guest_session_id'
 const CART_MAX_AGE = 60 * 60 * 24 * 30 // 30 days
 
+/**
+ * The cookie is editable by the client, so only well-formed lines are trusted
+ */
+function isGuestCartItem(item: unknown): item is GuestCartItem {
+  if (!item || typeof item !== 'object') return false
+  const { variantId, quantity, promotionalCategoryId } = item as Record<string, unknown>
+
+  return (
+    typeof variantId === 'string' &&
+    typeof quantity === 'number' &&
+    Number.isInteger(quantity) &&
+    quantity >= 1 &&
+    (promotionalCategoryId === undefined || typeof promotionalCategoryId === 'string')
+  )
+}
+
 /**
  * Get or create guest session ID
  */
@@ -47,12 +66,43 @@ export async function getGuestCart(): Promise<GuestCartItem[]> {
   }
 
   try {
-    return JSON.parse(cartCookie)
+    const items: unknown = JSON.parse(cartCookie)
+    return Array.isArray(items) ? items.filter(isGuestCartItem) : []
   } catch {
     return []
   }
 }
 
+/**
+ * Get guest cart items with full product and variant details
+ */
+export async function getGuestCartItems(): Promise<CartItemWithDetails[]> {
+  const guestCart = await getGuestCart()
+  const items: CartItemWithDetails[] = []
+
+  for (const item of guestCart) {
+    try {
+      const data = await getVariantWithProduct(item.variantId)
+      if (data) {
+        items.push({
+          id: item.variantId, // Use variantId as the unique ID for guest items
+          userId: 'guest', // Guest user identifier
+          variantId: item.variantId,
+          quantity: item.quantity,
+          addedAt: new Date().toISOString(), // Guest carts don't track add time
+          promotionalCategoryId: item.promotionalCategoryId,
+          product: data.product,
+          variant: data.variant,
+        })
+      }
+    } catch (error) {
+      console.error(`Failed to get variant details for ${item.variantId}:`, error)
+    }
+  }
+
+  return items
+}
+
 /**
  * Save guest cart to cookie
  */
@@ -70,14 +120,21 @@ export async function saveGuestCart(items: GuestCartItem[]): Promise<void> {
 /**
  * Add item to guest cart
  */
-export async function addToGuestCart(variantId: string, quantity: number): Promise<void> {
+export async function addToGuestCart(
+  variantId: string,
+  quantity: number,
+  promotionalCategoryId?: string
+): Promise<void> {
   const cart = await getGuestCart()
   const existingItem = cart.find(item => item.variantId === variantId)
 
   if (existingItem) {
     existingItem.quantity += quantity
+    if (promotionalCategoryId) {
+      existingItem.promotionalCategoryId = promotionalCategoryId
+    }
   } else {
-    cart.push({ variantId, quantity })
+    cart.push({ variantId, quantity, promotionalCategoryId })
   }
 
   await saveGuestCart(cart)
@@ -0,0 +1,69 @@
+/**
+ * Guest order access using cookies
+ * Remembers which guest orders this browser may view and pay for, either because
+ * it placed them or because the guest looked them up by order number and email.
+ */
+
+import { cookies } from 'next/headers'
+import { generateGuestOrderToken, getCurrentUser, verifyGuestOrderToken } from './auth'
+import type { Order, OrderActor } from './types'
+
+const GUEST_ORDERS_COOKIE = 'guest_orders'
+const GUEST_ORDERS_MAX_AGE = 60 * 60 * 24 * 30 // 30 days
+const MAX_GUEST_ORDERS = 20
+
+/**
+ * Get the IDs of the guest orders this browser has access to
+ */
+export async function getGuestOrderIds(): Promise<string[]> {
+  const cookieStore = await cookies()
+  const token = cookieStore.get(GUEST_ORDERS_COOKIE)?.value
+
+  if (!token) {
+    return []
+  }
+
+  return verifyGuestOrderToken(token)
+}
+
+/**
+ * Grant this browser access to a guest order
+ */
+export async function grantGuestOrderAccess(orderId: string): Promise<void> {
+  const orderIds = await getGuestOrderIds()
+  const updated = [orderId, ...orderIds.filter((id) => id !== orderId)].slice(0, MAX_GUEST_ORDERS)
+
+  const cookieStore = await cookies()
+  cookieStore.set(GUEST_ORDERS_COOKIE, generateGuestOrderToken(updated), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: GUEST_ORDERS_MAX_AGE,
+    path: '/',
+  })
+}
+
+/**
+ * Check whether this browser has access to a guest order
+ */
+export async function hasGuestOrderAccess(orderId: string): Promise<boolean> {
+  const orderIds = await getGuestOrderIds()
+  return orderIds.includes(orderId)
+}
+
+/**
+ * Work out who the current visitor is acting as on an order: the signed-in
+ * customer who owns it, or a guest with access to it. Returns null otherwise.
+ */
+export async function getOrderAccessActor(order: Order): Promise<OrderActor | null> {
+  const user = await getCurrentUser()
+  if (user && order.userId === user.userId) {
+    return user
+  }
+
+  if (order.guestEmail && (await hasGuestOrderAccess(order.id))) {
+    return { email: order.guestEmail, role: 'GUEST' }
+  }
+
+  return null
+}
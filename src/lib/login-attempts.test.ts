@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { clearLoginFailures, getLoginBlock, getLoginBlockMessage, recordLoginFailure } from './login-attempts'
+import { createMemoryStore } from './rate-limit'
+
+// Counters are shared through the process-wide store, so each test uses its own email and address
+
+async function fail(times: number, email: string, ipAddress?: string) {
+  let block = null
+  for (let i = 0; i < times; i++) {
+    block = await recordLoginFailure(email, ipAddress, null)
+  }
+  return block
+}
+
+describe('createMemoryStore', () => {
+  it('counts hits within the window', async () => {
+    const store = createMemoryStore()
+    await store.increment('key', 60000)
+    const counter = await store.increment('key', 60000)
+    assert.equal(counter.count, 2)
+    assert.deepEqual(await store.get('key'), counter)
+  })
+
+  it('starts again once the window has passed', async () => {
+    const store = createMemoryStore()
+    await store.increment('key', 1)
+    await sleep(5)
+    assert.equal(await store.get('key'), null)
+    assert.equal((await store.increment('key', 60000)).count, 1)
+  })
+
+  it('forgets a key when reset', async () => {
+    const store = createMemoryStore()
+    await store.increment('key', 60000)
+    await store.reset('key')
+    assert.equal(await store.get('key'), null)
+  })
+})
+
+describe('login throttling', () => {
+  it('locks an email after 5 failures, whether or not it has an account', async () => {
+    assert.equal(await fail(4, 'nobody@example.com'), null)
+    assert.equal(await getLoginBlock('nobody@example.com', undefined, null), null)
+
+    const block = await fail(1, 'nobody@example.com')
+    assert.equal(block?.reason, 'ACCOUNT_LOCKED')
+    assert.deepEqual(await getLoginBlock('nobody@example.com', undefined, null), block)
+  })
+
+  it('counts an email regardless of case', async () => {
+    await fail(5, 'Mixed@Example.com')
+    assert.equal((await getLoginBlock('mixed@example.com', undefined, null))?.reason, 'ACCOUNT_LOCKED')
+  })
+
+  it('blocks an address after 20 failures across emails', async () => {
+    for (let i = 0; i < 20; i++) {
+      await recordLoginFailure(`guess-${i}@example.com`, '203.0.113.7', null)
+    }
+
+    const block = await getLoginBlock('fresh@example.com', '203.0.113.7', null)
+    assert.equal(block?.reason, 'TOO_MANY_ATTEMPTS')
+    assert.equal(await getLoginBlock('fresh@example.com', '203.0.113.8', null), null)
+  })
+
+  it('clears an email’s failures', async () => {
+    await fail(5, 'cleared@example.com')
+    await clearLoginFailures('cleared@example.com')
+    assert.equal(await getLoginBlock('cleared@example.com', undefined, null), null)
+  })
+
+  it('refuses accounts that are locked until a later time', async () => {
+    const lockedUntil = new Date(Date.now() + 60000).toISOString()
+    assert.equal((await getLoginBlock('user@example.com', undefined, { lockedUntil }))?.reason, 'ACCOUNT_LOCKED')
+
+    const expired = new Date(Date.now() - 1000).toISOString()
+    assert.equal(await getLoginBlock('user@example.com', undefined, { lockedUntil: expired }), null)
+  })
+})
+
+describe('getLoginBlockMessage', () => {
+  it('says how long to wait, rounding up to whole minutes', () => {
+    const retryAt = new Date(Date.now() + 90 * 1000)
+    assert.match(getLoginBlockMessage({ reason: 'ACCOUNT_LOCKED', retryAt }), /locked for 2 minutes/)
+    assert.match(
+      getLoginBlockMessage({ reason: 'TOO_MANY_ATTEMPTS', retryAt: new Date(Date.now() + 1000) }),
+      /try again in 1 minute\./
+    )
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Login throttling
+ * Failed sign-ins are counted per IP address and per email in the rate limit store.
+ * Too many from one address blocks that address until its window passes; too many
+ * for one account locks the account for a while (an admin can unlock it early).
+ * Unknown emails are blocked the same way, so the response doesn't reveal which
+ * emails have accounts.
+ */
+
+import { getRateLimitStore } from './rate-limit'
+import { lockUser } from './repositories/user.repository'
+import type { User } from './types'
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000 // 15 minutes
+const MAX_FAILURES_PER_IP = 20
+const MAX_FAILURES_PER_EMAIL = 5
+const LOCKOUT_MS = 15 * 60 * 1000 // 15 minutes
+
+export interface LoginBlock {
+  reason: 'TOO_MANY_ATTEMPTS' | 'ACCOUNT_LOCKED'
+  retryAt: Date
+}
+
+function ipKey(ipAddress: string): string {
+  return `login:ip:${ipAddress}`
+}
+
+function emailKey(email: string): string {
+  return `login:email:${email.toLowerCase()}`
+}
+
+function twoFactorKey(userId: string): string {
+  return `login:two-factor:${userId}`
+}
+
+/**
+ * Whether a sign-in attempt should be refused before the password is checked
+ */
+export async function getLoginBlock(
+  email: string,
+  ipAddress: string | undefined,
+  user: Pick<User, 'lockedUntil'> | null
+): Promise<LoginBlock | null> {
+  const store = getRateLimitStore()
+
+  if (ipAddress) {
+    const ipFailures = await store.get(ipKey(ipAddress))
+    if (ipFailures && ipFailures.count >= MAX_FAILURES_PER_IP) {
+      return { reason: 'TOO_MANY_ATTEMPTS', retryAt: ipFailures.resetAt }
+    }
+  }
+
+  if (user) {
+    const lockedUntil = user.lockedUntil ? new Date(user.lockedUntil) : null
+    return lockedUntil && lockedUntil.getTime() > Date.now() ? { reason: 'ACCOUNT_LOCKED', retryAt: lockedUntil } : null
+  }
+
+  const emailFailures = await store.get(emailKey(email))
+  if (emailFailures && emailFailures.count >= MAX_FAILURES_PER_EMAIL) {
+    return { reason: 'ACCOUNT_LOCKED', retryAt: emailFailures.resetAt }
+  }
+
+  return null
+}
+
+/**
+ * Count a failed sign-in. Returns the lock if this failure was one too many.
+ */
+export async function recordLoginFailure(
+  email: string,
+  ipAddress: string | undefined,
+  user: Pick<User, 'id'> | null
+): Promise<LoginBlock | null> {
+  const store = getRateLimitStore()
+
+  if (ipAddress) {
+    await store.increment(ipKey(ipAddress), FAILURE_WINDOW_MS)
+  }
+
+  const emailFailures = await store.increment(emailKey(email), FAILURE_WINDOW_MS)
+  if (emailFailures.count < MAX_FAILURES_PER_EMAIL) {
+    return null
+  }
+
+  if (!user) {
+    return { reason: 'ACCOUNT_LOCKED', retryAt: emailFailures.resetAt }
+  }
+
+  // The lock is kept on the account, where admins can see and lift it
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MS)
+  await lockUser(user.id, lockedUntil)
+  await store.reset(emailKey(email))
+
+  return { reason: 'ACCOUNT_LOCKED', retryAt: lockedUntil }
+}
+
+/**
+ * Count a wrong two-factor code. Guessing codes is treated like guessing passwords:
+ * too many lock the account. Returns the lock if this failure was one too many.
+ */
+export async function recordTwoFactorFailure(userId: string): Promise<LoginBlock | null> {
+  const store = getRateLimitStore()
+
+  const failures = await store.increment(twoFactorKey(userId), FAILURE_WINDOW_MS)
+  if (failures.count < MAX_FAILURES_PER_EMAIL) {
+    return null
+  }
+
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MS)
+  await lockUser(userId, lockedUntil)
+  await store.reset(twoFactorKey(userId))
+
+  return { reason: 'ACCOUNT_LOCKED', retryAt: lockedUntil }
+}
+
+export async function clearTwoFactorFailures(userId: string): Promise<void> {
+  await getRateLimitStore().reset(twoFactorKey(userId))
+}
+
+/**
+ * Forget an email's failed sign-ins (after a successful one, or when an admin unlocks it)
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  await getRateLimitStore().reset(emailKey(email))
+}
+
+/**
+ * What to tell someone whose sign-in was refused
+ */
+export function getLoginBlockMessage(block: LoginBlock): string {
+  const minutes = Math.max(1, Math.ceil((block.retryAt.getTime() - Date.now()) / 60000))
+  const wait = `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`
+
+  return block.reason === 'ACCOUNT_LOCKED'
+    ? `Too many failed sign-in attempts. This account is locked for ${wait}; try again later or reset your password.`
+    : `Too many sign-in attempts from your network. Please try again in ${wait}.`
+}
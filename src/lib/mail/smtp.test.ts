@@ -0,0 +1,151 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import net from 'net'
+import { SmtpError, sendSmtpMessage, type SmtpOptions } from './smtp'
+
+// A scripted SMTP server: records what the client sends and answers each command
+// from `replies` (by verb), falling back to a plain 250
+interface FakeServer {
+  commands: string[]
+  messages: string[]
+  replies: Record<string, string>
+  ehlo: string[]
+}
+
+const server: FakeServer = { commands: [], messages: [], replies: {}, ehlo: [] }
+let listener: net.Server
+let port: number
+// Settles when the server side of the latest connection has closed
+let connectionClosed: Promise<void> = Promise.resolve()
+
+function handle(socket: net.Socket) {
+  let buffer = ''
+  let inData = false
+  connectionClosed = new Promise((resolve) => socket.on('close', () => resolve()))
+
+  socket.write('220 fake.example.com ESMTP\r\n')
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8')
+
+    if (inData) {
+      const end = buffer.indexOf('\r\n.\r\n')
+      if (end < 0) return
+      server.messages.push(buffer.slice(0, end))
+      buffer = buffer.slice(end + 5)
+      inData = false
+      socket.write('250 Queued\r\n')
+    }
+
+    let index: number
+    while (!inData && (index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index)
+      buffer = buffer.slice(index + 2)
+      server.commands.push(line)
+
+      const verb = line.split(/[ :]/)[0].toUpperCase()
+      if (verb === 'QUIT') {
+        socket.end('221 Bye\r\n')
+      } else if (verb in server.replies) {
+        socket.write(server.replies[verb])
+      } else if (verb === 'EHLO') {
+        const extensions = ['fake.example.com', ...server.ehlo]
+        socket.write(extensions.map((ext, i) => `250${i === extensions.length - 1 ? ' ' : '-'}${ext}\r\n`).join(''))
+      } else if (verb === 'DATA') {
+        inData = true
+        socket.write('354 Go ahead\r\n')
+      } else {
+        socket.write('250 OK\r\n')
+      }
+    }
+  })
+}
+
+function options(overrides: Partial<SmtpOptions> = {}): SmtpOptions {
+  return { host: '127.0.0.1', port, secure: false, requireTls: false, timeoutMs: 2000, ...overrides }
+}
+
+const envelope = { from: 'shop@example.com', to: 'customer@example.com' }
+
+describe('sendSmtpMessage', () => {
+  before(async () => {
+    listener = net.createServer(handle)
+    await new Promise<void>((resolve) => listener.listen(0, '127.0.0.1', resolve))
+    port = (listener.address() as net.AddressInfo).port
+  })
+
+  after(async () => {
+    await new Promise<void>((resolve) => listener.close(() => resolve()))
+  })
+
+  function reset(changes: Partial<FakeServer> = {}) {
+    Object.assign(server, { commands: [], messages: [], replies: {}, ehlo: [] }, changes)
+  }
+
+  it('sends the envelope and message, then quits', async () => {
+    reset({ ehlo: ['SIZE 10240000', '8BITMIME'] })
+    await sendSmtpMessage(options(), envelope, 'Subject: Hello\r\n\r\nHi there')
+    await connectionClosed
+
+    assert.match(server.commands[0], /^EHLO /)
+    assert.deepEqual(server.commands.slice(1), [
+      'MAIL FROM:<shop@example.com>',
+      'RCPT TO:<customer@example.com>',
+      'DATA',
+      'QUIT',
+    ])
+    assert.deepEqual(server.messages, ['Subject: Hello\r\n\r\nHi there'])
+  })
+
+  it('normalises line endings and escapes lines starting with a dot', async () => {
+    reset()
+    await sendSmtpMessage(options(), envelope, 'Subject: Dots\n\n.hidden\nlast line\n.')
+
+    assert.deepEqual(server.messages, ['Subject: Dots\r\n\r\n..hidden\r\nlast line\r\n..'])
+  })
+
+  it('reports rejections with the server’s reply code', async () => {
+    reset({ replies: { RCPT: '550-No such user\r\n550 Mailbox unavailable\r\n' } })
+
+    await assert.rejects(sendSmtpMessage(options(), envelope, 'Subject: Lost'), (error) => {
+      assert.ok(error instanceof SmtpError)
+      assert.equal(error.code, 550)
+      assert.equal(error.temporary, false)
+      assert.equal(error.message, 'SMTP error 550: No such user Mailbox unavailable')
+      return true
+    })
+    assert.deepEqual(server.messages, [])
+  })
+
+  it('treats 4xx replies as temporary', async () => {
+    reset({ replies: { MAIL: '451 Try again later\r\n' } })
+
+    await assert.rejects(sendSmtpMessage(options(), envelope, 'Subject: Later'), (error) => {
+      assert.ok(error instanceof SmtpError)
+      assert.equal(error.temporary, true)
+      return true
+    })
+  })
+
+  it('refuses to send in the clear when TLS is required and not offered', async () => {
+    reset()
+
+    await assert.rejects(sendSmtpMessage(options({ requireTls: undefined }), envelope, 'Subject: Secret'), /STARTTLS/)
+    assert.ok(!server.commands.some((command) => command.startsWith('MAIL')))
+  })
+
+  it('never sends credentials over an unencrypted connection', async () => {
+    reset()
+
+    await assert.rejects(
+      sendSmtpMessage(options({ user: 'shop', password: 'hunter2' }), envelope, 'Subject: Secret'),
+      /unencrypted/
+    )
+    assert.ok(!server.commands.some((command) => command.startsWith('AUTH')))
+  })
+
+  it('fails instead of hanging when the server stops answering', async () => {
+    reset({ replies: { MAIL: '' } })
+
+    await assert.rejects(sendSmtpMessage(options({ timeoutMs: 100 }), envelope, 'Subject: Slow'), /timed out/)
+  })
+})
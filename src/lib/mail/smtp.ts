@@ -0,0 +1,213 @@
+/**
+ * Minimal SMTP client
+ * Speaks just enough SMTP to hand one message to a relay: implicit TLS or
+ * STARTTLS, AUTH PLAIN, and a single recipient per connection. Credentials are
+ * only ever sent over TLS.
+ */
+
+import net from 'net'
+import os from 'os'
+import tls from 'tls'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  /** Connect over TLS from the start (port 465); otherwise the connection is upgraded with STARTTLS */
+  secure: boolean
+  /** Refuse to send at all unless the connection is encrypted (default true) */
+  requireTls?: boolean
+  user?: string
+  password?: string
+  timeoutMs?: number
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Error carrying the server's reply code; 4xx codes are temporary and worth retrying
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+
+  get temporary(): boolean {
+    return this.code === undefined || (this.code >= 400 && this.code < 500)
+  }
+}
+
+class SmtpConnection {
+  private socket!: net.Socket
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+  encrypted = false
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async connect(): Promise<void> {
+    const { host, port, secure } = this.options
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const onError = (error: Error) => reject(error)
+      const connected: net.Socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(connected))
+        : net.connect({ host, port }, () => resolve(connected))
+      connected.once('error', onError)
+    })
+
+    this.attach(socket)
+    this.encrypted = secure
+    await this.expect([220])
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket
+    this.buffer = ''
+    socket.setTimeout(this.options.timeoutMs ?? 30_000)
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')))
+    socket.on('timeout', () => this.fail(new SmtpError('SMTP server timed out')))
+    socket.on('error', (error) => this.fail(error))
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')))
+  }
+
+  private receive(data: string): void {
+    this.buffer += data
+
+    let index: number
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+      this.lines.push(line.slice(4))
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines })
+        this.lines = []
+      }
+    }
+
+    this.flush()
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error
+    this.flush()
+  }
+
+  private flush(): void {
+    if (!this.waiting) return
+
+    const reply = this.replies.shift()
+    if (reply) {
+      this.waiting.resolve(reply)
+      this.waiting = null
+    } else if (this.failure) {
+      this.waiting.reject(this.failure)
+      this.waiting = null
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  async expect(codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`, reply.code)
+    }
+    return reply
+  }
+
+  async command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(codes)
+  }
+
+  async startTls(): Promise<void> {
+    await this.command('STARTTLS', [220])
+
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('timeout')
+    plain.removeAllListeners('close')
+
+    const secured = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: plain, servername: this.options.host }, () => resolve(upgraded))
+      upgraded.once('error', reject)
+    })
+    this.attach(secured)
+    this.encrypted = true
+  }
+
+  async data(message: string): Promise<void> {
+    await this.command('DATA', [354])
+
+    // Lines starting with a dot are escaped by doubling it
+    const body = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+    this.socket.write(`${body}\r\n.\r\n`)
+    await this.expect([250])
+  }
+
+  close(): void {
+    if (this.socket && !this.socket.destroyed) {
+      this.socket.end('QUIT\r\n')
+    }
+  }
+}
+
+/**
+ * Deliver one raw message (headers and body) to a recipient
+ */
+export async function sendSmtpMessage(
+  options: SmtpOptions,
+  envelope: { from: string; to: string },
+  message: string
+): Promise<void> {
+  const connection = new SmtpConnection(options)
+  const hostname = os.hostname() || 'localhost'
+
+  try {
+    await connection.connect()
+    const hello = await connection.command(`EHLO ${hostname}`, [250])
+
+    if (!options.secure && hello.lines.some((line) => line.toUpperCase() === 'STARTTLS')) {
+      await connection.startTls()
+      await connection.command(`EHLO ${hostname}`, [250])
+    }
+
+    // A server (or anyone in between) that doesn't offer STARTTLS must not get the
+    // password or the message in the clear
+    if (!connection.encrypted && (options.requireTls ?? true)) {
+      throw new SmtpError('SMTP server did not offer STARTTLS; refusing to send without TLS', 530)
+    }
+
+    if (options.user) {
+      if (!connection.encrypted) {
+        throw new SmtpError('Refusing to send SMTP credentials over an unencrypted connection', 530)
+      }
+
+      const credentials = Buffer.from(`\u0000${options.user}\u0000${options.password ?? ''}`).toString('base64')
+      await connection.command(`AUTH PLAIN ${credentials}`, [235])
+    }
+
+    await connection.command(`MAIL FROM:<${envelope.from}>`, [250])
+    await connection.command(`RCPT TO:<${envelope.to}>`, [250, 251])
+    await connection.data(message)
+  } finally {
+    connection.close()
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Mail transports
+ * Email goes out through a pluggable transport chosen by MAIL_TRANSPORT:
+ * - smtp: deliver through the SMTP relay in SMTP_HOST (production)
+ * - file: write each message as an .eml file to MAIL_OUTBOX_DIR (local dev and tests)
+ * - console: print each message to the server log (default)
+ */
+
+import { randomUUID } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { shopConfig } from '@/config/shop'
+import { SmtpError, sendSmtpMessage } from './smtp'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage): Promise<void>
+}
+
+const MAX_ATTEMPTS = Number(process.env.MAIL_MAX_ATTEMPTS || 3)
+const RETRY_DELAY_MS = 2000
+
+function getSender(): string {
+  return process.env.MAIL_FROM || shopConfig.supportEmail
+}
+
+function encodeHeader(value: string): string {
+  // Non-ASCII subjects are sent as RFC 2047 encoded words
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+function encodeBody(value: string): string {
+  return (
+    Buffer.from(value)
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  )
+}
+
+/**
+ * Build the raw MIME message (plain text and HTML alternatives)
+ */
+export function buildMimeMessage(message: MailMessage, from = getSender()): string {
+  const boundary = `=_${randomUUID()}`
+  const domain = from.split('@')[1] || 'localhost'
+
+  return [
+    `From: ${encodeHeader(shopConfig.name)} <${from}>`,
+    `To: <${message.to}>`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
+
+export function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST
+  if (!host) {
+    throw new Error('SMTP_HOST must be set to send email over SMTP')
+  }
+
+  const port = Number(process.env.SMTP_PORT || 587)
+  const options = {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    requireTls: process.env.SMTP_REQUIRE_TLS !== 'false',
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+  }
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await sendSmtpMessage(options, { from: getSender(), to: message.to }, buildMimeMessage(message))
+    },
+  }
+}
+
+export function createFileTransport(directory = process.env.MAIL_OUTBOX_DIR || '.outbox'): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`
+      await writeFile(path.join(directory, fileName), buildMimeMessage(message))
+    },
+  }
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}\n`)
+    },
+  }
+}
+
+let transport: MailTransport | null = null
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    switch (process.env.MAIL_TRANSPORT) {
+      case 'smtp':
+        transport = createSmtpTransport()
+        break
+      case 'file':
+        transport = createFileTransport()
+        break
+      default:
+        transport = createConsoleTransport()
+    }
+  }
+
+  return transport
+}
+
+/**
+ * Send a message, retrying temporary failures with a growing delay.
+ * Permanent SMTP rejections (5xx) are not retried.
+ */
+export async function sendMail(message: MailMessage, mailTransport = getMailTransport()): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await mailTransport.send(message)
+      return
+    } catch (error) {
+      const permanent = error instanceof SmtpError && !error.temporary
+      if (permanent || attempt >= MAX_ATTEMPTS) {
+        throw error
+      }
+
+      console.warn(`Mail to ${message.to} failed (attempt ${attempt} of ${MAX_ATTEMPTS}), retrying:`, error)
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt))
+    }
+  }
+}
@@ -17,6 +17,11 @@ const minioConfig = {
 
 const bucketName = process.env.MINIO_BUCKET_NAME || 'product-images'
 
+// Bucket for sensitive uploads (e.g. payment proofs); never given a public policy
+const privateBucketName = process.env.MINIO_PRIVATE_BUCKET_NAME || 'private-uploads'
+
+export type StorageVisibility = 'public' | 'private'
+
 // Create MinIO client instance
 let minioClient: Minio.Client | null = null
 
@@ -91,6 +96,24 @@ export async function initializeBucket(): Promise<void> {
   }
 }
 
+/**
+ * Initialize the private MinIO bucket (creates if doesn't exist, without a public policy)
+ */
+export async function initializePrivateBucket(): Promise<void> {
+  const client = getMinioClient()
+
+  try {
+    const exists = await client.bucketExists(privateBucketName)
+
+    if (!exists) {
+      await client.makeBucket(privateBucketName, 'us-east-1')
+    }
+  } catch (error) {
+    console.error('❌ Error initializing private MinIO bucket:', error)
+    throw error
+  }
+}
+
 /**
  * Upload a file to MinIO
  * @param file - File buffer or stream
@@ -141,6 +164,35 @@ export async function uploadFile(
   }
 }
 
+/**
+ * Upload a sensitive file to the private bucket
+ * The file is stored as-is and can only be read through a presigned URL.
+ * @param file - File buffer
+ * @param objectKey - Key to store the file under (should be unique)
+ * @param contentType - MIME type of the file
+ * @returns Object key of the stored file (not a URL)
+ */
+export async function uploadPrivateFile(
+  file: Buffer,
+  objectKey: string,
+  contentType: string = 'application/octet-stream'
+): Promise<string> {
+  const client = getMinioClient()
+
+  try {
+    await initializePrivateBucket()
+
+    await client.putObject(privateBucketName, objectKey, file, file.length, {
+      'Content-Type': contentType,
+    })
+
+    return objectKey
+  } catch (error) {
+    console.error('❌ Error uploading private file:', error)
+    throw error
+  }
+}
+
 /**
  * Upload multiple files to MinIO
  * @param files - Array of file objects with buffer and metadata
@@ -201,16 +253,19 @@ export async function deleteMultipleFiles(fileUrls: string[]): Promise<void> {
  * Get a presigned URL for temporary file access
  * @param fileName - Name of the file
  * @param expirySeconds - Expiry time in seconds (default: 24 hours)
+ * @param visibility - Which bucket the file lives in (default: public)
  * @returns Presigned URL
  */
 export async function getPresignedUrl(
   fileName: string,
-  expirySeconds: number = 86400
+  expirySeconds: number = 86400,
+  visibility: StorageVisibility = 'public'
 ): Promise<string> {
   const client = getMinioClient()
 
   try {
-    const url = await client.presignedGetObject(bucketName, fileName, expirySeconds)
+    const bucket = visibility === 'private' ? privateBucketName : bucketName
+    const url = await client.presignedGetObject(bucket, fileName, expirySeconds)
     return url
   } catch (error) {
     console.error('❌ Error generating presigned URL:', error)
@@ -0,0 +1,316 @@
+/**
+ * Customer notifications
+ * Transactional emails for account and order events, written from the localized
+ * templates in messages/<locale>.json under `email`. Order emails use the language
+ * the customer checked out in. Sending never throws: failures are retried by the
+ * transport and then logged, so callers can fire these after responding.
+ */
+
+import { getTranslations } from 'next-intl/server'
+import { shopConfig } from '@/config/shop'
+import { locales } from '@/i18n/request'
+import { sendMail, type MailMessage } from './mail/transport'
+import { getOrderById, type OrderWithItems } from './repositories/order.repository'
+import { findUserById } from './repositories/user.repository'
+import type { OrderStatus, User } from './types'
+
+// Statuses with their own payment emails rather than a status change email
+const PAYMENT_STATUSES: OrderStatus[] = ['PENDING', 'PAYMENT_SUBMITTED', 'PAYMENT_VERIFIED']
+
+interface EmailContent {
+  to: string
+  name: string
+  subject: string
+  paragraphs: string[]
+  /** Itemised lines shown after the paragraphs */
+  items?: string[]
+  action?: { label: string; url: string }
+}
+
+function getLocale(locale?: string): string {
+  return locale && locales.includes(locale as (typeof locales)[number]) ? locale : 'en'
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Lay out an email in the shop's plain text and HTML formats
+ */
+async function renderEmail(content: EmailContent, locale: string): Promise<MailMessage> {
+  const t = await getTranslations({ locale, namespace: 'email' })
+
+  const greeting = t('greeting', { name: content.name })
+  const signOff = [t('signOff'), t('team', { shop: shopConfig.name })]
+  const footer = t('footer', { email: shopConfig.supportEmail })
+
+  const text = [
+    greeting,
+    ...content.paragraphs,
+    ...(content.items?.length ? [content.items.map((item) => `- ${item}`).join('\n')] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    signOff.join('\n'),
+    '--',
+    footer,
+  ].join('\n\n')
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;padding:32px;border:1px solid #e5e7eb;">
+<p style="font-size:20px;font-weight:bold;margin:0 0 24px;">${escapeHtml(shopConfig.name)}</p>
+<p>${escapeHtml(greeting)}</p>
+${content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n')}
+${
+  content.items?.length
+    ? `<ul style="padding-left:20px;">${content.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : ''
+}
+${
+  content.action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(content.action.url)}" style="background:#111827;color:#ffffff;padding:10px 20px;text-decoration:none;">${escapeHtml(content.action.label)}</a></p>`
+    : ''
+}
+<p>${signOff.map(escapeHtml).join('<br>')}</p>
+<p style="margin-top:32px;font-size:12px;color:#6b7280;">${escapeHtml(footer)}</p>
+</div>
+</body>
+</html>`
+
+  return { to: content.to, subject: content.subject, text, html }
+}
+
+/**
+ * Render and send, logging instead of throwing if delivery fails
+ */
+async function notify(kind: string, build: () => Promise<MailMessage | null>): Promise<void> {
+  try {
+    const message = await build()
+    if (message) {
+      await sendMail(message)
+    }
+  } catch (error) {
+    console.error(`Failed to send ${kind} email:`, error)
+  }
+}
+
+/**
+ * The order's customer: the guest's checkout email or the account's email
+ */
+async function getOrderRecipient(order: OrderWithItems): Promise<string | null> {
+  if (order.guestEmail) return order.guestEmail
+  if (!order.userId) return null
+
+  const user = await findUserById(order.userId)
+  return user?.email ?? null
+}
+
+type Translator = Awaited<ReturnType<typeof getTranslations>>
+
+/**
+ * Link back to the order (or one of its pages). Guests need their order number
+ * and email to get back to it, so they are sent to the order lookup instead.
+ */
+function getOrderLink(
+  order: OrderWithItems,
+  t: Translator,
+  locale: string,
+  page?: { label: string; path: string }
+): EmailContent['action'] {
+  if (!order.userId) {
+    return { label: t('lookupOrder'), url: `${shopConfig.url}/${locale}/order/lookup` }
+  }
+  return {
+    label: page?.label ?? t('viewOrder'),
+    url: `${shopConfig.url}/${locale}/order/${order.id}${page?.path ?? ''}`,
+  }
+}
+
+async function buildOrderEmail(
+  orderId: string,
+  build: (
+    order: OrderWithItems,
+    t: Translator,
+    locale: string
+  ) => Promise<Omit<EmailContent, 'to' | 'name'>> | Omit<EmailContent, 'to' | 'name'>
+): Promise<MailMessage | null> {
+  const order = await getOrderById(orderId)
+  if (!order) return null
+
+  const to = await getOrderRecipient(order)
+  if (!to) return null
+
+  const locale = getLocale(order.locale)
+  const t = await getTranslations({ locale, namespace: 'email' })
+  const content = await build(order, t, locale)
+
+  return renderEmail({ ...content, to, name: order.shippingAddress.fullName }, locale)
+}
+
+function getAccountUrl(locale: string, page: string, token: string): string {
+  return `${shopConfig.url}/${locale}/${page}?token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Welcome a customer who just created an account and ask them to verify their email
+ */
+export async function notifySignup(user: User, verificationToken: string, locale?: string): Promise<void> {
+  await notify('signup', async () => {
+    const language = getLocale(locale)
+    const t = await getTranslations({ locale: language, namespace: 'email' })
+
+    return renderEmail(
+      {
+        to: user.email,
+        name: user.firstName,
+        subject: t('signup.subject', { shop: shopConfig.name }),
+        paragraphs: [t('signup.body', { shop: shopConfig.name }), t('signup.verify'), t('verifyEmail.expiry')],
+        action: { label: t('verifyEmail.action'), url: getAccountUrl(language, 'verify-email', verificationToken) },
+      },
+      language
+    )
+  })
+}
+
+/**
+ * Send a fresh email verification link
+ */
+export async function notifyEmailVerification(user: User, token: string, locale?: string): Promise<void> {
+  await notify('email verification', async () => {
+    const language = getLocale(locale)
+    const t = await getTranslations({ locale: language, namespace: 'email.verifyEmail' })
+
+    return renderEmail(
+      {
+        to: user.email,
+        name: user.firstName,
+        subject: t('subject'),
+        paragraphs: [t('body', { shop: shopConfig.name }), t('expiry')],
+        action: { label: t('action'), url: getAccountUrl(language, 'verify-email', token) },
+      },
+      language
+    )
+  })
+}
+
+/**
+ * Send a password reset link
+ */
+export async function notifyPasswordReset(user: User, token: string, locale?: string): Promise<void> {
+  await notify('password reset', async () => {
+    const language = getLocale(locale)
+    const t = await getTranslations({ locale: language, namespace: 'email.passwordReset' })
+
+    return renderEmail(
+      {
+        to: user.email,
+        name: user.firstName,
+        subject: t('subject', { shop: shopConfig.name }),
+        paragraphs: [t('body'), t('expiry'), t('ignore')],
+        action: { label: t('action'), url: getAccountUrl(language, 'reset-password', token) },
+      },
+      language
+    )
+  })
+}
+
+/**
+ * Confirm a newly placed order and ask for payment
+ */
+export async function notifyOrderPlaced(orderId: string): Promise<void> {
+  await notify('order placed', () =>
+    buildOrderEmail(orderId, (order, t, locale) => ({
+      subject: t('orderPlaced.subject', { orderNumber: order.orderNumber }),
+      paragraphs: [
+        t('orderPlaced.body'),
+        t('orderSummary', { orderNumber: order.orderNumber, total: order.totalAmount.toFixed(2) }),
+      ],
+      items: order.items.map((item) =>
+        t('itemLine', {
+          quantity: item.quantity,
+          name: item.product.name,
+          size: item.variant.size,
+          color: item.variant.color,
+          amount: (item.priceAtPurchase * item.quantity).toFixed(2),
+        })
+      ),
+      action: getOrderLink(order, t, locale, { label: t('orderPlaced.action'), path: '/payment' }),
+    }))
+  )
+}
+
+/**
+ * Let the customer know their payment proof arrived and is waiting for review
+ */
+export async function notifyPaymentReceived(orderId: string): Promise<void> {
+  await notify('payment received', () =>
+    buildOrderEmail(orderId, (order, t, locale) => ({
+      subject: t('paymentReceived.subject', { orderNumber: order.orderNumber }),
+      paragraphs: [t('paymentReceived.body')],
+      action: getOrderLink(order, t, locale),
+    }))
+  )
+}
+
+/**
+ * Tell the customer the outcome of the payment review; rejections include the reason
+ */
+export async function notifyPaymentReviewed(
+  orderId: string,
+  decision: 'APPROVED' | 'REJECTED',
+  reason?: string
+): Promise<void> {
+  await notify(`payment ${decision.toLowerCase()}`, () =>
+    buildOrderEmail(orderId, (order, t, locale) =>
+      decision === 'APPROVED'
+        ? {
+            subject: t('paymentVerified.subject', { orderNumber: order.orderNumber }),
+            paragraphs: [t('paymentVerified.body')],
+            action: getOrderLink(order, t, locale),
+          }
+        : {
+            subject: t('paymentRejected.subject', { orderNumber: order.orderNumber }),
+            paragraphs: [
+              t('paymentRejected.body'),
+              ...(reason ? [t('paymentRejected.reason', { reason })] : []),
+              t('paymentRejected.retry'),
+            ],
+            action: getOrderLink(order, t, locale, { label: t('paymentRejected.action'), path: '/payment' }),
+          }
+    )
+  )
+}
+
+/**
+ * Tell the customer their order moved on (shipped, ready for collection, cancelled, ...)
+ */
+export async function notifyOrderStatusChanged(
+  orderId: string,
+  status: OrderStatus,
+  note?: string
+): Promise<void> {
+  if (PAYMENT_STATUSES.includes(status)) return
+
+  await notify('order status', () =>
+    buildOrderEmail(orderId, async (order, t, locale) => {
+      const tStatus = await getTranslations({ locale, namespace: 'order.status' })
+      const statusName = tStatus(status)
+      const detail = `statusChanged.messages.${status}`
+
+      return {
+        subject: t('statusChanged.subject', { orderNumber: order.orderNumber, status: statusName }),
+        paragraphs: [
+          t('statusChanged.body', { orderNumber: order.orderNumber, status: statusName }),
+          ...(t.has(detail) ? [t(detail)] : []),
+          ...(note?.trim() ? [t('statusChanged.note', { note: note.trim() })] : []),
+        ],
+        action: getOrderLink(order, t, locale),
+      }
+    })
+  )
+}
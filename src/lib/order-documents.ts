@@ -0,0 +1,366 @@
+/**
+ * Order documents
+ * Builds invoices and packing slips for an order, rendered as HTML print views
+ * and as PDF downloads. Admins can open both documents for any order; customers
+ * and guests can only open the invoice for an order they have access to.
+ */
+
+import { getTranslations } from 'next-intl/server'
+import { shopConfig } from '@/config/shop'
+import { authorize } from './auth'
+import { getOrderAccessActor } from './guest-orders'
+import { A4, PdfDocument, canEncodePdfText, fitPdfText } from './pdf'
+import { getOrderById, type OrderWithItems } from './repositories/order.repository'
+
+export type OrderDocumentType = 'invoice' | 'packing-slip'
+
+export const ORDER_DOCUMENT_TYPES: OrderDocumentType[] = ['invoice', 'packing-slip']
+
+export interface OrderDocumentLine {
+  id: string
+  name: string
+  brand: string
+  sku: string
+  size: string
+  color: string
+  quantity: number
+  unitPrice: number
+  amount: number
+  /** Translated note about cancelled units (invoices only) */
+  cancelledNote?: string
+}
+
+export interface OrderDocument {
+  type: OrderDocumentType
+  orderId: string
+  orderNumber: string
+  orderDate: string
+  issuedOn: string
+  company: {
+    name: string
+    companyName: string
+    url: string
+    supportEmail: string
+  }
+  /** Translated text, keyed by message name in `order.documents` */
+  labels: Record<string, string>
+  deliveryMethod: string
+  addressLines: string[]
+  phone: string
+  email?: string
+  /** Invoices list every line; packing slips only the units still to be sent */
+  lines: OrderDocumentLine[]
+  /** Price breakdown (invoices only) */
+  totals: { label: string; value: string; emphasis?: boolean }[]
+}
+
+const LABEL_KEYS = [
+  'invoice',
+  'packingSlip',
+  'invoiceNumber',
+  'orderNumber',
+  'orderDate',
+  'issuedOn',
+  'billTo',
+  'shipTo',
+  'collectBy',
+  'deliveryMethod',
+  'phone',
+  'email',
+  'item',
+  'sku',
+  'variant',
+  'qty',
+  'unitPrice',
+  'amount',
+  'packed',
+  'unitsToPack',
+] as const
+
+export function isOrderDocumentType(value: string): value is OrderDocumentType {
+  return ORDER_DOCUMENT_TYPES.includes(value as OrderDocumentType)
+}
+
+function formatMoney(amount: number): string {
+  return `Rs ${amount.toFixed(2)}`
+}
+
+function formatDate(date: string | Date): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+}
+
+/**
+ * Build a document for an order with labels in the given locale
+ */
+export async function buildOrderDocument(
+  order: OrderWithItems,
+  type: OrderDocumentType,
+  locale: string
+): Promise<OrderDocument> {
+  const t = await getTranslations({ locale, namespace: 'order.documents' })
+
+  const labels: Record<string, string> = Object.fromEntries(LABEL_KEYS.map((key) => [key, t(key)]))
+  labels.title = type === 'invoice' ? t('invoice') : t('packingSlip')
+  labels.address = order.deliveryMethod === 'COLLECT' ? t('collectBy') : type === 'invoice' ? t('billTo') : t('shipTo')
+  labels.thankYou = t('thankYou', { shop: shopConfig.name })
+  labels.questions = t('questions', { email: shopConfig.supportEmail })
+
+  const lines = order.items
+    .map((item) => {
+      const cancelledQuantity = item.cancelledQuantity ?? 0
+      return {
+        id: item.id,
+        name: item.product.name,
+        brand: item.product.brand,
+        sku: item.product.sku,
+        size: item.variant.size,
+        color: item.variant.color,
+        quantity: type === 'invoice' ? item.quantity : item.quantity - cancelledQuantity,
+        unitPrice: item.priceAtPurchase,
+        amount: item.priceAtPurchase * item.quantity,
+        cancelledNote:
+          type === 'invoice' && cancelledQuantity > 0 ? t('cancelled', { count: cancelledQuantity }) : undefined,
+      }
+    })
+    .filter((line) => line.quantity > 0)
+
+  const totals: OrderDocument['totals'] = []
+  if (type === 'invoice') {
+    const subtotal = order.subtotal ?? lines.reduce((sum, line) => sum + line.amount, 0)
+    totals.push({ label: t('subtotal'), value: formatMoney(subtotal) })
+
+    if (order.discountAmount && order.discountAmount > 0) {
+      totals.push({
+        label: order.couponCode ? `${t('discount')} (${order.couponCode})` : t('discount'),
+        value: `-${formatMoney(order.discountAmount)}`,
+      })
+    }
+    if (order.shippingCost !== undefined) {
+      totals.push({
+        label: t('shipping'),
+        value: order.shippingCost === 0 ? t('free') : formatMoney(order.shippingCost),
+      })
+    }
+    if (order.taxAmount && order.taxAmount > 0) {
+      totals.push({ label: t('tax'), value: formatMoney(order.taxAmount) })
+    }
+    if (order.refundedAmount && order.refundedAmount > 0) {
+      totals.push({ label: t('refunded'), value: `-${formatMoney(order.refundedAmount)}` })
+    }
+    totals.push({ label: t('total'), value: formatMoney(order.totalAmount), emphasis: true })
+  }
+
+  const address = order.shippingAddress
+  const addressLines = [
+    address.fullName,
+    ...(order.deliveryMethod === 'SHIP'
+      ? [
+          address.addressLine1,
+          address.addressLine2,
+          [address.city, address.state, address.postalCode].filter(Boolean).join(', '),
+          address.country,
+        ]
+      : []),
+  ].filter((line): line is string => Boolean(line))
+
+  return {
+    type,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    orderDate: formatDate(order.createdAt),
+    issuedOn: formatDate(new Date()),
+    company: {
+      name: shopConfig.name,
+      companyName: shopConfig.companyName,
+      url: shopConfig.url,
+      supportEmail: shopConfig.supportEmail,
+    },
+    labels,
+    deliveryMethod: order.deliveryMethod === 'COLLECT' ? t('collect') : t('ship'),
+    addressLines,
+    phone: address.phone,
+    email: order.guestEmail,
+    lines,
+    totals,
+  }
+}
+
+/**
+ * Load an order the current visitor may see a document for and build it.
+ * Returns null when the order doesn't exist or the visitor has no access.
+ */
+export async function getOrderDocument(
+  orderId: string,
+  type: OrderDocumentType,
+  locale: string
+): Promise<OrderDocument | null> {
+  const order = await getOrderById(orderId)
+  if (!order) return null
+
+  const canView =
+    (await authorize('MANAGE_ORDERS')) !== null ||
+    (type === 'invoice' && (await getOrderAccessActor(order)) !== null)
+
+  return canView ? buildOrderDocument(order, type, locale) : null
+}
+
+/**
+ * Whether a document's labels can be drawn in a PDF. The PDF fonts only cover Latin
+ * text, so documents in other scripts (e.g. Sinhala) can't be, and pages offering the
+ * download tell the visitor it will be in English.
+ */
+export function canRenderOrderDocumentPdf(document: OrderDocument): boolean {
+  const translated = [
+    ...Object.values(document.labels),
+    ...document.totals.flatMap((row) => [row.label, row.value]),
+    ...document.lines.map((line) => line.cancelledNote ?? ''),
+    document.deliveryMethod,
+  ]
+  return translated.every(canEncodePdfText)
+}
+
+/**
+ * Build a document for PDF download, in English when its labels can't be drawn in
+ * the visitor's language (see canRenderOrderDocumentPdf)
+ */
+export async function getOrderDocumentForPdf(
+  orderId: string,
+  type: OrderDocumentType,
+  locale: string
+): Promise<OrderDocument | null> {
+  const document = await getOrderDocument(orderId, type, locale)
+  if (!document) return null
+
+  return canRenderOrderDocumentPdf(document) ? document : getOrderDocument(orderId, type, 'en')
+}
+
+export function getOrderDocumentFileName(document: OrderDocument): string {
+  return `${document.type}-${document.orderNumber}.pdf`
+}
+
+const MARGIN = 48
+const RIGHT = A4.width - MARGIN
+const PAGE_BOTTOM = A4.height - 72
+
+/**
+ * Render a document as an A4 PDF
+ */
+export function renderOrderDocumentPdf(document: OrderDocument): Buffer {
+  const pdf = new PdfDocument()
+  const { labels } = document
+  const isInvoice = document.type === 'invoice'
+
+  // Header: shop on the left, document title and numbers on the right
+  pdf.text(document.company.name, MARGIN, 64, { size: 20, font: 'bold' })
+  pdf.text(document.company.companyName, MARGIN, 82, { size: 9, gray: 0.4 })
+  pdf.text(document.company.url, MARGIN, 94, { size: 9, gray: 0.4 })
+  pdf.text(document.company.supportEmail, MARGIN, 106, { size: 9, gray: 0.4 })
+
+  pdf.text(labels.title, RIGHT, 64, { size: 18, font: 'bold', align: 'right' })
+  const meta = [
+    `${isInvoice ? labels.invoiceNumber : labels.orderNumber}: ${document.orderNumber}`,
+    `${labels.orderDate}: ${document.orderDate}`,
+    ...(isInvoice ? [`${labels.issuedOn}: ${document.issuedOn}`] : []),
+  ]
+  meta.forEach((line, index) => pdf.text(line, RIGHT, 82 + index * 12, { size: 9, align: 'right' }))
+
+  pdf.line(MARGIN, 124, RIGHT, 124)
+
+  // Address and delivery
+  let y = 146
+  pdf.text(labels.address.toUpperCase(), MARGIN, y, { size: 8, font: 'bold', gray: 0.4 })
+  pdf.text(labels.deliveryMethod.toUpperCase(), 320, y, { size: 8, font: 'bold', gray: 0.4 })
+  pdf.text(document.deliveryMethod, 320, y + 14, { size: 10 })
+  pdf.text(`${labels.phone}: ${document.phone}`, 320, y + 28, { size: 9 })
+  if (document.email) {
+    pdf.text(`${labels.email}: ${document.email}`, 320, y + 40, { size: 9 })
+  }
+  document.addressLines.forEach((line, index) => {
+    pdf.text(fitPdfText(line, 250, 10), MARGIN, y + 14 + index * 13, { size: 10 })
+  })
+  y += Math.max(60, 14 + document.addressLines.length * 13) + 20
+
+  // Line items
+  const columns = { sku: 260, variant: isInvoice ? 290 : 360, qty: isInvoice ? 400 : 480, unitPrice: 475 }
+  const itemWidth = (isInvoice ? columns.variant : columns.sku) - MARGIN - 12
+
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y - 12, RIGHT - MARGIN, 18)
+    pdf.text(labels.item, MARGIN + 4, y, { size: 8, font: 'bold' })
+    if (!isInvoice) pdf.text(labels.sku, columns.sku, y, { size: 8, font: 'bold' })
+    pdf.text(labels.variant, columns.variant, y, { size: 8, font: 'bold' })
+    if (isInvoice) {
+      pdf.text(labels.qty, columns.qty, y, { size: 8, font: 'bold', align: 'right' })
+      pdf.text(labels.unitPrice, columns.unitPrice, y, { size: 8, font: 'bold', align: 'right' })
+      pdf.text(labels.amount, RIGHT - 4, y, { size: 8, font: 'bold', align: 'right' })
+    } else {
+      pdf.text(labels.unitsToPack, columns.qty, y, { size: 8, font: 'bold', align: 'right' })
+      pdf.text(labels.packed, RIGHT - 4, y, { size: 8, font: 'bold', align: 'right' })
+    }
+    y += 22
+  }
+
+  drawTableHeader()
+
+  for (const line of document.lines) {
+    const rowHeight = line.cancelledNote ? 40 : 30
+
+    if (y + rowHeight > PAGE_BOTTOM) {
+      pdf.addPage()
+      y = 64
+      drawTableHeader()
+    }
+
+    pdf.text(fitPdfText(line.name, itemWidth, 10, 'bold'), MARGIN + 4, y, { size: 10, font: 'bold' })
+    pdf.text(fitPdfText(isInvoice ? `${line.brand} • ${line.sku}` : line.brand, itemWidth, 8), MARGIN + 4, y + 11, {
+      size: 8,
+      gray: 0.4,
+    })
+    if (line.cancelledNote) {
+      pdf.text(line.cancelledNote, MARGIN + 4, y + 22, { size: 8, gray: 0.4 })
+    }
+    if (!isInvoice) pdf.text(fitPdfText(line.sku, 90, 9), columns.sku, y, { size: 9 })
+    pdf.text(`${line.size} / ${line.color}`, columns.variant, y, { size: 9 })
+    pdf.text(String(line.quantity), columns.qty, y, { size: 10, align: 'right' })
+
+    if (isInvoice) {
+      pdf.text(formatMoney(line.unitPrice), columns.unitPrice, y, { size: 10, align: 'right' })
+      pdf.text(formatMoney(line.amount), RIGHT - 4, y, { size: 10, align: 'right' })
+    } else {
+      pdf.rect(RIGHT - 16, y - 9, 11, 11, { stroke: true })
+    }
+
+    pdf.line(MARGIN, y + rowHeight - 12, RIGHT, y + rowHeight - 12, { gray: 0.85 })
+    y += rowHeight
+  }
+
+  // Totals
+  if (document.totals.length > 0) {
+    if (y + document.totals.length * 16 + 60 > PAGE_BOTTOM) {
+      pdf.addPage()
+      y = 64
+    }
+    y += 6
+    for (const row of document.totals) {
+      const font = row.emphasis ? 'bold' : 'regular'
+      if (row.emphasis) {
+        pdf.line(columns.qty, y - 12, RIGHT, y - 12)
+        y += 4
+      }
+      pdf.text(row.label, columns.unitPrice, y, { size: row.emphasis ? 11 : 10, font, align: 'right' })
+      pdf.text(row.value, RIGHT - 4, y, { size: row.emphasis ? 11 : 10, font, align: 'right' })
+      y += 16
+    }
+  }
+
+  // Footer
+  y = Math.min(Math.max(y + 24, PAGE_BOTTOM - 10), A4.height - 40)
+  pdf.text(labels.thankYou, A4.width / 2, y, { size: 9, align: 'center', gray: 0.4 })
+  pdf.text(labels.questions, A4.width / 2, y + 12, { size: 9, align: 'center', gray: 0.4 })
+
+  return pdf.toBuffer()
+}
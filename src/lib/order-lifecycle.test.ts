@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  canRefundItems,
+  canSubmitPayment,
+  canTransition,
+  getAllowedTransitions,
+  holdsStock,
+  releasesStock,
+  requiresPaymentReview,
+} from './order-lifecycle'
+
+describe('getAllowedTransitions', () => {
+  it('only offers the delivery method’s own fulfilment steps', () => {
+    assert.deepEqual(getAllowedTransitions('PROCESSING', 'SHIP'), ['SHIPPED', 'CANCELLED', 'REFUNDED'])
+    assert.deepEqual(getAllowedTransitions('PROCESSING', 'COLLECT'), [
+      'READY_FOR_COLLECTION',
+      'CANCELLED',
+      'REFUNDED',
+    ])
+  })
+
+  it('ends at REFUNDED', () => {
+    assert.deepEqual(getAllowedTransitions('REFUNDED', 'SHIP'), [])
+  })
+})
+
+describe('canTransition', () => {
+  it('follows the lifecycle', () => {
+    assert.equal(canTransition('PENDING', 'PAYMENT_SUBMITTED', 'SHIP'), true)
+    assert.equal(canTransition('SHIPPED', 'DELIVERED', 'SHIP'), true)
+    assert.equal(canTransition('READY_FOR_COLLECTION', 'COLLECTED', 'COLLECT'), true)
+  })
+
+  it('refuses skipping steps, going backwards or the wrong delivery method', () => {
+    assert.equal(canTransition('PENDING', 'SHIPPED', 'SHIP'), false)
+    assert.equal(canTransition('DELIVERED', 'PROCESSING', 'SHIP'), false)
+    assert.equal(canTransition('SHIPPED', 'CANCELLED', 'SHIP'), false)
+    assert.equal(canTransition('PROCESSING', 'SHIPPED', 'COLLECT'), false)
+  })
+
+  it('still moves legacy statuses on', () => {
+    assert.equal(canTransition('CONFIRMED', 'PROCESSING', 'SHIP'), true)
+    assert.equal(canTransition('FULFILLED', 'REFUNDED', 'SHIP'), true)
+  })
+})
+
+describe('requiresPaymentReview', () => {
+  it('covers approving and rejecting submitted proof only', () => {
+    assert.equal(requiresPaymentReview('PAYMENT_SUBMITTED', 'PAYMENT_VERIFIED'), true)
+    assert.equal(requiresPaymentReview('PAYMENT_SUBMITTED', 'PENDING'), true)
+    assert.equal(requiresPaymentReview('PAYMENT_SUBMITTED', 'CANCELLED'), false)
+    assert.equal(requiresPaymentReview('PENDING', 'PAYMENT_VERIFIED'), false)
+  })
+})
+
+describe('stock', () => {
+  it('is held until the goods are handed over', () => {
+    assert.equal(holdsStock('PROCESSING'), true)
+    assert.equal(holdsStock('READY_FOR_COLLECTION'), true)
+    assert.equal(holdsStock('SHIPPED'), false)
+    assert.equal(holdsStock('COLLECTED'), false)
+  })
+
+  it('is released when an order ends before dispatch', () => {
+    assert.equal(releasesStock('PAYMENT_VERIFIED', 'CANCELLED'), true)
+    assert.equal(releasesStock('PROCESSING', 'REFUNDED'), true)
+    assert.equal(releasesStock('DELIVERED', 'REFUNDED'), false)
+    assert.equal(releasesStock('PENDING', 'PROCESSING'), false)
+  })
+})
+
+describe('canRefundItems', () => {
+  it('allows refunds until the order is cancelled or refunded', () => {
+    assert.equal(canRefundItems('DELIVERED'), true)
+    assert.equal(canRefundItems('CANCELLED'), false)
+    assert.equal(canRefundItems('REFUNDED'), false)
+  })
+})
+
+describe('canSubmitPayment', () => {
+  it('only accepts proof while payment is outstanding', () => {
+    assert.equal(canSubmitPayment('PENDING'), true)
+    assert.equal(canSubmitPayment('CONFIRMED'), true)
+    assert.equal(canSubmitPayment('PAYMENT_SUBMITTED'), false)
+    assert.equal(canSubmitPayment('PROCESSING'), false)
+  })
+})
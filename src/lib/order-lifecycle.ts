@@ -0,0 +1,98 @@
+/**
+ * Order lifecycle state machine
+ * Defines which status transitions are legal. Shared by the order repository
+ * (which enforces it) and the admin UI (which only offers legal next steps).
+ */
+
+import type { DeliveryMethod, OrderStatus } from './types'
+
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['PAYMENT_SUBMITTED', 'PAYMENT_VERIFIED', 'PROCESSING', 'CANCELLED'],
+  PAYMENT_SUBMITTED: ['PAYMENT_VERIFIED', 'PENDING', 'CANCELLED'],
+  PAYMENT_VERIFIED: ['PROCESSING', 'CANCELLED', 'REFUNDED'],
+  PROCESSING: ['SHIPPED', 'READY_FOR_COLLECTION', 'CANCELLED', 'REFUNDED'],
+  SHIPPED: ['DELIVERED'],
+  READY_FOR_COLLECTION: ['COLLECTED', 'CANCELLED'],
+  DELIVERED: ['REFUNDED'],
+  COLLECTED: ['REFUNDED'],
+  CANCELLED: ['REFUNDED'],
+  REFUNDED: [],
+  // Legacy statuses from before the lifecycle existed
+  CONFIRMED: ['PAYMENT_SUBMITTED', 'PROCESSING', 'CANCELLED'],
+  FULFILLED: ['REFUNDED'],
+}
+
+// Statuses that only make sense for one delivery method
+const SHIP_ONLY: OrderStatus[] = ['SHIPPED', 'DELIVERED']
+const COLLECT_ONLY: OrderStatus[] = ['READY_FOR_COLLECTION', 'COLLECTED']
+
+// Statuses in which the order's stock is still held for it (goods not yet handed over)
+const STOCK_HELD: OrderStatus[] = [
+  'PENDING',
+  'PAYMENT_SUBMITTED',
+  'PAYMENT_VERIFIED',
+  'PROCESSING',
+  'READY_FOR_COLLECTION',
+  'CONFIRMED',
+]
+
+export const TERMINAL_STATUSES: OrderStatus[] = ['CANCELLED', 'REFUNDED']
+
+/**
+ * Get the statuses an order can move to next
+ */
+export function getAllowedTransitions(
+  status: OrderStatus,
+  deliveryMethod: DeliveryMethod
+): OrderStatus[] {
+  const excluded = deliveryMethod === 'SHIP' ? COLLECT_ONLY : SHIP_ONLY
+  return (TRANSITIONS[status] ?? []).filter((next) => !excluded.includes(next))
+}
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export function canTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+  deliveryMethod: DeliveryMethod
+): boolean {
+  return getAllowedTransitions(from, deliveryMethod).includes(to)
+}
+
+/**
+ * Whether a transition can only happen by reviewing the submitted payment proof
+ * (approving or rejecting it), rather than as a plain status change
+ */
+export function requiresPaymentReview(from: OrderStatus, to: OrderStatus): boolean {
+  return from === 'PAYMENT_SUBMITTED' && (to === 'PAYMENT_VERIFIED' || to === 'PENDING')
+}
+
+/**
+ * Whether a transition should return the order's items to stock
+ * (the order is being cancelled or refunded before the goods left the store)
+ */
+export function releasesStock(from: OrderStatus, to: OrderStatus): boolean {
+  return TERMINAL_STATUSES.includes(to) && STOCK_HELD.includes(from)
+}
+
+/**
+ * Whether the order's stock is still held for it (the goods haven't left the store)
+ */
+export function holdsStock(status: OrderStatus): boolean {
+  return STOCK_HELD.includes(status)
+}
+
+/**
+ * Whether individual items of an order can still be cancelled or refunded
+ */
+export function canRefundItems(status: OrderStatus): boolean {
+  return !TERMINAL_STATUSES.includes(status)
+}
+
+/**
+ * Whether the customer can (re)submit payment proof for an order in this status
+ */
+export function canSubmitPayment(status: OrderStatus): boolean {
+  return status === 'PENDING' || status === 'CONFIRMED'
+}
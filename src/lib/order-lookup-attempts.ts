@@ -0,0 +1,57 @@
+/**
+ * Guest order lookup throttling
+ * Failed lookups by order number and email are counted per IP address and per email
+ * in the rate limit store, so order numbers can't be guessed for someone's email.
+ */
+
+import { getRateLimitStore } from './rate-limit'
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000 // 15 minutes
+const MAX_FAILURES_PER_IP = 20
+const MAX_FAILURES_PER_EMAIL = 5
+
+function ipKey(ipAddress: string): string {
+  return `order-lookup:ip:${ipAddress}`
+}
+
+function emailKey(email: string): string {
+  return `order-lookup:email:${email.toLowerCase()}`
+}
+
+/**
+ * When the next lookup from this address or for this email is allowed, or null if it
+ * is allowed now
+ */
+export async function getOrderLookupBlock(email: string, ipAddress: string | undefined): Promise<Date | null> {
+  const store = getRateLimitStore()
+
+  if (ipAddress) {
+    const ipFailures = await store.get(ipKey(ipAddress))
+    if (ipFailures && ipFailures.count >= MAX_FAILURES_PER_IP) {
+      return ipFailures.resetAt
+    }
+  }
+
+  const emailFailures = await store.get(emailKey(email))
+  return emailFailures && emailFailures.count >= MAX_FAILURES_PER_EMAIL ? emailFailures.resetAt : null
+}
+
+/**
+ * Count a lookup that matched no order
+ */
+export async function recordOrderLookupFailure(email: string, ipAddress: string | undefined): Promise<void> {
+  const store = getRateLimitStore()
+
+  if (ipAddress) {
+    await store.increment(ipKey(ipAddress), FAILURE_WINDOW_MS)
+  }
+  await store.increment(emailKey(email), FAILURE_WINDOW_MS)
+}
+
+/**
+ * What to tell someone whose lookup was refused
+ */
+export function getOrderLookupBlockMessage(retryAt: Date): string {
+  const minutes = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 60000))
+  return `Too many order lookups. Please try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.`
+}
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { formatOrderNumber, matchesOrderNumber, normalizeOrderNumber } from './order-number'
+
+describe('formatOrderNumber', () => {
+  it('pads the sequence and uppercases the prefix', () => {
+    assert.equal(formatOrderNumber(2026, 123, 'fb'), 'FB-2026-000123')
+    assert.equal(formatOrderNumber('2026', 1234567, 'FB'), 'FB-2026-1234567')
+  })
+})
+
+describe('normalizeOrderNumber', () => {
+  it('normalises sequential numbers as customers type them', () => {
+    assert.equal(normalizeOrderNumber('FB-2026-000123'), 'FB-2026-000123')
+    assert.equal(normalizeOrderNumber(' fb 2026 123 '), 'FB-2026-000123')
+    assert.equal(normalizeOrderNumber('fb2026-123'), 'FB-2026-000123')
+    assert.equal(normalizeOrderNumber('FB--2026--0123'), 'FB-2026-000123')
+  })
+
+  it('only trims and uppercases timestamp numbers', () => {
+    assert.equal(normalizeOrderNumber(' fb-1717171717171 '), 'FB-1717171717171')
+  })
+})
+
+describe('matchesOrderNumber', () => {
+  const orderNumber = 'FB-2026-000123'
+
+  it('matches everything for an empty query', () => {
+    assert.equal(matchesOrderNumber(orderNumber, '  '), true)
+  })
+
+  it('matches part of the number in any case', () => {
+    assert.equal(matchesOrderNumber(orderNumber, '2026-000'), true)
+    assert.equal(matchesOrderNumber(orderNumber, 'fb-2026'), true)
+  })
+
+  it('matches the number as typed by a customer', () => {
+    assert.equal(matchesOrderNumber(orderNumber, 'fb 2026 123'), true)
+  })
+
+  it('matches just the sequence', () => {
+    assert.equal(matchesOrderNumber(orderNumber, '123'), true)
+    assert.equal(matchesOrderNumber(orderNumber, '0123'), true)
+    assert.equal(matchesOrderNumber(orderNumber, '124'), false)
+  })
+
+  it('matches timestamp numbers by substring', () => {
+    assert.equal(matchesOrderNumber('FB-1717171717171', '17171'), true)
+    assert.equal(matchesOrderNumber('FB-1717171717171', '99'), false)
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Order numbers
+ * New orders are numbered from a per-year counter, e.g. FB-2026-000123 (the prefix
+ * is configurable). Orders placed before that carry timestamp numbers such as
+ * FB-1717171717171; both forms keep resolving and are searchable.
+ */
+
+import { shopConfig } from '@/config/shop'
+
+const SEQUENCE_DIGITS = 6
+
+// PREFIX-YYYY-NNN..., tolerating lowercase, spaces or missing padding as typed by a customer
+const SEQUENTIAL_PATTERN = /^([A-Z]+)[\s-]*(\d{4})[\s-]+(\d+)$/
+
+/**
+ * Format an order number from its prefix, year and sequence
+ */
+export function formatOrderNumber(
+  year: string | number,
+  sequence: number,
+  prefix: string = shopConfig.orderNumberPrefix
+): string {
+  return `${prefix.toUpperCase()}-${year}-${String(sequence).padStart(SEQUENCE_DIGITS, '0')}`
+}
+
+/**
+ * Normalise an order number as typed (e.g. "fb 2026 123") to its stored form.
+ * Timestamp-style numbers are only trimmed and uppercased.
+ */
+export function normalizeOrderNumber(input: string): string {
+  const value = input.trim().toUpperCase()
+  const match = value.match(SEQUENTIAL_PATTERN)
+  if (!match) return value
+
+  return formatOrderNumber(match[2], Number(match[3]), match[1])
+}
+
+/**
+ * Whether an order number matches a search query: part of the number in either
+ * form, or just the sequence (e.g. "123" finds FB-2026-000123)
+ */
+export function matchesOrderNumber(orderNumber: string, query: string): boolean {
+  const q = query.trim().toUpperCase()
+  if (!q) return true
+
+  if (orderNumber.includes(q) || orderNumber === normalizeOrderNumber(q)) {
+    return true
+  }
+
+  const sequential = orderNumber.match(SEQUENTIAL_PATTERN)
+  return /^\d+$/.test(q) && !!sequential && Number(sequential[3]) === Number(q)
+}
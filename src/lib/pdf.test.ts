@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { A4, PdfDocument, canEncodePdfText, fitPdfText, measurePdfText } from './pdf'
+
+// Reads a document back the way a viewer does: from startxref to the xref table,
+// then each object at the offset the table gives for it
+function parsePdf(buffer: Buffer) {
+  const pdf = buffer.toString('latin1')
+  assert.ok(pdf.startsWith('%PDF-1.4\n'))
+  assert.ok(pdf.endsWith('%%EOF\n'))
+
+  const xrefOffset = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1])
+  assert.equal(pdf.slice(xrefOffset, xrefOffset + 5), 'xref\n')
+
+  const [, first, count] = pdf.slice(xrefOffset).match(/^xref\n(\d+) (\d+)\n/) ?? []
+  assert.equal(first, '0')
+  const entries = pdf
+    .slice(xrefOffset)
+    .split('\n')
+    .slice(2, 2 + Number(count))
+  assert.equal(entries[0], '0000000000 65535 f ')
+
+  const objects = entries.slice(1).map((entry, index) => {
+    assert.match(entry, /^\d{10} 00000 n $/)
+    const offset = Number(entry.slice(0, 10))
+    const header = `${index + 1} 0 obj\n`
+    assert.equal(pdf.slice(offset, offset + header.length), header, `object ${index + 1} is where the xref says`)
+    const end = pdf.indexOf('\nendobj\n', offset)
+    return pdf.slice(offset + header.length, end)
+  })
+
+  const trailer = pdf.slice(pdf.indexOf('trailer\n', xrefOffset))
+  assert.match(trailer, new RegExp(`/Size ${objects.length + 1} /Root 1 0 R`))
+
+  return { objects }
+}
+
+// The content streams, checking each declared /Length against the bytes between the stream markers
+function getStreams(objects: string[]): string[] {
+  return objects
+    .filter((object) => object.includes('\nstream\n'))
+    .map((object) => {
+      const length = Number(object.match(/^<< \/Length (\d+) >>/)?.[1])
+      const start = object.indexOf('\nstream\n') + 8
+      const end = object.lastIndexOf('\nendstream')
+      assert.equal(end - start, length)
+      return object.slice(start, end)
+    })
+}
+
+describe('PdfDocument', () => {
+  it('writes a cross-reference table that points at every object', () => {
+    const doc = new PdfDocument()
+    doc.text('Invoice', 40, 60, { size: 18, font: 'bold' })
+    doc.line(40, 70, 555, 70)
+    doc.rect(40, 80, 515, 20)
+
+    const { objects } = parsePdf(doc.toBuffer())
+    assert.equal(objects.length, 6)
+    assert.equal(objects[0], '<< /Type /Catalog /Pages 2 0 R >>')
+    assert.match(objects[2], /\/BaseFont \/Helvetica \/Encoding \/WinAnsiEncoding/)
+    assert.match(objects[3], /\/BaseFont \/Helvetica-Bold \/Encoding \/WinAnsiEncoding/)
+    assert.match(objects[4], /\/Font << \/F1 3 0 R \/F2 4 0 R >>.*\/Contents 6 0 R/)
+  })
+
+  it('keeps offsets and lengths right with multi-byte characters and several pages', () => {
+    const doc = new PdfDocument()
+    doc.text('Total € 1,200 — paid', 40, 60)
+    doc.addPage()
+    doc.text('Page two: café', 40, 60)
+
+    const { objects } = parsePdf(doc.toBuffer())
+    assert.match(objects[1], /\/Kids \[5 0 R 7 0 R\] \/Count 2/)
+
+    const [first, second] = getStreams(objects)
+    assert.ok(first.includes('(Total \x80 1,200 \x97 paid) Tj'))
+    assert.ok(second.includes('(Page two: caf\xe9) Tj'))
+  })
+
+  it('escapes string delimiters and replaces text the fonts cannot show', () => {
+    const doc = new PdfDocument()
+    doc.text('Size (M) \\ 50% off', 40, 60)
+    doc.text('කමිසය', 40, 80)
+
+    const [content] = getStreams(parsePdf(doc.toBuffer()).objects)
+    assert.ok(content.includes('(Size \\(M\\) \\\\ 50% off) Tj'))
+    assert.ok(content.includes('(?????) Tj'))
+  })
+
+  it('uses the bold font and flips coordinates to start at the top', () => {
+    const doc = new PdfDocument()
+    doc.text('Right', 500, 100, { font: 'bold', size: 12, align: 'right' })
+
+    const [content] = getStreams(parsePdf(doc.toBuffer()).objects)
+    const left = 500 - measurePdfText('Right', 12, 'bold')
+    assert.equal(
+      content,
+      `0 g BT /F2 12 Tf ${Number(left.toFixed(2))} ${Number((A4.height - 100).toFixed(2))} Td (Right) Tj ET`
+    )
+  })
+})
+
+describe('PDF text helpers', () => {
+  it('knows which text the built-in fonts can show', () => {
+    assert.equal(canEncodePdfText('Café – €20'), true)
+    assert.equal(canEncodePdfText('කමිසය'), false)
+  })
+
+  it('measures with the Helvetica widths', () => {
+    assert.equal(measurePdfText('Hi', 10), 9.44)
+    assert.ok(measurePdfText('Hi', 10, 'bold') > measurePdfText('Hi', 10))
+  })
+
+  it('shortens text to fit with an ellipsis', () => {
+    assert.equal(fitPdfText('Short', 100, 10), 'Short')
+
+    const fitted = fitPdfText('A very long product name that will not fit', 100, 10)
+    assert.ok(fitted.endsWith('...'))
+    assert.ok(measurePdfText(fitted, 10) <= 100)
+  })
+})
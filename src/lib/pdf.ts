@@ -0,0 +1,187 @@
+/**
+ * Minimal PDF writer
+ * Produces simple A4 documents (text, lines and filled rectangles) using the
+ * built-in Helvetica fonts, so no font files or native dependencies are needed.
+ * The built-in fonts only cover WinAnsi (Latin) text; anything else is replaced
+ * with "?", so check text with canEncodePdfText before relying on it.
+ */
+
+export const A4 = { width: 595.28, height: 841.89 }
+
+export type PdfFont = 'regular' | 'bold'
+
+export interface PdfTextOptions {
+  size?: number
+  font?: PdfFont
+  align?: 'left' | 'right' | 'center'
+  /** Gray level from 0 (black) to 1 (white) */
+  gray?: number
+}
+
+// Helvetica and Helvetica-Bold advance widths (1/1000 em) for characters 32-126
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+}
+
+// Characters outside Latin-1 that WinAnsi still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+}
+
+function toWinAnsi(char: string): number | null {
+  const code = char.charCodeAt(0)
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code
+  return WIN_ANSI_EXTRAS[char] ?? null
+}
+
+/**
+ * Whether text can be drawn with the built-in fonts without losing characters
+ */
+export function canEncodePdfText(text: string): boolean {
+  return Array.from(text).every((char) => toWinAnsi(char) !== null)
+}
+
+function encodeText(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const code = toWinAnsi(char) ?? 0x3f // "?"
+      const encoded = String.fromCharCode(code)
+      return encoded === '\\' || encoded === '(' || encoded === ')' ? `\\${encoded}` : encoded
+    })
+    .join('')
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+/**
+ * Width of a piece of text in points
+ */
+export function measurePdfText(text: string, size: number, font: PdfFont = 'regular'): number {
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = char.charCodeAt(0)
+    return sum + (code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : 556)
+  }, 0)
+  return (units * size) / 1000
+}
+
+/**
+ * Shorten text with an ellipsis so it fits in a width
+ */
+export function fitPdfText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string {
+  if (measurePdfText(text, size, font) <= maxWidth) return text
+
+  let fitted = text
+  while (fitted.length > 0 && measurePdfText(`${fitted}...`, size, font) > maxWidth) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted.trimEnd()}...`
+}
+
+/**
+ * Builds a PDF page by page. Coordinates are in points from the top-left corner.
+ */
+export class PdfDocument {
+  private pages: string[][] = []
+
+  constructor() {
+    this.addPage()
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1]
+  }
+
+  addPage(): void {
+    this.pages.push([])
+  }
+
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10
+    const font = options.font ?? 'regular'
+    const width = measurePdfText(text, size, font)
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x
+
+    this.current.push(
+      `${formatNumber(options.gray ?? 0)} g BT /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ` +
+        `${formatNumber(left)} ${formatNumber(A4.height - y)} Td (${encodeText(text)}) Tj ET`
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; gray?: number } = {}): void {
+    this.current.push(
+      `${formatNumber(options.width ?? 0.5)} w ${formatNumber(options.gray ?? 0.7)} G ` +
+        `${formatNumber(x1)} ${formatNumber(A4.height - y1)} m ${formatNumber(x2)} ${formatNumber(A4.height - y2)} l S`
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: { gray?: number; stroke?: boolean } = {}): void {
+    const box = `${formatNumber(x)} ${formatNumber(A4.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`
+    this.current.push(
+      options.stroke
+        ? `0.5 w ${formatNumber(options.gray ?? 0)} G ${box} S`
+        : `${formatNumber(options.gray ?? 0.95)} g ${box} f`
+    )
+  }
+
+  /**
+   * Serialise the document
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = []
+    const pageCount = this.pages.length
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content stream per page
+    const pageIds = this.pages.map((_, index) => 5 + index * 2)
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>')
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`)
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n')
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      )
+      objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`)
+    })
+
+    let output = '%PDF-1.4\n'
+    const offsets = objects.map((object, index) => {
+      const offset = Buffer.byteLength(output, 'latin1')
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`
+      return offset
+    })
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1')
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, 'latin1')
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Staff roles and permissions
+ * Each role grants a fixed set of permissions. Server actions and admin pages
+ * check a specific permission through `authorize` in lib/auth.ts; the admin UI
+ * uses the helpers here to only offer what the user's role allows.
+ */
+
+import type { Permission, UserRole } from './types'
+
+export const ALL_PERMISSIONS: Permission[] = [
+  'MANAGE_PRODUCTS',
+  'VIEW_INVENTORY',
+  'MANAGE_CATEGORIES',
+  'MANAGE_ORDERS',
+  'MANAGE_RETURNS',
+  'MANAGE_CONTENT',
+  'MANAGE_COUPONS',
+  'MANAGE_USERS',
+  'VIEW_AUDIT_LOG',
+]
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  CUSTOMER: [],
+  ADMIN: ALL_PERMISSIONS,
+  CATALOG_MANAGER: ['MANAGE_PRODUCTS', 'VIEW_INVENTORY', 'MANAGE_CATEGORIES'],
+  ORDER_FULFILMENT: ['MANAGE_ORDERS', 'MANAGE_RETURNS', 'VIEW_INVENTORY'],
+  CONTENT_EDITOR: ['MANAGE_CONTENT'],
+}
+
+export const USER_ROLES: UserRole[] = ['CUSTOMER', 'CATALOG_MANAGER', 'ORDER_FULFILMENT', 'CONTENT_EDITOR', 'ADMIN']
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  CUSTOMER: 'Customer',
+  ADMIN: 'Owner',
+  CATALOG_MANAGER: 'Catalog Manager',
+  ORDER_FULFILMENT: 'Order Fulfilment',
+  CONTENT_EDITOR: 'Content Editor',
+}
+
+export function isUserRole(value: string): value is UserRole {
+  return (USER_ROLES as string[]).includes(value)
+}
+
+export function getRolePermissions(role: UserRole): Permission[] {
+  return ROLE_PERMISSIONS[role] ?? []
+}
+
+/**
+ * Whether a role grants any of the given permissions
+ */
+export function roleHasPermission(role: UserRole, ...permissions: Permission[]): boolean {
+  const granted = getRolePermissions(role)
+  return permissions.some((permission) => granted.includes(permission))
+}
+
+/**
+ * Staff roles can use the admin area (for whichever parts their permissions cover)
+ */
+export function isStaffRole(role: UserRole): boolean {
+  return getRolePermissions(role).length > 0
+}
+
+/**
+ * Owners must protect their account with two-factor authentication; for everyone
+ * else it is optional
+ */
+export function requiresTwoFactor(role: UserRole): boolean {
+  return role === 'ADMIN'
+}
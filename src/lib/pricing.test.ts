@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { quoteCart, roundCurrency, type PricingConfig, type QuoteCoupon } from './pricing'
+import type { CartItemWithDetails } from './repositories/cart.repository'
+
+const config: PricingConfig = { freeShippingThreshold: 100, shippingFee: 9.99, taxRate: 0 }
+
+function item(productId: string, stockPrice: number, quantity: number, retailPrice = stockPrice) {
+  return {
+    variantId: `${productId}-variant`,
+    quantity,
+    product: { id: productId, stockPrice, retailPrice } as CartItemWithDetails['product'],
+  }
+}
+
+function coupon(overrides: Partial<QuoteCoupon>): QuoteCoupon {
+  return { code: 'SAVE', discountType: 'PERCENTAGE', discountValue: 10, eligibleProductIds: null, ...overrides }
+}
+
+describe('roundCurrency', () => {
+  it('rounds to 2 decimal places, half up', () => {
+    assert.equal(roundCurrency(1.005), 1.01)
+    assert.equal(roundCurrency(0.1 + 0.2), 0.3)
+    assert.equal(roundCurrency(2.344), 2.34)
+  })
+})
+
+describe('quoteCart', () => {
+  it('totals lines and rounds each one', () => {
+    const quote = quoteCart([item('a', 19.99, 3), item('b', 0.335, 1)], 'COLLECT', null, config)
+
+    assert.deepEqual(
+      quote.lines.map((line) => line.lineTotal),
+      [59.97, 0.34]
+    )
+    assert.equal(quote.itemCount, 4)
+    assert.equal(quote.subtotal, 60.31)
+    assert.equal(quote.grandTotal, 60.31)
+  })
+
+  it('charges shipping below the free shipping threshold', () => {
+    const quote = quoteCart([item('a', 40, 2)], 'SHIP', null, config)
+
+    assert.equal(quote.shipping, 9.99)
+    assert.equal(quote.amountToFreeShipping, 20)
+    assert.equal(quote.grandTotal, 89.99)
+  })
+
+  it('ships free at the threshold', () => {
+    const quote = quoteCart([item('a', 50, 2)], 'SHIP', null, config)
+
+    assert.equal(quote.shipping, 0)
+    assert.equal(quote.amountToFreeShipping, 0)
+  })
+
+  it('never charges shipping for collection or an empty cart', () => {
+    assert.equal(quoteCart([item('a', 10, 1)], 'COLLECT', null, config).shipping, 0)
+    assert.equal(quoteCart([], 'SHIP', null, config).shipping, 0)
+  })
+
+  it('checks the threshold after discounts', () => {
+    const quote = quoteCart([item('a', 100, 1)], 'SHIP', coupon({ discountValue: 10 }), config)
+
+    assert.equal(quote.discountTotal, 10)
+    assert.equal(quote.shipping, 9.99)
+    assert.equal(quote.grandTotal, 99.99)
+  })
+
+  it('applies tax to the discounted subtotal, not shipping', () => {
+    const quote = quoteCart(
+      [item('a', 33.33, 1)],
+      'SHIP',
+      coupon({ discountType: 'FIXED_AMOUNT', discountValue: 3.33 }),
+      { ...config, taxRate: 0.08 }
+    )
+
+    assert.equal(quote.tax, 2.4)
+    assert.equal(quote.grandTotal, 42.39)
+  })
+
+  it('only discounts eligible products', () => {
+    const quote = quoteCart(
+      [item('a', 50, 1), item('b', 30, 1)],
+      'COLLECT',
+      coupon({ discountValue: 50, eligibleProductIds: ['b'] }),
+      config
+    )
+
+    assert.deepEqual(quote.discounts, [{ label: 'SAVE', amount: 15 }])
+    assert.equal(quote.grandTotal, 65)
+  })
+
+  it('caps fixed discounts at the eligible subtotal', () => {
+    const quote = quoteCart(
+      [item('a', 20, 1)],
+      'COLLECT',
+      coupon({ discountType: 'FIXED_AMOUNT', discountValue: 50 }),
+      config
+    )
+
+    assert.equal(quote.discountTotal, 20)
+    assert.equal(quote.grandTotal, 0)
+  })
+
+  it('waives shipping for free shipping coupons without a discount line', () => {
+    const quote = quoteCart(
+      [item('a', 10, 1)],
+      'SHIP',
+      coupon({ discountType: 'FREE_SHIPPING', discountValue: 0 }),
+      config
+    )
+
+    assert.deepEqual(quote.discounts, [])
+    assert.equal(quote.shipping, 0)
+    assert.equal(quote.grandTotal, 10)
+  })
+
+  it('totals retail prices separately', () => {
+    const quote = quoteCart([item('a', 25, 2, 39.99)], 'COLLECT', null, config)
+
+    assert.equal(quote.retailSubtotal, 79.98)
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Pricing engine
+ * Single source of truth for line totals, discounts, shipping, tax and grand total.
+ * Used by the cart page, checkout and order creation so they can never disagree.
+ */
+
+import { shopConfig } from '@/config/shop'
+import type { CouponDiscountType, DeliveryMethod } from './types'
+import type { CartItemWithDetails } from './repositories/cart.repository'
+
+export interface PricingConfig {
+  freeShippingThreshold: number
+  shippingFee: number
+  taxRate: number
+}
+
+export interface PriceQuoteLine {
+  variantId: string
+  productId: string
+  quantity: number
+  unitPrice: number
+  retailUnitPrice: number
+  lineTotal: number
+}
+
+export interface PriceQuoteDiscount {
+  label: string
+  amount: number
+}
+
+/** A coupon that has already been validated for the cart (see src/lib/coupons.ts) */
+export interface QuoteCoupon {
+  code: string
+  discountType: CouponDiscountType
+  discountValue: number
+  /** Products the coupon applies to; null when it applies to the whole cart */
+  eligibleProductIds: string[] | null
+}
+
+export interface PriceQuote {
+  deliveryMethod: DeliveryMethod
+  lines: PriceQuoteLine[]
+  itemCount: number
+  subtotal: number
+  retailSubtotal: number
+  discounts: PriceQuoteDiscount[]
+  discountTotal: number
+  coupon: QuoteCoupon | null
+  shipping: number
+  /** How much more the customer needs to spend for free shipping (0 when already free) */
+  amountToFreeShipping: number
+  tax: number
+  grandTotal: number
+}
+
+/**
+ * Round a currency amount to 2 decimal places
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+/**
+ * Work out how much a coupon takes off the lines it applies to
+ */
+function couponDiscount(coupon: QuoteCoupon, lines: PriceQuoteLine[]): number {
+  const eligibleSubtotal = lines
+    .filter((line) => !coupon.eligibleProductIds || coupon.eligibleProductIds.includes(line.productId))
+    .reduce((sum, line) => sum + line.lineTotal, 0)
+
+  switch (coupon.discountType) {
+    case 'PERCENTAGE':
+      return roundCurrency((eligibleSubtotal * Math.min(coupon.discountValue, 100)) / 100)
+    case 'FIXED_AMOUNT':
+      return roundCurrency(Math.min(coupon.discountValue, eligibleSubtotal))
+    case 'FREE_SHIPPING':
+      return 0
+  }
+}
+
+/**
+ * Build a price quote for a cart and delivery method, optionally with a coupon
+ */
+export function quoteCart(
+  items: Pick<CartItemWithDetails, 'variantId' | 'quantity' | 'product'>[],
+  deliveryMethod: DeliveryMethod,
+  coupon: QuoteCoupon | null = null,
+  config: PricingConfig = shopConfig.pricing
+): PriceQuote {
+  const lines: PriceQuoteLine[] = items.map((item) => ({
+    variantId: item.variantId,
+    productId: item.product.id,
+    quantity: item.quantity,
+    unitPrice: item.product.stockPrice,
+    retailUnitPrice: item.product.retailPrice,
+    lineTotal: roundCurrency(item.product.stockPrice * item.quantity),
+  }))
+
+  const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0)
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.lineTotal, 0))
+  const retailSubtotal = roundCurrency(
+    lines.reduce((sum, line) => sum + line.retailUnitPrice * line.quantity, 0)
+  )
+
+  const discounts: PriceQuoteDiscount[] = []
+  const couponAmount = coupon ? couponDiscount(coupon, lines) : 0
+  if (coupon && couponAmount > 0) {
+    discounts.push({ label: coupon.code, amount: couponAmount })
+  }
+  const discountTotal = roundCurrency(discounts.reduce((sum, d) => sum + d.amount, 0))
+  const discountedSubtotal = Math.max(subtotal - discountTotal, 0)
+
+  // Shipping only applies to SHIP orders that haven't reached the free shipping threshold
+  // (or used a free shipping coupon)
+  const qualifiesForFreeShipping =
+    discountedSubtotal >= config.freeShippingThreshold || coupon?.discountType === 'FREE_SHIPPING'
+  const shipping =
+    deliveryMethod === 'SHIP' && lines.length > 0 && !qualifiesForFreeShipping
+      ? roundCurrency(config.shippingFee)
+      : 0
+  const amountToFreeShipping = qualifiesForFreeShipping
+    ? 0
+    : roundCurrency(config.freeShippingThreshold - discountedSubtotal)
+
+  const tax = roundCurrency(discountedSubtotal * config.taxRate)
+  const grandTotal = roundCurrency(discountedSubtotal + shipping + tax)
+
+  return {
+    deliveryMethod,
+    lines,
+    itemCount,
+    subtotal,
+    retailSubtotal,
+    discounts,
+    discountTotal,
+    coupon,
+    shipping,
+    amountToFreeShipping,
+    tax,
+    grandTotal,
+  }
+}
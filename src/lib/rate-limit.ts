@@ -0,0 +1,85 @@
+/**
+ * Rate limit stores
+ * Attempt counters live in a pluggable store chosen by RATE_LIMIT_STORE:
+ * - neo4j: shared through the database, so limits hold across several app instances
+ * - memory: kept in this process (default; fine for a single instance)
+ */
+
+import { deleteRateLimit, getRateLimit, incrementRateLimit } from './repositories/rate-limit.repository'
+
+export interface RateLimitCount {
+  count: number
+  resetAt: Date
+}
+
+export interface RateLimitStore {
+  name: string
+  /** Count a hit and return the total in the current window */
+  increment(key: string, windowMs: number): Promise<RateLimitCount>
+  /** The total in the current window, or null if there have been no hits */
+  get(key: string): Promise<RateLimitCount | null>
+  reset(key: string): Promise<void>
+}
+
+// Expired counters are swept from memory once there are this many
+const MEMORY_SWEEP_SIZE = 10000
+
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, RateLimitCount>()
+
+  const getCurrent = (key: string) => {
+    const counter = counters.get(key)
+    return counter && counter.resetAt.getTime() > Date.now() ? counter : null
+  }
+
+  return {
+    name: 'memory',
+    async increment(key, windowMs) {
+      if (counters.size >= MEMORY_SWEEP_SIZE) {
+        for (const [existingKey, counter] of counters) {
+          if (counter.resetAt.getTime() <= Date.now()) counters.delete(existingKey)
+        }
+      }
+
+      const current = getCurrent(key)
+      const counter = current
+        ? { ...current, count: current.count + 1 }
+        : { count: 1, resetAt: new Date(Date.now() + windowMs) }
+      counters.set(key, counter)
+      return counter
+    },
+    async get(key) {
+      return getCurrent(key)
+    },
+    async reset(key) {
+      counters.delete(key)
+    },
+  }
+}
+
+export function createNeo4jStore(): RateLimitStore {
+  return {
+    name: 'neo4j',
+    async increment(key, windowMs) {
+      const { count, resetAt } = await incrementRateLimit(key, windowMs)
+      return { count, resetAt: new Date(resetAt) }
+    },
+    async get(key) {
+      const counter = await getRateLimit(key)
+      return counter && { count: counter.count, resetAt: new Date(counter.resetAt) }
+    },
+    async reset(key) {
+      await deleteRateLimit(key)
+    },
+  }
+}
+
+let store: RateLimitStore | null = null
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === 'neo4j' ? createNeo4jStore() : createMemoryStore()
+  }
+
+  return store
+}
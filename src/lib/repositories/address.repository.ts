@@ -0,0 +1,204 @@
+import { getSession } from '../db'
+import { v4 as uuidv4 } from 'uuid'
+import type { Address } from '../types'
+
+// The fields a customer fills in for a saved address
+export type AddressInput = Omit<Address, 'id' | 'userId' | 'isDefault' | 'createdAt' | 'updatedAt'>
+
+/**
+ * Map a Neo4j address map to an Address object
+ */
+function mapToAddress(properties: any): Address {
+  return {
+    id: properties.id,
+    userId: properties.userId,
+    label: properties.label || undefined,
+    fullName: properties.fullName,
+    addressLine1: properties.addressLine1,
+    addressLine2: properties.addressLine2 || undefined,
+    city: properties.city,
+    state: properties.state,
+    postalCode: properties.postalCode,
+    country: properties.country,
+    phone: properties.phone,
+    isDefault: properties.isDefault ?? false,
+    createdAt: properties.createdAt,
+    updatedAt: properties.updatedAt,
+  }
+}
+
+function toAddressParams(input: AddressInput) {
+  return {
+    label: input.label || null,
+    fullName: input.fullName,
+    addressLine1: input.addressLine1,
+    addressLine2: input.addressLine2 || null,
+    city: input.city,
+    state: input.state,
+    postalCode: input.postalCode,
+    country: input.country,
+    phone: input.phone,
+  }
+}
+
+/**
+ * Get a user's saved addresses, default first and then oldest first
+ */
+export async function getAddressesByUserId(userId: string): Promise<Address[]> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (:User {id: $userId})-[:HAS_ADDRESS]->(a:Address)
+      RETURN a {.*} as address
+      ORDER BY a.isDefault DESC, a.createdAt ASC
+      `,
+      { userId }
+    )
+
+    return result.records.map((record) => mapToAddress(record.get('address')))
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Save a new address for a user. Their first address becomes the default, as does
+ * any address saved with makeDefault.
+ */
+export async function createAddress(
+  userId: string,
+  input: AddressInput,
+  makeDefault = false
+): Promise<Address> {
+  const session = getSession()
+  try {
+    const now = new Date().toISOString()
+
+    const result = await session.executeWrite((tx) =>
+      tx.run(
+        `
+        MATCH (u:User {id: $userId})
+        OPTIONAL MATCH (u)-[:HAS_ADDRESS]->(other:Address)
+        WITH u, collect(other) as others
+        FOREACH (other IN CASE WHEN $makeDefault THEN others ELSE [] END |
+          SET other.isDefault = false
+        )
+        CREATE (u)-[:HAS_ADDRESS]->(a:Address {
+          id: $id,
+          userId: $userId,
+          isDefault: $makeDefault OR size(others) = 0,
+          createdAt: $now,
+          updatedAt: $now
+        })
+        SET a += $address
+        RETURN a {.*} as address
+        `,
+        { userId, id: uuidv4(), makeDefault, address: toAddressParams(input), now }
+      )
+    )
+
+    const address = result.records[0]?.get('address')
+    if (!address) {
+      throw new Error('User not found')
+    }
+
+    return mapToAddress(address)
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Update one of a user's saved addresses, or return null if they have no such address
+ */
+export async function updateAddress(
+  userId: string,
+  addressId: string,
+  input: AddressInput
+): Promise<Address | null> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (:User {id: $userId})-[:HAS_ADDRESS]->(a:Address {id: $addressId})
+      SET a += $address, a.updatedAt = $now
+      RETURN a {.*} as address
+      `,
+      { userId, addressId, address: toAddressParams(input), now: new Date().toISOString() }
+    )
+
+    const address = result.records[0]?.get('address')
+    return address ? mapToAddress(address) : null
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Make one of a user's saved addresses their default. Returns false if they have no
+ * such address.
+ */
+export async function setDefaultAddress(userId: string, addressId: string): Promise<boolean> {
+  const session = getSession()
+  try {
+    const result = await session.executeWrite((tx) =>
+      tx.run(
+        `
+        MATCH (u:User {id: $userId})-[:HAS_ADDRESS]->(a:Address {id: $addressId})
+        OPTIONAL MATCH (u)-[:HAS_ADDRESS]->(other:Address)
+        WHERE other <> a AND other.isDefault
+        SET other.isDefault = false
+        WITH DISTINCT a
+        SET a.isDefault = true, a.updatedAt = $now
+        RETURN a.id as id
+        `,
+        { userId, addressId, now: new Date().toISOString() }
+      )
+    )
+
+    return result.records.length > 0
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Delete one of a user's saved addresses. If it was the default, their oldest
+ * remaining address takes its place. Returns false if they have no such address.
+ */
+export async function deleteAddress(userId: string, addressId: string): Promise<boolean> {
+  const session = getSession()
+  try {
+    return await session.executeWrite(async (tx) => {
+      const result = await tx.run(
+        `
+        MATCH (:User {id: $userId})-[:HAS_ADDRESS]->(a:Address {id: $addressId})
+        WITH a, a.isDefault as wasDefault
+        DETACH DELETE a
+        RETURN wasDefault
+        `,
+        { userId, addressId }
+      )
+
+      if (result.records.length === 0) {
+        return false
+      }
+
+      if (result.records[0].get('wasDefault')) {
+        await tx.run(
+          `
+          MATCH (:User {id: $userId})-[:HAS_ADDRESS]->(a:Address)
+          WITH a ORDER BY a.createdAt ASC LIMIT 1
+          SET a.isDefault = true
+          `,
+          { userId }
+        )
+      }
+
+      return true
+    })
+  } finally {
+    await session.close()
+  }
+}
@@ -0,0 +1,114 @@
+import { getSession } from '../db'
+import neo4j from 'neo4j-driver'
+import { v4 as uuidv4 } from 'uuid'
+import { getStoreDate } from '../schedule'
+import type { AuditEvent, AuditEventFilters } from '../types'
+
+// The audit log is append-only: this module creates and reads events but never
+// updates or deletes them.
+
+function toAuditEvent(record: Record<string, unknown>): AuditEvent {
+  return {
+    ...(record as unknown as AuditEvent),
+    entityLabel: (record.entityLabel as string | null) ?? undefined,
+    changes: JSON.parse((record.changes as string) || '[]'),
+  }
+}
+
+/**
+ * Append an event to the audit log
+ */
+export async function createAuditEvent(
+  input: Omit<AuditEvent, 'id' | 'storeDate' | 'createdAt'>
+): Promise<AuditEvent> {
+  const session = getSession()
+  try {
+    const now = new Date()
+
+    const result = await session.run(
+      `
+      CREATE (e:AuditEvent {
+        id: $id,
+        actorId: $actorId,
+        actorEmail: $actorEmail,
+        actorRole: $actorRole,
+        action: $action,
+        entityType: $entityType,
+        entityId: $entityId,
+        entityLabel: $entityLabel,
+        changes: $changes,
+        storeDate: $storeDate,
+        createdAt: $createdAt
+      })
+      RETURN e {.*} as event
+      `,
+      {
+        ...input,
+        id: uuidv4(),
+        entityLabel: input.entityLabel ?? null,
+        // Nested values can't be stored as properties, so the diff is kept as JSON
+        changes: JSON.stringify(input.changes),
+        storeDate: getStoreDate(now),
+        createdAt: now.toISOString(),
+      }
+    )
+
+    return toAuditEvent(result.records[0].get('event'))
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Get audit events matching the filters, newest first
+ */
+export async function getAuditEvents(filters: AuditEventFilters = {}, limit = 500): Promise<AuditEvent[]> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (e:AuditEvent)
+      WHERE ($entityType IS NULL OR e.entityType = $entityType)
+        AND ($entityId IS NULL OR e.entityId = $entityId)
+        AND ($actorId IS NULL OR e.actorId = $actorId)
+        AND ($from IS NULL OR e.storeDate >= $from)
+        AND ($to IS NULL OR e.storeDate <= $to)
+      RETURN e {.*} as event
+      ORDER BY e.createdAt DESC
+      LIMIT $limit
+      `,
+      {
+        entityType: filters.entityType ?? null,
+        entityId: filters.entityId ?? null,
+        actorId: filters.actorId ?? null,
+        from: filters.from ?? null,
+        to: filters.to ?? null,
+        limit: neo4j.int(limit),
+      }
+    )
+
+    return result.records.map((record) => toAuditEvent(record.get('event')))
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Everyone who has made a recorded change, for filtering by user
+ */
+export async function getAuditActors(): Promise<{ id: string; email: string }[]> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (e:AuditEvent)
+      RETURN DISTINCT e.actorId as id, e.actorEmail as email
+      ORDER BY email
+      `
+    )
+
+    return result.records.map((record) => ({ id: record.get('id'), email: record.get('email') }))
+  } finally {
+    await session.close()
+  }
+}
@@ -27,11 +27,13 @@ export interface CartItemWithDetails extends CartItem {
 /**
  * Add item to cart or update quantity if already exists
  * Uses MERGE to prevent race condition duplicates
+ * When added from a promotional section, the item remembers the most recent one
  */
 export async function addToCart(
   userId: string,
   variantId: string,
-  quantity: number = 1
+  quantity: number = 1,
+  promotionalCategoryId?: string
 ): Promise<CartItem> {
   if (quantity <= 0) {
     throw new Error('Quantity must be greater than 0')
@@ -49,11 +51,19 @@ export async function addToCart(
       MERGE (u)-[:HAS_CART_ITEM]->(c:CartItem {userId: $userId, variantId: $variantId})
       ON CREATE SET c.id = $cartItemId, c.quantity = $quantity, c.addedAt = $addedAt
       ON MATCH SET c.quantity = c.quantity + $quantity
+      SET c.promotionalCategoryId = COALESCE($promotionalCategoryId, c.promotionalCategoryId)
       WITH c, v
       MERGE (c)-[:CART_ITEM_FOR]->(v)
       RETURN c {.*}
       `,
-      { cartItemId, userId, variantId, quantity, addedAt: now }
+      {
+        cartItemId,
+        userId,
+        variantId,
+        quantity,
+        promotionalCategoryId: promotionalCategoryId ?? null,
+        addedAt: now,
+      }
     )
 
     return result.records[0].get('c')
@@ -183,13 +193,3 @@ export async function clearCart(userId: string): Promise<void> {
     await session.close()
   }
 }
-
-/**
- * Get cart total price
- */
-export async function getCartTotal(userId: string): Promise<number> {
-  const items = await getCartItems(userId)
-  return items.reduce((total, item) => {
-    return total + item.product.stockPrice * item.quantity
-  }, 0)
-}
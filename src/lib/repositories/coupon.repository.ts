@@ -0,0 +1,401 @@
+import { ManagedTransaction, Session } from 'neo4j-driver'
+import { v4 as uuidv4 } from 'uuid'
+import type { Coupon, CouponDiscountType, CouponInput } from '@/lib/types'
+
+/**
+ * Thrown when a coupon can't be applied or redeemed; the message is shown to the customer
+ */
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CouponError'
+  }
+}
+
+/**
+ * Helper function to safely convert Neo4j integers to JavaScript numbers
+ */
+function toNumber(value: any): number {
+  if (value && typeof value.toNumber === 'function') {
+    return value.toNumber()
+  }
+  return Number(value)
+}
+
+function optionalNumber(value: any): number | undefined {
+  return value === null || value === undefined ? undefined : toNumber(value)
+}
+
+// Returns `coupon` with its category restrictions and live usage count for each matched `c`
+const COUPON_DETAILS = `
+  OPTIONAL MATCH (c)-[:RESTRICTED_TO]->(cat:Category)
+  WITH c, collect(cat.id) as categoryIds
+  OPTIONAL MATCH (o:Order)-[:USED_COUPON]->(c)
+  WHERE o.status <> 'CANCELLED'
+  WITH c, categoryIds, count(o) as usageCount
+  RETURN c {.*, categoryIds: categoryIds, usageCount: usageCount} as coupon
+`
+
+/**
+ * Map a Neo4j coupon map to a Coupon object
+ */
+function mapToCoupon(properties: any): Coupon {
+  return {
+    id: properties.id,
+    code: properties.code,
+    description: properties.description || undefined,
+    discountType: properties.discountType as CouponDiscountType,
+    discountValue: toNumber(properties.discountValue ?? 0),
+    minimumSpend: optionalNumber(properties.minimumSpend),
+    usageLimit: optionalNumber(properties.usageLimit),
+    perUserLimit: optionalNumber(properties.perUserLimit),
+    usageCount: toNumber(properties.usageCount ?? 0),
+    startsAt: properties.startsAt || undefined,
+    endsAt: properties.endsAt || undefined,
+    categoryIds: properties.categoryIds ?? [],
+    brands: properties.brands ?? [],
+    isActive: properties.isActive ?? true,
+    createdAt: properties.createdAt,
+    updatedAt: properties.updatedAt,
+  }
+}
+
+/**
+ * Normalise a coupon code for storage and lookup
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+function toCouponParams(input: CouponInput) {
+  return {
+    code: normalizeCouponCode(input.code),
+    description: input.description?.trim() || null,
+    discountType: input.discountType,
+    discountValue: input.discountType === 'FREE_SHIPPING' ? 0 : input.discountValue,
+    minimumSpend: input.minimumSpend ?? null,
+    usageLimit: input.usageLimit ?? null,
+    perUserLimit: input.perUserLimit ?? null,
+    startsAt: input.startsAt || null,
+    endsAt: input.endsAt || null,
+    categoryIds: input.categoryIds,
+    brands: input.brands.map((brand) => brand.trim().toLowerCase()).filter(Boolean),
+    isActive: input.isActive ?? true,
+  }
+}
+
+/**
+ * Get all coupons, newest first
+ */
+export async function getAllCoupons(session: Session): Promise<Coupon[]> {
+  const result = await session.run(
+    `
+    MATCH (c:Coupon)
+    ${COUPON_DETAILS}
+    ORDER BY c.createdAt DESC
+    `
+  )
+
+  return result.records.map((record) => mapToCoupon(record.get('coupon')))
+}
+
+/**
+ * Get a coupon by ID
+ */
+export async function getCouponById(session: Session, id: string): Promise<Coupon | null> {
+  const result = await session.run(
+    `
+    MATCH (c:Coupon {id: $id})
+    ${COUPON_DETAILS}
+    `,
+    { id }
+  )
+
+  if (result.records.length === 0) return null
+
+  return mapToCoupon(result.records[0].get('coupon'))
+}
+
+/**
+ * Get a coupon by code (case-insensitive)
+ */
+export async function getCouponByCode(session: Session, code: string): Promise<Coupon | null> {
+  const result = await session.run(
+    `
+    MATCH (c:Coupon {code: $code})
+    ${COUPON_DETAILS}
+    `,
+    { code: normalizeCouponCode(code) }
+  )
+
+  if (result.records.length === 0) return null
+
+  return mapToCoupon(result.records[0].get('coupon'))
+}
+
+/**
+ * Create a new coupon
+ */
+export async function createCoupon(session: Session, input: CouponInput): Promise<Coupon> {
+  const params = toCouponParams(input)
+
+  const existing = await session.run('MATCH (c:Coupon {code: $code}) RETURN c.id as id', {
+    code: params.code,
+  })
+  if (existing.records.length > 0) {
+    throw new Error(`A coupon with the code ${params.code} already exists`)
+  }
+
+  const id = uuidv4()
+  const now = new Date().toISOString()
+
+  await session.executeWrite(async (tx) => {
+    await tx.run(
+      `
+      CREATE (c:Coupon {
+        id: $id,
+        code: $code,
+        description: $description,
+        discountType: $discountType,
+        discountValue: $discountValue,
+        minimumSpend: $minimumSpend,
+        usageLimit: $usageLimit,
+        perUserLimit: $perUserLimit,
+        startsAt: $startsAt,
+        endsAt: $endsAt,
+        brands: $brands,
+        isActive: $isActive,
+        createdAt: $now,
+        updatedAt: $now
+      })
+      WITH c
+      UNWIND $categoryIds AS categoryId
+      MATCH (cat:Category {id: categoryId})
+      CREATE (c)-[:RESTRICTED_TO]->(cat)
+      `,
+      { id, now, ...params }
+    )
+  })
+
+  const coupon = await getCouponById(session, id)
+  if (!coupon) {
+    throw new Error('Failed to create coupon')
+  }
+  return coupon
+}
+
+/**
+ * Update a coupon (replaces all of its settings and category restrictions)
+ */
+export async function updateCoupon(
+  session: Session,
+  id: string,
+  input: CouponInput
+): Promise<Coupon | null> {
+  const params = toCouponParams(input)
+
+  const clash = await session.run(
+    'MATCH (c:Coupon {code: $code}) WHERE c.id <> $id RETURN c.id as id',
+    { id, code: params.code }
+  )
+  if (clash.records.length > 0) {
+    throw new Error(`A coupon with the code ${params.code} already exists`)
+  }
+
+  const updated = await session.executeWrite(async (tx) => {
+    const result = await tx.run(
+      `
+      MATCH (c:Coupon {id: $id})
+      SET c.code = $code,
+          c.description = $description,
+          c.discountType = $discountType,
+          c.discountValue = $discountValue,
+          c.minimumSpend = $minimumSpend,
+          c.usageLimit = $usageLimit,
+          c.perUserLimit = $perUserLimit,
+          c.startsAt = $startsAt,
+          c.endsAt = $endsAt,
+          c.brands = $brands,
+          c.isActive = $isActive,
+          c.updatedAt = $now
+      WITH c
+      OPTIONAL MATCH (c)-[r:RESTRICTED_TO]->(:Category)
+      DELETE r
+      RETURN DISTINCT c.id as id
+      `,
+      { id, now: new Date().toISOString(), ...params }
+    )
+
+    if (result.records.length === 0) return false
+
+    await tx.run(
+      `
+      MATCH (c:Coupon {id: $id})
+      UNWIND $categoryIds AS categoryId
+      MATCH (cat:Category {id: categoryId})
+      CREATE (c)-[:RESTRICTED_TO]->(cat)
+      `,
+      { id, categoryIds: params.categoryIds }
+    )
+
+    return true
+  })
+
+  if (!updated) return null
+
+  return getCouponById(session, id)
+}
+
+/**
+ * Enable or disable a coupon
+ */
+export async function setCouponActive(
+  session: Session,
+  id: string,
+  isActive: boolean
+): Promise<Coupon | null> {
+  const result = await session.run(
+    `
+    MATCH (c:Coupon {id: $id})
+    SET c.isActive = $isActive, c.updatedAt = $now
+    RETURN c.id as id
+    `,
+    { id, isActive, now: new Date().toISOString() }
+  )
+
+  if (result.records.length === 0) return null
+
+  return getCouponById(session, id)
+}
+
+/**
+ * Delete a coupon. Coupons that have been used on orders can only be disabled,
+ * so order history keeps pointing at them.
+ */
+export async function deleteCoupon(session: Session, id: string): Promise<boolean> {
+  const used = await session.run(
+    'MATCH (:Order)-[r:USED_COUPON]->(c:Coupon {id: $id}) RETURN count(r) as uses',
+    { id }
+  )
+  if (toNumber(used.records[0].get('uses')) > 0) {
+    throw new Error('This coupon has been used on orders. Disable it instead of deleting it.')
+  }
+
+  const result = await session.run(
+    `
+    MATCH (c:Coupon {id: $id})
+    DETACH DELETE c
+    RETURN count(c) as deleted
+    `,
+    { id }
+  )
+
+  return toNumber(result.records[0].get('deleted')) > 0
+}
+
+/**
+ * Count a customer's redemptions of a coupon (orders that weren't cancelled).
+ * Customers are matched by user ID or, for guests, by checkout email.
+ */
+export async function countCustomerRedemptions(
+  session: Session | ManagedTransaction,
+  couponId: string,
+  customer: { userId: string | null; email: string | null }
+): Promise<number> {
+  const result = await session.run(
+    `
+    MATCH (o:Order)-[:USED_COUPON]->(c:Coupon {id: $couponId})
+    WHERE o.status <> 'CANCELLED'
+      AND (($userId IS NOT NULL AND o.userId = $userId)
+        OR ($email IS NOT NULL AND o.guestEmail = $email))
+    RETURN count(o) as uses
+    `,
+    { couponId, userId: customer.userId, email: customer.email?.toLowerCase() ?? null }
+  )
+
+  return toNumber(result.records[0].get('uses'))
+}
+
+/**
+ * Of the given products, return those a coupon applies to.
+ * Returns null when the coupon has no category or brand restriction.
+ */
+export async function getEligibleProductIds(
+  session: Session,
+  coupon: Pick<Coupon, 'categoryIds' | 'brands'>,
+  productIds: string[]
+): Promise<string[] | null> {
+  if (coupon.categoryIds.length === 0 && coupon.brands.length === 0) {
+    return null
+  }
+
+  const result = await session.run(
+    `
+    UNWIND $productIds AS productId
+    MATCH (p:Product {id: productId})
+    WHERE (size($brands) = 0 OR toLower(p.brand) IN $brands)
+      AND (size($categoryIds) = 0 OR EXISTS {
+        MATCH (p)-[:HAS_CATEGORY]->(:Category)-[:CHILD_OF*0..]->(root:Category)
+        WHERE root.id IN $categoryIds
+      })
+    RETURN collect(DISTINCT p.id) as productIds
+    `,
+    { productIds, brands: coupon.brands, categoryIds: coupon.categoryIds }
+  )
+
+  return result.records[0].get('productIds')
+}
+
+/**
+ * Record a coupon against an order inside the order's transaction.
+ * Touching the coupon node takes a write lock, so concurrent checkouts using the
+ * same code are serialized, and the checks below read the coupon as it is now
+ * (an admin may have disabled or changed it since the cart was priced).
+ * Throws CouponError (rolling back the order) if it can no longer be used.
+ */
+export async function redeemCoupon(
+  tx: ManagedTransaction,
+  coupon: Pick<Coupon, 'id' | 'code'>,
+  orderId: string,
+  customer: { userId: string | null; email: string | null }
+): Promise<void> {
+  const now = new Date()
+  const locked = await tx.run(
+    `
+    MATCH (c:Coupon {id: $couponId})
+    SET c.lastRedeemedAt = $now
+    WITH c
+    ${COUPON_DETAILS}
+    `,
+    { couponId: coupon.id, now: now.toISOString() }
+  )
+
+  const current = locked.records[0] ? mapToCoupon(locked.records[0].get('coupon')) : null
+  if (
+    !current ||
+    !current.isActive ||
+    (current.startsAt && new Date(current.startsAt) > now) ||
+    (current.endsAt && new Date(current.endsAt) < now)
+  ) {
+    throw new CouponError(`Coupon ${coupon.code} is no longer available`)
+  }
+
+  if (current.usageLimit !== undefined && current.usageCount >= current.usageLimit) {
+    throw new CouponError(`Coupon ${coupon.code} has reached its usage limit`)
+  }
+
+  if (current.perUserLimit !== undefined) {
+    const uses = await countCustomerRedemptions(tx, coupon.id, customer)
+    if (uses >= current.perUserLimit) {
+      throw new CouponError(`You have already used coupon ${coupon.code}`)
+    }
+  }
+
+  await tx.run(
+    `
+    MATCH (o:Order {id: $orderId}), (c:Coupon {id: $couponId})
+    CREATE (o)-[:USED_COUPON]->(c)
+    `,
+    { orderId, couponId: coupon.id }
+  )
+}
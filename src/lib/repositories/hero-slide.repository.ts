@@ -1,5 +1,6 @@
 import { Session } from 'neo4j-driver'
 import { HeroSlide, HeroAnimationType, HeroColorTheme } from '@/lib/types'
+import { getStoreDate, scheduleCondition } from '@/lib/schedule'
 
 /**
  * Helper function to safely convert Neo4j integers to JavaScript numbers
@@ -26,22 +27,27 @@ function mapToHeroSlide(properties: any): HeroSlide {
     linkUrl: properties.linkUrl || undefined,
     displayOrder: toNumber(properties.displayOrder),
     isActive: properties.isActive,
+    startDate: properties.startDate || undefined,
+    endDate: properties.endDate || undefined,
     createdAt: properties.createdAt.toString(),
     updatedAt: properties.updatedAt.toString(),
   }
 }
 
 /**
- * Get all hero slides, optionally filtered to active only
+ * Get all hero slides, optionally filtered to the ones shown on the storefront:
+ * active and within their date window on storeDate (today in the store's timezone)
  */
 export async function getAllHeroSlides(
   session: Session,
-  activeOnly = false
+  activeOnly = false,
+  storeDate: string = getStoreDate()
 ): Promise<HeroSlide[]> {
   const query = activeOnly
     ? `
     MATCH (h:HeroSlide)
     WHERE h.isActive = true
+      AND ${scheduleCondition('h')}
     RETURN h
     ORDER BY h.displayOrder ASC
     `
@@ -51,7 +57,7 @@ export async function getAllHeroSlides(
     ORDER BY h.displayOrder ASC
     `
 
-  const result = await session.run(query)
+  const result = await session.run(query, { storeDate })
 
   return result.records.map((record) => mapToHeroSlide(record.get('h').properties))
 }
@@ -91,6 +97,8 @@ export async function createHeroSlide(
     linkUrl?: string
     displayOrder: number
     isActive?: boolean
+    startDate?: string
+    endDate?: string
   }
 ): Promise<HeroSlide> {
   const result = await session.run(
@@ -106,6 +114,8 @@ export async function createHeroSlide(
       linkUrl: $linkUrl,
       displayOrder: $displayOrder,
       isActive: $isActive,
+      startDate: $startDate,
+      endDate: $endDate,
       createdAt: $now,
       updatedAt: $now
     })
@@ -121,6 +131,8 @@ export async function createHeroSlide(
       linkUrl: data.linkUrl || null,
       displayOrder: data.displayOrder,
       isActive: data.isActive ?? true,
+      startDate: data.startDate || null,
+      endDate: data.endDate || null,
       now: new Date().toISOString(),
     }
   )
@@ -144,6 +156,8 @@ export async function updateHeroSlide(
     linkUrl: string
     displayOrder: number
     isActive: boolean
+    startDate: string
+    endDate: string
   }>
 ): Promise<HeroSlide | null> {
   const updates: string[] = []
@@ -185,6 +199,14 @@ export async function updateHeroSlide(
     updates.push('h.isActive = $isActive')
     params.isActive = data.isActive
   }
+  if (data.startDate !== undefined) {
+    updates.push('h.startDate = $startDate')
+    params.startDate = data.startDate || null
+  }
+  if (data.endDate !== undefined) {
+    updates.push('h.endDate = $endDate')
+    params.endDate = data.endDate || null
+  }
 
   if (updates.length === 0) return null
 
@@ -1,6 +1,38 @@
+import type { ManagedTransaction } from 'neo4j-driver'
 import { getSession } from '../db'
 import { v4 as uuidv4 } from 'uuid'
-import type { Order, OrderItem, OrderStatus, ShippingAddress, DeliveryMethod } from '../types'
+import type {
+  Coupon,
+  Order,
+  OrderItem,
+  OrderStatus,
+  OrderEvent,
+  OrderActor,
+  OrderRefund,
+  OrderRefundInput,
+  PaymentSubmission,
+  ReturnRequest,
+  ShippingAddress,
+  DeliveryMethod,
+} from '../types'
+import {
+  canRefundItems,
+  canSubmitPayment,
+  canTransition,
+  holdsStock,
+  releasesStock,
+  requiresPaymentReview,
+} from '../order-lifecycle'
+import { roundCurrency } from '../pricing'
+import { formatOrderNumber, normalizeOrderNumber } from '../order-number'
+import { getStoreDate } from '../schedule'
+import { shopConfig } from '@/config/shop'
+import { redeemCoupon } from './coupon.repository'
+import {
+  recordPromotionalSales,
+  releaseOrderItemPromotionalSales,
+  releasePromotionalSales,
+} from './promotional-category.repository'
 
 export interface OrderWithItems extends Order {
   items: (OrderItem & {
@@ -18,27 +50,289 @@ export interface OrderWithItems extends Order {
       images: string[]
     }
   })[]
+  events: OrderEvent[]
+  paymentSubmissions: PaymentSubmission[]
+  refunds: OrderRefund[]
+  returns: ReturnRequest[]
 }
 
+export interface OrderStatusChange {
+  order: Order
+  event: OrderEvent
+}
+
+export interface PaymentReviewResult extends OrderStatusChange {
+  submission: PaymentSubmission
+}
+
+// Collects items, status events, payment submissions, line-item refunds and return requests for each matched `o`
+const ORDER_DETAILS = `
+  OPTIONAL MATCH (o)-[:HAS_ITEM]->(oi:OrderItem)-[:ITEM_OF_VARIANT]->(v:ProductVariant)-[:VARIANT_OF]->(p:Product)
+  WITH o, collect({
+    orderItem: oi {.*},
+    product: p {.id, .name, .brand, .sku, .images},
+    variant: v {.*}
+  }) as items
+  OPTIONAL MATCH (o)-[:HAS_EVENT]->(e:OrderEvent)
+  WITH o, items, collect(e {.*}) as events
+  OPTIONAL MATCH (o)-[:HAS_PAYMENT_SUBMISSION]->(ps:PaymentSubmission)
+  WITH o, items, events, collect(ps {.*}) as paymentSubmissions
+  OPTIONAL MATCH (o)-[:HAS_REFUND]->(rf:OrderRefund)
+  WITH o, items, events, paymentSubmissions, collect(rf {.*}) as refunds
+  OPTIONAL MATCH (o)-[:HAS_RETURN]->(rr:ReturnRequest)
+  WITH o, items, events, paymentSubmissions, refunds, collect(rr {.*}) as returns
+  RETURN o {.*, items: items, events: events, paymentSubmissions: paymentSubmissions, refunds: refunds, returns: returns}
+`
+
 export interface CreateOrderInput {
-  userId: string
+  /** null for guest checkout */
+  userId: string | null
+  /** Contact email for guest orders; used to look the order up and to link it on signup */
+  guestEmail?: string
   items: {
     variantId: string
     quantity: number
     priceAtPurchase: number
+    /** Promotional section the item was added from */
+    promotionalCategoryId?: string
   }[]
   shippingAddress: ShippingAddress
   deliveryMethod: DeliveryMethod
+  /** Language for the customer's order emails */
+  locale?: string
+  subtotal: number
+  discountAmount: number
+  /** Coupon to redeem; redeemCoupon re-reads it and checks its limits inside the transaction */
+  coupon?: Pick<Coupon, 'id' | 'code'>
+  shippingCost: number
+  taxAmount: number
   totalAmount: number
+  /** Empty the user's cart as part of the same transaction (guest carts live in a cookie) */
+  clearCart?: boolean
+}
+
+/**
+ * Helper function to safely convert Neo4j integers to JavaScript numbers
+ */
+function toNumber(value: any): number {
+  if (value && typeof value.toNumber === 'function') {
+    return value.toNumber()
+  }
+  return Number(value)
+}
+
+export interface StockShortage {
+  variantId: string
+  productName: string
+  size: string
+  color: string
+  requested: number
+  available: number
+}
+
+/**
+ * Thrown when one or more order lines cannot be fulfilled from current stock.
+ * The order is not created and no stock is changed.
+ */
+export class InsufficientStockError extends Error {
+  readonly shortages: StockShortage[]
+
+  constructor(shortages: StockShortage[]) {
+    super(
+      shortages
+        .map(
+          (s) =>
+            `Insufficient stock for ${s.productName} (${s.size}, ${s.color}): requested ${s.requested}, only ${Math.max(s.available, 0)} available`
+        )
+        .join('; ')
+    )
+    this.name = 'InsufficientStockError'
+    this.shortages = shortages
+  }
 }
 
 /**
- * Create a new order
+ * Decrement variant stock for every order line.
+ * SET takes a write lock on each variant, so concurrent checkouts for the same
+ * variant are serialized and the post-decrement check sees the real quantity.
+ * Throws InsufficientStockError (rolling back the transaction) if any line goes negative.
+ */
+async function reserveStock(
+  tx: ManagedTransaction,
+  items: { variantId: string; quantity: number }[]
+): Promise<void> {
+  // A negative or fractional quantity would add stock rather than take it
+  const invalid = items.find((item) => !Number.isInteger(item.quantity) || item.quantity < 1)
+  if (invalid) {
+    throw new Error(`Invalid quantity for product variant ${invalid.variantId}`)
+  }
+
+  const result = await tx.run(
+    `
+    UNWIND $items AS item
+    MATCH (v:ProductVariant {id: item.variantId})-[:VARIANT_OF]->(p:Product)
+    SET v.stockQuantity = COALESCE(v.stockQuantity, 0) - item.quantity
+    RETURN v.id as variantId, p.name as productName, v.size as size, v.color as color,
+           item.quantity as requested, v.stockQuantity as remaining
+    `,
+    { items: items.map((item) => ({ variantId: item.variantId, quantity: item.quantity })) }
+  )
+
+  const found = new Set(result.records.map((record) => record.get('variantId')))
+  const missing = items.filter((item) => !found.has(item.variantId))
+  if (missing.length > 0) {
+    throw new Error(`Product variant not found: ${missing.map((item) => item.variantId).join(', ')}`)
+  }
+
+  const shortages: StockShortage[] = result.records
+    .filter((record) => toNumber(record.get('remaining')) < 0)
+    .map((record) => {
+      const requested = toNumber(record.get('requested'))
+      return {
+        variantId: record.get('variantId'),
+        productName: record.get('productName'),
+        size: record.get('size'),
+        color: record.get('color'),
+        requested,
+        available: toNumber(record.get('remaining')) + requested,
+      }
+    })
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages)
+  }
+}
+
+/**
+ * Take the next order number from this year's counter.
+ * MERGE on the uniquely-constrained key and the increment both lock the counter node,
+ * so concurrent checkouts get consecutive numbers; a rolled-back order releases its number.
+ */
+async function nextOrderNumber(tx: ManagedTransaction): Promise<string> {
+  const year = getStoreDate().slice(0, 4)
+  const prefix = shopConfig.orderNumberPrefix.toUpperCase()
+
+  const result = await tx.run(
+    `
+    MERGE (c:OrderCounter {key: $key})
+    ON CREATE SET c.prefix = $prefix, c.year = $year, c.value = 0
+    SET c.value = c.value + 1
+    RETURN c.value as value
+    `,
+    { key: `${prefix}-${year}`, prefix, year }
+  )
+
+  return formatOrderNumber(year, toNumber(result.records[0].get('value')), prefix)
+}
+
+/**
+ * Return the stock held by an order's items to their variants
+ * (units already cancelled line by line were restocked at the time)
+ */
+async function releaseStock(tx: ManagedTransaction, orderId: string): Promise<void> {
+  await tx.run(
+    `
+    MATCH (o:Order {id: $orderId})-[:HAS_ITEM]->(oi:OrderItem)-[:ITEM_OF_VARIANT]->(v:ProductVariant)
+    SET v.stockQuantity = COALESCE(v.stockQuantity, 0) + oi.quantity - COALESCE(oi.cancelledQuantity, 0)
+    `,
+    { orderId }
+  )
+}
+
+/**
+ * Record a status change as an OrderEvent on the order's timeline
+ */
+async function recordOrderEvent(
+  tx: ManagedTransaction,
+  orderId: string,
+  fromStatus: OrderStatus | null,
+  toStatus: OrderStatus,
+  actor: OrderActor | null,
+  note?: string
+): Promise<OrderEvent> {
+  const result = await tx.run(
+    `
+    MATCH (o:Order {id: $orderId})
+    CREATE (e:OrderEvent {
+      id: $id,
+      orderId: $orderId,
+      fromStatus: $fromStatus,
+      toStatus: $toStatus,
+      actorId: $actorId,
+      actorEmail: $actorEmail,
+      actorRole: $actorRole,
+      note: $note,
+      createdAt: $createdAt
+    })
+    CREATE (o)-[:HAS_EVENT]->(e)
+    RETURN e {.*}
+    `,
+    {
+      id: uuidv4(),
+      orderId,
+      fromStatus,
+      toStatus,
+      actorId: actor?.userId ?? null,
+      actorEmail: actor?.email ?? null,
+      actorRole: actor?.role ?? null,
+      note: note?.trim() || null,
+      createdAt: new Date().toISOString(),
+    }
+  )
+
+  return result.records[0].get('e')
+}
+
+/**
+ * Map a raw order map (with items and events) returned by Cypher to OrderWithItems
+ */
+function toOrderWithItems(orderData: any): OrderWithItems {
+  const items = orderData.items.map((item: any) => ({
+    ...item.orderItem,
+    product: item.product,
+    variant: item.variant,
+  }))
+
+  const events = [...(orderData.events ?? [])].sort((a: OrderEvent, b: OrderEvent) =>
+    a.createdAt.localeCompare(b.createdAt)
+  )
+
+  const paymentSubmissions = [...(orderData.paymentSubmissions ?? [])].sort(
+    (a: PaymentSubmission, b: PaymentSubmission) => a.submittedAt.localeCompare(b.submittedAt)
+  )
+
+  const refunds = [...(orderData.refunds ?? [])].sort((a: OrderRefund, b: OrderRefund) =>
+    a.createdAt.localeCompare(b.createdAt)
+  )
+
+  const returns = [...(orderData.returns ?? [])].sort((a: ReturnRequest, b: ReturnRequest) =>
+    a.createdAt.localeCompare(b.createdAt)
+  )
+
+  return {
+    ...orderData,
+    shippingAddress: JSON.parse(orderData.shippingAddress),
+    items,
+    events,
+    paymentSubmissions,
+    refunds,
+    returns,
+  }
+}
+
+/**
+ * Create a new order.
+ * Stock reservation, the order and its items, promotional section sales, coupon
+ * redemption and (optionally) clearing the user's cart all run in a single write
+ * transaction, so either the whole order exists or nothing changes.
  */
 export async function createOrder(input: CreateOrderInput): Promise<Order> {
   if (input.items.length === 0) {
     throw new Error('Order must contain at least one item')
   }
+  if (input.items.some((item) => !Number.isInteger(item.quantity) || item.quantity < 1)) {
+    throw new Error('Item quantities must be whole numbers of at least 1')
+  }
   if (input.totalAmount <= 0) {
     throw new Error('Total amount must be greater than 0')
   }
@@ -46,67 +340,128 @@ export async function createOrder(input: CreateOrderInput): Promise<Order> {
   const session = getSession()
   try {
     const orderId = uuidv4()
-    const orderNumber = `FB-${Date.now()}`
     const now = new Date().toISOString()
+    const orderItems = input.items.map((item) => ({ ...item, id: uuidv4() }))
 
-    // Create the order node
-    const orderResult = await session.run(
-      `
-      MATCH (u:User {id: $userId})
-      CREATE (o:Order {
-        id: $orderId,
-        orderNumber: $orderNumber,
-        userId: $userId,
-        status: $status,
-        totalAmount: $totalAmount,
-        shippingAddress: $shippingAddress,
-        deliveryMethod: $deliveryMethod,
-        createdAt: $createdAt,
-        updatedAt: $createdAt
-      })
-      CREATE (u)-[:PLACED_ORDER]->(o)
-      RETURN o {.*}
-      `,
-      {
-        orderId,
-        orderNumber,
-        userId: input.userId,
-        status: 'PENDING' as OrderStatus,
-        totalAmount: input.totalAmount,
-        shippingAddress: JSON.stringify(input.shippingAddress),
-        deliveryMethod: input.deliveryMethod,
-        createdAt: now,
-      }
-    )
+    const order = await session.executeWrite(async (tx) => {
+      await reserveStock(tx, input.items)
 
-    const order = orderResult.records[0].get('o')
+      const orderNumber = await nextOrderNumber(tx)
 
-    // Create order items
-    for (const item of input.items) {
-      const itemId = uuidv4()
-      await session.run(
+      // Create the order node (linked to the user unless it's a guest order)
+      const orderResult = await tx.run(
+        `
+        OPTIONAL MATCH (u:User {id: $userId})
+        WITH u WHERE u IS NOT NULL OR $userId IS NULL
+        CREATE (o:Order {
+          id: $orderId,
+          orderNumber: $orderNumber,
+          userId: u.id,
+          guestEmail: $guestEmail,
+          status: $status,
+          subtotal: $subtotal,
+          discountAmount: $discountAmount,
+          couponCode: $couponCode,
+          shippingCost: $shippingCost,
+          taxAmount: $taxAmount,
+          totalAmount: $totalAmount,
+          shippingAddress: $shippingAddress,
+          deliveryMethod: $deliveryMethod,
+          locale: $locale,
+          createdAt: $createdAt,
+          updatedAt: $createdAt
+        })
+        FOREACH (_ IN CASE WHEN u IS NULL THEN [] ELSE [1] END | CREATE (u)-[:PLACED_ORDER]->(o))
+        CREATE (o)-[:HAS_EVENT]->(:OrderEvent {
+          id: $eventId,
+          orderId: $orderId,
+          toStatus: $status,
+          actorId: u.id,
+          actorEmail: COALESCE(u.email, $guestEmail),
+          actorRole: COALESCE(u.role, 'GUEST'),
+          createdAt: $createdAt
+        })
+        RETURN o {.*}
+        `,
+        {
+          orderId,
+          eventId: uuidv4(),
+          orderNumber,
+          userId: input.userId,
+          guestEmail: input.userId ? null : input.guestEmail?.toLowerCase() ?? null,
+          status: 'PENDING' as OrderStatus,
+          subtotal: input.subtotal,
+          discountAmount: input.discountAmount,
+          couponCode: input.coupon?.code ?? null,
+          shippingCost: input.shippingCost,
+          taxAmount: input.taxAmount,
+          totalAmount: input.totalAmount,
+          shippingAddress: JSON.stringify(input.shippingAddress),
+          deliveryMethod: input.deliveryMethod,
+          locale: input.locale ?? null,
+          createdAt: now,
+        }
+      )
+
+      if (orderResult.records.length === 0) {
+        throw new Error('User not found')
+      }
+
+      // Create all order items in one statement
+      await tx.run(
         `
         MATCH (o:Order {id: $orderId})
-        MATCH (v:ProductVariant {id: $variantId})
+        UNWIND $items AS item
+        MATCH (v:ProductVariant {id: item.variantId})
         CREATE (oi:OrderItem {
-          id: $itemId,
+          id: item.id,
           orderId: $orderId,
-          variantId: $variantId,
-          quantity: $quantity,
-          priceAtPurchase: $priceAtPurchase
+          variantId: item.variantId,
+          quantity: item.quantity,
+          priceAtPurchase: item.priceAtPurchase
         })
         CREATE (o)-[:HAS_ITEM]->(oi)
         CREATE (oi)-[:ITEM_OF_VARIANT]->(v)
         `,
         {
           orderId,
-          itemId,
-          variantId: item.variantId,
-          quantity: item.quantity,
-          priceAtPurchase: item.priceAtPurchase,
+          items: orderItems.map((item) => ({
+            id: item.id,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            priceAtPurchase: item.priceAtPurchase,
+          })),
         }
       )
-    }
+
+      await recordPromotionalSales(
+        tx,
+        orderItems.flatMap((item) =>
+          item.promotionalCategoryId
+            ? [{ orderItemId: item.id, promotionalCategoryId: item.promotionalCategoryId, quantity: item.quantity }]
+            : []
+        )
+      )
+
+      if (input.coupon) {
+        await redeemCoupon(tx, input.coupon, orderId, {
+          userId: input.userId,
+          email: input.userId ? null : input.guestEmail ?? null,
+        })
+      }
+
+      if (input.clearCart && input.userId) {
+        await tx.run(
+          `
+          MATCH (u:User {id: $userId})-[:HAS_CART_ITEM]->(c:CartItem)
+          DETACH DELETE c
+          `,
+          { userId: input.userId }
+        )
+      }
+
+      return orderResult.records[0].get('o')
+    })
 
     // Parse shippingAddress back from JSON
     return {
@@ -127,33 +482,67 @@ export async function getOrderById(orderId: string): Promise<OrderWithItems | nu
     const result = await session.run(
       `
       MATCH (o:Order {id: $orderId})
-      OPTIONAL MATCH (o)-[:HAS_ITEM]->(oi:OrderItem)-[:ITEM_OF_VARIANT]->(v:ProductVariant)-[:VARIANT_OF]->(p:Product)
-      WITH o, collect({
-        orderItem: oi {.*},
-        product: p {.id, .name, .brand, .sku, .images},
-        variant: v {.*}
-      }) as items
-      RETURN o {.*, items: items}
+      ${ORDER_DETAILS}
       `,
       { orderId }
     )
 
     if (result.records.length === 0) return null
 
-    const orderData = result.records[0].get('o')
+    return toOrderWithItems(result.records[0].get('o'))
+  } finally {
+    await session.close()
+  }
+}
 
-    // Transform the items to match the expected structure
-    const items = orderData.items.map((item: any) => ({
-      ...item.orderItem,
-      product: item.product,
-      variant: item.variant,
-    }))
+/**
+ * Find a guest order by its order number (either form) and checkout email
+ */
+export async function getGuestOrderByNumber(
+  orderNumber: string,
+  email: string
+): Promise<OrderWithItems | null> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (o:Order {orderNumber: $orderNumber})
+      WHERE o.guestEmail = $email
+      ${ORDER_DETAILS}
+      `,
+      { orderNumber: normalizeOrderNumber(orderNumber), email: email.trim().toLowerCase() }
+    )
 
-    return {
-      ...orderData,
-      shippingAddress: JSON.parse(orderData.shippingAddress),
-      items,
-    }
+    if (result.records.length === 0) return null
+
+    return toOrderWithItems(result.records[0].get('o'))
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Attach guest orders placed with an email to the user account that now owns it.
+ * Returns the number of orders linked.
+ */
+export async function linkGuestOrdersToUser(userId: string, email: string): Promise<number> {
+  const session = getSession()
+  try {
+    const result = await session.executeWrite((tx) =>
+      tx.run(
+        `
+        MATCH (u:User {id: $userId})
+        MATCH (o:Order)
+        WHERE o.userId IS NULL AND o.guestEmail = $email
+        SET o.userId = u.id
+        CREATE (u)-[:PLACED_ORDER]->(o)
+        RETURN count(o) as linked
+        `,
+        { userId, email: email.trim().toLowerCase() }
+      )
+    )
+
+    return toNumber(result.records[0]?.get('linked') ?? 0)
   } finally {
     await session.close()
   }
@@ -168,64 +557,271 @@ export async function getUserOrders(userId: string): Promise<OrderWithItems[]> {
     const result = await session.run(
       `
       MATCH (u:User {id: $userId})-[:PLACED_ORDER]->(o:Order)
-      OPTIONAL MATCH (o)-[:HAS_ITEM]->(oi:OrderItem)-[:ITEM_OF_VARIANT]->(v:ProductVariant)-[:VARIANT_OF]->(p:Product)
-      WITH o, collect({
-        orderItem: oi {.*},
-        product: p {.id, .name, .brand, .sku, .images},
-        variant: v {.*}
-      }) as items
-      RETURN o {.*, items: items}
+      ${ORDER_DETAILS}
       ORDER BY o.createdAt DESC
       `,
       { userId }
     )
 
-    return result.records.map((record) => {
-      const orderData = record.get('o')
-      const items = orderData.items.map((item: any) => ({
-        ...item.orderItem,
-        product: item.product,
-        variant: item.variant,
-      }))
+    return result.records.map((record) => toOrderWithItems(record.get('o')))
+  } finally {
+    await session.close()
+  }
+}
 
-      return {
-        ...orderData,
-        shippingAddress: JSON.parse(orderData.shippingAddress),
-        items,
+/**
+ * Update order status.
+ * Rejects transitions the lifecycle doesn't allow, records the change as an
+ * OrderEvent, and returns stock (and promotional section allocations) when an order is
+ * cancelled or refunded before dispatch.
+ */
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  actor: OrderActor | null,
+  note?: string
+): Promise<OrderStatusChange> {
+  const session = getSession()
+  try {
+    const now = new Date().toISOString()
+
+    const { order, event } = await session.executeWrite(async (tx) => {
+      const current = await tx.run(
+        `
+        MATCH (o:Order {id: $orderId})
+        RETURN o.status as status, o.deliveryMethod as deliveryMethod
+        `,
+        { orderId }
+      )
+
+      if (current.records.length === 0) {
+        throw new Error('Order not found')
       }
+
+      const previousStatus: OrderStatus = current.records[0].get('status')
+      const deliveryMethod: DeliveryMethod = current.records[0].get('deliveryMethod')
+
+      if (!canTransition(previousStatus, status, deliveryMethod)) {
+        throw new Error(`Cannot change order status from ${previousStatus} to ${status}`)
+      }
+
+      if (requiresPaymentReview(previousStatus, status)) {
+        throw new Error('Approve or reject the submitted payment proof instead')
+      }
+
+      if (releasesStock(previousStatus, status)) {
+        await releaseStock(tx, orderId)
+        await releasePromotionalSales(tx, orderId)
+      }
+
+      const result = await tx.run(
+        `
+        MATCH (o:Order {id: $orderId})
+        SET o.status = $status, o.updatedAt = $updatedAt
+        RETURN o {.*}
+        `,
+        { orderId, status, updatedAt: now }
+      )
+
+      const event = await recordOrderEvent(tx, orderId, previousStatus, status, actor, note)
+
+      return { order: result.records[0].get('o'), event }
     })
+
+    // Parse shippingAddress back from JSON
+    return {
+      order: {
+        ...order,
+        shippingAddress: JSON.parse(order.shippingAddress),
+      },
+      event,
+    }
   } finally {
     await session.close()
   }
 }
 
 /**
- * Update order status
+ * What the customer paid for an order line: its share of the order's discount is
+ * taken off in proportion to the line's part of the subtotal
  */
-export async function updateOrderStatus(
+function paidForLine(lineTotal: number, subtotal: number, discountAmount: number): number {
+  if (!(subtotal > 0) || !(discountAmount > 0)) {
+    return lineTotal
+  }
+  return roundCurrency((lineTotal * Math.max(subtotal - discountAmount, 0)) / subtotal)
+}
+
+/**
+ * Cancel some or all units of one order line and record the refund given for them,
+ * inside the caller's transaction. The refund is taken off the order total, the units
+ * go back to stock (always while the order still holds its stock, otherwise only when
+ * `restock` says the goods came back), and an order whose every unit has been cancelled
+ * moves to CANCELLED (or REFUNDED once dispatched) when the lifecycle allows it.
+ * Refunds on a line never add up to more than was paid for it after discounts.
+ */
+export async function applyOrderItemRefund(
+  tx: ManagedTransaction,
   orderId: string,
-  status: OrderStatus
-): Promise<Order> {
+  input: OrderRefundInput,
+  actor: OrderActor
+): Promise<OrderRefund> {
+  if (!Number.isInteger(input.quantity) || input.quantity < 1) {
+    throw new Error('Quantity must be a whole number of at least 1')
+  }
+  if (!(input.amount >= 0)) {
+    throw new Error('Refund amount cannot be negative')
+  }
+  if (input.amount > 0 && input.method === 'NONE') {
+    throw new Error('Choose how the refund is paid')
+  }
+
+  const now = new Date().toISOString()
+  const amount = roundCurrency(input.amount)
+
+  // Touching the order takes its write lock so concurrent refunds see each other's totals
+  const current = await tx.run(
+    `
+    MATCH (o:Order {id: $orderId})-[:HAS_ITEM]->(oi:OrderItem {id: $orderItemId})
+    SET o.updatedAt = $now
+    WITH o, oi
+    OPTIONAL MATCH (o)-[:HAS_REFUND]->(rf:OrderRefund {orderItemId: oi.id})
+    WITH o, oi, COALESCE(sum(rf.amount), 0) as refundedForItem
+    RETURN o.status as status, o.deliveryMethod as deliveryMethod,
+           o.totalAmount as totalAmount, COALESCE(o.refundedAmount, 0) as refundedAmount,
+           o.subtotal as subtotal, COALESCE(o.discountAmount, 0) as discountAmount,
+           oi.quantity - COALESCE(oi.cancelledQuantity, 0) as remaining,
+           oi.priceAtPurchase * oi.quantity as lineTotal,
+           refundedForItem
+    `,
+    { orderId, orderItemId: input.orderItemId, now }
+  )
+
+  if (current.records.length === 0) {
+    throw new Error('Order item not found')
+  }
+
+  const status: OrderStatus = current.records[0].get('status')
+  const deliveryMethod: DeliveryMethod = current.records[0].get('deliveryMethod')
+  const totalAmount = toNumber(current.records[0].get('totalAmount'))
+  const refundedAmount = toNumber(current.records[0].get('refundedAmount'))
+  const remaining = toNumber(current.records[0].get('remaining'))
+  const refundableForItem = roundCurrency(
+    paidForLine(
+      toNumber(current.records[0].get('lineTotal')),
+      toNumber(current.records[0].get('subtotal')),
+      toNumber(current.records[0].get('discountAmount'))
+    ) - toNumber(current.records[0].get('refundedForItem'))
+  )
+
+  if (!canRefundItems(status)) {
+    throw new Error(`Items can no longer be cancelled on an order in status ${status}`)
+  }
+  if (input.quantity > remaining) {
+    throw new Error(`Only ${remaining} of this item can still be cancelled`)
+  }
+  if (amount > refundableForItem) {
+    throw new Error(`Refund cannot exceed the Rs ${refundableForItem.toFixed(2)} left to refund on this item`)
+  }
+  if (amount > totalAmount) {
+    throw new Error(`Refund cannot exceed the order total of Rs ${totalAmount.toFixed(2)}`)
+  }
+
+  const stockHeld = holdsStock(status)
+  const restock = stockHeld || input.restock
+
+  const result = await tx.run(
+    `
+    MATCH (o:Order {id: $orderId})-[:HAS_ITEM]->(oi:OrderItem {id: $orderItemId})-[:ITEM_OF_VARIANT]->(v:ProductVariant)
+    SET oi.cancelledQuantity = COALESCE(oi.cancelledQuantity, 0) + $quantity,
+        o.totalAmount = $totalAmount,
+        o.refundedAmount = $refundedAmount
+    FOREACH (_ IN CASE WHEN $restock THEN [1] ELSE [] END |
+      SET v.stockQuantity = COALESCE(v.stockQuantity, 0) + $quantity)
+    CREATE (rf:OrderRefund {
+      id: $refundId,
+      orderId: $orderId,
+      orderItemId: $orderItemId,
+      quantity: $quantity,
+      amount: $amount,
+      method: $method,
+      restocked: $restock,
+      reason: $reason,
+      actorEmail: $actorEmail,
+      createdAt: $now
+    })
+    CREATE (o)-[:HAS_REFUND]->(rf)
+    RETURN rf {.*}
+    `,
+    {
+      orderId,
+      orderItemId: input.orderItemId,
+      refundId: uuidv4(),
+      quantity: input.quantity,
+      amount,
+      method: input.method,
+      restock,
+      reason: input.reason?.trim() || null,
+      actorEmail: actor.email,
+      totalAmount: roundCurrency(totalAmount - amount),
+      refundedAmount: roundCurrency(refundedAmount + amount),
+      now,
+    }
+  )
+
+  if (stockHeld) {
+    await releaseOrderItemPromotionalSales(tx, input.orderItemId, input.quantity)
+  }
+
+  const left = await tx.run(
+    `
+    MATCH (o:Order {id: $orderId})-[:HAS_ITEM]->(oi:OrderItem)
+    RETURN sum(oi.quantity - COALESCE(oi.cancelledQuantity, 0)) as remaining
+    `,
+    { orderId }
+  )
+
+  // Nothing left to fulfil; stock and promotional units were already returned line by line
+  const nextStatus: OrderStatus = stockHeld ? 'CANCELLED' : 'REFUNDED'
+  if (
+    toNumber(left.records[0].get('remaining')) === 0 &&
+    canTransition(status, nextStatus, deliveryMethod)
+  ) {
+    await tx.run(
+      `
+      MATCH (o:Order {id: $orderId})
+      SET o.status = $status
+      `,
+      { orderId, status: nextStatus }
+    )
+    await recordOrderEvent(tx, orderId, status, nextStatus, actor, 'All items cancelled')
+  }
+
+  return result.records[0].get('rf')
+}
+
+/**
+ * Cancel some or all units of one order line (see applyOrderItemRefund)
+ * and return the updated order
+ */
+export async function refundOrderItem(
+  orderId: string,
+  input: OrderRefundInput,
+  actor: OrderActor
+): Promise<OrderWithItems> {
   const session = getSession()
   try {
-    const now = new Date().toISOString()
+    await session.executeWrite((tx) => applyOrderItemRefund(tx, orderId, input, actor))
 
     const result = await session.run(
       `
       MATCH (o:Order {id: $orderId})
-      SET o.status = $status, o.updatedAt = $updatedAt
-      RETURN o {.*}
+      ${ORDER_DETAILS}
       `,
-      { orderId, status, updatedAt: now }
+      { orderId }
     )
 
-    const order = result.records[0].get('o')
-
-    // Parse shippingAddress back from JSON
-    return {
-      ...order,
-      shippingAddress: JSON.parse(order.shippingAddress),
-    }
+    return toOrderWithItems(result.records[0].get('o'))
   } finally {
     await session.close()
   }
@@ -262,30 +858,80 @@ export async function getAllOrders(): Promise<OrderWithItems[]> {
     const result = await session.run(
       `
       MATCH (o:Order)
-      OPTIONAL MATCH (o)-[:HAS_ITEM]->(oi:OrderItem)-[:ITEM_OF_VARIANT]->(v:ProductVariant)-[:VARIANT_OF]->(p:Product)
-      WITH o, collect({
-        orderItem: oi {.*},
-        product: p {.id, .name, .brand, .sku, .images},
-        variant: v {.*}
-      }) as items
-      RETURN o {.*, items: items}
+      ${ORDER_DETAILS}
       ORDER BY o.createdAt DESC
       `
     )
 
-    return result.records.map((record) => {
-      const orderData = record.get('o')
-      const items = orderData.items.map((item: any) => ({
-        ...item.orderItem,
-        product: item.product,
-        variant: item.variant,
-      }))
+    return result.records.map((record) => toOrderWithItems(record.get('o')))
+  } finally {
+    await session.close()
+  }
+}
 
-      return {
-        ...orderData,
-        shippingAddress: JSON.parse(orderData.shippingAddress),
-        items,
+/**
+ * Submit payment proof for an order.
+ * Every submission is kept as a PaymentSubmission awaiting review; the order moves
+ * to PAYMENT_SUBMITTED and no further proof is accepted until an admin rejects it.
+ */
+export async function submitPaymentProof(
+  orderId: string,
+  actor: OrderActor,
+  fileKey: string,
+  fileType: string
+): Promise<PaymentSubmission> {
+  const session = getSession()
+  try {
+    const now = new Date().toISOString()
+
+    return await session.executeWrite(async (tx) => {
+      // Customers own orders by user id; guests by the email they checked out with
+      const current = await tx.run(
+        `
+        MATCH (o:Order {id: $orderId})
+        WHERE CASE WHEN $userId IS NULL THEN o.guestEmail = $email ELSE o.userId = $userId END
+        RETURN o.status as status
+        `,
+        { orderId, userId: actor.userId ?? null, email: actor.email.toLowerCase() }
+      )
+
+      if (current.records.length === 0) {
+        throw new Error('Order not found or does not belong to user')
       }
+
+      const previousStatus: OrderStatus = current.records[0].get('status')
+      if (!canSubmitPayment(previousStatus)) {
+        throw new Error('Payment proof can no longer be submitted for this order')
+      }
+
+      const result = await tx.run(
+        `
+        MATCH (o:Order {id: $orderId})
+        SET o.paymentProof = $fileKey, o.status = $status, o.updatedAt = $now
+        CREATE (ps:PaymentSubmission {
+          id: $submissionId,
+          orderId: $orderId,
+          fileKey: $fileKey,
+          fileType: $fileType,
+          status: 'PENDING_REVIEW',
+          submittedAt: $now
+        })
+        CREATE (o)-[:HAS_PAYMENT_SUBMISSION]->(ps)
+        RETURN ps {.*}
+        `,
+        {
+          orderId,
+          submissionId: uuidv4(),
+          fileKey,
+          fileType,
+          status: 'PAYMENT_SUBMITTED' as OrderStatus,
+          now,
+        }
+      )
+
+      await recordOrderEvent(tx, orderId, previousStatus, 'PAYMENT_SUBMITTED', actor)
+
+      return result.records[0].get('ps')
     })
   } finally {
     await session.close()
@@ -293,36 +939,96 @@ export async function getAllOrders(): Promise<OrderWithItems[]> {
 }
 
 /**
- * Update order payment proof
+ * Approve or reject the payment submission currently under review.
+ * Approval moves the order to PAYMENT_VERIFIED; rejection returns it to PENDING
+ * so the customer can upload new proof, and the reason is shown to them.
  */
-export async function updateOrderPaymentProof(
+export async function reviewPaymentProof(
   orderId: string,
-  userId: string,
-  paymentProof: string
-): Promise<Order> {
+  decision: 'APPROVED' | 'REJECTED',
+  actor: OrderActor,
+  reason?: string
+): Promise<PaymentReviewResult> {
+  if (decision === 'REJECTED' && !reason?.trim()) {
+    throw new Error('A reason is required to reject payment proof')
+  }
+
   const session = getSession()
   try {
     const now = new Date().toISOString()
+    const nextStatus: OrderStatus = decision === 'APPROVED' ? 'PAYMENT_VERIFIED' : 'PENDING'
 
-    const result = await session.run(
-      `
-      MATCH (o:Order {id: $orderId, userId: $userId})
-      SET o.paymentProof = $paymentProof, o.updatedAt = $updatedAt
-      RETURN o {.*}
-      `,
-      { orderId, userId, paymentProof, updatedAt: now }
-    )
+    const { order, event, submission } = await session.executeWrite(async (tx) => {
+      const current = await tx.run(
+        `
+        MATCH (o:Order {id: $orderId})-[:HAS_PAYMENT_SUBMISSION]->(ps:PaymentSubmission {status: 'PENDING_REVIEW'})
+        RETURN o.status as status, ps.id as submissionId
+        ORDER BY ps.submittedAt DESC
+        LIMIT 1
+        `,
+        { orderId }
+      )
 
-    if (result.records.length === 0) {
-      throw new Error('Order not found or does not belong to user')
-    }
+      if (current.records.length === 0) {
+        throw new Error('No payment proof is awaiting review for this order')
+      }
 
-    const order = result.records[0].get('o')
+      const previousStatus: OrderStatus = current.records[0].get('status')
+      if (previousStatus !== 'PAYMENT_SUBMITTED') {
+        throw new Error(`Cannot review payment for an order in status ${previousStatus}`)
+      }
+
+      const submissionResult = await tx.run(
+        `
+        MATCH (ps:PaymentSubmission {id: $submissionId})
+        SET ps.status = $decision,
+            ps.rejectionReason = $reason,
+            ps.reviewedAt = $now,
+            ps.reviewedBy = $reviewedBy
+        RETURN ps {.*}
+        `,
+        {
+          submissionId: current.records[0].get('submissionId'),
+          decision,
+          reason: decision === 'REJECTED' ? reason!.trim() : null,
+          now,
+          reviewedBy: actor.email,
+        }
+      )
+
+      const orderResult = await tx.run(
+        `
+        MATCH (o:Order {id: $orderId})
+        SET o.status = $status, o.updatedAt = $now
+        RETURN o {.*}
+        `,
+        { orderId, status: nextStatus, now }
+      )
+
+      const event = await recordOrderEvent(
+        tx,
+        orderId,
+        previousStatus,
+        nextStatus,
+        actor,
+        decision === 'REJECTED' ? `Payment proof rejected: ${reason!.trim()}` : 'Payment proof approved'
+      )
+
+      return {
+        order: orderResult.records[0].get('o'),
+        event,
+        submission: submissionResult.records[0].get('ps'),
+      }
+    })
 
     // Parse shippingAddress back from JSON
     return {
-      ...order,
-      shippingAddress: JSON.parse(order.shippingAddress),
+      order: {
+        ...order,
+        shippingAddress: JSON.parse(order.shippingAddress),
+      },
+      event,
+      submission,
     }
   } finally {
     await session.close()
@@ -1,6 +1,7 @@
-import { Session } from 'neo4j-driver'
+import { ManagedTransaction, Session } from 'neo4j-driver'
 import neo4j from 'neo4j-driver'
 import { PromotionalCategory, PromotionalCategoryItem } from '@/lib/types'
+import { getStoreDate, scheduleCondition } from '@/lib/schedule'
 import { ProductWithVariants } from './product.repository'
 
 /**
@@ -75,15 +76,19 @@ export async function createPromotionalCategory(
 
 /**
  * Get all promotional categories
+ * activeOnly returns the sections shown on the storefront: active and within their
+ * date window on storeDate (today in the store's timezone unless previewing)
  */
 export async function getAllPromotionalCategories(
   session: Session,
-  activeOnly = false
+  activeOnly = false,
+  storeDate: string = getStoreDate()
 ): Promise<PromotionalCategory[]> {
   const query = activeOnly
     ? `
     MATCH (c:PromotionalCategory)
     WHERE c.isActive = true
+      AND ${scheduleCondition('c')}
     RETURN c
     ORDER BY c.displayOrder ASC
     `
@@ -93,7 +98,7 @@ export async function getAllPromotionalCategories(
     ORDER BY c.displayOrder ASC
     `
 
-  const result = await session.run(query)
+  const result = await session.run(query, { storeDate })
 
   return result.records.map((record) => {
     const category = record.get('c').properties
@@ -585,3 +590,111 @@ export async function moveQuantityBetweenCategories(
 
   return result.records[0].get('moved') > 0
 }
+
+/**
+ * Whether a variant's product is on sale in a promotional section right now: the
+ * section and its listing are active and today is within the section's schedule.
+ * Used to check the section a cart line claims to come from before storing it.
+ */
+export async function isVariantInLivePromotionalCategory(
+  session: Session,
+  promotionalCategoryId: string,
+  variantId: string
+): Promise<boolean> {
+  const result = await session.run(
+    `
+    MATCH (:ProductVariant {id: $variantId})-[:VARIANT_OF]->(p:Product)
+    MATCH (c:PromotionalCategory {id: $promotionalCategoryId})-[r:HAS_ITEM]->(p)
+    WHERE COALESCE(c.isActive, true) = true AND COALESCE(r.isActive, true) = true
+      AND ${scheduleCondition('c')}
+    RETURN count(r) > 0 as live
+    `,
+    { promotionalCategoryId, variantId, storeDate: getStoreDate() }
+  )
+
+  return result.records[0]?.get('live') === true
+}
+
+/**
+ * Count order items against the promotional sections they were added from.
+ * Runs inside the order's transaction; incrementing soldQuantity takes a write lock,
+ * so concurrent orders can't oversell an allocation. Units beyond what's left in the
+ * allocation (or from an inactive or out-of-schedule section) are sold as normal
+ * stock, unattributed.
+ */
+export async function recordPromotionalSales(
+  tx: ManagedTransaction,
+  sales: { orderItemId: string; promotionalCategoryId: string; quantity: number }[]
+): Promise<void> {
+  if (sales.length === 0) return
+
+  await tx.run(
+    `
+    UNWIND $sales AS sale
+    MATCH (oi:OrderItem {id: sale.orderItemId})-[:ITEM_OF_VARIANT]->(:ProductVariant)-[:VARIANT_OF]->(p:Product)
+    MATCH (c:PromotionalCategory {id: sale.promotionalCategoryId})-[r:HAS_ITEM]->(p)
+    WHERE COALESCE(c.isActive, true) = true AND COALESCE(r.isActive, true) = true
+      AND ${scheduleCondition('c')}
+    SET r.soldQuantity = COALESCE(r.soldQuantity, 0) + sale.quantity
+    WITH oi, c, r, sale,
+         CASE WHEN r.soldQuantity > r.allocatedQuantity THEN r.soldQuantity - r.allocatedQuantity ELSE 0 END as overflow
+    WITH oi, c, r, sale, CASE WHEN overflow > sale.quantity THEN sale.quantity ELSE overflow END as overflow
+    SET r.soldQuantity = r.soldQuantity - overflow
+    WITH oi, c, sale.quantity - overflow as attributed
+    WHERE attributed > 0
+    CREATE (oi)-[:SOLD_THROUGH {quantity: attributed}]->(c)
+    `,
+    {
+      sales: sales.map((sale) => ({ ...sale, quantity: neo4j.int(sale.quantity) })),
+      storeDate: getStoreDate(),
+    }
+  )
+}
+
+/**
+ * Give an order's promotional units back to their sections (order cancelled).
+ * The SOLD_THROUGH link is kept for history and marked released so it only counts once;
+ * units already given back by a line-item cancellation are skipped.
+ */
+export async function releasePromotionalSales(
+  tx: ManagedTransaction,
+  orderId: string
+): Promise<void> {
+  await tx.run(
+    `
+    MATCH (o:Order {id: $orderId})-[:HAS_ITEM]->(oi:OrderItem)-[s:SOLD_THROUGH]->(c:PromotionalCategory)
+    WHERE s.releasedAt IS NULL
+    MATCH (oi)-[:ITEM_OF_VARIANT]->(:ProductVariant)-[:VARIANT_OF]->(p:Product)<-[r:HAS_ITEM]-(c)
+    WITH r, s, s.quantity - COALESCE(s.releasedQuantity, 0) as released
+    SET r.soldQuantity = CASE WHEN r.soldQuantity > released THEN r.soldQuantity - released ELSE 0 END,
+        s.releasedQuantity = s.quantity,
+        s.releasedAt = $now
+    `,
+    { orderId, now: new Date().toISOString() }
+  )
+}
+
+/**
+ * Give promotional units back to their section when some units of one order line
+ * are cancelled. Promotional units are released first, up to the cancelled quantity.
+ */
+export async function releaseOrderItemPromotionalSales(
+  tx: ManagedTransaction,
+  orderItemId: string,
+  quantity: number
+): Promise<void> {
+  await tx.run(
+    `
+    MATCH (oi:OrderItem {id: $orderItemId})-[s:SOLD_THROUGH]->(c:PromotionalCategory)
+    WHERE s.releasedAt IS NULL
+    MATCH (oi)-[:ITEM_OF_VARIANT]->(:ProductVariant)-[:VARIANT_OF]->(p:Product)<-[r:HAS_ITEM]-(c)
+    WITH r, s, s.quantity - COALESCE(s.releasedQuantity, 0) as remaining
+    WITH r, s, CASE WHEN remaining < $quantity THEN remaining ELSE $quantity END as released
+    WITH r, s, released, COALESCE(s.releasedQuantity, 0) + released as totalReleased
+    SET r.soldQuantity = CASE WHEN r.soldQuantity > released THEN r.soldQuantity - released ELSE 0 END,
+        s.releasedQuantity = totalReleased,
+        s.releasedAt = CASE WHEN totalReleased >= s.quantity THEN $now ELSE null END
+    `,
+    { orderItemId, quantity: neo4j.int(quantity), now: new Date().toISOString() }
+  )
+}
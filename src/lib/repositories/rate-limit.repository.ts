@@ -0,0 +1,72 @@
+import { getSession } from '../db'
+
+/**
+ * Count a hit against a key and return the count in the current window. The window
+ * starts with the first hit and, once it has passed, the next hit starts a new one.
+ */
+export async function incrementRateLimit(
+  key: string,
+  windowMs: number
+): Promise<{ count: number; resetAt: string }> {
+  const session = getSession()
+  try {
+    const now = new Date()
+
+    const result = await session.run(
+      `
+      MERGE (r:RateLimit {key: $key})
+      ON CREATE SET r.count = 0, r.resetAt = $resetAt
+      WITH r, r.resetAt <= $now as expired
+      SET r.count = CASE WHEN expired THEN 1 ELSE r.count + 1 END,
+          r.resetAt = CASE WHEN expired THEN $resetAt ELSE r.resetAt END
+      RETURN r.count as count, r.resetAt as resetAt
+      `,
+      { key, now: now.toISOString(), resetAt: new Date(now.getTime() + windowMs).toISOString() }
+    )
+
+    const record = result.records[0]
+    return { count: record.get('count').toNumber(), resetAt: record.get('resetAt') }
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * The count for a key in its current window, or null if it has none
+ */
+export async function getRateLimit(key: string): Promise<{ count: number; resetAt: string } | null> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (r:RateLimit {key: $key})
+      WHERE r.resetAt > $now
+      RETURN r.count as count, r.resetAt as resetAt
+      `,
+      { key, now: new Date().toISOString() }
+    )
+
+    const record = result.records[0]
+    return record ? { count: record.get('count').toNumber(), resetAt: record.get('resetAt') } : null
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Forget a key's hits
+ */
+export async function deleteRateLimit(key: string): Promise<void> {
+  const session = getSession()
+  try {
+    await session.run(
+      `
+      MATCH (r:RateLimit {key: $key})
+      DELETE r
+      `,
+      { key }
+    )
+  } finally {
+    await session.close()
+  }
+}
@@ -0,0 +1,361 @@
+import { getSession } from '../db'
+import { v4 as uuidv4 } from 'uuid'
+import type {
+  OrderActor,
+  ProductVariant,
+  RefundMethod,
+  ReturnReason,
+  ReturnRequest,
+  ReturnRequestInput,
+  ReturnRequestStatus,
+} from '../types'
+import {
+  HOLDING_RETURN_STATUSES,
+  canRequestReturn,
+  canTransitionReturn,
+} from '../return-lifecycle'
+import { applyOrderItemRefund, type OrderWithItems } from './order.repository'
+
+export interface ReturnRequestWithDetails extends ReturnRequest {
+  orderNumber: string
+  priceAtPurchase: number
+  product: {
+    id: string
+    name: string
+    brand: string
+    images: string[]
+  }
+  variant: {
+    id: string
+    size: string
+    color: string
+    images: string[]
+  }
+}
+
+export interface ReturnStatusUpdate {
+  /** Required when refunding a return */
+  refundAmount?: number
+  refundMethod?: RefundMethod
+  /** Shown to the customer on their order */
+  note?: string
+}
+
+const RETURN_REASONS: ReturnReason[] = ['WRONG_SIZE', 'DAMAGED', 'NOT_AS_DESCRIBED', 'CHANGED_MIND', 'OTHER']
+
+// Returns `request` with its order number, product and variant for each matched `rr`
+const RETURN_DETAILS = `
+  MATCH (o:Order)-[:HAS_RETURN]->(rr)
+  MATCH (o)-[:HAS_ITEM]->(oi:OrderItem {id: rr.orderItemId})-[:ITEM_OF_VARIANT]->(v:ProductVariant)-[:VARIANT_OF]->(p:Product)
+  RETURN rr {
+    .*,
+    orderNumber: o.orderNumber,
+    priceAtPurchase: oi.priceAtPurchase,
+    product: p {.id, .name, .brand, .images},
+    variant: v {.id, .size, .color, .images}
+  } as request
+`
+
+/**
+ * Helper function to safely convert Neo4j integers to JavaScript numbers
+ */
+function toNumber(value: any): number {
+  if (value && typeof value.toNumber === 'function') {
+    return value.toNumber()
+  }
+  return Number(value)
+}
+
+/**
+ * Open a return or size exchange for units of one line on a fulfilled order.
+ * Units already cancelled, or held by another open or completed request, can't be
+ * requested again. Exchanges must swap to another in-stock variant of the same product.
+ */
+export async function createReturnRequest(
+  order: OrderWithItems,
+  input: ReturnRequestInput,
+  actor: OrderActor
+): Promise<ReturnRequest> {
+  if (!canRequestReturn(order)) {
+    throw new Error('Returns and exchanges are no longer available for this order')
+  }
+  if (!order.items.some((item) => item.id === input.orderItemId)) {
+    throw new Error('Order item not found')
+  }
+  if (!RETURN_REASONS.includes(input.reason)) {
+    throw new Error('Please choose a reason')
+  }
+  if (!Number.isInteger(input.quantity) || input.quantity < 1) {
+    throw new Error('Quantity must be a whole number of at least 1')
+  }
+  if (input.type === 'EXCHANGE' && !input.replacementVariantId) {
+    throw new Error('Please choose the size or color you want instead')
+  }
+
+  const session = getSession()
+  try {
+    const now = new Date().toISOString()
+
+    return await session.executeWrite(async (tx) => {
+      // Touching the order line takes its write lock so concurrent requests see each other
+      const current = await tx.run(
+        `
+        MATCH (o:Order {id: $orderId})-[:HAS_ITEM]->(oi:OrderItem {id: $orderItemId})
+        SET oi.lastReturnRequestedAt = $now
+        WITH o, oi
+        OPTIONAL MATCH (o)-[:HAS_RETURN]->(rr:ReturnRequest {orderItemId: oi.id})
+        WHERE rr.status IN $heldStatuses
+        WITH oi, sum(rr.quantity) as held
+        RETURN oi.quantity - COALESCE(oi.cancelledQuantity, 0) - held as available
+        `,
+        {
+          orderId: order.id,
+          orderItemId: input.orderItemId,
+          heldStatuses: HOLDING_RETURN_STATUSES,
+          now,
+        }
+      )
+
+      if (current.records.length === 0) {
+        throw new Error('Order item not found')
+      }
+
+      const available = toNumber(current.records[0].get('available'))
+      if (input.quantity > available) {
+        throw new Error(
+          available > 0
+            ? `Only ${available} of this item can still be returned`
+            : 'This item already has a return or exchange in progress'
+        )
+      }
+
+      let replacement: { size: string; color: string } | null = null
+      if (input.type === 'EXCHANGE') {
+        const variantResult = await tx.run(
+          `
+          MATCH (:OrderItem {id: $orderItemId})-[:ITEM_OF_VARIANT]->(v:ProductVariant)-[:VARIANT_OF]->(p:Product)
+          MATCH (rv:ProductVariant {id: $replacementVariantId})-[:VARIANT_OF]->(p)
+          WHERE rv.id <> v.id
+          RETURN rv.size as size, rv.color as color, COALESCE(rv.stockQuantity, 0) as stock
+          `,
+          { orderItemId: input.orderItemId, replacementVariantId: input.replacementVariantId }
+        )
+
+        if (variantResult.records.length === 0) {
+          throw new Error('Please choose a different size or color of the same product')
+        }
+
+        const record = variantResult.records[0]
+        if (toNumber(record.get('stock')) < input.quantity) {
+          throw new Error(`${record.get('size')} / ${record.get('color')} is out of stock`)
+        }
+        replacement = { size: record.get('size'), color: record.get('color') }
+      }
+
+      const result = await tx.run(
+        `
+        MATCH (o:Order {id: $orderId})
+        CREATE (rr:ReturnRequest {
+          id: $id,
+          orderId: $orderId,
+          orderItemId: $orderItemId,
+          type: $type,
+          status: 'REQUESTED',
+          reason: $reason,
+          note: $note,
+          quantity: $quantity,
+          replacementVariantId: $replacementVariantId,
+          replacementSize: $replacementSize,
+          replacementColor: $replacementColor,
+          requestedBy: $requestedBy,
+          createdAt: $now,
+          updatedAt: $now
+        })
+        CREATE (o)-[:HAS_RETURN]->(rr)
+        RETURN rr {.*}
+        `,
+        {
+          id: uuidv4(),
+          orderId: order.id,
+          orderItemId: input.orderItemId,
+          type: input.type,
+          reason: input.reason,
+          note: input.note?.trim() || null,
+          quantity: input.quantity,
+          replacementVariantId: input.type === 'EXCHANGE' ? input.replacementVariantId : null,
+          replacementSize: replacement?.size ?? null,
+          replacementColor: replacement?.color ?? null,
+          requestedBy: actor.email.toLowerCase(),
+          now,
+        }
+      )
+
+      return result.records[0].get('rr')
+    })
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Get the variants a line can be exchanged for: the other in-stock sizes and colors
+ * of the same product
+ */
+export async function getExchangeVariants(
+  orderItemId: string
+): Promise<Pick<ProductVariant, 'id' | 'size' | 'color' | 'stockQuantity'>[]> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (:OrderItem {id: $orderItemId})-[:ITEM_OF_VARIANT]->(v:ProductVariant)-[:VARIANT_OF]->(p:Product)
+      MATCH (rv:ProductVariant)-[:VARIANT_OF]->(p)
+      WHERE rv.id <> v.id AND COALESCE(rv.stockQuantity, 0) > 0
+      RETURN rv {.id, .size, .color, .stockQuantity} as variant
+      ORDER BY rv.color, rv.size
+      `,
+      { orderItemId }
+    )
+
+    return result.records.map((record) => {
+      const variant = record.get('variant')
+      return { ...variant, stockQuantity: toNumber(variant.stockQuantity) }
+    })
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Get all return requests (for admin), newest first
+ */
+export async function getAllReturnRequests(): Promise<ReturnRequestWithDetails[]> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (rr:ReturnRequest)
+      ${RETURN_DETAILS}
+      ORDER BY request.createdAt DESC
+      `
+    )
+
+    return result.records.map((record) => record.get('request'))
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Move a return request to its next status.
+ * Receiving the goods puts the returned units back in stock and, for exchanges,
+ * takes the replacement out of stock (failing if there isn't enough). Refunding a
+ * return records it against the order line like any other line-item refund.
+ */
+export async function updateReturnStatus(
+  id: string,
+  status: ReturnRequestStatus,
+  actor: OrderActor,
+  update: ReturnStatusUpdate = {}
+): Promise<ReturnRequestWithDetails> {
+  const session = getSession()
+  try {
+    const now = new Date().toISOString()
+
+    await session.executeWrite(async (tx) => {
+      const current = await tx.run(
+        `
+        MATCH (rr:ReturnRequest {id: $id})
+        SET rr.updatedAt = $now
+        RETURN rr {.*} as request
+        `,
+        { id, now }
+      )
+
+      if (current.records.length === 0) {
+        throw new Error('Return request not found')
+      }
+
+      const request: ReturnRequest = current.records[0].get('request')
+
+      if (!canTransitionReturn(request.status, status, request.type)) {
+        throw new Error(`Cannot change return status from ${request.status} to ${status}`)
+      }
+
+      if (status === 'RECEIVED') {
+        const stock = await tx.run(
+          `
+          MATCH (:OrderItem {id: $orderItemId})-[:ITEM_OF_VARIANT]->(v:ProductVariant)
+          SET v.stockQuantity = COALESCE(v.stockQuantity, 0) + $quantity
+          WITH v
+          OPTIONAL MATCH (rv:ProductVariant {id: $replacementVariantId})
+          SET rv.stockQuantity = COALESCE(rv.stockQuantity, 0) - $quantity
+          RETURN rv.stockQuantity as replacementRemaining
+          `,
+          {
+            orderItemId: request.orderItemId,
+            quantity: request.quantity,
+            replacementVariantId: request.replacementVariantId ?? null,
+          }
+        )
+
+        const remaining = stock.records[0]?.get('replacementRemaining')
+        if (request.type === 'EXCHANGE' && (remaining === null || toNumber(remaining) < 0)) {
+          throw new Error(
+            `Not enough stock of ${request.replacementSize} / ${request.replacementColor} for this exchange`
+          )
+        }
+      }
+
+      if (status === 'REFUNDED') {
+        if (update.refundAmount === undefined || !update.refundMethod) {
+          throw new Error('Enter the refund amount and method')
+        }
+
+        // The goods were restocked when they were received
+        await applyOrderItemRefund(
+          tx,
+          request.orderId,
+          {
+            orderItemId: request.orderItemId,
+            quantity: request.quantity,
+            amount: update.refundAmount,
+            method: update.refundMethod,
+            reason: `Return: ${request.reason.replace(/_/g, ' ').toLowerCase()}`,
+            restock: false,
+          },
+          actor
+        )
+      }
+
+      await tx.run(
+        `
+        MATCH (rr:ReturnRequest {id: $id})
+        SET rr.status = $status,
+            rr.adminNote = COALESCE($note, rr.adminNote),
+            rr.refundAmount = COALESCE($refundAmount, rr.refundAmount),
+            rr.refundMethod = COALESCE($refundMethod, rr.refundMethod)
+        `,
+        {
+          id,
+          status,
+          note: update.note?.trim() || null,
+          refundAmount: status === 'REFUNDED' ? update.refundAmount : null,
+          refundMethod: status === 'REFUNDED' ? update.refundMethod : null,
+        }
+      )
+    })
+
+    const result = await session.run(
+      `
+      MATCH (rr:ReturnRequest {id: $id})
+      ${RETURN_DETAILS}
+      `,
+      { id }
+    )
+
+    return result.records[0].get('request')
+  } finally {
+    await session.close()
+  }
+}
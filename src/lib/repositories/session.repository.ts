@@ -0,0 +1,175 @@
+import type { ManagedTransaction } from 'neo4j-driver'
+import { getSession } from '../db'
+import { v4 as uuidv4 } from 'uuid'
+import type { User, UserSession } from '../types'
+
+export interface ActiveSession {
+  session: UserSession
+  user: Pick<User, 'id' | 'email' | 'role' | 'twoFactorEnabledAt'>
+}
+
+/**
+ * Record a new signed-in session for a user
+ */
+export async function createSession(
+  userId: string,
+  maxAgeMs: number,
+  device: { userAgent?: string; ipAddress?: string } = {}
+): Promise<UserSession> {
+  const session = getSession()
+  try {
+    const now = new Date()
+
+    const result = await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      CREATE (s:Session {
+        id: $id,
+        userId: $userId,
+        userAgent: $userAgent,
+        ipAddress: $ipAddress,
+        createdAt: $now,
+        lastSeenAt: $now,
+        expiresAt: $expiresAt
+      })-[:SESSION_OF]->(u)
+      RETURN s {.*} as session
+      `,
+      {
+        userId,
+        id: uuidv4(),
+        userAgent: device.userAgent?.slice(0, 500) || null,
+        ipAddress: device.ipAddress || null,
+        now: now.toISOString(),
+        expiresAt: new Date(now.getTime() + maxAgeMs).toISOString(),
+      }
+    )
+
+    const created = result.records[0]?.get('session')
+    if (!created) {
+      throw new Error('User not found')
+    }
+
+    return created
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Get a session that is still valid, with the user's current email and role.
+ * Returns null if the session was revoked, has expired or its user is gone.
+ */
+export async function getActiveSession(sessionId: string): Promise<ActiveSession | null> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (s:Session {id: $sessionId})-[:SESSION_OF]->(u:User)
+      WHERE s.revokedAt IS NULL AND s.expiresAt > $now
+      RETURN s {.*} as session, u {.id, .email, .role, .twoFactorEnabledAt} as user
+      `,
+      { sessionId, now: new Date().toISOString() }
+    )
+
+    const record = result.records[0]
+    return record ? { session: record.get('session'), user: record.get('user') } : null
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Note that a session was just used
+ */
+export async function touchSession(sessionId: string): Promise<void> {
+  const session = getSession()
+  try {
+    await session.run(
+      `
+      MATCH (s:Session {id: $sessionId})
+      SET s.lastSeenAt = $now
+      `,
+      { sessionId, now: new Date().toISOString() }
+    )
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Get a user's active sessions, most recently used first
+ */
+export async function getUserSessions(userId: string): Promise<UserSession[]> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (s:Session)-[:SESSION_OF]->(:User {id: $userId})
+      WHERE s.revokedAt IS NULL AND s.expiresAt > $now
+      RETURN s {.*} as session
+      ORDER BY s.lastSeenAt DESC
+      `,
+      { userId, now: new Date().toISOString() }
+    )
+
+    return result.records.map((record) => record.get('session'))
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Revoke one of a user's sessions. Returns false if it wasn't found or was already revoked.
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (s:Session {id: $sessionId})-[:SESSION_OF]->(:User {id: $userId})
+      WHERE s.revokedAt IS NULL
+      SET s.revokedAt = $now
+      RETURN count(s) as revoked
+      `,
+      { userId, sessionId, now: new Date().toISOString() }
+    )
+
+    return result.records[0]?.get('revoked').toNumber() > 0
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Revoke a user's sessions inside a transaction, optionally keeping one.
+ * Called alongside password and role changes so old tokens stop working with them.
+ */
+export async function revokeSessionsForUser(
+  tx: ManagedTransaction,
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await tx.run(
+    `
+    MATCH (s:Session)-[:SESSION_OF]->(:User {id: $userId})
+    WHERE s.revokedAt IS NULL AND s.id <> $exceptSessionId
+    SET s.revokedAt = $now
+    RETURN count(s) as revoked
+    `,
+    { userId, exceptSessionId: exceptSessionId ?? '', now: new Date().toISOString() }
+  )
+
+  return result.records[0]?.get('revoked').toNumber() ?? 0
+}
+
+/**
+ * Revoke all of a user's sessions, optionally keeping one (e.g. "sign out everywhere else")
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const session = getSession()
+  try {
+    return await session.executeWrite((tx) => revokeSessionsForUser(tx, userId, exceptSessionId))
+  } finally {
+    await session.close()
+  }
+}
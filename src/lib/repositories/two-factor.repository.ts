@@ -0,0 +1,182 @@
+import { getSession } from '../db'
+
+// TOTP secrets are stored encrypted and recovery codes as SHA-256 hashes; this
+// module never returns either to callers outside the server.
+
+export interface TwoFactorState {
+  /** Encrypted secret of the confirmed authenticator */
+  secret: string | null
+  /** Encrypted secret waiting for its first code during enrolment */
+  pendingSecret: string | null
+  enabledAt: string | null
+  /** Last time step a code was accepted for, so a code can't be replayed */
+  lastStep: number | null
+  recoveryCodesRemaining: number
+}
+
+/**
+ * A user's two-factor settings
+ */
+export async function getTwoFactorState(userId: string): Promise<TwoFactorState | null> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      RETURN u.totpSecret as secret,
+             u.totpPendingSecret as pendingSecret,
+             u.twoFactorEnabledAt as enabledAt,
+             u.totpLastStep as lastStep,
+             size(COALESCE(u.recoveryCodeHashes, [])) as recoveryCodesRemaining
+      `,
+      { userId }
+    )
+
+    const record = result.records[0]
+    if (!record) return null
+
+    return {
+      secret: record.get('secret') ?? null,
+      pendingSecret: record.get('pendingSecret') ?? null,
+      enabledAt: record.get('enabledAt') ?? null,
+      lastStep: record.get('lastStep') ?? null,
+      recoveryCodesRemaining: record.get('recoveryCodesRemaining').toNumber(),
+    }
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Start enrolment with a new secret, replacing any earlier unconfirmed one
+ */
+export async function setPendingTotpSecret(userId: string, encryptedSecret: string): Promise<void> {
+  const session = getSession()
+  try {
+    await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      SET u.totpPendingSecret = $encryptedSecret
+      `,
+      { userId, encryptedSecret }
+    )
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Turn two-factor on with the pending secret, once a code from it has been checked
+ */
+export async function enableTwoFactor(
+  userId: string,
+  encryptedSecret: string,
+  step: number,
+  recoveryCodeHashes: string[]
+): Promise<boolean> {
+  const session = getSession()
+  try {
+    const now = new Date().toISOString()
+
+    const result = await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      WHERE u.totpPendingSecret = $encryptedSecret
+      SET u.totpSecret = $encryptedSecret,
+          u.totpLastStep = $step,
+          u.recoveryCodeHashes = $recoveryCodeHashes,
+          u.twoFactorEnabledAt = $now,
+          u.updatedAt = $now
+      REMOVE u.totpPendingSecret
+      RETURN u.id as id
+      `,
+      { userId, encryptedSecret, step, recoveryCodeHashes, now }
+    )
+
+    return result.records.length > 0
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Record that a code was used for a time step. Returns false if a code for that
+ * step (or a later one) was already accepted, meaning this one is a replay.
+ */
+export async function claimTotpStep(userId: string, step: number): Promise<boolean> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      WHERE COALESCE(u.totpLastStep, -1) < $step
+      SET u.totpLastStep = $step
+      RETURN u.id as id
+      `,
+      { userId, step }
+    )
+
+    return result.records.length > 0
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Use up a recovery code. Returns false if it isn't one of the user's unused codes.
+ */
+export async function consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      WHERE $codeHash IN COALESCE(u.recoveryCodeHashes, [])
+      SET u.recoveryCodeHashes = [hash IN u.recoveryCodeHashes WHERE hash <> $codeHash]
+      RETURN u.id as id
+      `,
+      { userId, codeHash }
+    )
+
+    return result.records.length > 0
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Replace all recovery codes, invalidating the old ones
+ */
+export async function replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+  const session = getSession()
+  try {
+    await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      SET u.recoveryCodeHashes = $recoveryCodeHashes
+      `,
+      { userId, recoveryCodeHashes }
+    )
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Turn two-factor off and forget the secret and recovery codes
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  const session = getSession()
+  try {
+    await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      REMOVE u.totpSecret, u.totpPendingSecret, u.totpLastStep, u.recoveryCodeHashes, u.twoFactorEnabledAt
+      SET u.updatedAt = $now
+      `,
+      { userId, now: new Date().toISOString() }
+    )
+  } finally {
+    await session.close()
+  }
+}
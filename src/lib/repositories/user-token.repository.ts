@@ -0,0 +1,92 @@
+import type { ManagedTransaction } from 'neo4j-driver'
+import { getSession } from '../db'
+import { v4 as uuidv4 } from 'uuid'
+import { generateSecureToken, hashToken } from '../auth'
+import type { UserTokenPurpose } from '../types'
+
+// How long an emailed link stays valid
+const TOKEN_LIFETIMES: Record<UserTokenPurpose, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000, // 1 hour
+  EMAIL_VERIFICATION: 24 * 60 * 60 * 1000, // 24 hours
+}
+
+/**
+ * Issue a single-use token for a user and return it. Only its hash is stored, and
+ * any earlier unused token for the same purpose stops working.
+ */
+export async function createUserToken(userId: string, purpose: UserTokenPurpose): Promise<string> {
+  const token = generateSecureToken()
+  const session = getSession()
+  try {
+    const now = new Date()
+
+    await session.executeWrite(async (tx) => {
+      const result = await tx.run(
+        `
+        MATCH (u:User {id: $userId})
+        OPTIONAL MATCH (old:UserToken {purpose: $purpose})-[:TOKEN_FOR]->(u)
+        WHERE old.usedAt IS NULL
+        DETACH DELETE old
+        WITH DISTINCT u
+        CREATE (t:UserToken {
+          id: $id,
+          tokenHash: $tokenHash,
+          purpose: $purpose,
+          expiresAt: $expiresAt,
+          createdAt: $now
+        })-[:TOKEN_FOR]->(u)
+        RETURN t.id as id
+        `,
+        {
+          userId,
+          purpose,
+          id: uuidv4(),
+          tokenHash: hashToken(token),
+          expiresAt: new Date(now.getTime() + TOKEN_LIFETIMES[purpose]).toISOString(),
+          now: now.toISOString(),
+        }
+      )
+
+      if (result.records.length === 0) {
+        throw new Error('User not found')
+      }
+    })
+
+    return token
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Use up a token inside a transaction and return the ID of the user it belongs to,
+ * or null if it is unknown, already used or expired
+ */
+export async function consumeUserToken(
+  tx: ManagedTransaction,
+  token: string,
+  purpose: UserTokenPurpose
+): Promise<string | null> {
+  const now = new Date().toISOString()
+
+  // Taking the token's write lock first means a concurrent use sees usedAt below
+  await tx.run(
+    `
+    MATCH (t:UserToken {tokenHash: $tokenHash})
+    SET t.lastAttemptAt = $now
+    `,
+    { tokenHash: hashToken(token), now }
+  )
+
+  const result = await tx.run(
+    `
+    MATCH (t:UserToken {tokenHash: $tokenHash, purpose: $purpose})-[:TOKEN_FOR]->(u:User)
+    WHERE t.usedAt IS NULL AND t.expiresAt > $now
+    SET t.usedAt = $now
+    RETURN u.id as userId
+    `,
+    { tokenHash: hashToken(token), purpose, now }
+  )
+
+  return result.records[0]?.get('userId') ?? null
+}
@@ -1,9 +1,13 @@
 import { getSession } from '../db'
-import type { User, CreateUserInput } from '../types'
+import neo4j from 'neo4j-driver'
+import type { User, UserRole, CreateUserInput } from '../types'
 import { v4 as uuidv4 } from 'uuid'
+import { consumeUserToken } from './user-token.repository'
+import { revokeSessionsForUser } from './session.repository'
 
 /**
- * Create a new user in the database
+ * Create a new user in the database. Everyone starts as a customer; staff roles are
+ * only given through setUserRole.
  */
 export async function createUser(
   input: CreateUserInput & { passwordHash: string }
@@ -33,6 +37,7 @@ export async function createUser(
         .firstName,
         .lastName,
         .phone,
+        .emailVerifiedAt,
         .createdAt,
         .updatedAt
       } as user
@@ -41,7 +46,7 @@ export async function createUser(
         id: userId,
         email: input.email.toLowerCase(),
         passwordHash: input.passwordHash,
-        role: input.role || 'CUSTOMER',
+        role: 'CUSTOMER',
         firstName: input.firstName,
         lastName: input.lastName,
         phone: input.phone || null,
@@ -73,7 +78,18 @@ export async function findUserByEmail(
       `
       MATCH (u:User {email: $email})
       RETURN u {
-        .*
+        .id,
+        .email,
+        .passwordHash,
+        .role,
+        .firstName,
+        .lastName,
+        .phone,
+        .emailVerifiedAt,
+        .lockedUntil,
+        .twoFactorEnabledAt,
+        .createdAt,
+        .updatedAt
       } as user
       `,
       { email: email.toLowerCase() }
@@ -102,6 +118,9 @@ export async function findUserById(id: string): Promise<User | null> {
         .firstName,
         .lastName,
         .phone,
+        .emailVerifiedAt,
+        .lockedUntil,
+        .twoFactorEnabledAt,
         .createdAt,
         .updatedAt
       } as user
@@ -137,7 +156,8 @@ export async function emailExists(email: string): Promise<boolean> {
 }
 
 /**
- * Update user information
+ * Update user information. Changing the role signs the user out everywhere, so
+ * they pick up their new permissions on their next sign-in.
  */
 export async function updateUser(
   id: string,
@@ -146,10 +166,157 @@ export async function updateUser(
   const session = getSession()
   try {
     const now = new Date().toISOString()
+    return await session.executeWrite(async (tx) => {
+      const result = await tx.run(
+        `
+        MATCH (u:User {id: $id})
+        WITH u, u.role as previousRole
+        SET u += $updates, u.updatedAt = $updatedAt
+        RETURN u {
+          .id,
+          .email,
+          .role,
+          .firstName,
+          .lastName,
+          .phone,
+          .emailVerifiedAt,
+          .createdAt,
+          .updatedAt
+        } as user, previousRole
+        `,
+        {
+          id,
+          updates,
+          updatedAt: now,
+        }
+      )
+
+      const record = result.records[0]
+      if (!record) return null
+
+      const user: User = record.get('user')
+      if (user.role !== record.get('previousRole')) {
+        await revokeSessionsForUser(tx, id)
+      }
+
+      return user
+    })
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Set a new password using an emailed reset token. Following the emailed link also
+ * proves the user owns the address, so it counts as verifying it. Every existing
+ * session is revoked, signing out anyone who had the old password, and any sign-in
+ * lock is lifted. Returns null if the token is invalid, used or expired.
+ */
+export async function resetPasswordWithToken(token: string, passwordHash: string): Promise<User | null> {
+  const session = getSession()
+  try {
+    return await session.executeWrite(async (tx) => {
+      const userId = await consumeUserToken(tx, token, 'PASSWORD_RESET')
+      if (!userId) return null
+
+      const now = new Date().toISOString()
+      const result = await tx.run(
+        `
+        MATCH (u:User {id: $userId})
+        SET u.passwordHash = $passwordHash,
+            u.emailVerifiedAt = COALESCE(u.emailVerifiedAt, $now),
+            u.updatedAt = $now
+        REMOVE u.lockedUntil
+        RETURN u {
+          .id,
+          .email,
+          .role,
+          .firstName,
+          .lastName,
+          .phone,
+          .emailVerifiedAt,
+          .createdAt,
+          .updatedAt
+        } as user
+        `,
+        { userId, passwordHash, now }
+      )
+
+      await revokeSessionsForUser(tx, userId)
+
+      return result.records[0]?.get('user') ?? null
+    })
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Mark a user's email as verified using the token from their verification email.
+ * Returns null if the token is invalid, used or expired.
+ */
+export async function verifyEmailWithToken(token: string): Promise<User | null> {
+  const session = getSession()
+  try {
+    return await session.executeWrite(async (tx) => {
+      const userId = await consumeUserToken(tx, token, 'EMAIL_VERIFICATION')
+      if (!userId) return null
+
+      const now = new Date().toISOString()
+      const result = await tx.run(
+        `
+        MATCH (u:User {id: $userId})
+        SET u.emailVerifiedAt = COALESCE(u.emailVerifiedAt, $now),
+            u.updatedAt = $now
+        RETURN u {
+          .id,
+          .email,
+          .role,
+          .firstName,
+          .lastName,
+          .phone,
+          .emailVerifiedAt,
+          .createdAt,
+          .updatedAt
+        } as user
+        `,
+        { userId, now }
+      )
+
+      return result.records[0]?.get('user') ?? null
+    })
+  } finally {
+    await session.close()
+  }
+}
+
+export interface UserWithOrderStats extends User {
+  orderCount: number
+  lastOrderAt?: string
+}
+
+/**
+ * Search users by name, email or phone for the admin Users screen.
+ * An empty query lists the newest users.
+ */
+export async function searchUsers(
+  query: string,
+  options: { role?: UserRole; limit?: number } = {}
+): Promise<UserWithOrderStats[]> {
+  const session = getSession()
+  try {
     const result = await session.run(
       `
-      MATCH (u:User {id: $id})
-      SET u += $updates, u.updatedAt = $updatedAt
+      MATCH (u:User)
+      WHERE ($role IS NULL OR u.role = $role)
+        AND (
+          $query = ''
+          OR toLower(u.email) CONTAINS $query
+          OR toLower(u.firstName + ' ' + u.lastName) CONTAINS $query
+          OR COALESCE(u.phone, '') CONTAINS $query
+        )
+      OPTIONAL MATCH (u)-[:PLACED_ORDER]->(o:Order)
+      WITH u, count(o) as orderCount, max(o.createdAt) as lastOrderAt
       RETURN u {
         .id,
         .email,
@@ -157,19 +324,136 @@ export async function updateUser(
         .firstName,
         .lastName,
         .phone,
+        .emailVerifiedAt,
+        .lockedUntil,
+        .twoFactorEnabledAt,
         .createdAt,
         .updatedAt
-      } as user
+      } as user, orderCount, lastOrderAt
+      ORDER BY u.createdAt DESC
+      LIMIT $limit
       `,
       {
-        id,
-        updates,
-        updatedAt: now,
+        query: query.trim().toLowerCase(),
+        role: options.role ?? null,
+        limit: neo4j.int(options.limit ?? 50),
       }
     )
 
-    const user = result.records[0]?.get('user')
-    return user || null
+    return result.records.map((record) => ({
+      ...record.get('user'),
+      orderCount: record.get('orderCount').toNumber(),
+      lastOrderAt: record.get('lastOrderAt') ?? undefined,
+    }))
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Change a user's role and sign them out everywhere so the change applies at once.
+ * Refuses to demote the last owner (ADMIN), so the shop can't be left without one.
+ */
+export async function setUserRole(userId: string, role: UserRole): Promise<User | null> {
+  const session = getSession()
+  try {
+    return await session.executeWrite(async (tx) => {
+      const now = new Date().toISOString()
+
+      // Lock every owner first, so two owners demoting each other at once can't both
+      // see the other one still in place
+      const admins = await tx.run(
+        `
+        MATCH (a:User {role: 'ADMIN'})
+        SET a.roleCheckedAt = $now
+        RETURN a.id as id
+        `,
+        { now }
+      )
+      const adminIds: string[] = admins.records.map((record) => record.get('id'))
+
+      if (role !== 'ADMIN' && adminIds.includes(userId) && adminIds.length <= 1) {
+        throw new Error('Cannot remove the last owner')
+      }
+
+      const result = await tx.run(
+        `
+        MATCH (u:User {id: $userId})
+        WITH u, u.role as previousRole
+        SET u.role = $role, u.updatedAt = $now
+        RETURN u {
+          .id,
+          .email,
+          .role,
+          .firstName,
+          .lastName,
+          .phone,
+          .emailVerifiedAt,
+          .createdAt,
+          .updatedAt
+        } as user, previousRole
+        `,
+        { userId, role, now }
+      )
+
+      const record = result.records[0]
+      if (!record) return null
+
+      if (record.get('previousRole') !== role) {
+        await revokeSessionsForUser(tx, userId)
+      }
+
+      return record.get('user')
+    })
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Refuse sign-in for a user until the given time (after too many failed attempts)
+ */
+export async function lockUser(userId: string, until: Date): Promise<void> {
+  const session = getSession()
+  try {
+    await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      SET u.lockedUntil = $lockedUntil
+      `,
+      { userId, lockedUntil: until.toISOString() }
+    )
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Lift a sign-in lock early
+ */
+export async function unlockUser(userId: string): Promise<User | null> {
+  const session = getSession()
+  try {
+    const result = await session.run(
+      `
+      MATCH (u:User {id: $userId})
+      REMOVE u.lockedUntil
+      RETURN u {
+        .id,
+        .email,
+        .role,
+        .firstName,
+        .lastName,
+        .phone,
+        .emailVerifiedAt,
+        .createdAt,
+        .updatedAt
+      } as user
+      `,
+      { userId }
+    )
+
+    return result.records[0]?.get('user') ?? null
   } finally {
     await session.close()
   }
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { shopConfig } from '@/config/shop'
+import {
+  canRequestReturn,
+  canTransitionReturn,
+  getAllowedReturnTransitions,
+  getFulfilledAt,
+  getReturnableQuantity,
+} from './return-lifecycle'
+import type { OrderEvent } from './types'
+
+function event(toStatus: OrderEvent['toStatus'], createdAt: string): OrderEvent {
+  return { id: `event-${toStatus}`, orderId: 'order-1', toStatus, createdAt }
+}
+
+describe('getAllowedReturnTransitions', () => {
+  it('finishes returns as REFUNDED and exchanges as EXCHANGED', () => {
+    assert.deepEqual(getAllowedReturnTransitions('RECEIVED', 'RETURN'), ['REFUNDED'])
+    assert.deepEqual(getAllowedReturnTransitions('RECEIVED', 'EXCHANGE'), ['EXCHANGED'])
+  })
+
+  it('can be rejected until the goods are back', () => {
+    assert.equal(canTransitionReturn('REQUESTED', 'REJECTED', 'RETURN'), true)
+    assert.equal(canTransitionReturn('APPROVED', 'REJECTED', 'EXCHANGE'), true)
+    assert.equal(canTransitionReturn('RECEIVED', 'REJECTED', 'RETURN'), false)
+  })
+
+  it('does not skip steps or leave a final status', () => {
+    assert.equal(canTransitionReturn('REQUESTED', 'RECEIVED', 'RETURN'), false)
+    assert.deepEqual(getAllowedReturnTransitions('REFUNDED', 'RETURN'), [])
+    assert.deepEqual(getAllowedReturnTransitions('REJECTED', 'EXCHANGE'), [])
+  })
+})
+
+describe('canRequestReturn', () => {
+  const delivered = {
+    status: 'DELIVERED' as const,
+    updatedAt: '2026-03-20T00:00:00.000Z',
+    events: [event('SHIPPED', '2026-03-01T00:00:00.000Z'), event('DELIVERED', '2026-03-03T00:00:00.000Z')],
+  }
+
+  it('counts the return window from delivery, not the last update', () => {
+    assert.equal(getFulfilledAt(delivered), '2026-03-03T00:00:00.000Z')
+
+    const lastDay = new Date('2026-03-03T00:00:00.000Z')
+    lastDay.setDate(lastDay.getDate() + shopConfig.returnWindowDays)
+    assert.equal(canRequestReturn(delivered, lastDay), true)
+    assert.equal(canRequestReturn(delivered, new Date(lastDay.getTime() + 1)), false)
+  })
+
+  it('falls back to the last update for orders without a timeline', () => {
+    assert.equal(getFulfilledAt({ updatedAt: '2026-03-20T00:00:00.000Z', events: [] }), '2026-03-20T00:00:00.000Z')
+  })
+
+  it('only allows returns once the customer has the goods', () => {
+    assert.equal(canRequestReturn({ ...delivered, status: 'SHIPPED' }, new Date('2026-03-04T00:00:00.000Z')), false)
+  })
+})
+
+describe('getReturnableQuantity', () => {
+  const order = {
+    items: [{ id: 'line-1', quantity: 5, cancelledQuantity: 1 }],
+    returns: [
+      { orderItemId: 'line-1', status: 'APPROVED' as const, quantity: 2 },
+      { orderItemId: 'line-1', status: 'REJECTED' as const, quantity: 3 },
+    ],
+  }
+
+  it('subtracts cancelled units and open returns, but not rejected ones', () => {
+    assert.equal(getReturnableQuantity(order, 'line-1'), 2)
+  })
+
+  it('is 0 for lines that are not on the order', () => {
+    assert.equal(getReturnableQuantity(order, 'line-2'), 0)
+  })
+})
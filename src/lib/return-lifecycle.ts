@@ -0,0 +1,101 @@
+/**
+ * Return request lifecycle
+ * Defines when customers can open a return or exchange and which status changes
+ * an admin can make while processing one. Shared by the return repository
+ * (which enforces it) and the customer and admin UIs.
+ */
+
+import { shopConfig } from '@/config/shop'
+import type {
+  Order,
+  OrderEvent,
+  OrderItem,
+  OrderStatus,
+  ReturnRequest,
+  ReturnRequestStatus,
+  ReturnRequestType,
+} from './types'
+
+const TRANSITIONS: Record<ReturnRequestStatus, ReturnRequestStatus[]> = {
+  REQUESTED: ['APPROVED', 'REJECTED'],
+  APPROVED: ['RECEIVED', 'REJECTED'],
+  RECEIVED: ['REFUNDED', 'EXCHANGED'],
+  REJECTED: [],
+  REFUNDED: [],
+  EXCHANGED: [],
+}
+
+// Order statuses in which the customer has the goods
+export const RETURNABLE_ORDER_STATUSES: OrderStatus[] = ['DELIVERED', 'COLLECTED', 'FULFILLED']
+
+// Return statuses that hold units of the order line. Rejected requests release them and
+// refunded ones are counted in the line's cancelled quantity instead.
+export const HOLDING_RETURN_STATUSES: ReturnRequestStatus[] = ['REQUESTED', 'APPROVED', 'RECEIVED', 'EXCHANGED']
+
+/**
+ * Get the statuses a return request can move to next.
+ * Once the goods are back, returns finish as REFUNDED and exchanges as EXCHANGED.
+ */
+export function getAllowedReturnTransitions(
+  status: ReturnRequestStatus,
+  type: ReturnRequestType
+): ReturnRequestStatus[] {
+  const excluded: ReturnRequestStatus = type === 'RETURN' ? 'EXCHANGED' : 'REFUNDED'
+  return (TRANSITIONS[status] ?? []).filter((next) => next !== excluded)
+}
+
+/**
+ * Check whether a return request may move from one status to another
+ */
+export function canTransitionReturn(
+  from: ReturnRequestStatus,
+  to: ReturnRequestStatus,
+  type: ReturnRequestType
+): boolean {
+  return getAllowedReturnTransitions(from, type).includes(to)
+}
+
+/**
+ * When the customer received the order: the first delivery or collection event,
+ * falling back to the last update for orders fulfilled before the timeline existed
+ */
+export function getFulfilledAt(order: Pick<Order, 'updatedAt'> & { events: OrderEvent[] }): string {
+  const fulfilled = order.events.find((event) => RETURNABLE_ORDER_STATUSES.includes(event.toStatus))
+  return fulfilled?.createdAt ?? order.updatedAt
+}
+
+/**
+ * Whether the customer can still open a return or exchange on an order
+ */
+export function canRequestReturn(
+  order: Pick<Order, 'status' | 'updatedAt'> & { events: OrderEvent[] },
+  now: Date = new Date()
+): boolean {
+  if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+    return false
+  }
+
+  const deadline = new Date(getFulfilledAt(order))
+  deadline.setDate(deadline.getDate() + shopConfig.returnWindowDays)
+  return now <= deadline
+}
+
+/**
+ * How many units of an order line can still be returned or exchanged
+ */
+export function getReturnableQuantity(
+  order: {
+    items: Pick<OrderItem, 'id' | 'quantity' | 'cancelledQuantity'>[]
+    returns: Pick<ReturnRequest, 'orderItemId' | 'status' | 'quantity'>[]
+  },
+  orderItemId: string
+): number {
+  const item = order.items.find((i) => i.id === orderItemId)
+  if (!item) return 0
+
+  const held = order.returns
+    .filter((r) => r.orderItemId === orderItemId && HOLDING_RETURN_STATUSES.includes(r.status))
+    .reduce((sum, r) => sum + r.quantity, 0)
+
+  return Math.max(item.quantity - (item.cancelledQuantity ?? 0) - held, 0)
+}
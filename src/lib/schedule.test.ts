@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { shopConfig } from '@/config/shop'
+import { getScheduleState, getStoreDate, isStoreDate } from './schedule'
+
+describe('getStoreDate', () => {
+  it('gives the calendar date in the store’s timezone', () => {
+    const at = new Date('2026-03-01T20:00:00Z')
+    const expected = new Intl.DateTimeFormat('en-CA', { timeZone: shopConfig.timezone }).format(at)
+
+    assert.equal(getStoreDate(at), expected)
+    assert.match(getStoreDate(at), /^\d{4}-\d{2}-\d{2}$/)
+  })
+})
+
+describe('isStoreDate', () => {
+  it('accepts real YYYY-MM-DD dates only', () => {
+    assert.equal(isStoreDate('2026-02-28'), true)
+    assert.equal(isStoreDate('2026-13-01'), false)
+    assert.equal(isStoreDate('2026-2-28'), false)
+    assert.equal(isStoreDate('2026-02-28T00:00:00Z'), false)
+    assert.equal(isStoreDate(''), false)
+  })
+})
+
+describe('getScheduleState', () => {
+  const window = { startDate: '2026-03-01', endDate: '2026-03-31' }
+
+  it('is scheduled before the start date', () => {
+    assert.equal(getScheduleState(window, '2026-02-28'), 'scheduled')
+  })
+
+  it('is live on both end dates and between them', () => {
+    assert.equal(getScheduleState(window, '2026-03-01'), 'live')
+    assert.equal(getScheduleState(window, '2026-03-15'), 'live')
+    assert.equal(getScheduleState(window, '2026-03-31'), 'live')
+  })
+
+  it('is expired after the end date', () => {
+    assert.equal(getScheduleState(window, '2026-04-01'), 'expired')
+  })
+
+  it('leaves blank ends open', () => {
+    assert.equal(getScheduleState({}, '2026-03-15'), 'live')
+    assert.equal(getScheduleState({ startDate: '2026-03-01' }, '2099-01-01'), 'live')
+    assert.equal(getScheduleState({ endDate: '2026-03-31' }, '2000-01-01'), 'live')
+  })
+
+  it('compares only the date part of stored timestamps', () => {
+    assert.equal(getScheduleState({ endDate: '2026-03-31T00:00:00.000Z' }, '2026-03-31'), 'live')
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * Date-window scheduling for storefront content (promotional sections, hero slides).
+ * Windows are whole days (YYYY-MM-DD, both ends inclusive) in the store's timezone,
+ * so content goes live and expires at local midnight wherever the server runs.
+ */
+
+import { shopConfig } from '@/config/shop'
+
+export type ScheduleState = 'scheduled' | 'live' | 'expired'
+
+export interface DateWindow {
+  startDate?: string
+  endDate?: string
+}
+
+const STORE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * The calendar date (YYYY-MM-DD) in the store's timezone at the given moment
+ */
+export function getStoreDate(at: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: shopConfig.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(at)
+}
+
+/**
+ * Whether a value is a YYYY-MM-DD date (e.g. a preview date from the URL)
+ */
+export function isStoreDate(value: string): boolean {
+  return STORE_DATE_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime())
+}
+
+/**
+ * Where a date window stands on a given store date (today by default).
+ * Blank start or end dates leave that side of the window open.
+ */
+export function getScheduleState(window: DateWindow, storeDate: string = getStoreDate()): ScheduleState {
+  if (window.startDate && window.startDate.slice(0, 10) > storeDate) return 'scheduled'
+  if (window.endDate && window.endDate.slice(0, 10) < storeDate) return 'expired'
+  return 'live'
+}
+
+/**
+ * Cypher condition matching nodes whose window includes $storeDate
+ */
+export function scheduleCondition(alias: string): string {
+  return `(COALESCE(${alias}.startDate, '') = '' OR left(${alias}.startDate, 10) <= $storeDate)
+      AND (COALESCE(${alias}.endDate, '') = '' OR left(${alias}.endDate, 10) >= $storeDate)`
+}
@@ -32,6 +32,54 @@ export const constraints = [
   `CREATE CONSTRAINT order_number_unique IF NOT EXISTS
    FOR (o:Order) REQUIRE o.orderNumber IS UNIQUE`,
 
+  // One order number counter per prefix and year; MERGE relies on this to stay atomic
+  `CREATE CONSTRAINT order_counter_key_unique IF NOT EXISTS
+   FOR (c:OrderCounter) REQUIRE c.key IS UNIQUE`,
+
+  // Password reset and email verification tokens are looked up by their hash
+  `CREATE CONSTRAINT user_token_hash_unique IF NOT EXISTS
+   FOR (t:UserToken) REQUIRE t.tokenHash IS UNIQUE`,
+
+  // Signed-in sessions; every authenticated request looks one up by ID
+  `CREATE CONSTRAINT session_id_unique IF NOT EXISTS
+   FOR (s:Session) REQUIRE s.id IS UNIQUE`,
+
+  // Login attempt counters (when RATE_LIMIT_STORE=neo4j); MERGE relies on this to stay atomic
+  `CREATE CONSTRAINT rate_limit_key_unique IF NOT EXISTS
+   FOR (r:RateLimit) REQUIRE r.key IS UNIQUE`,
+
+  // Saved customer addresses
+  `CREATE CONSTRAINT address_id_unique IF NOT EXISTS
+   FOR (a:Address) REQUIRE a.id IS UNIQUE`,
+
+  // Admin audit log
+  `CREATE CONSTRAINT audit_event_id_unique IF NOT EXISTS
+   FOR (e:AuditEvent) REQUIRE e.id IS UNIQUE`,
+
+  // Order history: status changes, payment proof uploads, refunds and returns
+  `CREATE CONSTRAINT order_event_id_unique IF NOT EXISTS
+   FOR (e:OrderEvent) REQUIRE e.id IS UNIQUE`,
+
+  `CREATE CONSTRAINT payment_submission_id_unique IF NOT EXISTS
+   FOR (p:PaymentSubmission) REQUIRE p.id IS UNIQUE`,
+
+  `CREATE CONSTRAINT order_refund_id_unique IF NOT EXISTS
+   FOR (r:OrderRefund) REQUIRE r.id IS UNIQUE`,
+
+  `CREATE CONSTRAINT return_request_id_unique IF NOT EXISTS
+   FOR (r:ReturnRequest) REQUIRE r.id IS UNIQUE`,
+
+  // Coupons; codes are stored normalised, so this also rules out case-only duplicates
+  `CREATE CONSTRAINT coupon_id_unique IF NOT EXISTS
+   FOR (c:Coupon) REQUIRE c.id IS UNIQUE`,
+
+  `CREATE CONSTRAINT coupon_code_unique IF NOT EXISTS
+   FOR (c:Coupon) REQUIRE c.code IS UNIQUE`,
+
+  // Data migrations that have already been applied
+  `CREATE CONSTRAINT migration_id_unique IF NOT EXISTS
+   FOR (m:Migration) REQUIRE m.id IS UNIQUE`,
+
   // Category constraints
   `CREATE CONSTRAINT category_id_unique IF NOT EXISTS
    FOR (c:Category) REQUIRE c.id IS UNIQUE`,
@@ -82,8 +130,54 @@ export const indexes = [
 
   `CREATE INDEX heroslide_active IF NOT EXISTS
    FOR (h:HeroSlide) ON (h.isActive)`,
+
+  // AuditEvent indexes
+  `CREATE INDEX audit_event_created IF NOT EXISTS
+   FOR (e:AuditEvent) ON (e.createdAt)`,
+
+  `CREATE INDEX audit_event_entity IF NOT EXISTS
+   FOR (e:AuditEvent) ON (e.entityType, e.entityId)`,
+]
+
+// One-off data changes for existing databases. Each runs once, in order, and is
+// recorded as a Migration node so later runs skip it.
+export const migrations = [
+  {
+    id: 'backfill-email-verified-at',
+    description: 'Treat accounts created before email verification as verified',
+    // Accounts made since then always got a verification token, so leave those alone
+    query: `
+      MATCH (u:User)
+      WHERE u.emailVerifiedAt IS NULL
+        AND NOT EXISTS { (:UserToken {purpose: 'EMAIL_VERIFICATION'})-[:TOKEN_FOR]->(u) }
+      SET u.emailVerifiedAt = coalesce(u.createdAt, $now)
+    `,
+  },
 ]
 
+/**
+ * Apply any data migrations that haven't run against this database yet
+ */
+async function runMigrations(): Promise<void> {
+  const applied = await runQuery<{ id: string }>('MATCH (m:Migration) RETURN m.id as id')
+  const appliedIds = new Set(applied.map((migration) => migration.id))
+
+  for (const migration of migrations) {
+    if (appliedIds.has(migration.id)) {
+      continue
+    }
+
+    const now = new Date().toISOString()
+    await runQuery(migration.query, { now })
+    await runQuery('CREATE (:Migration {id: $id, description: $description, appliedAt: $now})', {
+      id: migration.id,
+      description: migration.description,
+      now,
+    })
+    console.log(`✓ Migration applied: ${migration.description}`)
+  }
+}
+
 /**
  * Initialize the database schema
  */
@@ -110,6 +204,8 @@ export async function initializeSchema(): Promise<void> {
     }
   }
 
+  await runMigrations()
+
   console.log('Schema initialization complete!')
 }
 
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  cartItemSchema,
+  imageUploadsSchema,
+  orderStatusUpdateSchema,
+  paymentProofSchema,
+  paymentRejectionSchema,
+  userPreferencesSchema,
+  userRoleSchema,
+} from './schemas'
+import { validateInput } from './validation'
+
+function file(type: string, size = 10) {
+  return new File([new Uint8Array(size)], 'upload', { type })
+}
+
+describe('cartItemSchema', () => {
+  it('accepts whole quantities of at least 1', () => {
+    const input = validateInput(cartItemSchema, { variantId: ' v1 ', quantity: 2 })
+    assert.deepEqual(input, { success: true, data: { variantId: 'v1', quantity: 2 } })
+  })
+
+  it('rejects fractional, NaN and zero quantities', () => {
+    for (const quantity of [1.5, Number.NaN, 0]) {
+      const input = validateInput(cartItemSchema, { variantId: 'v1', quantity })
+      assert.equal(input.success, false, `quantity ${quantity}`)
+      assert.ok(!input.success && input.response.fieldErrors?.quantity)
+    }
+  })
+})
+
+describe('userRoleSchema', () => {
+  it('only accepts known roles', () => {
+    assert.equal(validateInput(userRoleSchema, { userId: 'u1', role: 'ADMIN' }).success, true)
+
+    const input = validateInput(userRoleSchema, { userId: 'u1', role: 'SUPERUSER' })
+    assert.ok(!input.success)
+    assert.equal(input.response.message, 'Invalid role')
+  })
+})
+
+describe('orderStatusUpdateSchema', () => {
+  it('rejects unknown statuses and overlong notes', () => {
+    assert.equal(validateInput(orderStatusUpdateSchema, { status: 'SHIPPED', note: 'Tracking 123' }).success, true)
+    assert.equal(validateInput(orderStatusUpdateSchema, { status: 'LOST' }).success, false)
+    assert.equal(validateInput(orderStatusUpdateSchema, { status: 'SHIPPED', note: 'x'.repeat(1001) }).success, false)
+  })
+})
+
+describe('paymentRejectionSchema', () => {
+  it('requires a reason that is not just whitespace', () => {
+    const input = validateInput(paymentRejectionSchema, { reason: '   ' })
+    assert.ok(!input.success)
+    assert.equal(input.response.message, 'Please give a reason so the customer knows what to fix')
+  })
+})
+
+describe('upload schemas', () => {
+  it('accepts images and PDFs as payment proof', () => {
+    assert.equal(validateInput(paymentProofSchema, { paymentProof: file('application/pdf') }).success, true)
+    assert.equal(validateInput(paymentProofSchema, { paymentProof: file('text/html') }).success, false)
+    assert.equal(validateInput(paymentProofSchema, { paymentProof: null }).success, false)
+  })
+
+  it('limits file size and count', () => {
+    const tooLarge = validateInput(paymentProofSchema, { paymentProof: file('image/png', 5 * 1024 * 1024 + 1) })
+    assert.ok(!tooLarge.success)
+    assert.equal(tooLarge.response.message, 'File size exceeds 5MB limit')
+
+    assert.equal(validateInput(imageUploadsSchema, { files: [] }).success, false)
+    assert.equal(validateInput(imageUploadsSchema, { files: Array.from({ length: 11 }, () => file('image/png')) }).success, false)
+    assert.equal(validateInput(imageUploadsSchema, { files: [file('image/webp'), file('image/avif')] }).success, true)
+  })
+})
+
+describe('userPreferencesSchema', () => {
+  const preferences = {
+    preferredBrands: ['Acme'],
+    preferredColors: ['Blue'],
+    preferredCategories: ['SHIRT'],
+    priceRange: { min: 10, max: 50 },
+  }
+
+  it('accepts a valid set of preferences', () => {
+    assert.equal(validateInput(userPreferencesSchema, preferences).success, true)
+  })
+
+  it('rejects unknown categories and inverted price ranges', () => {
+    assert.equal(validateInput(userPreferencesSchema, { ...preferences, preferredCategories: ['HATS'] }).success, false)
+
+    const input = validateInput(userPreferencesSchema, { ...preferences, priceRange: { min: 50, max: 10 } })
+    assert.ok(!input.success)
+    assert.equal(input.response.fieldErrors?.['priceRange.max'], 'Maximum price must be at least the minimum')
+  })
+})
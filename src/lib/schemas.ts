@@ -0,0 +1,542 @@
+/**
+ * Input schemas
+ * One zod schema per server action input, shared by the action (through
+ * validateInput in lib/validation.ts) and the form that submits it. Messages are
+ * written to be shown next to the field they belong to.
+ */
+
+import { z } from 'zod'
+
+const SIZES = ['XS', 'S', 'M', 'L', 'XL', 'XXL'] as const
+const GENDERS = ['MEN', 'WOMEN', 'UNISEX'] as const
+const PRODUCT_CATEGORIES = ['SHIRT', 'PANTS', 'JACKET', 'DRESS', 'SHOES', 'ACCESSORIES'] as const
+const HERO_ANIMATION_TYPES = ['left-panel', 'top-left-round', 'top-right-panel', 'bottom-right-quarter'] as const
+const COUPON_DISCOUNT_TYPES = ['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING'] as const
+const REFUND_METHODS = ['BANK_TRANSFER', 'CASH', 'STORE_CREDIT', 'NONE'] as const
+const RETURN_REASONS = ['WRONG_SIZE', 'DAMAGED', 'NOT_AS_DESCRIBED', 'CHANGED_MIND', 'OTHER'] as const
+const RETURN_STATUSES = ['REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED', 'REFUNDED', 'EXCHANGED'] as const
+const ORDER_STATUSES = [
+  'PENDING',
+  'PAYMENT_SUBMITTED',
+  'PAYMENT_VERIFIED',
+  'PROCESSING',
+  'SHIPPED',
+  'READY_FOR_COLLECTION',
+  'DELIVERED',
+  'COLLECTED',
+  'CANCELLED',
+  'REFUNDED',
+  'CONFIRMED',
+  'FULFILLED',
+] as const
+const USER_ROLES = ['CUSTOMER', 'CATALOG_MANAGER', 'ORDER_FULFILMENT', 'CONTENT_EDITOR', 'ADMIN'] as const
+const IMAGE_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/bmp',
+  'image/tiff',
+  'image/svg+xml',
+  'image/avif',
+]
+const PAYMENT_PROOF_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf']
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024 // 5MB
+
+function requiredText(label: string, max = 200) {
+  return z
+    .string({ required_error: `${label} is required` })
+    .trim()
+    .min(1, `${label} is required`)
+    .max(max, `${label} must be ${max} characters or fewer`)
+}
+
+function optionalText(label: string, max = 200) {
+  return z.string().trim().max(max, `${label} must be ${max} characters or fewer`)
+}
+
+function price(label: string) {
+  return z
+    .number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+    .positive(`${label} must be more than 0`)
+}
+
+function measurement(label: string) {
+  return z
+    .number({ invalid_type_error: `${label} must be a number` })
+    .positive(`${label} must be more than 0`)
+    .max(500, `${label} looks too large`)
+    .optional()
+}
+
+function quantity(label: string, min = 1) {
+  return z
+    .number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+    .int(`${label} must be a whole number`)
+    .min(min, min === 0 ? `${label} cannot be negative` : `${label} must be at least ${min}`)
+}
+
+function uploadedFile(types: string[], typeMessage: string) {
+  return z
+    .instanceof(File, { message: 'No file provided' })
+    .refine((file) => types.includes(file.type), typeMessage)
+    .refine((file) => file.size <= MAX_UPLOAD_BYTES, 'File size exceeds 5MB limit')
+}
+
+function requiredId(label: string) {
+  return z.string({ required_error: `Choose a ${label}` }).trim().min(1, `Choose a ${label}`)
+}
+
+const email = z
+  .string({ required_error: 'Email is required' })
+  .trim()
+  .toLowerCase()
+  .email('Please provide a valid email address')
+
+const phone = z
+  .string({ required_error: 'Phone number is required' })
+  .trim()
+  .regex(/^\+?[\d\s()-]{7,20}$/, 'Enter a valid phone number')
+
+// Same rules as the hint on the signup and reset forms
+const newPassword = z
+  .string({ required_error: 'Password is required' })
+  .min(8, 'Password must be at least 8 characters long')
+  .max(200, 'Password must be 200 characters or fewer')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[0-9]/, 'Password must contain at least one number')
+
+// Calendar days as sent by date inputs; '' clears the date when updating
+const optionalDate = z
+  .string()
+  .regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Enter a date as YYYY-MM-DD')
+  .optional()
+
+function endsAfterStart(schedule: { startDate?: string; endDate?: string }): boolean {
+  return !schedule.startDate || !schedule.endDate || schedule.endDate >= schedule.startDate
+}
+
+const END_DATE_ISSUE = { message: 'End date must be on or after the start date', path: ['endDate'] }
+
+// Accounts
+
+/** signupAction */
+export const signupSchema = z.object({
+  email,
+  password: newPassword,
+  firstName: requiredText('First name', 50),
+  lastName: requiredText('Last name', 50),
+  phone: phone.optional().or(z.literal('')),
+})
+
+/** loginAction: only checks the shape; the password rules apply when it's set */
+export const loginSchema = z.object({
+  email,
+  password: z.string({ required_error: 'Password is required' }).min(1, 'Password is required'),
+})
+
+/** requestPasswordResetAction */
+export const passwordResetRequestSchema = z.object({ email })
+
+/** resetPasswordAction */
+/** makeUserAdmin (development only) */
+export const makeAdminSchema = z.object({ email })
+
+/** updateUserRoleAction */
+export const userRoleSchema = z.object({
+  userId: requiredId('user'),
+  role: z.enum(USER_ROLES, { message: 'Invalid role' }),
+})
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1, 'This reset link is invalid'),
+  password: newPassword,
+})
+
+// Products
+
+export const productVariantSchema = z.object({
+  size: z.enum(SIZES, { message: 'Choose a size' }),
+  color: requiredText('Color', 50),
+  stockQuantity: z
+    .number({ invalid_type_error: 'Stock must be a number' })
+    .int('Stock must be a whole number')
+    .min(0, 'Stock cannot be negative'),
+  images: z.array(z.string()).default([]),
+})
+
+export const productSchema = z.object({
+  name: requiredText('Name'),
+  description: optionalText('Description', 5000),
+  brand: requiredText('Brand', 100),
+  category: z.enum(PRODUCT_CATEGORIES).optional(),
+  gender: z.enum(GENDERS, { message: 'Choose a gender' }),
+  stockPrice: price('Stock price'),
+  retailPrice: price('Retail price'),
+  sku: requiredText('SKU', 100),
+  images: z.array(z.string().min(1)).max(20, 'Add at most 20 images'),
+})
+
+/** createProductAction: the product with its variants under `variants` */
+export const createProductSchema = productSchema.extend({
+  variants: z.array(productVariantSchema).min(1, 'Add at least one variant'),
+})
+
+/** updateProductAction: any of the product's fields */
+export const updateProductSchema = productSchema.partial()
+
+/** updateVariantAction: any of the variant's fields */
+export const updateVariantSchema = productVariantSchema.partial()
+
+/** Adding an image to a product or variant */
+export const productImageSchema = z.object({
+  imageUrl: z.string().trim().min(1, 'Choose an image').max(2000, 'Image address is too long'),
+})
+
+const imageFile = uploadedFile(
+  IMAGE_TYPES,
+  'Invalid file type. Only image files are allowed (JPEG, PNG, WebP, GIF, BMP, TIFF, SVG, AVIF).'
+)
+
+/** uploadImage */
+export const imageUploadSchema = z.object({ file: imageFile })
+
+/** uploadMultipleImages */
+export const imageUploadsSchema = z.object({
+  files: z
+    .array(imageFile)
+    .min(1, 'No files provided')
+    .max(10, 'Maximum 10 files can be uploaded at once'),
+})
+
+/** deleteImage */
+export const imageDeleteSchema = z.object({
+  fileUrl: requiredText('Image address', 2000),
+})
+
+// Cart
+
+/** addToCartAction */
+export const cartItemSchema = z.object({
+  variantId: requiredId('size and color'),
+  quantity: quantity('Quantity'),
+  promotionalCategoryId: z.string().trim().min(1).optional(),
+})
+
+/** updateCartItemAction */
+export const cartQuantitySchema = cartItemSchema.pick({ variantId: true, quantity: true })
+
+// Categories
+
+const categoryName = requiredText('Name', 100)
+
+/** createCategoryAction */
+export const createCategorySchema = z.object({
+  name: categoryName,
+  hierarchy: requiredText('Hierarchy', 50),
+  parentId: z.string().trim().min(1).nullable(),
+  isFeatured: z.boolean(),
+})
+
+/** updateCategoryAction */
+export const updateCategorySchema = z.object({
+  name: categoryName.optional(),
+  isActive: z.boolean().optional(),
+  isFeatured: z.boolean().optional(),
+})
+
+/** moveCategoryAction */
+export const moveCategorySchema = z.object({
+  categoryId: requiredId('category'),
+  newParentId: z.string().trim().min(1).nullable(),
+})
+
+/** assignProductToCategoriesAction */
+export const productCategoriesSchema = z.object({
+  productId: requiredId('product'),
+  categoryIds: z.array(z.string().trim().min(1)).max(50, 'Choose at most 50 categories'),
+})
+
+/** createColorAction */
+export const colorSchema = z.object({
+  name: requiredText('Color name', 50),
+  hex: z.string().trim().regex(/^#[0-9a-fA-F]{6}$/, 'Invalid hex color (must be #RRGGBB)'),
+})
+
+// Promotional categories (home page sections)
+
+const promotionalCategoryFields = z.object({
+  name: requiredText('Name', 100),
+  slug: z
+    .string({ required_error: 'Slug is required' })
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug can only contain lowercase letters, numbers and dashes'),
+  description: optionalText('Description', 500).optional(),
+  displayOrder: quantity('Display order', 0),
+  isActive: z.boolean().optional(),
+  startDate: optionalDate,
+  endDate: optionalDate,
+})
+
+/** createPromotionalCategoryAction */
+export const createPromotionalCategorySchema = promotionalCategoryFields.refine(endsAfterStart, END_DATE_ISSUE)
+
+/** updatePromotionalCategoryAction: any of the section's fields */
+export const updatePromotionalCategorySchema = promotionalCategoryFields
+  .partial()
+  .refine(endsAfterStart, END_DATE_ISSUE)
+
+/** Allocating stock of a product to a section */
+export const sectionAllocationSchema = z.object({
+  allocatedQuantity: quantity('Quantity', 0),
+})
+
+/** moveQuantityBetweenCategoriesAction */
+export const sectionTransferSchema = z
+  .object({
+    fromCategoryId: requiredId('section to move from'),
+    toCategoryId: requiredId('section to move to'),
+    quantity: quantity('Quantity'),
+  })
+  .refine((transfer) => transfer.fromCategoryId !== transfer.toCategoryId, {
+    message: 'Choose a different section to move to',
+    path: ['toCategoryId'],
+  })
+
+// Coupons
+
+function optionalLimit(label: string) {
+  return quantity(label).optional()
+}
+
+/** createCouponAction, updateCouponAction */
+export const couponSchema = z
+  .object({
+    code: z
+      .string({ required_error: 'Code is required' })
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z0-9_-]{3,32}$/, 'Code must be 3-32 characters: letters, numbers, dashes or underscores'),
+    description: optionalText('Description', 200).optional(),
+    discountType: z.enum(COUPON_DISCOUNT_TYPES, { message: 'Choose a discount type' }),
+    discountValue: z.number({ invalid_type_error: 'Discount value must be a number' }),
+    minimumSpend: z
+      .number({ invalid_type_error: 'Minimum spend must be a number' })
+      .min(0, 'Minimum spend cannot be negative')
+      .optional(),
+    usageLimit: optionalLimit('Total uses'),
+    perUserLimit: optionalLimit('Uses per customer'),
+    startsAt: z.string().datetime({ message: 'Enter a valid start date' }).optional(),
+    endsAt: z.string().datetime({ message: 'Enter a valid end date' }).optional(),
+    categoryIds: z.array(z.string().trim().min(1)).max(50, 'Choose at most 50 categories'),
+    brands: z.array(requiredText('Brand', 100)).max(50, 'Add at most 50 brands'),
+    isActive: z.boolean().optional(),
+  })
+  .superRefine((coupon, context) => {
+    if (coupon.discountType !== 'FREE_SHIPPING' && !(coupon.discountValue > 0)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['discountValue'],
+        message: 'Discount value must be greater than 0',
+      })
+    }
+    if (coupon.discountType === 'PERCENTAGE' && coupon.discountValue > 100) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['discountValue'],
+        message: 'Percentage discount cannot exceed 100%',
+      })
+    }
+    if (coupon.startsAt && coupon.endsAt && new Date(coupon.endsAt) <= new Date(coupon.startsAt)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['endsAt'],
+        message: 'End date must be after the start date',
+      })
+    }
+  })
+
+// Orders
+
+export const shippingAddressSchema = z.object({
+  fullName: requiredText('Full name', 100),
+  addressLine1: optionalText('Address', 200),
+  addressLine2: optionalText('Address line 2', 200).optional(),
+  city: optionalText('City', 100),
+  state: optionalText('State', 100),
+  postalCode: optionalText('Postal code', 20),
+  country: optionalText('Country', 100),
+  phone,
+})
+
+const SHIPPING_FIELDS = [
+  ['addressLine1', 'Address'],
+  ['city', 'City'],
+  ['state', 'State'],
+  ['postalCode', 'Postal code'],
+  ['country', 'Country'],
+] as const
+
+/** createOrderAction: the address is only needed in full when the order is shipped */
+export const createOrderSchema = z
+  .object({
+    shippingAddress: shippingAddressSchema,
+    deliveryMethod: z.enum(['SHIP', 'COLLECT'], { message: 'Choose a delivery method' }),
+    email: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .refine((value) => value === '' || z.string().email().safeParse(value).success, 'Enter a valid email address')
+      .optional(),
+  })
+  .superRefine((order, context) => {
+    if (order.deliveryMethod !== 'SHIP') return
+
+    for (const [field, label] of SHIPPING_FIELDS) {
+      if (!order.shippingAddress[field]) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['shippingAddress', field],
+          message: `${label} is required for delivery`,
+        })
+      }
+    }
+  })
+
+/** lookupGuestOrderAction */
+export const guestOrderLookupSchema = z.object({
+  orderNumber: requiredText('Order number', 50),
+  email,
+})
+
+/** updateAdminOrderStatusAction */
+export const orderStatusUpdateSchema = z.object({
+  status: z.enum(ORDER_STATUSES, { message: 'Choose a status' }),
+  note: optionalText('Note', 1000).optional(),
+})
+
+/** rejectPaymentProofAction */
+export const paymentRejectionSchema = z.object({
+  reason: z
+    .string({ required_error: 'Please give a reason so the customer knows what to fix' })
+    .trim()
+    .min(1, 'Please give a reason so the customer knows what to fix')
+    .max(500, 'Reason must be 500 characters or fewer'),
+})
+
+/** uploadPaymentProofAction */
+export const paymentProofSchema = z.object({
+  paymentProof: uploadedFile(PAYMENT_PROOF_TYPES, 'Invalid file type. Please upload an image or PDF.'),
+})
+
+/** refundOrderItemAction */
+export const orderRefundSchema = z.object({
+  orderItemId: requiredId('item'),
+  quantity: quantity('Quantity'),
+  amount: z
+    .number({ required_error: 'Refund amount is required', invalid_type_error: 'Refund amount must be a number' })
+    .min(0, 'Refund amount cannot be negative')
+    .multipleOf(0.01, 'Refund amount can have at most 2 decimal places'),
+  method: z.enum(REFUND_METHODS, { message: 'Choose a refund method' }),
+  reason: optionalText('Reason', 500).optional(),
+  restock: z.boolean(),
+})
+
+// Returns
+
+/** createReturnRequestAction */
+export const returnRequestSchema = z
+  .object({
+    orderItemId: requiredId('item'),
+    type: z.enum(['RETURN', 'EXCHANGE'], { message: 'Choose return or exchange' }),
+    reason: z.enum(RETURN_REASONS, { message: 'Choose a reason' }),
+    note: optionalText('Note', 1000).optional(),
+    quantity: quantity('Quantity'),
+    replacementVariantId: z.string().trim().min(1).optional(),
+  })
+  .refine((request) => request.type !== 'EXCHANGE' || !!request.replacementVariantId, {
+    message: 'Choose the size and color to exchange for',
+    path: ['replacementVariantId'],
+  })
+
+/** updateReturnStatusAction */
+export const returnStatusSchema = z.object({
+  status: z.enum(RETURN_STATUSES, { message: 'Choose a status' }),
+  refundAmount: z
+    .number({ invalid_type_error: 'Refund amount must be a number' })
+    .min(0, 'Refund amount cannot be negative')
+    .multipleOf(0.01, 'Refund amount can have at most 2 decimal places')
+    .optional(),
+  refundMethod: z.enum(REFUND_METHODS, { message: 'Choose a refund method' }).optional(),
+  note: optionalText('Note', 1000).optional(),
+})
+
+// Profile
+
+/** Saved addresses (createAddressAction, updateAddressAction): always complete enough to ship to */
+export const addressSchema = shippingAddressSchema.extend({
+  label: optionalText('Label', 50).optional(),
+  addressLine1: requiredText('Address', 200),
+  city: requiredText('City', 100),
+  state: requiredText('State', 100),
+  postalCode: requiredText('Postal code', 20),
+  country: requiredText('Country', 100),
+})
+
+/** updateUserPreferencesAction */
+export const userPreferencesSchema = z.object({
+  preferredBrands: z.array(requiredText('Brand', 100)).max(50, 'Choose up to 50 brands'),
+  preferredColors: z.array(requiredText('Color', 50)).max(50, 'Choose up to 50 colors'),
+  preferredCategories: z.array(z.enum(PRODUCT_CATEGORIES, { message: 'Choose a category' })),
+  priceRange: z
+    .object({
+      min: z.number({ invalid_type_error: 'Minimum price must be a number' }).min(0, 'Minimum price cannot be negative'),
+      max: z.number({ invalid_type_error: 'Maximum price must be a number' }).min(0, 'Maximum price cannot be negative'),
+    })
+    .refine((range) => range.min <= range.max, {
+      message: 'Maximum price must be at least the minimum',
+      path: ['max'],
+    }),
+})
+
+/** updateUserMeasurementsAction */
+export const userMeasurementsSchema = z.object({
+  chest: measurement('Chest'),
+  waist: measurement('Waist'),
+  hips: measurement('Hips'),
+  shoulders: measurement('Shoulders'),
+  inseam: measurement('Inseam'),
+  height: measurement('Height'),
+  weight: measurement('Weight'),
+  preferredSize: z.enum(SIZES, { message: 'Choose a size' }).optional(),
+  unit: z.enum(['METRIC', 'IMPERIAL'], { message: 'Choose a unit' }),
+})
+
+// Hero slides
+
+const heroSlideFields = z.object({
+  imageUrl: z.string().trim().min(1, 'Upload an image for the slide'),
+  animationType: z.enum(HERO_ANIMATION_TYPES, { message: 'Choose an animation' }),
+  colorTheme: z.enum(['light', 'dark'], { message: 'Choose a color theme' }).optional(),
+  badgeText: optionalText('Badge text', 50),
+  title: requiredText('Title', 100),
+  subtitle: optionalText('Subtitle', 200),
+  linkUrl: z
+    .string()
+    .trim()
+    // A second slash (or backslash) would make it a link to another site
+    .regex(/^(|\/(?![/\\]).*|https?:\/\/\S+)$/, 'Link must be a page on this site (starting with /) or a full web address')
+    .optional(),
+  displayOrder: z.number().int().min(0),
+  isActive: z.boolean().optional(),
+  startDate: optionalDate,
+  endDate: optionalDate,
+})
+
+/** createHeroSlideAction */
+export const createHeroSlideSchema = heroSlideFields.refine(endsAfterStart, END_DATE_ISSUE)
+
+/** updateHeroSlideAction: any of the slide's fields */
+export const updateHeroSlideSchema = heroSlideFields.partial().refine(endsAfterStart, END_DATE_ISSUE)
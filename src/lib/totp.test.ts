@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  base32Decode,
+  base32Encode,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotp,
+  getTotpStep,
+  verifyTotp,
+} from './totp'
+
+// The RFC 6238 appendix B secret ("12345678901234567890"), base32 encoded
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+// RFC 6238 appendix B SHA1 test vectors, truncated to our 6 digits
+const VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+]
+
+describe('base32', () => {
+  it('round-trips bytes', () => {
+    const data = Buffer.from('12345678901234567890')
+    assert.equal(base32Encode(data), SECRET)
+    assert.deepEqual(base32Decode(SECRET), data)
+  })
+
+  it('ignores case, spaces and padding', () => {
+    assert.deepEqual(base32Decode('gezd gnbv===='), base32Decode('GEZDGNBV'))
+  })
+
+  it('rejects characters outside the alphabet', () => {
+    assert.throws(() => base32Decode('GEZD1'), /Invalid base32 character/)
+  })
+})
+
+describe('generateTotp', () => {
+  for (const [seconds, code] of VECTORS) {
+    it(`matches the RFC 6238 vector at ${seconds}s`, () => {
+      assert.equal(generateTotp(SECRET, getTotpStep(new Date(seconds * 1000))), code)
+    })
+  }
+})
+
+describe('verifyTotp', () => {
+  const at = new Date(1111111111 * 1000)
+
+  it('returns the matching time step', () => {
+    assert.equal(verifyTotp(SECRET, '050471', at), getTotpStep(at))
+    assert.equal(verifyTotp(SECRET, '050 471', at), getTotpStep(at))
+  })
+
+  it('accepts codes from one step either side', () => {
+    assert.equal(verifyTotp(SECRET, '050471', new Date(at.getTime() + 30_000)), getTotpStep(at))
+    assert.equal(verifyTotp(SECRET, '050471', new Date(at.getTime() + 60_000)), null)
+  })
+
+  it('rejects wrong and malformed codes', () => {
+    assert.equal(verifyTotp(SECRET, '123456', at), null)
+    assert.equal(verifyTotp(SECRET, '50471', at), null)
+    assert.equal(verifyTotp(SECRET, 'abcdef', at), null)
+  })
+})
+
+describe('secret encryption', () => {
+  it('round-trips and uses a fresh IV each time', () => {
+    const first = encryptTotpSecret(SECRET)
+    assert.notEqual(first, encryptTotpSecret(SECRET))
+    assert.equal(decryptTotpSecret(first), SECRET)
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getTotpUri } from './totp'
+import { renderEnrolmentQrCode } from './two-factor'
+
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+async function renderSvg(uri: string) {
+  const dataUrl = await renderEnrolmentQrCode(uri)
+  const prefix = 'data:image/svg+xml;base64,'
+  assert.ok(dataUrl.startsWith(prefix))
+  return Buffer.from(dataUrl.slice(prefix.length), 'base64').toString()
+}
+
+// Modules across, including the four-module quiet zone on each side
+function getSize(svg: string): number {
+  const match = svg.match(/viewBox="0 0 (\d+) \1"/)
+  assert.ok(match, 'SVG has a square viewBox')
+  return Number(match[1])
+}
+
+describe('renderEnrolmentQrCode', () => {
+  it('draws a typical enrolment link as a small code', async () => {
+    const svg = await renderSvg(getTotpUri(SECRET, 'owner@example.com', 'LOCKED'))
+    assert.match(svg, /^<svg /)
+    // About 130 bytes fits version 7 at level M: 45 modules plus the quiet zone
+    assert.equal(getSize(svg), 45 + 8)
+  })
+
+  it('handles long emails and shop names by using a larger version', async () => {
+    const uri = getTotpUri(SECRET, `${'a'.repeat(200)}@example.com`, 'A Very Long Shop Name (Pvt) Ltd')
+    assert.ok(Buffer.byteLength(uri) > 300)
+
+    // Beyond version 10 (57 modules), which tops out at 213 bytes
+    assert.ok(getSize(await renderSvg(uri)) > 57 + 8)
+  })
+
+  it('encodes non-ASCII account names', async () => {
+    const svg = await renderSvg(getTotpUri(SECRET, 'නිමල්@example.com', 'LOCKED'))
+    assert.ok(getSize(svg) > 0)
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Two-factor authentication
+ * Any user can protect their account with an authenticator app (TOTP); owners
+ * must (see requiresTwoFactor). Enrolment shows a QR code for the app and only
+ * takes effect once a code from it has been checked. It also hands out single-use
+ * recovery codes for when the app is lost, of which only hashes are kept.
+ */
+
+import { randomBytes } from 'crypto'
+import QRCode from 'qrcode'
+import { shopConfig } from '@/config/shop'
+import { hashToken } from './auth'
+import {
+  consumeRecoveryCode,
+  enableTwoFactor,
+  getTwoFactorState,
+  replaceRecoveryCodes,
+  setPendingTotpSecret,
+  claimTotpStep,
+} from './repositories/two-factor.repository'
+import {
+  base32Encode,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotpSecret,
+  getTotpUri,
+  verifyTotp,
+} from './totp'
+import type { User } from './types'
+
+const RECOVERY_CODE_COUNT = 10
+
+export interface TwoFactorEnrolment {
+  /** For typing into the app by hand when the QR code can't be scanned */
+  secret: string
+  uri: string
+  /** The URI as a QR code image (data: URL) */
+  qrCode: string
+}
+
+// Recovery codes are 10 base32 characters (50 bits) shown as two groups of five
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase()
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[^a-z2-7]/g, ''))
+}
+
+/**
+ * An enrolment URI as a QR code image (data: URL). Long emails or shop names only
+ * make the code denser; the secret is shown alongside it for typing in by hand.
+ */
+export async function renderEnrolmentQrCode(uri: string): Promise<string> {
+  const svg = await QRCode.toString(uri, { type: 'svg', errorCorrectionLevel: 'M', margin: 4 })
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`
+}
+
+/**
+ * Start enrolling: create a secret and show it to the user as a QR code
+ */
+export async function beginTwoFactorEnrolment(user: Pick<User, 'id' | 'email'>): Promise<TwoFactorEnrolment> {
+  const secret = generateTotpSecret()
+  await setPendingTotpSecret(user.id, encryptTotpSecret(secret))
+
+  const uri = getTotpUri(secret, user.email, shopConfig.name)
+  const qrCode = await renderEnrolmentQrCode(uri)
+
+  return { secret, uri, qrCode }
+}
+
+/**
+ * Finish enrolling with a code from the app. Returns the recovery codes, which
+ * can't be shown again, or null if the code is wrong.
+ */
+export async function confirmTwoFactorEnrolment(userId: string, code: string): Promise<string[] | null> {
+  const state = await getTwoFactorState(userId)
+  if (!state?.pendingSecret) return null
+
+  const step = verifyTotp(decryptTotpSecret(state.pendingSecret), code)
+  if (step === null) return null
+
+  const recoveryCodes = generateRecoveryCodes()
+  const enabled = await enableTwoFactor(userId, state.pendingSecret, step, recoveryCodes.map(hashRecoveryCode))
+
+  return enabled ? recoveryCodes : null
+}
+
+/**
+ * Check a code from the app, or a recovery code (which is then used up)
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  const state = await getTwoFactorState(userId)
+  if (!state?.secret) return false
+
+  // App codes are digits only; anything else is taken as a recovery code
+  if (!/^[\d\s]+$/.test(code)) {
+    return consumeRecoveryCode(userId, hashRecoveryCode(code))
+  }
+
+  const step = verifyTotp(decryptTotpSecret(state.secret), code)
+  return step !== null && (await claimTotpStep(userId, step))
+}
+
+/**
+ * Issue a fresh set of recovery codes; the old ones stop working
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes()
+  await replaceRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode))
+  return recoveryCodes
+}
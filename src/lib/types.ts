@@ -3,10 +3,28 @@ export interface ActionResponse<T = void> {
   success: boolean
   message?: string
   data?: T
+  /** Input problems by field path (e.g. `shippingAddress.city`), for showing next to the fields */
+  fieldErrors?: FieldErrors
 }
 
+export type FieldErrors = Record<string, string>
+
 // User types
-export type UserRole = 'CUSTOMER' | 'ADMIN'
+// ADMIN is the shop owner with full access; the other staff roles each get part
+// of the admin area (see lib/permissions.ts)
+export type UserRole = 'CUSTOMER' | 'ADMIN' | 'CATALOG_MANAGER' | 'ORDER_FULFILMENT' | 'CONTENT_EDITOR'
+
+// Something a staff member can do in the admin area
+export type Permission =
+  | 'MANAGE_PRODUCTS' // Products, variants, prices, images and colors
+  | 'VIEW_INVENTORY'
+  | 'MANAGE_CATEGORIES'
+  | 'MANAGE_ORDERS' // Order status, payment review and refunds
+  | 'MANAGE_RETURNS'
+  | 'MANAGE_CONTENT' // Hero slides and promotional sections
+  | 'MANAGE_COUPONS'
+  | 'MANAGE_USERS'
+  | 'VIEW_AUDIT_LOG'
 
 export interface User {
   id: string
@@ -15,17 +33,22 @@ export interface User {
   firstName: string
   lastName: string
   phone?: string
+  emailVerifiedAt?: string // Set once the user follows the link in their verification email
+  lockedUntil?: string // Sign-in is refused until then after too many failed attempts
+  twoFactorEnabledAt?: string // Set while sign-in also needs a code from an authenticator app
   createdAt: string
   updatedAt: string
 }
 
+// What a single-use emailed token lets its holder do
+export type UserTokenPurpose = 'PASSWORD_RESET' | 'EMAIL_VERIFICATION'
+
 export interface CreateUserInput {
   email: string
   password: string
   firstName: string
   lastName: string
   phone?: string
-  role?: UserRole
 }
 
 // Auth types
@@ -38,12 +61,30 @@ export interface AuthResponse {
   success: boolean
   message?: string
   user?: User
+  /** The password was right; sign-in continues once a two-factor code is given */
+  twoFactorRequired?: boolean
+  /** The password was right, but the account must enrol in two-factor before signing in */
+  twoFactorSetupRequired?: boolean
+  fieldErrors?: FieldErrors
 }
 
 export interface JWTPayload {
   userId: string
   email: string
   role: UserRole
+  sessionId: string // Server-side session the token belongs to; revoking it ends the token
+}
+
+// A signed-in device; tokens are only honoured while their session is active
+export interface UserSession {
+  id: string
+  userId: string
+  userAgent?: string
+  ipAddress?: string
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string
+  revokedAt?: string
 }
 
 // Product types
@@ -76,18 +117,38 @@ export interface ProductVariant {
 }
 
 // Order types
-export type OrderStatus = 'PENDING' | 'CONFIRMED' | 'FULFILLED' | 'CANCELLED'
+export type OrderStatus =
+  | 'PENDING'
+  | 'PAYMENT_SUBMITTED'
+  | 'PAYMENT_VERIFIED'
+  | 'PROCESSING'
+  | 'SHIPPED'
+  | 'READY_FOR_COLLECTION'
+  | 'DELIVERED'
+  | 'COLLECTED'
+  | 'CANCELLED'
+  | 'REFUNDED'
+  | 'CONFIRMED' // Legacy: orders confirmed before the lifecycle existed
+  | 'FULFILLED' // Legacy: orders fulfilled before the lifecycle existed
 export type DeliveryMethod = 'SHIP' | 'COLLECT'
 
 export interface Order {
   id: string
   orderNumber: string
-  userId: string
+  userId?: string // Unset for guest orders until the guest signs up
+  guestEmail?: string // Checkout email for guest orders
   status: OrderStatus
-  totalAmount: number
+  subtotal?: number // Price breakdown; absent on orders placed before the pricing engine
+  discountAmount?: number
+  couponCode?: string // Coupon applied at checkout, if any
+  shippingCost?: number
+  taxAmount?: number
+  totalAmount: number // What the customer owes after any line-item refunds
+  refundedAmount?: number // Sum of line-item refunds already taken off totalAmount
   shippingAddress: ShippingAddress
   deliveryMethod: DeliveryMethod
-  paymentProof?: string
+  locale?: string // Language the customer checked out in; used for their order emails
+  paymentProof?: string // Private storage key of the latest proof (public URL on older orders)
   createdAt: string
   updatedAt: string
 }
@@ -103,12 +164,160 @@ export interface ShippingAddress {
   phone: string
 }
 
+// A saved address in a customer's address book; checkout copies it onto the order
+export interface Address extends ShippingAddress {
+  id: string
+  userId: string
+  label?: string // e.g. "Home" or "Work"
+  isDefault: boolean // Preselected at checkout; each address book has exactly one
+  createdAt: string
+  updatedAt: string
+}
+
+// Who performed an order status change (null actor = system); guests are identified by email
+export interface OrderActor {
+  userId?: string
+  email: string
+  role: UserRole | 'GUEST'
+}
+
+export interface OrderEvent {
+  id: string
+  orderId: string
+  fromStatus?: OrderStatus // Absent on the event recorded when the order is placed
+  toStatus: OrderStatus
+  actorId?: string
+  actorEmail?: string
+  actorRole?: OrderActor['role']
+  note?: string
+  createdAt: string
+}
+
+export type PaymentSubmissionStatus = 'PENDING_REVIEW' | 'APPROVED' | 'REJECTED'
+
+// One uploaded payment proof; every upload is kept for the order's payment history
+export interface PaymentSubmission {
+  id: string
+  orderId: string
+  fileKey: string // Object key in the private bucket; read it through a signed URL
+  fileType: string
+  status: PaymentSubmissionStatus
+  rejectionReason?: string
+  submittedAt: string
+  reviewedAt?: string
+  reviewedBy?: string
+}
+
 export interface OrderItem {
   id: string
   orderId: string
   variantId: string
   quantity: number
   priceAtPurchase: number
+  cancelledQuantity?: number // Units cancelled or refunded after the order was placed
+}
+
+export type RefundMethod = 'BANK_TRANSFER' | 'CASH' | 'STORE_CREDIT' | 'NONE'
+
+// Cancellation of some or all units of one order line, with the money given back for it
+export interface OrderRefund {
+  id: string
+  orderId: string
+  orderItemId: string
+  quantity: number
+  amount: number
+  method: RefundMethod // NONE when nothing was paid for the cancelled units
+  restocked: boolean
+  reason?: string
+  actorEmail?: string
+  createdAt: string
+}
+
+export interface OrderRefundInput {
+  orderItemId: string
+  quantity: number
+  amount: number
+  method: RefundMethod
+  reason?: string
+  /** Return the units to stock (always done while the order hasn't been dispatched) */
+  restock: boolean
+}
+
+// Returns and exchanges (RMA) for fulfilled orders
+export type ReturnRequestType = 'RETURN' | 'EXCHANGE'
+export type ReturnRequestStatus =
+  | 'REQUESTED'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'RECEIVED'
+  | 'REFUNDED'
+  | 'EXCHANGED'
+export type ReturnReason = 'WRONG_SIZE' | 'DAMAGED' | 'NOT_AS_DESCRIBED' | 'CHANGED_MIND' | 'OTHER'
+
+export interface ReturnRequest {
+  id: string
+  orderId: string
+  orderItemId: string
+  type: ReturnRequestType
+  status: ReturnRequestStatus
+  reason: ReturnReason
+  note?: string // Customer's explanation
+  quantity: number
+  replacementVariantId?: string // Exchanges only; always a variant of the same product
+  replacementSize?: string
+  replacementColor?: string
+  refundAmount?: number // Set when a return is refunded
+  refundMethod?: RefundMethod
+  adminNote?: string // Latest note from the admin (shown to the customer)
+  requestedBy: string // Email of the customer or guest who opened it
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ReturnRequestInput {
+  orderItemId: string
+  type: ReturnRequestType
+  reason: ReturnReason
+  note?: string
+  quantity: number
+  replacementVariantId?: string
+}
+
+// Coupons
+export type CouponDiscountType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_SHIPPING'
+
+export interface Coupon {
+  id: string
+  code: string // Stored uppercase; matched case-insensitively
+  description?: string
+  discountType: CouponDiscountType
+  discountValue: number // Percent for PERCENTAGE, Rs for FIXED_AMOUNT, unused for FREE_SHIPPING
+  minimumSpend?: number
+  usageLimit?: number // Total redemptions across all customers
+  perUserLimit?: number // Redemptions per customer (or guest email)
+  usageCount: number // Redemptions on orders that weren't cancelled
+  startsAt?: string
+  endsAt?: string
+  categoryIds: string[] // Only products in these category subtrees (empty = any)
+  brands: string[] // Only products of these brands (empty = any)
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CouponInput {
+  code: string
+  description?: string
+  discountType: CouponDiscountType
+  discountValue: number
+  minimumSpend?: number
+  usageLimit?: number
+  perUserLimit?: number
+  startsAt?: string
+  endsAt?: string
+  categoryIds: string[]
+  brands: string[]
+  isActive?: boolean
 }
 
 // Cart types
@@ -118,6 +327,8 @@ export interface CartItem {
   variantId: string
   quantity: number
   addedAt: string
+  /** Promotional section the item was added from; its sale counts against that section's allocation */
+  promotionalCategoryId?: string
 }
 
 // User preferences and measurements
@@ -172,6 +383,10 @@ export interface HeroSlide {
   linkUrl?: string
   displayOrder: number
   isActive: boolean
+  /** First day shown (YYYY-MM-DD, store timezone) */
+  startDate?: string
+  /** Last day shown (inclusive) */
+  endDate?: string
   createdAt: string
   updatedAt: string
 }
@@ -199,3 +414,46 @@ export interface PromotionalCategoryItem {
   isActive: boolean
   addedAt: string
 }
+
+// Admin audit log
+export type AuditEntityType =
+  | 'PRODUCT'
+  | 'VARIANT'
+  | 'CATEGORY'
+  | 'PROMOTIONAL_CATEGORY'
+  | 'HERO_SLIDE'
+  | 'COLOR'
+  | 'COUPON'
+  | 'IMAGE'
+  | 'ORDER'
+  | 'RETURN'
+  | 'USER'
+
+export interface AuditChange {
+  field: string
+  before?: unknown // Absent when the field was added
+  after?: unknown // Absent when the field was removed
+}
+
+// One change made through an admin action. Events are only ever appended.
+export interface AuditEvent {
+  id: string
+  actorId: string
+  actorEmail: string
+  actorRole: UserRole
+  action: string // e.g. 'product.update', 'order.status'
+  entityType: AuditEntityType
+  entityId: string
+  entityLabel?: string // Human-readable name at the time, e.g. the product name or order number
+  changes: AuditChange[]
+  storeDate: string // YYYY-MM-DD in the store's timezone, for date filtering
+  createdAt: string
+}
+
+export interface AuditEventFilters {
+  entityType?: AuditEntityType
+  entityId?: string
+  actorId?: string
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+}
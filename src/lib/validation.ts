@@ -0,0 +1,54 @@
+/**
+ * Input validation
+ * Server actions check their input against a schema from lib/schemas.ts before
+ * doing anything with it, and report problems per field in ActionResponse. Forms
+ * run the same schemas with checkInput to show the errors before submitting.
+ */
+
+import type { ZodError, ZodTypeAny, output } from 'zod'
+import type { ActionResponse, FieldErrors } from './types'
+
+/**
+ * The first problem with each field, keyed by its path
+ */
+export function getFieldErrors(error: ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {}
+  for (const issue of error.issues) {
+    const path = issue.path.join('.')
+    if (!(path in fieldErrors)) {
+      fieldErrors[path] = issue.message
+    }
+  }
+  return fieldErrors
+}
+
+/**
+ * Check a form's values: returns the errors to show, or null if they're valid
+ */
+export function checkInput(schema: ZodTypeAny, input: unknown): FieldErrors | null {
+  const result = schema.safeParse(input)
+  return result.success ? null : getFieldErrors(result.error)
+}
+
+/**
+ * The shared input check for server actions: returns the parsed (trimmed, normalised)
+ * input, or a failed response to send back listing what is wrong with each field
+ */
+export function validateInput<T extends ZodTypeAny>(
+  schema: T,
+  input: unknown
+): { success: true; data: output<T> } | { success: false; response: ActionResponse<never> } {
+  const result = schema.safeParse(input)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  return {
+    success: false,
+    response: {
+      success: false,
+      message: result.error.issues[0]?.message || 'Please check the form and try again',
+      fieldErrors: getFieldErrors(result.error),
+    },
+  }
+}
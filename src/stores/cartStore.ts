@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import type { CartItemWithDetails } from '@/lib/repositories/cart.repository'
+import { quoteCart, type PriceQuote } from '@/lib/pricing'
 import {
   addToCartAction,
   removeFromCartAction,
@@ -7,12 +8,17 @@ import {
   getCartItemsAction,
   clearCartAction,
 } from '@/app/actions/cart'
+import { applyCouponAction, removeCouponAction } from '@/app/actions/coupons'
 
 interface CartStore {
   // State
   items: CartItemWithDetails[]
   itemCount: number
   total: number
+  quote: PriceQuote | null
+  couponError: string | null
+  /** Why the last add to cart failed, when the server said */
+  addError: string | null
 
   // Loading states
   isAdding: boolean
@@ -22,10 +28,12 @@ interface CartStore {
 
   // Actions
   loadCart: () => Promise<void>
-  addToCart: (variantId: string, quantity?: number) => Promise<boolean>
+  addToCart: (variantId: string, quantity?: number, promotionalCategoryId?: string) => Promise<boolean>
   updateQuantity: (variantId: string, quantity: number) => Promise<boolean>
   removeFromCart: (variantId: string) => Promise<boolean>
   clearCart: () => Promise<boolean>
+  applyCoupon: (code: string) => Promise<{ success: boolean; message?: string }>
+  removeCoupon: () => Promise<boolean>
 }
 
 export const useCartStore = create<CartStore>((set, get) => ({
@@ -33,6 +41,9 @@ export const useCartStore = create<CartStore>((set, get) => ({
   items: [],
   itemCount: 0,
   total: 0,
+  quote: null,
+  couponError: null,
+  addError: null,
   isAdding: false,
   isUpdating: false,
   isRemoving: false,
@@ -48,6 +59,8 @@ export const useCartStore = create<CartStore>((set, get) => ({
           items: result.data.items,
           itemCount: result.data.itemCount,
           total: result.data.total,
+          quote: result.data.quote,
+          couponError: result.data.couponError ?? null,
         })
       }
     } catch (error) {
@@ -58,14 +71,14 @@ export const useCartStore = create<CartStore>((set, get) => ({
   },
 
   // Add item to cart with optimistic update
-  addToCart: async (variantId: string, quantity = 1) => {
-    set({ isAdding: true })
+  addToCart: async (variantId: string, quantity = 1, promotionalCategoryId?: string) => {
+    set({ isAdding: true, addError: null })
 
     // Optimistic update - we'll update the actual count after server response
     // For now, we just show loading state
 
     try {
-      const result = await addToCartAction(variantId, quantity)
+      const result = await addToCartAction(variantId, quantity, promotionalCategoryId)
 
       if (result.success) {
         // Reload cart to get updated state
@@ -75,10 +88,13 @@ export const useCartStore = create<CartStore>((set, get) => ({
             items: cartResult.data.items,
             itemCount: cartResult.data.itemCount,
             total: cartResult.data.total,
+            quote: cartResult.data.quote,
+            couponError: cartResult.data.couponError ?? null,
           })
         }
         return true
       }
+      set({ addError: result.message ?? null })
       return false
     } catch (error) {
       console.error('Failed to add to cart:', error)
@@ -93,22 +109,20 @@ export const useCartStore = create<CartStore>((set, get) => ({
     set({ isUpdating: true })
 
     // Optimistic update - update local state immediately
-    const currentItems = get().items
+    const { items: currentItems, total: currentTotal, quote: currentQuote } = get()
     const optimisticItems = currentItems.map(item =>
       item.variantId === variantId
         ? { ...item, quantity }
         : item
     )
 
-    // Recalculate totals optimistically
-    const optimisticTotal = optimisticItems.reduce(
-      (sum, item) => sum + item.product.stockPrice * quantity,
-      0
-    )
+    // Recalculate totals optimistically with the same pricing engine the server uses
+    const optimisticQuote = quoteCart(optimisticItems, 'SHIP', currentQuote?.coupon ?? null)
 
     set({
       items: optimisticItems,
-      total: optimisticTotal,
+      total: optimisticQuote.subtotal,
+      quote: optimisticQuote,
     })
 
     try {
@@ -122,18 +136,20 @@ export const useCartStore = create<CartStore>((set, get) => ({
             items: cartResult.data.items,
             itemCount: cartResult.data.itemCount,
             total: cartResult.data.total,
+            quote: cartResult.data.quote,
+            couponError: cartResult.data.couponError ?? null,
           })
         }
         return true
       } else {
         // Revert optimistic update on failure
-        set({ items: currentItems, total: get().total })
+        set({ items: currentItems, total: currentTotal, quote: currentQuote })
         return false
       }
     } catch (error) {
       console.error('Failed to update cart:', error)
       // Revert optimistic update on error
-      set({ items: currentItems, total: get().total })
+      set({ items: currentItems, total: currentTotal, quote: currentQuote })
       return false
     } finally {
       set({ isUpdating: false })
@@ -145,19 +161,22 @@ export const useCartStore = create<CartStore>((set, get) => ({
     set({ isRemoving: true })
 
     // Optimistic update - remove item immediately
-    const currentItems = get().items
+    const {
+      items: currentItems,
+      itemCount: currentItemCount,
+      total: currentTotal,
+      quote: currentQuote,
+    } = get()
     const optimisticItems = currentItems.filter(item => item.variantId !== variantId)
 
-    // Recalculate totals optimistically
-    const optimisticTotal = optimisticItems.reduce(
-      (sum, item) => sum + item.product.stockPrice * item.quantity,
-      0
-    )
+    // Recalculate totals optimistically with the same pricing engine the server uses
+    const optimisticQuote = quoteCart(optimisticItems, 'SHIP', currentQuote?.coupon ?? null)
 
     set({
       items: optimisticItems,
-      itemCount: optimisticItems.reduce((sum, item) => sum + item.quantity, 0),
-      total: optimisticTotal,
+      itemCount: optimisticQuote.itemCount,
+      total: optimisticQuote.subtotal,
+      quote: optimisticQuote,
     })
 
     try {
@@ -168,13 +187,13 @@ export const useCartStore = create<CartStore>((set, get) => ({
         return true
       } else {
         // Revert optimistic update on failure
-        set({ items: currentItems, itemCount: get().itemCount, total: get().total })
+        set({ items: currentItems, itemCount: currentItemCount, total: currentTotal, quote: currentQuote })
         return false
       }
     } catch (error) {
       console.error('Failed to remove from cart:', error)
       // Revert optimistic update on error
-      set({ items: currentItems, itemCount: get().itemCount, total: get().total })
+      set({ items: currentItems, itemCount: currentItemCount, total: currentTotal, quote: currentQuote })
       return false
     } finally {
       set({ isRemoving: false })
@@ -193,6 +212,8 @@ export const useCartStore = create<CartStore>((set, get) => ({
           items: [],
           itemCount: 0,
           total: 0,
+          quote: null,
+          couponError: null,
         })
         return true
       }
@@ -204,4 +225,32 @@ export const useCartStore = create<CartStore>((set, get) => ({
       set({ isLoading: false })
     }
   },
+
+  // Apply a coupon code, then reload the cart so the quote includes it
+  applyCoupon: async (code: string) => {
+    try {
+      const result = await applyCouponAction(code)
+      if (result.success) {
+        await get().loadCart()
+      }
+      return { success: result.success, message: result.message }
+    } catch (error) {
+      console.error('Failed to apply coupon:', error)
+      return { success: false, message: 'Failed to apply coupon' }
+    }
+  },
+
+  // Remove the applied coupon
+  removeCoupon: async () => {
+    try {
+      const result = await removeCouponAction()
+      if (result.success) {
+        await get().loadCart()
+      }
+      return result.success
+    } catch (error) {
+      console.error('Failed to remove coupon:', error)
+      return false
+    }
+  },
 }))